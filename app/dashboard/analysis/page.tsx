@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { isAuthenticated } from '@/lib/auth';
-import { assessmentAPI, analyticsAPI, exchangeRateAPI, portfolioAPI, settingsAPI, stockAPI, getErrorMessage } from '@/lib/api';
+import { assessmentAPI, analyticsAPI, exchangeRateAPI, portfolioAPI, settingsAPI, stockAPI, getErrorMessage, invalidateCache } from '@/lib/api';
 import type { AssessmentRequest, AssessmentResponse, AssessmentCompareRow, TopLoser, MoverData } from '@/lib/api';
 import type { Stock, PortfolioMetrics, PortfolioUnits } from '@/lib/api';
 import {
@@ -15,10 +15,18 @@ import {
   formatSuggestedActionsHintText,
 } from '@/lib/portfolioInsights';
 import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
 import PortfolioOverviewSection from '@/components/PortfolioOverviewSection';
 import RebalanceHint from '@/components/RebalanceHint';
 import RiskCard from '@/components/RiskCard';
 import SuggestedActions from '@/components/SuggestedActions';
+import RebalancePlanner from '@/components/RebalancePlanner';
+import ReturnsCard from '@/components/ReturnsCard';
+import MonteCarloCard from '@/components/MonteCarloCard';
+import CorrelationCard from '@/components/CorrelationCard';
+import KellyOptimizer from '@/components/KellyOptimizer';
+import CurrencyExposureCard from '@/components/CurrencyExposureCard';
+import AddOperationModal, { type AddOperationInitialValues } from '@/components/AddOperationModal';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import {
@@ -78,12 +86,14 @@ function MoverCard({ title, items, valueKey, positive }: { title: string; items:
 
 export default function AnalysisPage() {
   const router = useRouter();
-  const { targetPctBySector } = useSectorTargetsContext();
+  const { targetPctBySector, cashTarget } = useSectorTargetsContext();
+  const { portfolioId } = usePortfolioContext();
 
   const [portfolioMetrics, setPortfolioMetrics] = useState<PortfolioMetrics | null>(null);
   const [portfolioStocks, setPortfolioStocks] = useState<Stock[]>([]);
   const [portfolioUnits, setPortfolioUnits] = useState<PortfolioUnits | null>(null);
   const [portfolioLoading, setPortfolioLoading] = useState(true);
+  const [operationInitialValues, setOperationInitialValues] = useState<AddOperationInitialValues | null>(null);
 
   const [ticker, setTicker] = useState('');
   const [isin, setIsin] = useState('');
@@ -125,23 +135,28 @@ export default function AnalysisPage() {
     }
     fetchRecentAssessments();
     fetchCurrencies();
-    fetchPortfolioSummary();
-    fetchTopLosers();
-    fetchTopMovers();
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchPortfolioSummary(false, controller.signal);
+    fetchTopLosers(undefined, undefined, controller.signal);
+    fetchTopMovers(undefined, undefined, controller.signal);
+    return () => controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [router]);
+  }, [router, portfolioId]);
 
-  const fetchPortfolioSummary = async () => {
+  const fetchPortfolioSummary = async (forceRefresh: boolean = false, signal?: AbortSignal) => {
     try {
       setPortfolioLoading(true);
-      const response = await portfolioAPI.getSummary(undefined, { forceRefresh: false });
+      const response = await portfolioAPI.getSummary(portfolioId, { forceRefresh });
+      if (signal?.aborted) return;
       setPortfolioStocks(response.data.stocks || []);
       setPortfolioMetrics(response.data.summary || null);
       setPortfolioUnits(response.data.units || null);
     } catch (err) {
+      if (signal?.aborted) return;
       console.warn('Failed to fetch portfolio for analysis context:', err);
     } finally {
-      setPortfolioLoading(false);
+      if (!signal?.aborted) setPortfolioLoading(false);
     }
   };
 
@@ -164,28 +179,31 @@ export default function AnalysisPage() {
     }
   };
 
-  const fetchTopLosers = async (limit?: number, minShares?: number) => {
+  const fetchTopLosers = async (limit?: number, minShares?: number, signal?: AbortSignal) => {
     const l = limit ?? topLosersLimit;
     const ms = minShares ?? topLosersMinShares;
     try {
       setTopLosersLoading(true);
       setTopLosersError(null);
-      const response = await analyticsAPI.getTopLosers(l, ms);
+      const response = await analyticsAPI.getTopLosers(l, ms, portfolioId);
+      if (signal?.aborted) return;
       setTopLosers(response.data.losers || []);
     } catch (err) {
+      if (signal?.aborted) return;
       setTopLosersError(getErrorMessage(err));
     } finally {
-      setTopLosersLoading(false);
+      if (!signal?.aborted) setTopLosersLoading(false);
     }
   };
 
-  const fetchTopMovers = async (timeframe?: '24h' | '7d' | '30d', limit?: number) => {
+  const fetchTopMovers = async (timeframe?: '24h' | '7d' | '30d', limit?: number, signal?: AbortSignal) => {
     const tf = timeframe ?? topMoversTimeframe;
     const l = limit ?? topMoversLimit;
     try {
       setTopMoversLoading(true);
       setTopMoversError(null);
-      const response = await analyticsAPI.getTopMovers(tf, l);
+      const response = await analyticsAPI.getTopMovers(tf, l, portfolioId);
+      if (signal?.aborted) return;
       setTopMovers({
         topGainers: response.data.top_gainers || [],
         topLosers: response.data.top_losers || [],
@@ -194,9 +212,10 @@ export default function AnalysisPage() {
       });
       setTopMoversGeneratedAt(response.data.generated_at || null);
     } catch (err) {
+      if (signal?.aborted) return;
       setTopMoversError(getErrorMessage(err));
     } finally {
-      setTopMoversLoading(false);
+      if (!signal?.aborted) setTopMoversLoading(false);
     }
   };
 
@@ -273,7 +292,7 @@ export default function AnalysisPage() {
     const hints: Partial<AssessmentRequest> = {};
     try {
       const [summaryRes, sectorTargetsRes] = await Promise.all([
-        portfolioAPI.getSummary(),
+        portfolioAPI.getSummary(portfolioId),
         settingsAPI.getSectorTargets(),
       ]);
       const summary = summaryRes.data?.summary;
@@ -571,7 +590,7 @@ export default function AnalysisPage() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {!portfolioLoading && portfolioMetrics && (
-        <PortfolioOverviewSection metrics={portfolioMetrics} units={portfolioUnits} stocks={activeStocks} />
+        <PortfolioOverviewSection metrics={portfolioMetrics} units={portfolioUnits} stocks={activeStocks} portfolioId={portfolioId} />
       )}
 
       {!portfolioLoading && portfolioMetrics && (
@@ -584,9 +603,34 @@ export default function AnalysisPage() {
               <RiskCard stocks={portfolioStocks} />
             </div>
           </div>
-          <div className="mb-8">
+          <div className="mb-6">
+            <ReturnsCard portfolioId={portfolioId} />
+          </div>
+          <div className="mb-6">
+            <MonteCarloCard metrics={portfolioMetrics} stocks={activeStocks} portfolioId={portfolioId} />
+          </div>
+          <div className="mb-6">
+            <CorrelationCard metrics={portfolioMetrics} stocks={activeStocks} portfolioId={portfolioId} />
+          </div>
+          <div className="mb-6">
+            <CurrencyExposureCard metrics={portfolioMetrics} stocks={activeStocks} portfolioId={portfolioId} />
+          </div>
+          <div className="mb-6">
+            <KellyOptimizer stocks={activeStocks} sectorTargets={targetPctBySector} />
+          </div>
+          <div className="mb-6">
             <SuggestedActions metrics={portfolioMetrics} stocks={portfolioStocks} sectorTargets={targetPctBySector} />
           </div>
+          <div className="mb-8">
+            <RebalancePlanner
+              metrics={portfolioMetrics}
+              stocks={activeStocks}
+              sectorTargets={targetPctBySector}
+              cashTarget={cashTarget}
+              onCreateOperation={setOperationInitialValues}
+              portfolioId={portfolioId}
+            />
+          </div>
         </>
       )}
 
@@ -654,7 +698,7 @@ export default function AnalysisPage() {
               </thead>
               <tbody>
                 {topLosers.map((loser) => {
-                  const weightPct = loser.weight <= 1 ? loser.weight * 100 : loser.weight;
+                  const weightPct = loser.weight * 100;
                   const assessColor = loser.assessment === 'Sell' ? 'bg-red-900 text-red-300'
                     : loser.assessment === 'Trim' ? 'bg-orange-900 text-orange-300'
                     : loser.assessment === 'Add' ? 'bg-green-900 text-green-300'
@@ -1058,6 +1102,19 @@ export default function AnalysisPage() {
           </div>
         </div>
       )}
+
+      {operationInitialValues && (
+        <AddOperationModal
+          initialValues={operationInitialValues}
+          onClose={() => setOperationInitialValues(null)}
+          onSuccess={async () => {
+            setOperationInitialValues(null);
+            invalidateCache('portfolio');
+            await fetchPortfolioSummary(true);
+          }}
+          portfolioId={portfolioId}
+        />
+      )}
     </div>
   );
 }
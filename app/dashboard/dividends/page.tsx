@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { operationsAPI, portfolioAPI, exchangeRateAPI, type ExchangeRate, type Operation, type Stock } from '@/lib/api';
+import { toRateMap } from '@/lib/fx';
+import { forecastDividendIncome, summarizeDividends, type IncomeBucket } from '@/lib/dividends';
+import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+type Grouping = 'month' | 'year' | 'ticker' | 'currency';
+
+const GROUPINGS: { value: Grouping; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'year', label: 'Year' },
+  { value: 'ticker', label: 'Ticker' },
+  { value: 'currency', label: 'Currency' },
+];
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 }).format(n);
+
+const formatLocal = (byCurrency: Record<string, number>) =>
+  Object.entries(byCurrency)
+    .map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`)
+    .join(' · ');
+
+export default function DividendsPage() {
+  const router = useRouter();
+  const { portfolioId } = usePortfolioContext();
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [grouping, setGrouping] = useState<Grouping>('month');
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
+
+  const fetchData = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const [operationsResponse, summaryResponse, ratesResponse] = await Promise.all([
+        operationsAPI.list(portfolioId),
+        portfolioAPI.getSummary(portfolioId),
+        exchangeRateAPI.getAll(),
+      ]);
+      if (signal?.aborted) return;
+      setOperations(operationsResponse.data || []);
+      setStocks(summaryResponse.data.stocks || []);
+      setRates(ratesResponse.data || []);
+      setError('');
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      setError(err.response?.data?.error || 'Failed to load dividends');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Loading dividends...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const rateMap = toRateMap(rates);
+  const received = summarizeDividends(operations, rateMap);
+  const forward = forecastDividendIncome(stocks, operations, rateMap);
+  const now = new Date();
+  const cutoff = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1));
+  const cutoffKey = `${cutoff.getUTCFullYear()}-${String(cutoff.getUTCMonth() + 1).padStart(2, '0')}`;
+  const trailingBase = received.byMonth.filter((b) => b.key >= cutoffKey).reduce((sum, b) => sum + b.totalBase, 0);
+
+  const buckets: IncomeBucket[] =
+    grouping === 'month' ? received.byMonth
+      : grouping === 'year' ? received.byYear
+        : grouping === 'ticker' ? received.byTicker
+          : received.byCurrency;
+  const chartBuckets = grouping === 'month' ? buckets.slice(-24) : buckets;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-xl font-bold text-white mb-6">Dividends</h1>
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <span className="text-gray-500 text-sm block" title="Net of withholding tax">Received (all time)</span>
+          <span className="text-white text-lg font-semibold">{formatEur(received.totalBase)}</span>
+          {received.withholdingBase > 0 && (
+            <span className="text-xs text-gray-500 block">after {formatEur(received.withholdingBase)} withheld</span>
+          )}
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <span className="text-gray-500 text-sm block" title="Current month and the 11 before it">Received (last 12 months)</span>
+          <span className="text-white text-lg font-semibold">{formatEur(trailingBase)}</span>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <span className="text-gray-500 text-sm block" title="Σ dividend yield × current value of each position">Forward 12-month income</span>
+          <span className="text-emerald-400 text-lg font-semibold">{formatEur(forward.totalBase)}</span>
+        </div>
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <span className="text-gray-500 text-sm block">Portfolio yield</span>
+          <span className="text-white text-lg font-semibold">{forward.portfolioYield.toFixed(2)}%</span>
+        </div>
+      </div>
+
+      {received.unconverted.length > 0 && (
+        <p className="text-xs text-amber-400 mb-4">
+          No exchange rate for {received.unconverted.join(', ')}; those dividends are excluded from EUR totals.
+        </p>
+      )}
+
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 mb-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h2 className="text-sm font-semibold text-gray-200">Received dividends</h2>
+          <div className="flex gap-1">
+            {GROUPINGS.map((g) => (
+              <button
+                key={g.value}
+                type="button"
+                onClick={() => setGrouping(g.value)}
+                className={`px-2 py-1 text-xs rounded ${grouping === g.value ? 'bg-primary-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {buckets.length === 0 ? (
+          <p className="text-gray-500 text-sm">No Dividend operations yet. Record dividends from the Portfolio page with Add operation.</p>
+        ) : (
+          <>
+            <div className="h-56 mb-4">
+              <Bar
+                data={{
+                  labels: chartBuckets.map((b) => b.key),
+                  datasets: [{ label: 'EUR', data: chartBuckets.map((b) => b.totalBase), backgroundColor: 'rgba(16,185,129,0.6)' }],
+                }}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: { legend: { display: false } },
+                  scales: {
+                    x: { ticks: { color: '#9ca3af' }, grid: { display: false } },
+                    y: { ticks: { color: '#9ca3af' }, grid: { color: 'rgba(75,85,99,0.3)' } },
+                  },
+                }}
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700 text-left">
+                    <th className="py-2 pr-3">{GROUPINGS.find((g) => g.value === grouping)?.label}</th>
+                    <th className="py-2 pr-3 text-right">Payments</th>
+                    <th className="py-2 pr-3">Local amounts</th>
+                    <th className="py-2 text-right">EUR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(grouping === 'month' || grouping === 'year' ? [...buckets].reverse() : buckets).map((b) => (
+                    <tr key={b.key} className="border-b border-gray-800 last:border-b-0">
+                      <td className="py-2 pr-3 text-gray-200">{b.key}</td>
+                      <td className="py-2 pr-3 text-right text-gray-400">{b.count}</td>
+                      <td className="py-2 pr-3 text-gray-400">{formatLocal(b.byCurrency)}</td>
+                      <td className="py-2 text-right text-white">{formatEur(b.totalBase)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-200 mb-1">Forward income and yield-on-cost</h2>
+        <p className="text-xs text-gray-500 mb-3">
+          Forward income is dividend yield × current value. Yield-on-cost divides the forward dividend per share by your average price; trailing yield-on-cost uses dividends received over the last 12 months.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-2 pr-3">Ticker</th>
+                <th className="py-2 pr-3 text-right">Yield</th>
+                <th className="py-2 pr-3 text-right">Forward 12M (EUR)</th>
+                <th className="py-2 pr-3 text-right">Yield on cost</th>
+                <th className="py-2 pr-3 text-right">Trailing 12M received</th>
+                <th className="py-2 text-right">Trailing YoC</th>
+              </tr>
+            </thead>
+            <tbody>
+              {forward.positions.map((p) => (
+                <tr key={p.stockId} className="border-b border-gray-800 last:border-b-0">
+                  <td className="py-2 pr-3 text-primary-400 font-medium">{p.ticker}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{p.dividendYield.toFixed(2)}%</td>
+                  <td className="py-2 pr-3 text-right text-white">{formatEur(p.annualIncomeBase)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{p.yieldOnCost !== null ? `${p.yieldOnCost.toFixed(2)}%` : '—'}</td>
+                  <td className="py-2 pr-3 text-right text-gray-400">
+                    {p.trailingIncomeLocal > 0 ? `${p.trailingIncomeLocal.toFixed(2)} ${p.currency}` : '—'}
+                  </td>
+                  <td className="py-2 text-right text-gray-300">
+                    {p.trailingYieldOnCost !== null && p.trailingIncomeLocal > 0 ? `${p.trailingYieldOnCost.toFixed(2)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,94 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 import { useRouter } from 'next/navigation';
 import { isAuthenticated } from '@/lib/auth';
-import { operationsAPI, invalidateCache, type Operation } from '@/lib/api';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { operationsAPI, invalidateCache, type Operation, type OperationType } from '@/lib/api';
+import {
+  EMPTY_HISTORY_FILTERS,
+  buildHistoryRows,
+  closingBalances,
+  filterHistoryRows,
+  groupByMonth,
+  isFiltered,
+  pageCount,
+  pageRows,
+  HISTORY_PAGE_SIZE,
+  type HistoryFilters,
+} from '@/lib/history';
+import { BASE_CURRENCY } from '@/lib/fx';
+import { isCorporateAction } from '@/lib/ledger';
 import AddOperationModal from '@/components/AddOperationModal';
-import { PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import TaxLotBreakdown from '@/components/TaxLotBreakdown';
+import ImportOperationsModal from '@/components/ImportOperationsModal';
+import ReconciliationCard from '@/components/ReconciliationCard';
+import { PencilIcon, TrashIcon, ArrowUpTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+
+const OPERATION_TYPES: OperationType[] = [
+  'Buy',
+  'Sell',
+  'Deposit',
+  'Withdraw',
+  'Dividend',
+  'Fee',
+  'Withholding Tax',
+  'Split',
+  'Reverse Split',
+  'Spin-off',
+];
+
+const TYPE_BADGE: Record<OperationType, string> = {
+  Buy: 'bg-green-900/50 text-green-300',
+  Sell: 'bg-red-900/50 text-red-300',
+  Deposit: 'bg-blue-900/50 text-blue-300',
+  Withdraw: 'bg-amber-900/50 text-amber-300',
+  Dividend: 'bg-purple-900/50 text-purple-300',
+  Fee: 'bg-orange-900/50 text-orange-300',
+  'Withholding Tax': 'bg-orange-900/50 text-orange-300',
+  Split: 'bg-cyan-900/50 text-cyan-300',
+  'Reverse Split': 'bg-cyan-900/50 text-cyan-300',
+  'Spin-off': 'bg-cyan-900/50 text-cyan-300',
+};
+
+const inputClass = 'px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
 
 export default function HistoryPage() {
   const router = useRouter();
+  const { portfolioId } = usePortfolioContext();
   const [operations, setOperations] = useState<Operation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [editOperation, setEditOperation] = useState<Operation | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [page, setPage] = useState(1);
 
   useEffect(() => {
     if (!isAuthenticated()) {
       router.push('/login');
       return;
     }
-    fetchOperations();
-  }, [router]);
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchOperations(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
 
-  const fetchOperations = async () => {
+  const fetchOperations = async (signal?: AbortSignal) => {
     try {
       setLoading(true);
-      const res = await operationsAPI.list();
+      const res = await operationsAPI.list(portfolioId);
+      if (signal?.aborted) return;
       setOperations(res.data || []);
       setError('');
     } catch (err: any) {
+      if (signal?.aborted) return;
       setError(err.response?.data?.error || 'Failed to load history');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -40,7 +96,7 @@ export default function HistoryPage() {
     if (!confirm(`Delete this ${op.operation_type} operation (${op.trade_date}, ${op.amount} ${op.currency})? Cash and positions will be recalculated.`)) return;
     try {
       setDeletingId(op.id);
-      await operationsAPI.delete(op.id);
+      await operationsAPI.delete(op.id, portfolioId);
       invalidateCache('portfolio');
       await fetchOperations();
     } catch (err: any) {
@@ -55,12 +111,35 @@ export default function HistoryPage() {
     fetchOperations();
   };
 
+  const updateFilters = (patch: Partial<HistoryFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPage(1);
+  };
+
+  const toggleType = (type: OperationType) => {
+    updateFilters({
+      types: filters.types.includes(type) ? filters.types.filter((t) => t !== type) : [...filters.types, type],
+    });
+  };
+
   const assetLabel = (op: Operation) => {
     if (op.ticker) return op.company_name ? `${op.ticker} (${op.company_name})` : op.ticker;
     return '—';
   };
 
+  /** Shares, or the terms of a corporate action (split ratio, spun-off shares). */
+  const formatQuantity = (op: Operation) => {
+    if (op.operation_type === 'Split') return `${op.quantity}:1`;
+    if (op.operation_type === 'Reverse Split') return `1:${op.quantity}`;
+    if (op.operation_type === 'Spin-off') {
+      const pct = op.cost_basis_pct ? `, ${op.cost_basis_pct}% of cost` : '';
+      return `${op.quantity} ${op.spinoff_ticker || '?'}${pct}`;
+    }
+    return op.quantity;
+  };
+
   const formatAmount = (op: Operation) => {
+    if (isCorporateAction(op)) return '—';
     const amt = op.amount;
     if (amt === 0 && (op.operation_type === 'Buy' || op.operation_type === 'Sell')) {
       return (op.quantity * op.price).toFixed(2);
@@ -79,15 +158,132 @@ export default function HistoryPage() {
     );
   }
 
+  const allRows = buildHistoryRows(operations);
+  const balances = closingBalances(allRows);
+  const currencies = Object.keys(balances).sort();
+  const filteredRows = filterHistoryRows(allRows, filters);
+  const totalPages = pageCount(filteredRows.length);
+  const currentPage = Math.min(page, totalPages);
+  const monthGroups = groupByMonth(pageRows(filteredRows, currentPage));
+  const firstShown = filteredRows.length === 0 ? 0 : (currentPage - 1) * HISTORY_PAGE_SIZE + 1;
+  const lastShown = Math.min(currentPage * HISTORY_PAGE_SIZE, filteredRows.length);
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <h1 className="text-xl font-bold text-white mb-6">History</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-xl font-bold text-white">History</h1>
+        <button
+          type="button"
+          onClick={() => setShowImport(true)}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-teal-600/90 text-white rounded-lg hover:bg-teal-600 transition-colors"
+        >
+          <ArrowUpTrayIcon className="h-4 w-4" />
+          Import CSV
+        </button>
+      </div>
       {error && (
         <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
           {error}
         </div>
       )}
 
+      {currencies.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {currencies.map((currency) => (
+            <span key={currency} className="px-3 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm">
+              <span className="text-gray-400">Cash {currency}</span>{' '}
+              <span className={balances[currency] < 0 ? 'text-red-400 font-medium' : 'text-white font-medium'}>
+                {balances[currency].toFixed(2)}
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="mb-4 bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {OPERATION_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className={`px-2.5 py-1 rounded text-xs font-medium border transition-colors ${
+                filters.types.includes(type)
+                  ? 'bg-primary-600 border-primary-500 text-white'
+                  : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs text-gray-400">
+            Ticker
+            <input
+              type="text"
+              value={filters.ticker}
+              onChange={(e) => updateFilters({ ticker: e.target.value })}
+              placeholder="e.g., AAPL"
+              className={`${inputClass} block mt-1 w-28 uppercase`}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Currency
+            <select
+              value={filters.currency}
+              onChange={(e) => updateFilters({ currency: e.target.value })}
+              className={`${inputClass} block mt-1`}
+            >
+              <option value="">All</option>
+              {currencies.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-400">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className={`${inputClass} block mt-1`}
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className={`${inputClass} block mt-1`}
+            />
+          </label>
+          <label className="text-xs text-gray-400 flex-1 min-w-48">
+            Search notes
+            <span className="relative block mt-1">
+              <MagnifyingGlassIcon className="h-4 w-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={filters.search}
+                onChange={(e) => updateFilters({ search: e.target.value })}
+                placeholder="Text in the note"
+                className={`${inputClass} w-full pl-8`}
+              />
+            </span>
+          </label>
+          {isFiltered(filters) && (
+            <button
+              type="button"
+              onClick={() => updateFilters(EMPTY_HISTORY_FILTERS)}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
       <div className="overflow-x-auto rounded-lg border border-gray-700">
         <table className="min-w-full text-sm">
           <thead className="bg-gray-800 text-left">
@@ -98,6 +294,7 @@ export default function HistoryPage() {
               <th className="px-4 py-3 text-gray-300 font-medium text-right">Quantity</th>
               <th className="px-4 py-3 text-gray-300 font-medium text-right">Price</th>
               <th className="px-4 py-3 text-gray-300 font-medium text-right">Amount</th>
+              <th className="px-4 py-3 text-gray-300 font-medium text-right" title="Cash balance in the operation's currency after it">Balance</th>
               <th className="px-4 py-3 text-gray-300 font-medium">Note</th>
               <th className="px-4 py-3 text-gray-300 font-medium w-28">Actions</th>
             </tr>
@@ -105,63 +302,128 @@ export default function HistoryPage() {
           <tbody className="divide-y divide-gray-700">
             {operations.length === 0 ? (
               <tr>
-                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
                   No operations yet. Add a Buy, Sell, Deposit, Withdraw, or Dividend from Portfolio or Watchlist.
                 </td>
               </tr>
+            ) : filteredRows.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-gray-500">
+                  No operations match these filters.
+                </td>
+              </tr>
             ) : (
-              operations.map((op) => (
-                <tr key={op.id} className="bg-gray-800/50 hover:bg-gray-800">
-                  <td className="px-4 py-3 text-gray-200">{assetLabel(op)}</td>
-                  <td className="px-4 py-3">
-                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                      op.operation_type === 'Buy' ? 'bg-green-900/50 text-green-300' :
-                      op.operation_type === 'Sell' ? 'bg-red-900/50 text-red-300' :
-                      op.operation_type === 'Deposit' ? 'bg-blue-900/50 text-blue-300' :
-                      op.operation_type === 'Withdraw' ? 'bg-amber-900/50 text-amber-300' :
-                      'bg-purple-900/50 text-purple-300'
-                    }`}>
-                      {op.operation_type}
-                    </span>
-                  </td>
-                  <td className="px-4 py-3 text-gray-300">{op.trade_date}</td>
-                  <td className="px-4 py-3 text-gray-300 text-right">{op.quantity}</td>
-                  <td className="px-4 py-3 text-gray-300 text-right">{op.price > 0 ? op.price.toFixed(2) : '—'}</td>
-                  <td className="px-4 py-3 text-white text-right">{formatAmount(op)} {op.currency}</td>
-                  <td className="px-4 py-3 text-gray-400 max-w-xs truncate" title={op.note || ''}>{op.note || '—'}</td>
-                  <td className="px-4 py-3">
-                    <div className="flex items-center gap-2">
-                      <button
-                        type="button"
-                        onClick={() => setEditOperation(op)}
-                        className="p-1.5 text-gray-400 hover:text-primary-400 hover:bg-gray-700 rounded transition-colors"
-                        title="Modify"
+              monthGroups.map((group) => (
+                <Fragment key={`${group.key}-${group.rows[0].op.id}`}>
+                  <tr className="bg-gray-900">
+                    <td colSpan={9} className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                      {group.label}
+                    </td>
+                  </tr>
+                  {group.rows.map(({ op, balance }) => (
+                    <tr key={op.id} className="bg-gray-800/50 hover:bg-gray-800">
+                      <td className="px-4 py-3 text-gray-200">{assetLabel(op)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${TYPE_BADGE[op.operation_type] ?? TYPE_BADGE.Dividend}`}>
+                          {op.operation_type}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{op.trade_date}</td>
+                      <td className="px-4 py-3 text-gray-300 text-right whitespace-nowrap">{formatQuantity(op)}</td>
+                      <td className="px-4 py-3 text-gray-300 text-right">{op.price > 0 ? op.price.toFixed(2) : '—'}</td>
+                      <td
+                        className="px-4 py-3 text-white text-right"
+                        title={op.fx_rate && !isCorporateAction(op) ? `Trade-date rate: ${op.fx_rate} ${op.currency} per ${BASE_CURRENCY}` : undefined}
                       >
-                        <PencilIcon className="h-4 w-4" />
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => handleDelete(op)}
-                        disabled={deletingId === op.id}
-                        className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
-                        title="Delete"
-                      >
-                        <TrashIcon className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
+                        {formatAmount(op)}{isCorporateAction(op) ? '' : ` ${op.currency}`}
+                      </td>
+                      <td className={`px-4 py-3 text-right ${balance < 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                        {balance.toFixed(2)} {op.currency}
+                      </td>
+                      <td className="px-4 py-3 text-gray-400 max-w-xs truncate" title={op.note || ''}>{op.note || '—'}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setEditOperation(op)}
+                            className="p-1.5 text-gray-400 hover:text-primary-400 hover:bg-gray-700 rounded transition-colors"
+                            title="Modify"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(op)}
+                            disabled={deletingId === op.id}
+                            className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                            title="Delete"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
               ))
             )}
           </tbody>
         </table>
       </div>
 
+      {filteredRows.length > 0 && (
+        <div className="flex items-center justify-between mt-3 text-sm text-gray-400">
+          <span>
+            Showing {firstShown}–{lastShown} of {filteredRows.length}
+            {isFiltered(filters) ? ` (filtered from ${allRows.length})` : ''}
+          </span>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage <= 1}
+                className="px-3 py-1.5 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span>Page {currentPage} of {totalPages}</span>
+              <button
+                type="button"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= totalPages}
+                className="px-3 py-1.5 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-8">
+        <TaxLotBreakdown operations={operations} />
+      </div>
+
+      <div className="mt-8">
+        <ReconciliationCard operations={operations} onOperationAdded={fetchOperations} portfolioId={portfolioId} />
+      </div>
+
       {editOperation && (
         <AddOperationModal
           editOperation={editOperation}
           onClose={() => setEditOperation(null)}
           onSuccess={handleEditSuccess}
+          portfolioId={portfolioId}
+        />
+      )}
+
+      {showImport && (
+        <ImportOperationsModal
+          existing={operations}
+          onClose={() => setShowImport(false)}
+          onSuccess={handleEditSuccess}
+          portfolioId={portfolioId}
         />
       )}
     </div>
@@ -0,0 +1,277 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { portfolioAPI, cashAPI, exchangeRateAPI } from '@/lib/api';
+import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { buildHousehold, type Household, type PortfolioSnapshot } from '@/lib/household';
+import { getConcentration } from '@/lib/portfolioInsights';
+import RebalanceHint from '@/components/RebalanceHint';
+import RiskCard from '@/components/RiskCard';
+import SuggestedActions from '@/components/SuggestedActions';
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+const pct = (n: number) => `${n.toFixed(1)}%`;
+
+export default function HouseholdPage() {
+  const router = useRouter();
+  const { targetPctBySector, cashTarget } = useSectorTargetsContext();
+  const { portfolios, activePortfolios, isLoading: portfoliosLoading } = usePortfolioContext();
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [openPortfolio, setOpenPortfolio] = useState<string | null>(null);
+  const [openPosition, setOpenPosition] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    if (!portfoliosLoading) fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfoliosLoading, portfolios]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const books = activePortfolios.length > 0
+        ? activePortfolios.map((p) => ({ id: p.id as number | undefined, name: p.name }))
+        : [{ id: undefined, name: 'Default portfolio' }];
+      const [ratesResponse, ...snapshots] = await Promise.all([
+        exchangeRateAPI.getAll(),
+        ...books.map(async ({ id, name }): Promise<PortfolioSnapshot> => {
+          const [summaryResponse, cashResponse] = await Promise.all([portfolioAPI.getSummary(id), cashAPI.getAll(id)]);
+          return { portfolioId: id, name, summary: summaryResponse.data, cash: cashResponse.data || [] };
+        }),
+      ]);
+      setHousehold(buildHousehold(snapshots, ratesResponse.data || []));
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to load household data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Loading household...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const metrics = household?.summary.summary;
+  const stocks = household?.summary.stocks ?? [];
+  const equityBase = metrics?.total_value ?? 0;
+  const cashBase = household?.cashBase ?? 0;
+  const totalBase = equityBase + cashBase;
+  const cashPct = totalBase > 0 ? (cashBase / totalBase) * 100 : 0;
+  const cashOutOfBand = cashPct < cashTarget.min || cashPct > cashTarget.max;
+  const concentration = getConcentration(stocks);
+  const drillDown = household?.positions
+    .map((p) => ({ position: p, holding: p.holdings.find((h) => String(h.portfolioId) === openPortfolio) }))
+    .filter((row) => row.holding) ?? [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h1 className="text-xl font-bold text-white">Household</h1>
+        <p className="text-xs text-gray-400 mt-1">
+          All active portfolios combined. Positions sharing an ISIN or ticker are merged.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {household && metrics && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <span className="text-gray-500 text-sm block">Household total</span>
+              <span className="text-white text-lg font-semibold">{formatEur(totalBase)}</span>
+              <span className="text-xs text-gray-500 block">{household.portfolios.length} portfolio{household.portfolios.length === 1 ? '' : 's'}</span>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <span className="text-gray-500 text-sm block">Equity</span>
+              <span className="text-white text-lg font-semibold">{formatEur(equityBase)}</span>
+              <span className="text-xs text-gray-500 block">{household.positions.length} merged positions</span>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <span className="text-gray-500 text-sm block" title={`Target ${cashTarget.min}–${cashTarget.max}% of the household total`}>Cash</span>
+              <span className="text-white text-lg font-semibold">{formatEur(cashBase)}</span>
+              <span className={`text-xs block ${cashOutOfBand ? 'text-amber-400' : 'text-gray-500'}`}>
+                {pct(cashPct)} (target {cashTarget.min}–{cashTarget.max}%)
+              </span>
+            </div>
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <span className="text-gray-500 text-sm block">Largest position</span>
+              <span className="text-white text-lg font-semibold">{concentration.maxPositionTicker || '—'}</span>
+              <span className="text-xs text-gray-500 block">
+                {pct(concentration.maxPositionPct)} of equity · top 5 {pct(concentration.top5Pct)}
+              </span>
+            </div>
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 mb-6">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Portfolios</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700 text-left">
+                    <th className="py-2 pr-3">Portfolio</th>
+                    <th className="py-2 pr-3 text-right">Positions</th>
+                    <th className="py-2 pr-3 text-right">Equity</th>
+                    <th className="py-2 pr-3 text-right">Cash</th>
+                    <th className="py-2 pr-3 text-right">Total</th>
+                    <th className="py-2 text-right">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {household.portfolios.map((p) => {
+                    const key = String(p.portfolioId);
+                    const isOpen = openPortfolio === key;
+                    return (
+                      <tr
+                        key={key}
+                        onClick={() => setOpenPortfolio(isOpen ? null : key)}
+                        className={`border-b border-gray-800 last:border-b-0 cursor-pointer hover:bg-gray-700/50 ${isOpen ? 'bg-gray-700/50' : ''}`}
+                      >
+                        <td className="py-1.5 pr-3 font-medium text-white">
+                          {isOpen ? <ChevronDownIcon className="h-3 w-3 inline mr-1" /> : <ChevronRightIcon className="h-3 w-3 inline mr-1" />}
+                          {p.name}
+                        </td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{p.positions}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{formatEur(p.equityBase)}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{formatEur(p.cashBase)}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{formatEur(p.totalBase)}</td>
+                        <td className="py-1.5 text-right text-gray-300">{pct(p.sharePct)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {openPortfolio !== null && (
+              <div className="mt-4 border-t border-gray-700 pt-3">
+                <h4 className="text-xs font-medium text-gray-400 mb-2">
+                  {household.portfolios.find((p) => String(p.portfolioId) === openPortfolio)?.name} positions
+                </h4>
+                {drillDown.length === 0 ? (
+                  <p className="text-xs text-gray-500">No held positions.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700 text-left">
+                        <th className="py-2 pr-3">Ticker</th>
+                        <th className="py-2 pr-3 text-right">Shares</th>
+                        <th className="py-2 pr-3 text-right">Value</th>
+                        <th className="py-2 text-right">Of household position</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {drillDown.map(({ position, holding }) => (
+                        <tr key={holding!.stock.id} className="border-b border-gray-800 last:border-b-0">
+                          <td className="py-1.5 pr-3 font-medium text-white">{holding!.stock.ticker}</td>
+                          <td className="py-1.5 pr-3 text-right text-gray-300">{holding!.stock.shares_owned}</td>
+                          <td className="py-1.5 pr-3 text-right text-gray-300">{formatEur(holding!.valueBase)}</td>
+                          <td className="py-1.5 text-right text-gray-400">
+                            {position.valueBase > 0 ? pct((holding!.valueBase / position.valueBase) * 100) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6 items-stretch">
+            <div className="min-h-0 flex flex-col">
+              <RebalanceHint metrics={metrics} sectorTargets={targetPctBySector} />
+            </div>
+            <div className="min-h-0 flex">
+              <RiskCard stocks={stocks} />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <SuggestedActions metrics={metrics} stocks={stocks} sectorTargets={targetPctBySector} />
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Merged positions ({household.positions.length})</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700 text-left">
+                    <th className="py-2 pr-3">Ticker</th>
+                    <th className="py-2 pr-3">Company</th>
+                    <th className="py-2 pr-3">Sector</th>
+                    <th className="py-2 pr-3 text-right">Shares</th>
+                    <th className="py-2 pr-3 text-right">Value</th>
+                    <th className="py-2 pr-3 text-right">Weight</th>
+                    <th className="py-2 text-right">Portfolios</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {household.positions.map((p) => {
+                    const key = p.holdings.map((h) => `${h.portfolioId}:${h.stock.id}`).join(',');
+                    const isOpen = openPosition === key;
+                    const expandable = p.holdings.length > 1;
+                    return (
+                      <Fragment key={key}>
+                        <tr
+                          onClick={expandable ? () => setOpenPosition(isOpen ? null : key) : undefined}
+                          className={`border-b border-gray-800 last:border-b-0 ${expandable ? 'cursor-pointer hover:bg-gray-700/50' : ''}`}
+                        >
+                          <td className="py-1.5 pr-3 font-medium text-white whitespace-nowrap">
+                            {expandable && (isOpen ? <ChevronDownIcon className="h-3 w-3 inline mr-1" /> : <ChevronRightIcon className="h-3 w-3 inline mr-1" />)}
+                            {p.stock.ticker}
+                          </td>
+                          <td className="py-1.5 pr-3 text-gray-300">{p.stock.company_name}</td>
+                          <td className="py-1.5 pr-3 text-gray-400">{p.stock.sector}</td>
+                          <td className="py-1.5 pr-3 text-right text-gray-300">{p.stock.shares_owned}</td>
+                          <td className="py-1.5 pr-3 text-right text-gray-300">{formatEur(p.valueBase)}</td>
+                          <td className="py-1.5 pr-3 text-right text-gray-300">{pct((p.stock.weight ?? 0) * 100)}</td>
+                          <td className="py-1.5 text-right text-gray-400">{p.holdings.length}</td>
+                        </tr>
+                        {isOpen && p.holdings.map((h) => (
+                          <tr key={`${key}-${h.portfolioId}-${h.stock.id}`} className="border-b border-gray-800 bg-gray-900/40 text-xs">
+                            <td className="py-1 pr-3 pl-5 text-gray-300">{h.stock.ticker}</td>
+                            <td className="py-1 pr-3 text-gray-400" colSpan={2}>{h.portfolioName}</td>
+                            <td className="py-1 pr-3 text-right text-gray-300">{h.stock.shares_owned}</td>
+                            <td className="py-1 pr-3 text-right text-gray-300">{formatEur(h.valueBase)}</td>
+                            <td className="py-1 pr-3 text-right text-gray-400">
+                              {equityBase > 0 ? pct((h.valueBase / equityBase) * 100) : '—'}
+                            </td>
+                            <td />
+                          </tr>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { isAuthenticated, removeToken } from '@/lib/auth';
 import { useEffect, useState } from 'react';
 import { versionAPI } from '@/lib/api';
 import { FRONTEND_VERSION } from '@/lib/version';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import ManagePortfoliosModal from '@/components/ManagePortfoliosModal';
 import {
   ChartBarIcon,
   Cog6ToothIcon,
@@ -14,13 +16,26 @@ import {
   ListBulletIcon,
   ChartPieIcon,
   ClockIcon,
+  BoltIcon,
+  BanknotesIcon,
+  DocumentTextIcon,
+  PresentationChartLineIcon,
+  CalendarDaysIcon,
+  PencilSquareIcon,
+  UserGroupIcon,
 } from '@heroicons/react/24/outline';
 
 const navItems = [
   { href: '/dashboard/portfolio', label: 'Portfolio', icon: WalletIcon },
+  { href: '/dashboard/household', label: 'Household', icon: UserGroupIcon },
   { href: '/dashboard/history', label: 'History', icon: ClockIcon },
+  { href: '/dashboard/plans', label: 'Plans', icon: CalendarDaysIcon },
+  { href: '/dashboard/dividends', label: 'Dividends', icon: BanknotesIcon },
+  { href: '/dashboard/tax', label: 'Tax report', icon: DocumentTextIcon },
   { href: '/dashboard/watchlist', label: 'Watchlist', icon: ListBulletIcon },
   { href: '/dashboard/analysis', label: 'Analysis', icon: ChartPieIcon },
+  { href: '/dashboard/scenarios', label: 'Scenarios', icon: BoltIcon },
+  { href: '/dashboard/report', label: 'Report', icon: PresentationChartLineIcon },
   { href: '/dashboard/settings', label: 'Settings', icon: Cog6ToothIcon },
 ];
 
@@ -32,14 +47,17 @@ export default function DashboardLayout({
   const pathname = usePathname();
   const router = useRouter();
   const [backendVersion, setBackendVersion] = useState<string>('...');
+  const [showPortfolios, setShowPortfolios] = useState(false);
+  const { activePortfolios, portfolioId, select, ensureLoaded } = usePortfolioContext();
 
   useEffect(() => {
     if (!isAuthenticated()) {
       router.push('/login');
       return;
     }
+    ensureLoaded();
     versionAPI.getBackendVersion().then((r) => setBackendVersion(r.data.version)).catch(() => setBackendVersion('unknown'));
-  }, [router]);
+  }, [router, ensureLoaded]);
 
   const handleLogout = () => {
     removeToken();
@@ -47,9 +65,9 @@ export default function DashboardLayout({
   };
 
   return (
-    <div className="min-h-screen bg-gray-900 flex">
+    <div className="min-h-screen bg-gray-900 flex print:block print:bg-white">
       {/* Left sidebar */}
-      <aside className="w-56 shrink-0 bg-gray-800 border-r border-gray-700 flex flex-col">
+      <aside className="w-56 shrink-0 bg-gray-800 border-r border-gray-700 flex flex-col print:hidden">
         <div className="p-4 border-b border-gray-700">
           <Link href="/dashboard/portfolio" className="flex items-center gap-2 text-white font-semibold">
             <ChartBarIcon className="h-6 w-6 text-primary-500" />
@@ -57,6 +75,32 @@ export default function DashboardLayout({
           </Link>
           <p className="text-xs text-gray-500 mt-1">v{FRONTEND_VERSION} · v{backendVersion}</p>
         </div>
+        <div className="p-3 border-b border-gray-700">
+          <div className="flex items-center gap-1">
+            {activePortfolios.length > 0 ? (
+              <select
+                value={portfolioId ?? ''}
+                onChange={(e) => select(Number(e.target.value))}
+                aria-label="Portfolio"
+                className="min-w-0 flex-1 bg-gray-700 text-white text-sm rounded px-2 py-1.5 border border-gray-600"
+              >
+                {activePortfolios.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="flex-1 text-sm text-gray-400 px-1">Default portfolio</span>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowPortfolios(true)}
+              title="Manage portfolios"
+              className="p-1.5 rounded text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+            >
+              <PencilSquareIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
         <nav className="p-2 flex-1">
           {navItems.map(({ href, label, icon: Icon }) => {
             const isActive = pathname === href || (href !== '/dashboard/portfolio' && pathname.startsWith(href));
@@ -88,10 +132,12 @@ export default function DashboardLayout({
 
       {/* Main content */}
       <div className="flex-1 flex flex-col min-w-0">
-        <main className="flex-1 overflow-auto">
+        <main className="flex-1 overflow-auto print:overflow-visible">
           {children}
         </main>
       </div>
+
+      {showPortfolios && <ManagePortfoliosModal onClose={() => setShowPortfolios(false)} />}
     </div>
   );
 }
@@ -0,0 +1,548 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { stockAPI, invalidateCache, type Stock } from '@/lib/api';
+import {
+  PLAN_CADENCES,
+  MISSED_AFTER_DAYS,
+  UPCOMING_DAYS,
+  draftForExecution,
+  isCashPlan,
+  nextDueDate,
+  planExecutions,
+  planSchedule,
+  type InvestmentPlan,
+  type PlanCadence,
+  type PlanDraft,
+  type PlanExecution,
+} from '@/lib/investmentPlans';
+import { formatTradeDate, parseTradeDate } from '@/lib/tradeDate';
+import { checkTicker } from '@/lib/validation';
+import { useInvestmentPlans } from '@/hooks/useInvestmentPlans';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import AddOperationModal from '@/components/AddOperationModal';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'DKK', 'SEK', 'NOK'];
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+type PlanForm = {
+  id: string;
+  name: string;
+  kind: 'stock' | 'cash';
+  ticker: string;
+  amount: number;
+  currency: string;
+  cadence: PlanCadence;
+  startDate: string;
+  endDate: string;
+};
+
+const newForm = (): PlanForm => ({
+  id: `plan-${Date.now()}`,
+  name: '',
+  kind: 'stock',
+  ticker: '',
+  amount: 0,
+  currency: 'EUR',
+  cadence: 'monthly',
+  startDate: formatTradeDate(new Date()),
+  endDate: '',
+});
+
+const executionKey = (e: PlanExecution) => `${e.plan.id}|${e.dueDate}`;
+
+const formatMoney = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+const cadenceLabel = (cadence: PlanCadence) => PLAN_CADENCES.find((c) => c.value === cadence)?.label ?? cadence;
+
+export default function PlansPage() {
+  const router = useRouter();
+  const { portfolioId } = usePortfolioContext();
+  const { plans, savePlan, deletePlan, setExecution } = useInvestmentPlans();
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<PlanForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [fillPrices, setFillPrices] = useState<Record<string, string>>({});
+  const [confirming, setConfirming] = useState<{ execution: PlanExecution; draft: PlanDraft } | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchStocks(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
+
+  const fetchStocks = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const response = await stockAPI.getAll(portfolioId);
+      if (signal?.aborted) return;
+      setStocks(response.data || []);
+      setError('');
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      setError(err.response?.data?.error || 'Failed to load stocks');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const stockFor = (ticker: string) => {
+    const key = ticker.trim().toUpperCase();
+    return key ? stocks.find((s) => s.ticker.trim().toUpperCase() === key) ?? null : null;
+  };
+
+  const editPlan = (plan: InvestmentPlan) => {
+    setFormError('');
+    setForm({
+      id: plan.id,
+      name: plan.name,
+      kind: isCashPlan(plan) ? 'cash' : 'stock',
+      ticker: plan.ticker,
+      amount: plan.amount,
+      currency: plan.currency,
+      cadence: plan.cadence,
+      startDate: plan.startDate,
+      endDate: plan.endDate ?? '',
+    });
+  };
+
+  const handleTickerChange = (ticker: string) => {
+    if (!form) return;
+    const stock = stockFor(ticker);
+    setForm({ ...form, ticker, currency: stock?.currency || form.currency });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const tickerCheck = checkTicker(form.ticker);
+    const start = parseTradeDate(form.startDate);
+    const end = form.endDate.trim() ? parseTradeDate(form.endDate) : null;
+    const problem =
+      form.kind === 'stock' && !tickerCheck.valid ? tickerCheck.error || 'Invalid ticker'
+        : !(form.amount > 0) ? 'Amount must be greater than 0'
+          : !start ? 'Start date must be DD.MM.YYYY'
+            : form.endDate.trim() && !end ? 'End date must be DD.MM.YYYY'
+              : end && start && end < start ? 'End date is before the start date'
+                : null;
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+    const existing = plans.find((p) => p.id === form.id);
+    const ticker = form.kind === 'stock' ? tickerCheck.ticker : '';
+    savePlan({
+      id: form.id,
+      name: form.name.trim() || (ticker ? `${ticker} ${cadenceLabel(form.cadence).toLowerCase()}` : `${form.currency} deposit`),
+      ticker,
+      amount: form.amount,
+      currency: form.currency,
+      cadence: form.cadence,
+      startDate: formatTradeDate(start!),
+      endDate: end ? formatTradeDate(end) : undefined,
+      executions: existing?.executions ?? {},
+    });
+    setForm(null);
+  };
+
+  const handleDelete = (plan: InvestmentPlan) => {
+    if (!confirm(`Delete plan "${plan.name}"? Operations already recorded stay in the history.`)) return;
+    deletePlan(plan.id);
+    if (form?.id === plan.id) setForm(null);
+  };
+
+  const fillPriceFor = (execution: PlanExecution): string => {
+    const typed = fillPrices[executionKey(execution)];
+    if (typed !== undefined) return typed;
+    const current = stockFor(execution.plan.ticker)?.current_price;
+    return current && current > 0 ? String(current) : '';
+  };
+
+  const handleConfirm = (execution: PlanExecution) => {
+    const price = parseFloat(fillPriceFor(execution));
+    const draft = draftForExecution(execution, Number.isFinite(price) ? price : null, stockFor(execution.plan.ticker));
+    setConfirming({ execution, draft });
+  };
+
+  const handleSkip = (execution: PlanExecution) => {
+    if (!confirm(`Skip the ${execution.dueDate} execution of "${execution.plan.name}"?`)) return;
+    setExecution(execution.plan.id, execution.dueDate, 'skipped');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Loading plans...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const schedule = planSchedule(plans);
+  const upcomingByCurrency = schedule.upcoming.reduce<Record<string, number>>((acc, e) => {
+    acc[e.plan.currency] = (acc[e.plan.currency] ?? 0) + e.plan.amount;
+    return acc;
+  }, {});
+
+  const renderPending = (executions: PlanExecution[], missed: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-400 border-b border-gray-700 text-left">
+            <th className="py-2 pr-3">Due</th>
+            <th className="py-2 pr-3">Plan</th>
+            <th className="py-2 pr-3">Target</th>
+            <th className="py-2 pr-3 text-right">Amount</th>
+            <th className="py-2 pr-3 text-right">Fill price</th>
+            <th className="py-2 pr-3 text-right">Shares</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {executions.map((execution) => {
+            const { plan } = execution;
+            const key = executionKey(execution);
+            const cash = isCashPlan(plan);
+            const price = parseFloat(fillPriceFor(execution));
+            return (
+              <tr key={key} className="border-b border-gray-800 last:border-b-0">
+                <td className="py-1.5 pr-3 text-gray-300 whitespace-nowrap">
+                  {execution.dueDate}
+                  {missed && <span className="ml-2 text-xs text-amber-400">{execution.daysOverdue} days ago</span>}
+                </td>
+                <td className="py-1.5 pr-3 text-white">{plan.name}</td>
+                <td className="py-1.5 pr-3 text-gray-300">{cash ? 'Cash deposit' : plan.ticker}</td>
+                <td className="py-1.5 pr-3 text-right text-gray-300">{formatMoney(plan.amount, plan.currency)}</td>
+                <td className="py-1.5 pr-3 text-right">
+                  {cash ? (
+                    <span className="text-gray-500">—</span>
+                  ) : (
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={fillPriceFor(execution)}
+                      onChange={(e) => setFillPrices((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="w-28 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white text-right"
+                      placeholder="Price"
+                    />
+                  )}
+                </td>
+                <td className="py-1.5 pr-3 text-right text-gray-300">
+                  {cash ? '—' : price > 0 ? (plan.amount / price).toFixed(4) : '—'}
+                </td>
+                <td className="py-1.5">
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleConfirm(execution)}
+                      className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 transition-colors"
+                      title="Review and record the operation"
+                    >
+                      Confirm…
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSkip(execution)}
+                      className="px-2 py-1 text-xs bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors"
+                    >
+                      Skip
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h1 className="text-xl font-bold text-white">Investment plans</h1>
+        <button
+          type="button"
+          onClick={() => { setFormError(''); setForm(newForm()); }}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          New plan
+        </button>
+      </div>
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {form && (
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">{plans.some((p) => p.id === form.id) ? 'Edit plan' : 'New plan'}</h3>
+            {formError && (
+              <div className="mb-3 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg text-sm">
+                {formError}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-xs text-gray-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Monthly world ETF"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Invest in</label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => setForm({ ...form, kind: e.target.value as PlanForm['kind'] })}
+                  className={inputClass}
+                >
+                  <option value="stock">Ticker (Buy)</option>
+                  <option value="cash">Cash (Deposit)</option>
+                </select>
+              </div>
+              {form.kind === 'stock' && (
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Ticker *</label>
+                  <input
+                    type="text"
+                    list="plan-tickers"
+                    value={form.ticker}
+                    onChange={(e) => handleTickerChange(e.target.value)}
+                    placeholder="e.g., VWCE.DE"
+                    className={`${inputClass} uppercase`}
+                  />
+                  <datalist id="plan-tickers">
+                    {stocks.map((s) => <option key={s.id} value={s.ticker}>{s.company_name}</option>)}
+                  </datalist>
+                </div>
+              )}
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Amount *</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount || ''}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Currency</label>
+                <select value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value })} className={inputClass}>
+                  {!CURRENCIES.includes(form.currency) && <option value={form.currency}>{form.currency}</option>}
+                  {CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Cadence</label>
+                <select
+                  value={form.cadence}
+                  onChange={(e) => setForm({ ...form, cadence: e.target.value as PlanCadence })}
+                  className={inputClass}
+                >
+                  {PLAN_CADENCES.map((c) => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Start (DD.MM.YYYY) *</label>
+                <input
+                  type="text"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  placeholder="DD.MM.YYYY"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">End (optional)</label>
+                <input
+                  type="text"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  placeholder="DD.MM.YYYY"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm"
+              >
+                Save plan
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">
+            Due now {schedule.due.length > 0 && <span className="text-primary-400">({schedule.due.length})</span>}
+          </h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Enter the price you actually got, then confirm to review the operation before it is recorded.
+          </p>
+          {schedule.due.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing due.</p>
+          ) : (
+            renderPending(schedule.due, false)
+          )}
+        </div>
+
+        {schedule.missed.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4 border border-amber-700">
+            <h3 className="text-sm font-semibold text-amber-300 mb-2">Missed ({schedule.missed.length})</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Executions more than {MISSED_AFTER_DAYS} days overdue. Confirm the ones that did happen, skip the rest.
+            </p>
+            {renderPending(schedule.missed, true)}
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h3 className="text-sm font-semibold text-gray-200">Upcoming (next {UPCOMING_DAYS} days)</h3>
+            {Object.keys(upcomingByCurrency).length > 0 && (
+              <span className="text-xs text-gray-400">
+                Total {Object.entries(upcomingByCurrency).map(([c, amount]) => formatMoney(amount, c)).join(' · ')}
+              </span>
+            )}
+          </div>
+          {schedule.upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500">No executions scheduled.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700 text-left">
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Plan</th>
+                  <th className="py-2 pr-3">Target</th>
+                  <th className="py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.upcoming.map((execution) => (
+                  <tr key={executionKey(execution)} className="border-b border-gray-800 last:border-b-0">
+                    <td className="py-1.5 pr-3 text-gray-300">
+                      {execution.dueDate} <span className="text-xs text-gray-500">in {-execution.daysOverdue} days</span>
+                    </td>
+                    <td className="py-1.5 pr-3 text-white">{execution.plan.name}</td>
+                    <td className="py-1.5 pr-3 text-gray-300">{isCashPlan(execution.plan) ? 'Cash deposit' : execution.plan.ticker}</td>
+                    <td className="py-1.5 text-right text-gray-300">{formatMoney(execution.plan.amount, execution.plan.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">Plans</h3>
+          <p className="text-xs text-gray-500 mb-3">Plans are stored in this browser.</p>
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">No plans yet. Add one to get reminders for each execution.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700 text-left">
+                    <th className="py-2 pr-3">Name</th>
+                    <th className="py-2 pr-3">Target</th>
+                    <th className="py-2 pr-3 text-right">Amount</th>
+                    <th className="py-2 pr-3">Cadence</th>
+                    <th className="py-2 pr-3">Runs</th>
+                    <th className="py-2 pr-3">Next</th>
+                    <th className="py-2 pr-3 text-right">Done / skipped</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {plans.map((plan) => {
+                    const executions = planExecutions(plan, new Date(), 0);
+                    const done = executions.filter((e) => e.status === 'done').length;
+                    const skipped = executions.filter((e) => e.status === 'skipped').length;
+                    return (
+                      <tr key={plan.id} className="border-b border-gray-800 last:border-b-0">
+                        <td className="py-1.5 pr-3 text-white">{plan.name}</td>
+                        <td className="py-1.5 pr-3 text-gray-300">{isCashPlan(plan) ? 'Cash deposit' : plan.ticker}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{formatMoney(plan.amount, plan.currency)}</td>
+                        <td className="py-1.5 pr-3 text-gray-300">{cadenceLabel(plan.cadence)}</td>
+                        <td className="py-1.5 pr-3 text-gray-400">
+                          {plan.startDate}{plan.endDate ? ` – ${plan.endDate}` : ' onwards'}
+                        </td>
+                        <td className="py-1.5 pr-3 text-gray-300">{nextDueDate(plan) ?? <span className="text-gray-500">Ended</span>}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{done} / {skipped}</td>
+                        <td className="py-1.5">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => editPlan(plan)}
+                              className="p-1.5 text-gray-400 hover:text-primary-400 hover:bg-gray-700 rounded transition-colors"
+                              title="Edit"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(plan)}
+                              className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded transition-colors"
+                              title="Delete"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {confirming && (
+        <AddOperationModal
+          onClose={() => setConfirming(null)}
+          onSuccess={() => {
+            setExecution(confirming.execution.plan.id, confirming.execution.dueDate, 'done');
+            invalidateCache('portfolio');
+          }}
+          initialValues={confirming.draft}
+          portfolioId={portfolioId}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { isAuthenticated } from '@/lib/auth';
-import { stockAPI, portfolioAPI, invalidateCache, Stock, PortfolioMetrics, PortfolioUnits } from '@/lib/api';
+import { stockAPI, portfolioAPI, invalidateCache, Stock, PortfolioMetrics, PortfolioUnits, APIStatus } from '@/lib/api';
 import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
 import StockTable from '@/components/StockTable';
 import AddOperationModal, { type AddOperationInitialValues } from '@/components/AddOperationModal';
 import JsonUploadModal from '@/components/JsonUploadModal';
@@ -22,6 +23,7 @@ const LATEST_PRICE_QUERY_DELAY_MS = 300;
 export default function PortfolioPage() {
   const router = useRouter();
   const { targetPctBySector } = useSectorTargetsContext();
+  const { portfolioId } = usePortfolioContext();
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [metrics, setMetrics] = useState<PortfolioMetrics | null>(null);
   const [units, setUnits] = useState<PortfolioUnits | null>(null);
@@ -30,7 +32,7 @@ export default function PortfolioPage() {
   const [addOperationInitialValues, setAddOperationInitialValues] = useState<AddOperationInitialValues | undefined>(undefined);
   const [showJsonUploadModal, setShowJsonUploadModal] = useState(false);
   const [error, setError] = useState('');
-  const [apiStatus, setApiStatus] = useState<any>(null);
+  const [apiStatus, setApiStatus] = useState<APIStatus | null>(null);
   const [updatingStocks, setUpdatingStocks] = useState<Array<{ stockId: number; source: 'grok' | 'alphavantage' }>>([]);
   const [selectedStockIds, setSelectedStockIds] = useState<number[]>([]);
   const [collectingFairValues, setCollectingFairValues] = useState(false);
@@ -56,9 +58,13 @@ export default function PortfolioPage() {
       router.push('/login');
       return;
     }
-    fetchData();
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(false, controller.signal);
     checkAPIStatus();
-  }, [router]);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
 
   const checkAPIStatus = async () => {
     try {
@@ -69,19 +75,21 @@ export default function PortfolioPage() {
     }
   };
 
-  const fetchData = async (forceRefresh: boolean = false) => {
+  const fetchData = async (forceRefresh: boolean = false, signal?: AbortSignal) => {
     try {
       setLoading(true);
-      const response = await portfolioAPI.getSummary(undefined, { forceRefresh });
+      const response = await portfolioAPI.getSummary(portfolioId, { forceRefresh });
+      if (signal?.aborted) return;
       setStocks(response.data.stocks || []);
       setMetrics(response.data.summary || null);
       setUnits(response.data.units || null);
       setError('');
     } catch (err: any) {
+      if (signal?.aborted) return;
       setError('Failed to load portfolio data');
       console.error('Error fetching data:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -89,7 +97,7 @@ export default function PortfolioPage() {
     if (!source) return;
     try {
       setUpdatingStocks(prev => [...prev, { stockId: id, source }]);
-      await stockAPI.updateSingle(id, source);
+      await stockAPI.updateSingle(id, source, portfolioId);
       invalidateCache('portfolio');
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchData(true);
@@ -106,7 +114,7 @@ export default function PortfolioPage() {
 
   const handlePriceUpdate = async (id: number, newPrice: number) => {
     try {
-      await stockAPI.updatePrice(id, newPrice);
+      await stockAPI.updatePrice(id, newPrice, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
     } catch (err: any) {
@@ -116,7 +124,7 @@ export default function PortfolioPage() {
 
   const handleFieldUpdate = async (id: number, field: string, value: number) => {
     try {
-      await stockAPI.updateField(id, field, value);
+      await stockAPI.updateField(id, field, value, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
     } catch (err: any) {
@@ -143,7 +151,7 @@ export default function PortfolioPage() {
     const reason = prompt('Enter reason for deletion (optional):');
     if (reason === null) return;
     try {
-      await stockAPI.delete(id, reason);
+      await stockAPI.delete(id, reason, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
       alert('Stock deleted successfully!');
@@ -167,7 +175,7 @@ export default function PortfolioPage() {
       setCollectingFairValues(true);
       const controller = new AbortController();
       setCollectAbortController(controller);
-      const response = await stockAPI.collectFairValues(selectedActiveIds, undefined, controller.signal);
+      const response = await stockAPI.collectFairValues(selectedActiveIds, portfolioId, controller.signal);
       invalidateCache('portfolio');
       await fetchData(true);
       const data = response.data || {};
@@ -213,7 +221,7 @@ export default function PortfolioPage() {
 
       for (const activeStock of selectedActiveStocks) {
         try {
-          await stockAPI.latestPrice(activeStock.id);
+          await stockAPI.latestPrice(activeStock.id, portfolioId);
           updatedTickers.push(activeStock.ticker);
         } catch (err: any) {
           failedStocks.push(`${activeStock.ticker}: ${err.response?.data?.error || err.message || 'Unknown error'}`);
@@ -250,7 +258,7 @@ export default function PortfolioPage() {
       return;
     }
     try {
-      const response = await stockAPI.getBatch(selectedStockIds);
+      const response = await stockAPI.getBatch(selectedStockIds, portfolioId);
       const selectedStocks = response.data || [];
       const exportData = selectedStocks.map((stock: Stock) => ({
         ticker: stock.ticker,
@@ -493,6 +501,7 @@ export default function PortfolioPage() {
           units={units}
           sectorWeights={metrics?.sector_weights}
           sectorTargets={targetPctBySector}
+          portfolioId={portfolioId}
           onBuyClick={(stock) => {
             setAddOperationInitialValues({
               ticker: stock.ticker,
@@ -532,7 +541,7 @@ export default function PortfolioPage() {
             </div>
           </summary>
           <div className="mt-3 animate-in fade-in duration-200">
-            <CashManagementTable />
+            <CashManagementTable portfolioId={portfolioId} />
           </div>
         </details>
         <details className="group">
@@ -562,11 +571,14 @@ export default function PortfolioPage() {
             await fetchData(true);
           }}
           initialValues={addOperationInitialValues}
+          portfolioId={portfolioId}
         />
       )}
       <JsonUploadModal
         isOpen={showJsonUploadModal}
         onClose={() => setShowJsonUploadModal(false)}
+        currentStocks={stocks}
+        portfolioId={portfolioId}
         onSuccess={async () => {
           setShowJsonUploadModal(false);
           invalidateCache('portfolio');
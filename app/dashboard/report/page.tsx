@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { portfolioAPI, analyticsAPI, Stock, PortfolioMetrics, PortfolioUnits, MoverData } from '@/lib/api';
+import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { getSectorRebalanceSummary } from '@/lib/portfolioInsights';
+import { buildExportRows } from '@/lib/tableExport';
+import { BASE_CURRENCY } from '@/lib/fx';
+import { DEFAULT_COLUMNS } from '@/components/ColumnSettings';
+import PortfolioOverviewSection from '@/components/PortfolioOverviewSection';
+import RiskCard from '@/components/RiskCard';
+import SuggestedActions from '@/components/SuggestedActions';
+import { PrinterIcon } from '@heroicons/react/24/outline';
+
+const MOVERS_TIMEFRAME = '30d';
+const MOVERS_LIMIT = 5;
+
+/** Positions table columns, labelled as in StockTable. */
+const POSITION_COLUMN_IDS = [
+  'ticker',
+  'company_name',
+  'sector',
+  'shares_owned',
+  'avg_price_local',
+  'current_price',
+  'total_value',
+  'weight',
+  'unrealized_pnl',
+  'expected_value',
+  'assessment',
+];
+const POSITION_COLUMNS = POSITION_COLUMN_IDS.map((id) => ({
+  id,
+  label: DEFAULT_COLUMNS.find((c) => c.id === id)?.label ?? id,
+}));
+
+const STATUS_CLASS = {
+  Over: 'text-amber-400',
+  Within: 'text-green-400',
+  Under: 'text-emerald-300',
+  'No target': 'text-gray-500',
+} as const;
+
+type AllocationRow = { sector: string; currentPct: number; target: string; status: keyof typeof STATUS_CLASS };
+
+function MoverList({ title, items }: { title: string; items: MoverData[] }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-400 mb-2">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-500">No data for this period.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {items.map((m) => (
+              <tr key={m.stock_id} className="border-b border-gray-800 last:border-b-0">
+                <td className="py-1 pr-3 font-medium text-white">{m.ticker}</td>
+                <td className={`py-1 pr-3 text-right ${m.price_change_percent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {m.price_change_percent >= 0 ? '+' : ''}{m.price_change_percent.toFixed(1)}%
+                </td>
+                <td className="py-1 text-right text-xs text-gray-400">
+                  {m.current_assessment !== m.previous_assessment
+                    ? `${m.previous_assessment} → ${m.current_assessment}`
+                    : m.current_assessment}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function PortfolioReportPage() {
+  const router = useRouter();
+  const { targetPctBySector } = useSectorTargetsContext();
+  const { portfolioId } = usePortfolioContext();
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [metrics, setMetrics] = useState<PortfolioMetrics | null>(null);
+  const [units, setUnits] = useState<PortfolioUnits | null>(null);
+  const [movers, setMovers] = useState<{ gainers: MoverData[]; losers: MoverData[] } | null>(null);
+  const [generatedAt, setGeneratedAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
+
+  const fetchData = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const [summaryResponse, moversResponse] = await Promise.all([
+        portfolioAPI.getSummary(portfolioId),
+        // Movers depend on historical snapshots; the report still prints without them.
+        analyticsAPI.getTopMovers(MOVERS_TIMEFRAME, MOVERS_LIMIT, portfolioId).catch(() => null),
+      ]);
+      if (signal?.aborted) return;
+      setStocks(summaryResponse.data.stocks || []);
+      setMetrics(summaryResponse.data.summary || null);
+      setUnits(summaryResponse.data.units || null);
+      setMovers(moversResponse
+        ? { gainers: moversResponse.data.top_gainers || [], losers: moversResponse.data.top_losers || [] }
+        : null);
+      setGeneratedAt(new Date());
+      setError('');
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      setError(err.response?.data?.error || 'Failed to load portfolio data');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Preparing report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const activeStocks = stocks.filter((s) => (s.shares_owned ?? 0) > 0);
+  const baseCurrency = units?.summary_total_value || BASE_CURRENCY;
+
+  const allocation: AllocationRow[] = [];
+  if (metrics) {
+    const summary = getSectorRebalanceSummary(metrics.sector_weights, targetPctBySector);
+    const range = (min: number, max: number) => (min === max ? `${min}%` : `${min}–${max}%`);
+    for (const d of summary.over) allocation.push({ sector: d.sector, currentPct: d.currentPct, target: range(d.targetMin, d.targetMax), status: 'Over' });
+    for (const d of summary.at) allocation.push({ sector: d.sector, currentPct: d.currentPct, target: range(d.targetMin, d.targetMax), status: 'Within' });
+    for (const d of summary.under) allocation.push({ sector: d.sector, currentPct: d.currentPct, target: range(d.targetMin, d.targetMax), status: 'Under' });
+    for (const d of summary.noTarget) allocation.push({ sector: d.sector, currentPct: d.currentPct, target: '—', status: 'No target' });
+    allocation.sort((a, b) => b.currentPct - a.currentPct);
+  }
+
+  const sortedPositions = [...activeStocks].sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0));
+  const [positionHeader, ...positionRows] = buildExportRows(sortedPositions, POSITION_COLUMNS, 'formatted', {
+    units,
+    sectorWeights: metrics?.sector_weights,
+  });
+
+  return (
+    <div className="print-report max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-6">
+        <div>
+          <h1 className="text-xl font-bold text-white">Portfolio report</h1>
+          <p className="text-xs text-gray-400 mt-1">
+            {generatedAt ? `Generated ${generatedAt.toLocaleString()}` : ''} · Base currency {baseCurrency}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 text-white text-sm rounded hover:bg-primary-700 transition-colors print:hidden"
+        >
+          <PrinterIcon className="h-4 w-4" />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg print:hidden">
+          {error}
+        </div>
+      )}
+
+      {metrics && (
+        <>
+          <PortfolioOverviewSection metrics={metrics} units={units} stocks={activeStocks} portfolioId={portfolioId} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 print:grid-cols-2 gap-4 mb-6 items-stretch">
+            <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-200 mb-3">Sector allocation vs targets</h3>
+              {allocation.length === 0 ? (
+                <p className="text-sm text-gray-500">No sector weights available.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-700 text-left">
+                      <th className="py-2 pr-3">Sector</th>
+                      <th className="py-2 pr-3 text-right">Current</th>
+                      <th className="py-2 pr-3 text-right">Target</th>
+                      <th className="py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {allocation.map((row) => (
+                      <tr key={row.sector} className="border-b border-gray-800 last:border-b-0">
+                        <td className="py-1.5 pr-3 text-gray-300">{row.sector}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">{row.currentPct.toFixed(1)}%</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-400">{row.target}</td>
+                        <td className={`py-1.5 ${STATUS_CLASS[row.status]}`}>{row.status}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="min-h-0 flex">
+              <RiskCard stocks={stocks} />
+            </div>
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 mb-6">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Top movers (last 30 days)</h3>
+            {movers ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6">
+                <MoverList title="Gainers" items={movers.gainers} />
+                <MoverList title="Losers" items={movers.losers} />
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Top movers are unavailable right now.</p>
+            )}
+          </div>
+
+          <div className="mb-6">
+            <SuggestedActions metrics={metrics} stocks={stocks} sectorTargets={targetPctBySector} />
+          </div>
+
+          <div className="print-section bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Positions ({activeStocks.length})</h3>
+            <div className="overflow-x-auto print:overflow-visible">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 border-b border-gray-700 text-left">
+                    {positionHeader.map((label, idx) => (
+                      <th key={idx} className={`py-2 pr-3 whitespace-nowrap ${idx >= 3 && idx < positionHeader.length - 1 ? 'text-right' : ''}`}>
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {positionRows.map((row, rowIdx) => (
+                    <tr key={sortedPositions[rowIdx].id} className="border-b border-gray-800 last:border-b-0">
+                      {row.map((cell, idx) => (
+                        <td
+                          key={idx}
+                          className={`py-1.5 pr-3 text-gray-300 ${idx === 0 ? 'font-medium text-white' : ''} ${idx >= 3 && idx < row.length - 1 ? 'text-right whitespace-nowrap' : ''}`}
+                        >
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { portfolioAPI, exchangeRateAPI, type ExchangeRate, type PortfolioMetrics, type Stock } from '@/lib/api';
+import { toRateMap } from '@/lib/fx';
+import { applyScenario, describeShock, EXAMPLE_SCENARIOS, type Scenario, type Shock } from '@/lib/scenarios';
+import { formatSectorTarget } from '@/lib/sectorTargets';
+import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { useScenarios } from '@/hooks/useScenarios';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+const signed = (n: number, digits = 1) => `${n >= 0 ? '+' : ''}${n.toFixed(digits)}`;
+
+const newScenario = (): Scenario => ({ id: `scenario-${Date.now()}`, name: '', shocks: [{ kind: 'market', pct: -20 }] });
+
+export default function ScenariosPage() {
+  const router = useRouter();
+  const { portfolioId } = usePortfolioContext();
+  const { targetPctBySector } = useSectorTargetsContext();
+  const { scenarios, saveScenario, deleteScenario } = useScenarios();
+
+  const [metrics, setMetrics] = useState<PortfolioMetrics | null>(null);
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState<Scenario>(EXAMPLE_SCENARIOS[0]);
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
+
+  const fetchData = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const [summaryResponse, ratesResponse] = await Promise.all([portfolioAPI.getSummary(portfolioId), exchangeRateAPI.getAll()]);
+      if (signal?.aborted) return;
+      setMetrics(summaryResponse.data.summary || null);
+      setStocks(summaryResponse.data.stocks || []);
+      setRates(ratesResponse.data || []);
+      setError('');
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      setError(err.response?.data?.error || 'Failed to load portfolio');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const activeStocks = stocks.filter((s) => s.shares_owned > 0);
+  const sectors = Array.from(new Set(activeStocks.map((s) => (s.sector || '').trim()).filter(Boolean))).sort();
+  const currencies = Array.from(new Set([
+    ...activeStocks.map((s) => (s.currency || '').toUpperCase()),
+    ...rates.map((r) => r.currency_code.toUpperCase()),
+  ].filter((c) => c && c !== 'EUR'))).sort();
+
+  const updateShock = (index: number, shock: Shock) => {
+    setDraft((prev) => ({ ...prev, shocks: prev.shocks.map((s, i) => (i === index ? shock : s)) }));
+  };
+
+  const changeKind = (index: number, kind: Shock['kind']) => {
+    const pct = draft.shocks[index].pct;
+    if (kind === 'sector') updateShock(index, { kind, sector: sectors[0] ?? '', pct });
+    else if (kind === 'currency') updateShock(index, { kind, currency: currencies[0] ?? 'USD', pct });
+    else updateShock(index, { kind, pct });
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim() || draft.shocks.map(describeShock).join(', ');
+    // Examples are read-only; saving one stores a copy.
+    const id = draft.id.startsWith('example-') ? `scenario-${Date.now()}` : draft.id;
+    const saved = { ...draft, id, name };
+    saveScenario(saved);
+    setDraft(saved);
+  };
+
+  const handleDelete = (scenario: Scenario) => {
+    if (!confirm(`Delete scenario "${scenario.name}"?`)) return;
+    deleteScenario(scenario.id);
+    if (draft.id === scenario.id) setDraft(newScenario());
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Loading portfolio...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const result = metrics ? applyScenario(stocks, metrics.total_value, draft.shocks, toRateMap(rates)) : null;
+  const isSaved = scenarios.some((s) => s.id === draft.id);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-xl font-bold text-white mb-6">Scenarios</h1>
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside className="bg-gray-800 rounded-lg p-4 border border-gray-700 h-fit">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-gray-200">Saved scenarios</h2>
+            <button
+              type="button"
+              onClick={() => setDraft(newScenario())}
+              className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"
+              title="New scenario"
+            >
+              <PlusIcon className="h-4 w-4" />
+            </button>
+          </div>
+          {scenarios.length === 0 && <p className="text-xs text-gray-500 mb-2">No saved scenarios yet.</p>}
+          <ul className="space-y-1 mb-4">
+            {scenarios.map((s) => (
+              <li key={s.id} className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setDraft(s)}
+                  className={`flex-1 text-left px-2 py-1.5 rounded text-sm truncate ${draft.id === s.id ? 'bg-primary-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {s.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(s)}
+                  className="p-1 rounded text-gray-500 hover:text-red-300"
+                  title="Delete scenario"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <h3 className="text-xs text-gray-500 mb-1">Examples</h3>
+          <ul className="space-y-1">
+            {EXAMPLE_SCENARIOS.map((s) => (
+              <li key={s.id}>
+                <button
+                  type="button"
+                  onClick={() => setDraft(s)}
+                  className={`w-full text-left px-2 py-1.5 rounded text-sm ${draft.id === s.id ? 'bg-primary-600 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+                >
+                  {s.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        <div className="lg:col-span-3 space-y-6">
+          <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Scenario name"
+                className="flex-1 min-w-[12rem] bg-gray-700 text-white text-sm rounded px-3 py-1.5 border border-gray-600"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={draft.shocks.length === 0}
+                className="px-3 py-1.5 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSaved ? 'Update' : 'Save'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Shocks compound per position: sector moves apply to that sector, currency moves to positions quoted in that currency (vs EUR), and market moves are scaled by each stock&apos;s beta.
+            </p>
+            <div className="space-y-2">
+              {draft.shocks.map((shock, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={shock.kind}
+                    onChange={(e) => changeKind(i, e.target.value as Shock['kind'])}
+                    className="bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                  >
+                    <option value="market">Market (beta-scaled)</option>
+                    <option value="sector">Sector</option>
+                    <option value="currency">Currency vs EUR</option>
+                  </select>
+                  {shock.kind === 'sector' && (
+                    <select
+                      value={shock.sector}
+                      onChange={(e) => updateShock(i, { ...shock, sector: e.target.value })}
+                      className="bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                    >
+                      {!sectors.includes(shock.sector) && <option value={shock.sector}>{shock.sector || '—'}</option>}
+                      {sectors.map((s) => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  )}
+                  {shock.kind === 'currency' && (
+                    <select
+                      value={shock.currency}
+                      onChange={(e) => updateShock(i, { ...shock, currency: e.target.value })}
+                      className="bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                    >
+                      {!currencies.includes(shock.currency) && <option value={shock.currency}>{shock.currency}</option>}
+                      {currencies.map((c) => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  )}
+                  <input
+                    type="number"
+                    step={1}
+                    min={-100}
+                    value={shock.pct}
+                    onChange={(e) => updateShock(i, { ...shock, pct: Math.max(-100, Number(e.target.value) || 0) })}
+                    className="w-20 bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600"
+                  />
+                  <span className="text-sm text-gray-400">%</span>
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, shocks: draft.shocks.filter((_, j) => j !== i) })}
+                    className="p-1 rounded text-gray-500 hover:text-red-300"
+                    title="Remove shock"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, shocks: [...draft.shocks, { kind: 'sector', sector: sectors[0] ?? '', pct: -10 }] })}
+                className="flex items-center gap-1 text-xs text-primary-400 hover:text-primary-300"
+              >
+                <PlusIcon className="h-4 w-4" /> Add shock
+              </button>
+            </div>
+          </div>
+
+          {!result ? (
+            <p className="text-gray-500 text-sm">No portfolio data available.</p>
+          ) : (
+            <>
+              <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-500 block">Total value now</span>
+                    <span className="text-white font-semibold">{formatEur(result.totalBefore)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 block">After shocks</span>
+                    <span className="text-white font-semibold">{formatEur(result.totalAfter)}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 block">Impact</span>
+                    <span className={`font-semibold ${result.change >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatEur(result.change)} ({signed(result.changePct)}%)
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 block">Largest position</span>
+                    <span className="text-white font-semibold">
+                      {result.concentrationAfter.maxPositionTicker} {result.concentrationAfter.maxPositionPct.toFixed(1)}%
+                    </span>
+                    <span className="text-gray-500 text-xs ml-1">
+                      was {result.concentrationBefore.maxPositionTicker} {result.concentrationBefore.maxPositionPct.toFixed(1)}%
+                    </span>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-400 mt-3">
+                  <span>Top 3: {result.concentrationBefore.top3Pct.toFixed(1)}% → <span className="text-white">{result.concentrationAfter.top3Pct.toFixed(1)}%</span></span>
+                  <span>Top 5: {result.concentrationBefore.top5Pct.toFixed(1)}% → <span className="text-white">{result.concentrationAfter.top5Pct.toFixed(1)}%</span></span>
+                  {result.shockedRates.map((r) => (
+                    <span key={r.currency}>
+                      EUR/{r.currency}: {r.before?.toFixed(4) ?? '—'} → <span className="text-white">{r.after?.toFixed(4) ?? '—'}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                  <h3 className="text-sm font-semibold text-gray-200 mb-2">Sector weights</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700 text-left">
+                        <th className="py-2 pr-3">Sector</th>
+                        <th className="py-2 pr-3 text-right">Now</th>
+                        <th className="py-2 pr-3 text-right">After</th>
+                        <th className="py-2 text-right">Target</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.sectors.map((s) => (
+                        <tr key={s.sector} className="border-b border-gray-800 last:border-b-0">
+                          <td className="py-2 pr-3 text-gray-300">{s.sector}</td>
+                          <td className="py-2 pr-3 text-right text-gray-400">{s.weightBeforePct.toFixed(1)}%</td>
+                          <td className="py-2 pr-3 text-right text-white">{s.weightAfterPct.toFixed(1)}%</td>
+                          <td className="py-2 text-right text-xs text-gray-500">
+                            {formatSectorTarget(s.sector, targetPctBySector)?.replace('target ', '') ?? '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                  <h3 className="text-sm font-semibold text-gray-200 mb-2">Positions</h3>
+                  <div className="max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-400 border-b border-gray-700 text-left">
+                          <th className="py-2 pr-3">Ticker</th>
+                          <th className="py-2 pr-3 text-right">Now</th>
+                          <th className="py-2 pr-3 text-right">After</th>
+                          <th className="py-2 text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.positions.map((p) => (
+                          <tr key={p.stockId} className="border-b border-gray-800 last:border-b-0">
+                            <td className="py-2 pr-3 text-primary-400 font-medium">
+                              {p.ticker}
+                              <span className="text-gray-500 text-xs ml-1">{p.currency}</span>
+                            </td>
+                            <td className="py-2 pr-3 text-right text-gray-400">{formatEur(p.valueBefore)}</td>
+                            <td className="py-2 pr-3 text-right text-white">{formatEur(p.valueAfter)}</td>
+                            <td className={`py-2 text-right ${p.changePct >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {signed(p.changePct)}%
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
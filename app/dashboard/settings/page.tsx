@@ -8,6 +8,8 @@ import { PlusIcon, TrashIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentDuplic
 import ColumnSettings, { ColumnConfig, DEFAULT_COLUMNS } from '@/components/ColumnSettings';
 import { useColumnSettings } from '@/hooks/useColumnSettings';
 import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import BackupRestoreCard from '@/components/BackupRestoreCard';
 import { SECTOR_TARGET_TABLE, CASH_TARGET_ROW, type SectorTargetTableRow } from '@/lib/sectorTargets';
 
 const SECTOR_TARGETS_EXPORT_FILENAME = 'sector-targets.json';
@@ -400,7 +402,8 @@ function SectorTargetsTabContent({ canEditSectorTargets }: { canEditSectorTarget
 
 export default function SettingsPage() {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'username' | 'password' | 'portfolio' | 'columns' | 'sector-targets'>('username');
+  const { portfolioId } = usePortfolioContext();
+  const [activeTab, setActiveTab] = useState<'username' | 'password' | 'portfolio' | 'columns' | 'sector-targets' | 'backup'>('username');
   const [currentUser, setCurrentUser] = useState<{ username: string } | null>(null);
 
   // Elementary RBAC: only admin can edit sector targets (view allowed for all authenticated users)
@@ -600,6 +603,16 @@ export default function SettingsPage() {
           >
             Sector Targets
           </button>
+          <button
+            onClick={() => setActiveTab('backup')}
+            className={`px-4 py-2 font-medium transition-colors ${
+              activeTab === 'backup'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-gray-400 hover:text-gray-300'
+            }`}
+          >
+            Backup
+          </button>
         </div>
 
         {/* Username Tab */}
@@ -846,6 +859,9 @@ export default function SettingsPage() {
           <SectorTargetsTabContent canEditSectorTargets={canEditSectorTargets} />
         )}
 
+        {/* Backup Tab */}
+        {activeTab === 'backup' && <BackupRestoreCard portfolioId={portfolioId} />}
+
         {/* Column Settings Tab */}
         {activeTab === 'columns' && (
           <div>
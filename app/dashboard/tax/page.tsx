@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { isAuthenticated } from '@/lib/auth';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { operationsAPI, exchangeRateAPI, type ExchangeRate, type Operation } from '@/lib/api';
+import { toRateMap } from '@/lib/fx';
+import { COST_METHODS, type CostMethod } from '@/lib/taxLots';
+import { buildTaxReport, reportYears, taxReportRows, type FxSource } from '@/lib/taxReport';
+import { exportTable } from '@/lib/tableExport';
+import { ArrowDownTrayIcon, PrinterIcon } from '@heroicons/react/24/outline';
+
+const formatEur = (n: number | null) =>
+  n === null ? '—' : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 }).format(n);
+
+const formatLocal = (n: number, currency: string) => `${n.toFixed(2)} ${currency}`;
+
+const gainClass = (n: number | null) =>
+  n === null || n === 0 ? 'text-gray-300 print:text-black' : n > 0 ? 'text-green-400 print:text-black' : 'text-red-400 print:text-black';
+
+const FX_MARK: Record<FxSource, string> = { 'trade-date': '', current: '*', missing: '†' };
+
+export default function TaxReportPage() {
+  const router = useRouter();
+  const { portfolioId } = usePortfolioContext();
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [year, setYear] = useState<number | null>(null);
+  const [method, setMethod] = useState<CostMethod>('FIFO');
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login');
+      return;
+    }
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
+
+  const fetchData = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const [operationsResponse, ratesResponse] = await Promise.all([operationsAPI.list(portfolioId), exchangeRateAPI.getAll()]);
+      if (signal?.aborted) return;
+      setOperations(operationsResponse.data || []);
+      setRates(ratesResponse.data || []);
+      setError('');
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      setError(err.response?.data?.error || 'Failed to load operations');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mx-auto mb-4" />
+          <p className="text-gray-400">Loading tax report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const years = reportYears(operations);
+  const selectedYear = year ?? years[0] ?? new Date().getFullYear();
+  const report = buildTaxReport(operations, { year: selectedYear, method, rates: toRateMap(rates) });
+
+  const cardClass = 'bg-gray-800 rounded-lg p-4 border border-gray-700 print:bg-white print:border-gray-300 print:break-inside-avoid';
+  const headingClass = 'text-sm font-semibold text-gray-200 mb-3 print:text-black';
+  const theadClass = 'text-gray-400 border-b border-gray-700 text-left print:text-gray-700 print:border-gray-300';
+  const rowClass = 'border-b border-gray-800 last:border-b-0 print:border-gray-200';
+  const cellClass = 'py-1.5 pr-3 text-gray-300 print:text-black';
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:max-w-none print:p-0">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h1 className="text-xl font-bold text-white print:text-black">Capital gains report {selectedYear}</h1>
+        <div className="flex flex-wrap items-center gap-2 print:hidden">
+          <select
+            value={selectedYear}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="bg-gray-700 text-white text-sm rounded px-2 py-1.5 border border-gray-600"
+          >
+            {(years.length > 0 ? years : [selectedYear]).map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CostMethod)}
+            className="bg-gray-700 text-white text-sm rounded px-2 py-1.5 border border-gray-600"
+          >
+            {COST_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => exportTable(taxReportRows(report), 'csv', `capital-gains-${selectedYear}`)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-700 text-white text-sm rounded hover:bg-gray-600 transition-colors"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-primary-600 text-white text-sm rounded hover:bg-primary-700 transition-colors"
+          >
+            <PrinterIcon className="h-4 w-4" />
+            Print
+          </button>
+        </div>
+      </div>
+      <p className="hidden print:block text-xs text-gray-600 mb-4">
+        Cost method {report.method}; amounts in {report.baseCurrency}. Generated {new Date().toLocaleString()}.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg print:hidden">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {[
+          { label: 'Gains', value: report.totals.gainsBase },
+          { label: 'Losses', value: report.totals.lossesBase },
+          { label: 'Net realized', value: report.totals.netBase },
+          { label: 'Long-term (> 1 year)', value: report.totals.longTermBase },
+          { label: 'Dividends', value: report.totals.dividendsBase },
+        ].map((tile) => (
+          <div key={tile.label} className={cardClass}>
+            <p className="text-xs text-gray-500 print:text-gray-600">{tile.label}</p>
+            <p className={`text-lg font-semibold ${tile.label === 'Dividends' ? 'text-white print:text-black' : gainClass(tile.value)}`}>
+              {formatEur(tile.value)}
+            </p>
+            {tile.label === 'Dividends' && report.totals.withholdingBase > 0 && (
+              <p className="text-xs text-gray-500 print:text-gray-600">{formatEur(report.totals.withholdingBase)} withheld</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {(report.approximateRows > 0 || report.unmatched.length > 0) && (
+        <div className="mb-6 text-xs text-amber-300 space-y-1 print:text-black">
+          {report.approximateRows > 0 && (
+            <p>* {report.approximateRows} rows have no trade-date rate and use today&apos;s exchange rate (†: no rate at all, left out of totals).</p>
+          )}
+          {report.unmatched.map((u) => (
+            <p key={`${u.ticker}-${u.date}`}>{u.ticker} sale on {u.date}: {u.quantity} shares have no matching Buy and are not in this report.</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <div className={cardClass}>
+          <h3 className={headingClass}>Realized gains and losses</h3>
+          {report.lots.length === 0 ? (
+            <p className="text-sm text-gray-500">No sales in {selectedYear}.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={theadClass}>
+                    <th className="py-2 pr-3">Ticker</th>
+                    <th className="py-2 pr-3">Bought</th>
+                    <th className="py-2 pr-3">Sold</th>
+                    <th className="py-2 pr-3 text-right">Qty</th>
+                    <th className="py-2 pr-3 text-right">Cost</th>
+                    <th className="py-2 pr-3 text-right">Proceeds</th>
+                    <th className="py-2 pr-3 text-right">Gain</th>
+                    <th className="py-2 pr-3 text-right">Gain (EUR)</th>
+                    <th className="py-2 pr-3 text-right">Days</th>
+                    <th className="py-2">Term</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lots.map((lot, idx) => (
+                    <tr key={idx} className={rowClass}>
+                      <td className={`${cellClass} font-medium text-white`}>{lot.ticker}</td>
+                      <td className={cellClass}>{lot.openDate}</td>
+                      <td className={cellClass}>{lot.closeDate}</td>
+                      <td className={`${cellClass} text-right`}>{Number(lot.quantity.toFixed(6))}</td>
+                      <td className={`${cellClass} text-right`}>{formatLocal(lot.costLocal, lot.currency)}</td>
+                      <td className={`${cellClass} text-right`}>{formatLocal(lot.proceedsLocal, lot.currency)}</td>
+                      <td className={`py-1.5 pr-3 text-right ${gainClass(lot.gainLocal)}`}>{formatLocal(lot.gainLocal, lot.currency)}</td>
+                      <td className={`py-1.5 pr-3 text-right ${gainClass(lot.gainBase)}`}>
+                        {formatEur(lot.gainBase)}{FX_MARK[lot.fxSource]}
+                      </td>
+                      <td className={`${cellClass} text-right`}>{lot.holdingDays}</td>
+                      <td className={cellClass}>{lot.longTerm ? 'Long' : 'Short'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:grid-cols-2">
+          <div className={cardClass}>
+            <h3 className={headingClass}>Dividend income</h3>
+            {report.dividends.length === 0 && report.withholding.length === 0 ? (
+              <p className="text-sm text-gray-500">No dividends in {selectedYear}.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={theadClass}>
+                    <th className="py-2 pr-3">Date</th>
+                    <th className="py-2 pr-3">Ticker</th>
+                    <th className="py-2 pr-3 text-right">Amount</th>
+                    <th className="py-2 text-right">EUR</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.dividends.map((d, idx) => (
+                    <tr key={idx} className={rowClass}>
+                      <td className={cellClass}>{d.date}</td>
+                      <td className={cellClass}>{d.ticker || '—'}</td>
+                      <td className={`${cellClass} text-right`}>{formatLocal(d.amountLocal, d.currency)}</td>
+                      <td className={`${cellClass} text-right`}>{formatEur(d.amountBase)}{FX_MARK[d.fxSource]}</td>
+                    </tr>
+                  ))}
+                  {report.withholding.map((w, idx) => (
+                    <tr key={`wht-${idx}`} className={rowClass}>
+                      <td className={cellClass}>{w.date}</td>
+                      <td className={cellClass}>{w.ticker || '—'} <span className="text-xs text-gray-500">withheld</span></td>
+                      <td className={`${cellClass} text-right`}>{formatLocal(-w.amountLocal, w.currency)}</td>
+                      <td className={`${cellClass} text-right`}>{formatEur(w.amountBase === null ? null : -w.amountBase)}{FX_MARK[w.fxSource]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <h3 className={headingClass}>Totals by currency</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className={theadClass}>
+                  <th className="py-2 pr-3">Currency</th>
+                  <th className="py-2 pr-3 text-right">Gain</th>
+                  <th className="py-2 pr-3 text-right">Gain (EUR)</th>
+                  <th className="py-2 pr-3 text-right">Dividends</th>
+                  <th className="py-2 pr-3 text-right">Dividends (EUR)</th>
+                  <th className="py-2 text-right">Withheld (EUR)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.byCurrency.map((c) => (
+                  <tr key={c.currency} className={rowClass}>
+                    <td className={`${cellClass} font-medium`}>{c.currency}</td>
+                    <td className={`py-1.5 pr-3 text-right ${gainClass(c.gainLocal)}`}>{c.gainLocal.toFixed(2)}</td>
+                    <td className={`py-1.5 pr-3 text-right ${gainClass(c.gainBase)}`}>{formatEur(c.gainBase)}</td>
+                    <td className={`${cellClass} text-right`}>{c.dividendsLocal.toFixed(2)}</td>
+                    <td className={`${cellClass} text-right`}>{formatEur(c.dividendsBase)}</td>
+                    <td className={`${cellClass} text-right`}>{formatEur(c.withholdingBase)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
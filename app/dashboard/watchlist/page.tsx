@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { isAuthenticated } from '@/lib/auth';
 import { stockAPI, portfolioAPI, invalidateCache, Stock, PortfolioUnits } from '@/lib/api';
 import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
 import StockTable from '@/components/StockTable';
 import AddOperationModal from '@/components/AddOperationModal';
 import JsonUploadModal from '@/components/JsonUploadModal';
@@ -15,6 +16,7 @@ const LATEST_PRICE_QUERY_DELAY_MS = 300;
 export default function WatchlistPage() {
   const router = useRouter();
   const { targetPctBySector } = useSectorTargetsContext();
+  const { portfolioId } = usePortfolioContext();
   const [stocks, setStocks] = useState<Stock[]>([]);
   const [units, setUnits] = useState<PortfolioUnits | null>(null);
   const [loading, setLoading] = useState(true);
@@ -36,21 +38,27 @@ export default function WatchlistPage() {
       router.push('/login');
       return;
     }
-    fetchData();
-  }, [router]);
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(false, controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, portfolioId]);
 
-  const fetchData = async (forceRefresh: boolean = false) => {
+  const fetchData = async (forceRefresh: boolean = false, signal?: AbortSignal) => {
     try {
       setLoading(true);
-      const response = await portfolioAPI.getSummary(undefined, { forceRefresh });
+      const response = await portfolioAPI.getSummary(portfolioId, { forceRefresh });
+      if (signal?.aborted) return;
       setStocks(response.data.stocks || []);
       setUnits(response.data.units || null);
       setError('');
     } catch (err: any) {
+      if (signal?.aborted) return;
       setError('Failed to load watchlist data');
       console.error('Error fetching data:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -60,7 +68,7 @@ export default function WatchlistPage() {
     if (!source) return;
     try {
       setUpdatingStocks(prev => [...prev, { stockId: id, source }]);
-      await stockAPI.updateSingle(id, source);
+      await stockAPI.updateSingle(id, source, portfolioId);
       invalidateCache('portfolio');
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchData(true);
@@ -74,7 +82,7 @@ export default function WatchlistPage() {
 
   const handlePriceUpdate = async (id: number, newPrice: number) => {
     try {
-      await stockAPI.updatePrice(id, newPrice);
+      await stockAPI.updatePrice(id, newPrice, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
     } catch (err: any) {
@@ -84,7 +92,7 @@ export default function WatchlistPage() {
 
   const handleFieldUpdate = async (id: number, field: string, value: number) => {
     try {
-      await stockAPI.updateField(id, field, value);
+      await stockAPI.updateField(id, field, value, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
     } catch (err: any) {
@@ -106,7 +114,7 @@ export default function WatchlistPage() {
     const reason = prompt('Enter reason for deletion (optional):');
     if (reason === null) return;
     try {
-      await stockAPI.delete(id, reason);
+      await stockAPI.delete(id, reason, portfolioId);
       invalidateCache('portfolio');
       await fetchData(true);
       alert('Stock deleted successfully!');
@@ -122,7 +130,7 @@ export default function WatchlistPage() {
       return;
     }
     try {
-      const response = await stockAPI.getBatch(selectedStockIds);
+      const response = await stockAPI.getBatch(selectedStockIds, portfolioId);
       const selectedStocks = response.data || [];
       const exportData = selectedStocks.map((stock: Stock) => ({
         ticker: stock.ticker,
@@ -185,7 +193,7 @@ export default function WatchlistPage() {
 
       for (const watchlistStock of selectedWatchlistStocks) {
         try {
-          await stockAPI.latestPrice(watchlistStock.id);
+          await stockAPI.latestPrice(watchlistStock.id, portfolioId);
           updatedTickers.push(watchlistStock.ticker);
         } catch (err: any) {
           failedStocks.push(`${watchlistStock.ticker}: ${err.response?.data?.error || err.message || 'Unknown error'}`);
@@ -322,6 +330,7 @@ export default function WatchlistPage() {
           onTickerUpdate={fetchData}
           units={units}
           sectorTargets={targetPctBySector}
+          portfolioId={portfolioId}
         />
       </div>
 
@@ -334,11 +343,14 @@ export default function WatchlistPage() {
             await new Promise(resolve => setTimeout(resolve, 500));
             await fetchData(true);
           }}
+          portfolioId={portfolioId}
         />
       )}
       <JsonUploadModal
         isOpen={showJsonUploadModal}
         onClose={() => setShowJsonUploadModal(false)}
+        currentStocks={stocks}
+        portfolioId={portfolioId}
         onSuccess={async () => {
           setShowJsonUploadModal(false);
           invalidateCache('portfolio');
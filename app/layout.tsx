@@ -2,6 +2,7 @@ import './globals.css'
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import { SectorTargetsProvider } from '@/contexts/SectorTargetsContext'
+import { PortfolioProvider } from '@/contexts/PortfolioContext'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -18,9 +19,11 @@ export default function RootLayout({
   return (
     <html lang="en" dir="ltr" className="dark">
       <body className={`${inter.className} bg-gray-900 text-gray-100`} dir="ltr">
-        <SectorTargetsProvider>
-          {children}
-        </SectorTargetsProvider>
+        <PortfolioProvider>
+          <SectorTargetsProvider>
+            {children}
+          </SectorTargetsProvider>
+        </PortfolioProvider>
       </body>
     </html>
   )
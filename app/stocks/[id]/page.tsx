@@ -3,9 +3,11 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { isAuthenticated } from '@/lib/auth';
-import { invalidateCache, stockAPI, assessmentAPI, Stock, StockHistory, AssessmentResponse, AssessmentCompareRow } from '@/lib/api';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { invalidateCache, stockAPI, assessmentAPI, operationsAPI, Stock, StockHistory, AssessmentResponse, AssessmentCompareRow, Operation } from '@/lib/api';
 import { getDistanceToBuyZone, getDistanceToSellZone, getKellyHint } from '@/lib/portfolioInsights';
 import TooltipIcon from '@/components/Tooltip';
+import TaxLotBreakdown from '@/components/TaxLotBreakdown';
 import { Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -32,6 +34,7 @@ ChartJS.register(
 export default function StockDetailPage() {
   const router = useRouter();
   const params = useParams();
+  const { portfolioId } = usePortfolioContext();
   const searchParams = useSearchParams();
   const id = parseInt(params.id as string);
   const fromWatchlist = searchParams.get('from') === 'watchlist';
@@ -39,6 +42,7 @@ export default function StockDetailPage() {
 
   const [stock, setStock] = useState<Stock | null>(null);
   const [history, setHistory] = useState<StockHistory[]>([]);
+  const [operations, setOperations] = useState<Operation[]>([]);
   const [assessments, setAssessments] = useState<AssessmentResponse[]>([]);
   const [assessmentCompareRows, setAssessmentCompareRows] = useState<AssessmentCompareRow[]>([]);
   const [assessmentCompareLoading, setAssessmentCompareLoading] = useState(false);
@@ -70,29 +74,44 @@ export default function StockDetailPage() {
       router.push('/login');
       return;
     }
-    
+
+    // Drop responses for a stock or portfolio that is no longer shown.
+    let cancelled = false;
     const fetchData = async () => {
       try {
         setLoading(true);
-        const stockRes = await stockAPI.getById(id);
+        const stockRes = await stockAPI.getById(id, portfolioId);
         const [historyRes, assessmentsRes] = await Promise.all([
-          stockAPI.getHistory(id),
+          stockAPI.getHistory(id, portfolioId),
           assessmentAPI.getByTicker(stockRes.data.ticker, undefined, 30),
         ]);
+        if (cancelled) return;
         setStock(stockRes.data);
         setAssessmentRequestPrice(stockRes.data.current_price > 0 ? String(stockRes.data.current_price) : '');
         setHistory(historyRes.data);
         setAssessments(assessmentsRes.data || []);
       } catch (err) {
+        if (cancelled) return;
         console.error(err);
         alert('Failed to load stock details');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
     
+    const fetchOperations = async () => {
+      try {
+        const res = await operationsAPI.list(portfolioId);
+        if (!cancelled) setOperations(res.data || []);
+      } catch (err) {
+        console.warn('Failed to load operations for tax lots:', err);
+      }
+    };
+
     fetchData();
-  }, [id, router]);
+    fetchOperations();
+    return () => { cancelled = true; };
+  }, [id, router, portfolioId]);
 
   const handleEditField = (field: string, currentValue: any) => {
     setEditingField(field);
@@ -112,7 +131,7 @@ export default function StockDetailPage() {
         }
       }
       
-      const response = await stockAPI.updateField(id, field, isStringField ? editValue : parseFloat(editValue));
+      const response = await stockAPI.updateField(id, field, isStringField ? editValue : parseFloat(editValue), portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
       setEditingField(null);
@@ -140,7 +159,7 @@ export default function StockDetailPage() {
         setUpdatingGrok(true);
       }
       
-      const response = await stockAPI.updateSingle(stock.id, source);
+      const response = await stockAPI.updateSingle(stock.id, source, portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
       
@@ -164,7 +183,7 @@ export default function StockDetailPage() {
     if (!stock) return;
     try {
       setUpdatingLatestPrice(true);
-      const response = await stockAPI.latestPrice(stock.id);
+      const response = await stockAPI.latestPrice(stock.id, portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
     } catch (err: any) {
@@ -178,7 +197,7 @@ export default function StockDetailPage() {
     if (!stock) return;
     try {
       setUpdatingFrequency(true);
-      const response = await stockAPI.updateField(stock.id, 'update_frequency', value);
+      const response = await stockAPI.updateField(stock.id, 'update_frequency', value, portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
     } catch (err: any) {
@@ -192,7 +211,7 @@ export default function StockDetailPage() {
     if (!stock) return;
     try {
       setUpdatingCurrency(true);
-      const response = await stockAPI.updateField(stock.id, 'currency', value);
+      const response = await stockAPI.updateField(stock.id, 'currency', value, portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
     } catch (err: any) {
@@ -419,7 +438,7 @@ export default function StockDetailPage() {
     try {
       setAssessmentAskingSource('alphavantage');
       setAssessmentAskError(null);
-      const response = await stockAPI.updateSingle(stock.id, 'alphavantage');
+      const response = await stockAPI.updateSingle(stock.id, 'alphavantage', portfolioId);
       setStock(response.data);
       invalidateCache('portfolio');
     } catch (err: any) {
@@ -446,7 +465,7 @@ export default function StockDetailPage() {
         assessmentAPI.request(deepseekPayload),
         assessmentAPI.request(perplexityPayload),
         assessmentAPI.request(chatgptPayload),
-        stockAPI.updateSingle(stock.id, 'alphavantage'),
+        stockAPI.updateSingle(stock.id, 'alphavantage', portfolioId),
       ]);
 
       upsertLocalAssessment('grok', grokResponse.data?.assessment || '');
@@ -724,7 +743,7 @@ export default function StockDetailPage() {
 
     try {
       setAssessmentApplyKey(row.key);
-      const response = await stockAPI.updateField(stock.id, targetField, resultNumeric);
+      const response = await stockAPI.updateField(stock.id, targetField, resultNumeric, portfolioId);
       if (response?.data) {
         setStock(response.data);
       }
@@ -1520,7 +1539,7 @@ export default function StockDetailPage() {
                 <TooltipIcon text="What percentage of your total portfolio this stock represents. Helps track diversification." />
               </p>
               <p className="text-lg font-semibold text-white">
-                {(stock.weight <= 1 ? stock.weight * 100 : stock.weight).toFixed(2)}%
+                {(stock.weight * 100).toFixed(2)}%
               </p>
               <p className="text-xs text-gray-600 mt-1">
                 {getKellyHint(stock) ?? 'Calculated'}
@@ -1643,6 +1662,11 @@ export default function StockDetailPage() {
           </div>
         </div>
 
+        {/* Tax Lots */}
+        <div className="mb-8">
+          <TaxLotBreakdown operations={operations} ticker={stock.ticker} />
+        </div>
+
         {/* Comment Section */}
         <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
           <h2 className="text-xl font-bold text-white mb-4">Notes & Comments</h2>
@@ -1,10 +1,38 @@
 'use client';
 
 import { useState, FormEvent, useEffect } from 'react';
-import { operationsAPI, type OperationType, type CreateOperationRequest, type Operation } from '@/lib/api';
+import { operationsAPI, exchangeRateAPI, getErrorMessage, type OperationType, type CreateOperationRequest, type Operation } from '@/lib/api';
+import { BASE_CURRENCY, toRateMap, type RateMap } from '@/lib/fx';
+import { CORPORATE_ACTION_TYPES } from '@/lib/ledger';
+import type { HypotheticalTrade } from '@/lib/tradeSandbox';
+import { checkTicker, checkISIN } from '@/lib/validation';
+import TradeSandbox from '@/components/TradeSandbox';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 
-const OPERATION_TYPES: OperationType[] = ['Buy', 'Sell', 'Deposit', 'Withdraw', 'Dividend'];
+const OPERATION_TYPES: OperationType[] = [
+  'Buy',
+  'Sell',
+  'Deposit',
+  'Withdraw',
+  'Dividend',
+  'Fee',
+  'Withholding Tax',
+  'Split',
+  'Reverse Split',
+  'Spin-off',
+];
+/** Operations on a security: the ticker is required. */
+const SECURITY_TYPES: OperationType[] = ['Buy', 'Sell', 'Split', 'Reverse Split', 'Spin-off'];
+/** Cash operations that may be attributed to a security. */
+const OPTIONAL_TICKER_TYPES: OperationType[] = ['Dividend', 'Fee', 'Withholding Tax'];
+
+const QUANTITY_LABELS: Partial<Record<OperationType, string>> = {
+  Buy: 'Number of Shares *',
+  Sell: 'Number of Shares *',
+  Split: 'Ratio (new shares per old share) *',
+  'Reverse Split': 'Ratio (old shares per new share) *',
+  'Spin-off': 'New shares received *',
+};
 
 function todayDDMMYYYY(): string {
   const d = new Date();
@@ -22,11 +50,17 @@ export interface AddOperationInitialValues {
   currency?: string;
   operation_type?: OperationType;
   stock_id?: number;
+  quantity?: number;
+  price?: number;
+  note?: string;
+  /** DD.MM.YYYY; defaults to today. */
+  trade_date?: string;
 }
 
 interface AddOperationModalProps {
   onClose: () => void;
-  onSuccess: () => void;
+  /** Receives the saved operation when the form itself was submitted (not for stacked trades). */
+  onSuccess: (saved?: CreateOperationRequest) => void;
   initialValues?: AddOperationInitialValues;
   /** When set, modal is in edit mode: title "Modify Operation", submit calls update(id). */
   editOperation?: Operation | null;
@@ -42,13 +76,23 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
     company_name: initialValues?.company_name ?? editOperation?.company_name ?? '',
     sector: initialValues?.sector ?? editOperation?.sector ?? '',
     currency: initialValues?.currency ?? editOperation?.currency ?? 'USD',
-    quantity: initialValues ? 0 : (editOperation?.quantity ?? 0),
-    price: initialValues ? 0 : (editOperation?.price ?? 0),
-    trade_date: initialValues ? todayDDMMYYYY() : (editOperation?.trade_date ?? todayDDMMYYYY()),
-    note: initialValues ? '' : (editOperation?.note ?? ''),
+    quantity: initialValues ? (initialValues.quantity ?? 0) : (editOperation?.quantity ?? 0),
+    price: initialValues ? (initialValues.price ?? 0) : (editOperation?.price ?? 0),
+    trade_date: initialValues ? (initialValues.trade_date ?? todayDDMMYYYY()) : (editOperation?.trade_date ?? todayDDMMYYYY()),
+    note: initialValues ? (initialValues.note ?? '') : (editOperation?.note ?? ''),
+    spinoff_ticker: editOperation?.spinoff_ticker ?? '',
+    cost_basis_pct: editOperation?.cost_basis_pct ?? 0,
+    fx_rate: editOperation?.fx_rate ?? 0,
   });
+  /** The FX rate is pre-filled from the rate table until the user edits it; a currency change starts over. */
+  const [fxTouched, setFxTouched] = useState(isEdit);
+  const [tableRates, setTableRates] = useState<RateMap>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [sandboxOpen, setSandboxOpen] = useState(false);
+  const [sandbox, setSandbox] = useState<{ trade: HypotheticalTrade; payload: CreateOperationRequest }[]>([]);
+  /** Some stacked trades were created while others failed; the parent refreshes when the modal closes. */
+  const [partiallyConfirmed, setPartiallyConfirmed] = useState(false);
 
   useEffect(() => {
     if (editOperation) {
@@ -64,7 +108,11 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
         price: editOperation.price ?? 0,
         trade_date: editOperation.trade_date ?? prev.trade_date,
         note: editOperation.note ?? '',
+        spinoff_ticker: editOperation.spinoff_ticker ?? '',
+        cost_basis_pct: editOperation.cost_basis_pct ?? 0,
+        fx_rate: editOperation.fx_rate ?? 0,
       }));
+      setFxTouched(true);
     } else if (initialValues) {
       setFormData(prev => ({
         ...prev,
@@ -74,39 +122,122 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
         sector: initialValues.sector ?? prev.sector,
         currency: initialValues.currency ?? prev.currency,
         operation_type: initialValues.operation_type ?? prev.operation_type,
+        quantity: initialValues.quantity ?? prev.quantity,
+        price: initialValues.price ?? prev.price,
+        note: initialValues.note ?? prev.note,
+        trade_date: initialValues.trade_date ?? prev.trade_date,
       }));
     }
   }, [editOperation, initialValues]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    setError('');
-    setLoading(true);
+  useEffect(() => {
+    exchangeRateAPI
+      .getAll()
+      .then((res) => setTableRates(toRateMap(res.data)))
+      .catch((err) => console.error('Failed to load exchange rates:', err));
+  }, []);
+
+  const isBaseCurrency = formData.currency.toUpperCase() === BASE_CURRENCY;
+  const carriesFx = !isBaseCurrency && !CORPORATE_ACTION_TYPES.includes(formData.operation_type);
+  const tableRate = tableRates[formData.currency.toUpperCase()];
 
-    const isBuySell = formData.operation_type === 'Buy' || formData.operation_type === 'Sell';
+  useEffect(() => {
+    if (fxTouched || isBaseCurrency) return;
+    setFormData(prev => ({ ...prev, fx_rate: tableRate ?? 0 }));
+  }, [fxTouched, isBaseCurrency, tableRate]);
+
+  /** The stock the modal was opened for (or the edited operation's), while the form still names it. */
+  const linkedStock = initialValues?.stock_id ? initialValues : editOperation?.stock_id ? editOperation : null;
+  const sameIdentifier = (a: string | undefined, b: string | undefined) =>
+    !!a?.trim() && a.trim().toUpperCase() === (b ?? '').trim().toUpperCase();
+  const linkedStockId =
+    linkedStock && (sameIdentifier(formData.ticker, linkedStock.ticker) || sameIdentifier(formData.isin, linkedStock.isin))
+      ? linkedStock.stock_id
+      : undefined;
+
+  const buildPayload = (): CreateOperationRequest => {
+    const type = formData.operation_type;
     const payload: CreateOperationRequest = {
-      operation_type: formData.operation_type,
+      operation_type: type,
       currency: formData.currency,
       quantity: formData.quantity,
       trade_date: formData.trade_date,
       note: formData.note || undefined,
     };
-    if (isBuySell) {
-      payload.ticker = formData.ticker.trim() || undefined;
-      payload.isin = formData.isin.trim() || undefined;
+    if (SECURITY_TYPES.includes(type) || OPTIONAL_TICKER_TYPES.includes(type)) {
+      payload.ticker = formData.ticker.trim().toUpperCase() || undefined;
+    }
+    if (SECURITY_TYPES.includes(type) && linkedStockId) {
+      payload.stock_id = linkedStockId;
+    }
+    if (type === 'Buy' || type === 'Sell') {
+      payload.isin = formData.isin.trim().toUpperCase() || undefined;
       payload.company_name = formData.company_name.trim() || undefined;
       payload.sector = formData.sector.trim() || undefined;
       payload.price = formData.price;
-      if (initialValues?.stock_id || editOperation?.stock_id) payload.stock_id = initialValues?.stock_id ?? editOperation?.stock_id;
     }
+    if (type === 'Spin-off') {
+      payload.spinoff_ticker = formData.spinoff_ticker.trim().toUpperCase();
+      payload.cost_basis_pct = formData.cost_basis_pct;
+    }
+    if (carriesFx && formData.fx_rate > 0) {
+      payload.fx_rate = formData.fx_rate;
+    }
+    return payload;
+  };
+
+  const isBuySell = formData.operation_type === 'Buy' || formData.operation_type === 'Sell';
+  const isSplit = formData.operation_type === 'Split' || formData.operation_type === 'Reverse Split';
+  const isSpinOff = formData.operation_type === 'Spin-off';
+  const needsTicker = SECURITY_TYPES.includes(formData.operation_type);
+  const showsTicker = needsTicker || OPTIONAL_TICKER_TYPES.includes(formData.operation_type);
+  const tickerCheck = checkTicker(formData.ticker);
+  const isinCheck = isBuySell && formData.isin.trim() ? checkISIN(formData.isin) : null;
+  const spinoffCheck = checkTicker(formData.spinoff_ticker);
+  /** Ticker/ISIN problem, if any. Blocks new securities; only warns for an existing stock the backend already knows. */
+  const symbolProblem =
+    (needsTicker || formData.ticker.trim()) && showsTicker && !tickerCheck.valid
+      ? tickerCheck.error || 'Invalid ticker'
+      : isinCheck && !isinCheck.valid
+        ? isinCheck.error || 'Invalid ISIN'
+        : null;
+  const identifierWarning = linkedStockId ? symbolProblem : null;
+  /** First problem with the security identifiers or corporate action terms, if any. */
+  const identifierError =
+    symbolProblem && !linkedStockId
+      ? symbolProblem
+      : isSplit && !(formData.quantity > 1)
+          ? 'Ratio must be greater than 1 (e.g. 10 for 10:1)'
+          : isSpinOff && !spinoffCheck.valid
+            ? `New ticker: ${spinoffCheck.error || 'invalid ticker'}`
+            : isSpinOff && spinoffCheck.ticker === tickerCheck.ticker
+              ? 'The new ticker must differ from the parent'
+              : isSpinOff && !(formData.cost_basis_pct >= 0 && formData.cost_basis_pct <= 100)
+                ? 'Cost basis moved must be between 0 and 100%'
+                : null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    // Creating only this form would silently drop the stacked trades.
+    if (sandbox.length > 0) {
+      setError('Stack this trade or confirm the stacked trades first');
+      return;
+    }
+    if (identifierError) {
+      setError(identifierError);
+      return;
+    }
+    setLoading(true);
 
+    const payload = buildPayload();
     try {
       if (isEdit && editOperation) {
         await operationsAPI.update(editOperation.id, payload, portfolioId);
       } else {
         await operationsAPI.create(payload, portfolioId);
       }
-      onSuccess();
+      onSuccess(payload);
       onClose();
     } catch (err: any) {
       setError(err.response?.data?.error || (isEdit ? 'Failed to update operation' : 'Failed to add operation'));
@@ -117,20 +248,74 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
+    if (name === 'fx_rate') setFxTouched(true);
+    // A rate entered for the old currency must not be saved as the new currency's trade-date rate.
+    if (name === 'currency' && value !== formData.currency) setFxTouched(false);
     setFormData(prev => ({
       ...prev,
       [name]: type === 'number' ? (value === '' ? 0 : parseFloat(value)) : value,
     }));
   };
 
-  const isBuySell = formData.operation_type === 'Buy' || formData.operation_type === 'Sell';
+  const draftTrade: HypotheticalTrade | null =
+    isBuySell && formData.ticker.trim() && formData.quantity > 0 && formData.price > 0
+      ? {
+          side: formData.operation_type as HypotheticalTrade['side'],
+          ticker: formData.ticker.trim(),
+          sector: formData.sector.trim(),
+          currency: formData.currency,
+          quantity: formData.quantity,
+          price: formData.price,
+        }
+      : null;
+
+  const handleStack = () => {
+    if (!draftTrade) return;
+    if (identifierError) {
+      setError(identifierError);
+      return;
+    }
+    setError('');
+    setSandbox(prev => [...prev, { trade: draftTrade, payload: buildPayload() }]);
+    setFormData(prev => ({ ...prev, ticker: '', isin: '', company_name: '', sector: '', quantity: 0, price: 0, note: '' }));
+  };
+
+  /** Create every stacked operation in order; failed ones stay in the sandbox. */
+  const handleConfirmSandbox = async () => {
+    setError('');
+    setLoading(true);
+    const remaining: typeof sandbox = [];
+    const errors: string[] = [];
+    for (const item of sandbox) {
+      try {
+        await operationsAPI.create(item.payload, portfolioId);
+      } catch (err) {
+        remaining.push(item);
+        errors.push(`${item.trade.side} ${item.trade.ticker}: ${getErrorMessage(err)}`);
+      }
+    }
+    setLoading(false);
+    if (remaining.length === 0) {
+      onSuccess();
+      onClose();
+      return;
+    }
+    if (remaining.length < sandbox.length) setPartiallyConfirmed(true);
+    setSandbox(remaining);
+    setError(errors.join('; '));
+  };
+
+  const handleClose = () => {
+    if (partiallyConfirmed) onSuccess();
+    onClose();
+  };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center p-6 border-b border-gray-700">
           <h2 className="text-xl font-bold text-white">{isEdit ? 'Modify Operation' : 'Add New Operation'}</h2>
-          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <button onClick={handleClose} className="text-gray-400 hover:text-white transition-colors">
             <XMarkIcon className="h-6 w-6" />
           </button>
         </div>
@@ -141,6 +326,11 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
               {error}
             </div>
           )}
+          {identifierWarning && (
+            <div className="mb-4 bg-amber-900 bg-opacity-30 border border-amber-700 text-amber-200 px-4 py-3 rounded-lg text-sm">
+              {identifierWarning} — saving anyway against the existing stock.
+            </div>
+          )}
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -172,20 +362,36 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
               />
             </div>
 
+            {showsTicker && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  {isSpinOff ? 'Parent Ticker *' : needsTicker ? 'Ticker Symbol *' : 'Ticker Symbol'}
+                </label>
+                <input
+                  type="text"
+                  name="ticker"
+                  required={needsTicker}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500 uppercase"
+                  value={formData.ticker}
+                  onChange={handleChange}
+                  placeholder="e.g., AAPL, NOVO-B.CO, 7203.T"
+                />
+                {formData.ticker.trim() && (
+                  tickerCheck.valid ? (
+                    tickerCheck.exchange && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        {tickerCheck.exchange.name} ({tickerCheck.exchange.country}, {tickerCheck.exchange.currency})
+                      </p>
+                    )
+                  ) : (
+                    <p className={`text-xs mt-1 ${linkedStockId ? 'text-amber-400' : 'text-red-400'}`}>{tickerCheck.error}</p>
+                  )
+                )}
+              </div>
+            )}
+
             {isBuySell && (
               <>
-                <div>
-                  <label className="block text-sm font-medium text-gray-300 mb-2">Ticker Symbol *</label>
-                  <input
-                    type="text"
-                    name="ticker"
-                    required
-                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500 uppercase"
-                    value={formData.ticker}
-                    onChange={handleChange}
-                    placeholder="e.g., AAPL"
-                  />
-                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">ISIN</label>
                   <input
@@ -197,6 +403,11 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
                     onChange={handleChange}
                     placeholder="e.g., US0378331005"
                   />
+                  {isinCheck && (
+                    <p className={`text-xs mt-1 ${isinCheck.valid ? 'text-gray-400' : linkedStockId ? 'text-amber-400' : 'text-red-400'}`}>
+                      {isinCheck.valid ? isinCheck.country?.name : isinCheck.error}
+                    </p>
+                  )}
                 </div>
                 <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-gray-300 mb-2">Company Name</label>
@@ -223,6 +434,41 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
               </>
             )}
 
+            {isSpinOff && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">New Ticker *</label>
+                  <input
+                    type="text"
+                    name="spinoff_ticker"
+                    required
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500 uppercase"
+                    value={formData.spinoff_ticker}
+                    onChange={handleChange}
+                    placeholder="Ticker of the spun-off company"
+                  />
+                  {formData.spinoff_ticker.trim() && !spinoffCheck.valid && (
+                    <p className="text-xs text-red-400 mt-1">{spinoffCheck.error}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Cost basis moved (%) *</label>
+                  <input
+                    type="number"
+                    name="cost_basis_pct"
+                    required
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    value={formData.cost_basis_pct || ''}
+                    onChange={handleChange}
+                  />
+                  <p className="text-xs text-gray-400 mt-1">Share of the parent&apos;s cost basis allocated to the new shares, as published by the issuer.</p>
+                </div>
+              </>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Currency *</label>
               <select
@@ -241,20 +487,52 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
               </select>
             </div>
 
+            {carriesFx && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  FX rate ({formData.currency} per {BASE_CURRENCY})
+                </label>
+                <input
+                  type="number"
+                  name="fx_rate"
+                  min="0"
+                  step="any"
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  value={formData.fx_rate || ''}
+                  onChange={handleChange}
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Rate on the trade date, used for the {BASE_CURRENCY} cost basis.
+                  {tableRate
+                    ? fxTouched && tableRate !== formData.fx_rate
+                      ? ` Rate table: ${tableRate}.`
+                      : ' Pre-filled from the rate table.'
+                    : ' No rate in the table for this currency.'}
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                {isBuySell ? 'Number of Shares *' : 'Amount *'}
+                {QUANTITY_LABELS[formData.operation_type] ?? 'Amount *'}
               </label>
               <input
                 type="number"
                 name="quantity"
                 required
                 min="0"
-                step={isBuySell ? '1' : '0.01'}
+                step={isBuySell || isSplit || isSpinOff ? 'any' : '0.01'}
                 className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
                 value={formData.quantity || ''}
                 onChange={handleChange}
               />
+              {isSplit && formData.quantity > 1 && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {formData.operation_type === 'Split'
+                    ? `${formData.quantity}:1 — each share becomes ${formData.quantity}, price per share ÷ ${formData.quantity}`
+                    : `1:${formData.quantity} — every ${formData.quantity} shares become 1, price per share × ${formData.quantity}`}
+                </p>
+              )}
             </div>
 
             {isBuySell && (
@@ -285,17 +563,59 @@ export default function AddOperationModal({ onClose, onSuccess, initialValues, e
             </div>
           </div>
 
-          <div className="flex justify-end space-x-3 mt-6">
+          {sandboxOpen && (
+            <div className="mt-6">
+              <TradeSandbox
+                trades={sandbox.map(item => item.trade)}
+                draft={draftTrade}
+                onRemove={(index) => setSandbox(prev => prev.filter((_, i) => i !== index))}
+                portfolioId={portfolioId}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-3 mt-6">
+            {!isEdit && (
+              <button
+                type="button"
+                onClick={() => setSandboxOpen(open => !open)}
+                className="mr-auto px-4 py-2 text-sm text-indigo-300 hover:text-indigo-200 transition-colors"
+              >
+                {sandboxOpen ? 'Hide what-if' : 'What-if preview'}
+              </button>
+            )}
+            {sandboxOpen && (
+              <button
+                type="button"
+                onClick={handleStack}
+                disabled={!draftTrade}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Keep this trade in the sandbox and enter another"
+              >
+                Stack trade
+              </button>
+            )}
+            {sandbox.length > 0 && (
+              <button
+                type="button"
+                onClick={handleConfirmSandbox}
+                disabled={loading}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Confirm {sandbox.length} stacked
+              </button>
+            )}
             <button
               type="button"
-              onClick={onClose}
+              onClick={handleClose}
               className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
             >
               Cancel
             </button>
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || sandbox.length > 0}
+              title={sandbox.length > 0 ? 'Stack this trade or confirm the stacked trades first' : undefined}
               className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? (isEdit ? 'Saving...' : 'Adding...') : (isEdit ? 'Save Changes' : 'Add Operation')}
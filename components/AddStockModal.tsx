@@ -2,14 +2,16 @@
 
 import { useState, FormEvent } from 'react';
 import { stockAPI } from '@/lib/api';
+import { checkTicker, checkISIN } from '@/lib/validation';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 
 interface AddStockModalProps {
   onClose: () => void;
   onSuccess: () => void;
+  portfolioId?: number;
 }
 
-export default function AddStockModal({ onClose, onSuccess }: AddStockModalProps) {
+export default function AddStockModal({ onClose, onSuccess, portfolioId }: AddStockModalProps) {
   const [formData, setFormData] = useState({
     ticker: '',
     isin: '',
@@ -24,13 +26,24 @@ export default function AddStockModal({ onClose, onSuccess }: AddStockModalProps
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const tickerCheck = checkTicker(formData.ticker);
+  const isinCheck = formData.isin.trim() ? checkISIN(formData.isin) : null;
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
+    if (!tickerCheck.valid) {
+      setError(tickerCheck.error || 'Invalid ticker');
+      return;
+    }
+    if (isinCheck && !isinCheck.valid) {
+      setError(isinCheck.error || 'Invalid ISIN');
+      return;
+    }
     setLoading(true);
 
     try {
-      const response = await stockAPI.create(formData);
+      const response = await stockAPI.create({ ...formData, ticker: tickerCheck.ticker, isin: isinCheck?.isin ?? '' }, portfolioId);
       console.log('Stock created successfully:', response.data);
       onSuccess();
       onClose();
@@ -86,9 +99,20 @@ export default function AddStockModal({ onClose, onSuccess }: AddStockModalProps
                 className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500 uppercase"
                 value={formData.ticker}
                 onChange={handleChange}
-                placeholder="e.g., AAPL"
-                title="Enter the stock ticker symbol (e.g., AAPL, MSFT, NOVO B)"
+                placeholder="e.g., AAPL, NOVO-B.CO, 7203.T"
+                title="Enter the stock ticker symbol; non-US listings take an exchange suffix (e.g., NOVO-B.CO, 7203.T, RDSA.AS)"
               />
+              {formData.ticker.trim() && (
+                tickerCheck.valid ? (
+                  tickerCheck.exchange && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {tickerCheck.exchange.name} ({tickerCheck.exchange.country}, {tickerCheck.exchange.currency})
+                    </p>
+                  )
+                ) : (
+                  <p className="text-xs text-red-400 mt-1">{tickerCheck.error}</p>
+                )
+              )}
             </div>
 
             {/* ISIN */}
@@ -107,6 +131,11 @@ export default function AddStockModal({ onClose, onSuccess }: AddStockModalProps
                 placeholder="e.g., US0378331005"
                 title="12-character code to uniquely identify the security (optional but recommended)"
               />
+              {isinCheck && (
+                <p className={`text-xs mt-1 ${isinCheck.valid ? 'text-gray-400' : 'text-red-400'}`}>
+                  {isinCheck.valid ? isinCheck.country?.name : isinCheck.error}
+                </p>
+              )}
             </div>
 
             {/* Company Name */}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import {
+  stockAPI,
+  operationsAPI,
+  cashAPI,
+  exchangeRateAPI,
+  settingsAPI,
+  portfolioAPI,
+  invalidateCache,
+  getErrorMessage,
+} from '@/lib/api';
+import {
+  createBackupBundle,
+  backupFileName,
+  parseBackupBundle,
+  planRestore,
+  pickPortfolioSettings,
+  countActions,
+  hasPendingChanges,
+  type BackupBundle,
+  type BackupData,
+  type RestorePlan,
+  type RestoreSection,
+} from '@/lib/backup';
+import { downloadBlob } from '@/lib/tableExport';
+import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+
+const COLUMN_SETTINGS_STORAGE_KEY = 'stock-table-columns';
+
+const SECTION_LABELS: Record<RestoreSection, string> = {
+  operations: 'Operations',
+  stocks: 'Stocks',
+  cash: 'Cash holdings',
+  exchange_rates: 'Exchange rates',
+  sector_targets: 'Sector targets',
+  column_settings: 'Column settings',
+  portfolio_settings: 'Portfolio settings',
+};
+
+type SectionFailure = { section: RestoreSection; label: string; message: string };
+
+/** Account data for one portfolio: its stocks, operations and cash plus the account-wide settings. */
+async function collectAccount(portfolioId?: number): Promise<BackupData> {
+  const [stocks, operations, cash, rates, sectorTargets, columns, settings] = await Promise.all([
+    stockAPI.getAll(portfolioId),
+    operationsAPI.list(portfolioId),
+    cashAPI.getAll(portfolioId),
+    exchangeRateAPI.getAll(),
+    settingsAPI.getSectorTargets(),
+    settingsAPI.getColumnSettings().catch(() => ({ data: { settings: '' } })),
+    portfolioAPI.getSettings().catch(() => ({ data: null })),
+  ]);
+  return {
+    stocks: stocks.data || [],
+    operations: operations.data || [],
+    cash: cash.data || [],
+    exchange_rates: rates.data || [],
+    sector_targets: sectorTargets.data.rows ?? null,
+    column_settings: columns.data.settings || null,
+    portfolio_settings: pickPortfolioSettings(settings.data),
+  };
+}
+
+interface BackupRestoreCardProps {
+  portfolioId?: number;
+}
+
+export default function BackupRestoreCard({ portfolioId }: BackupRestoreCardProps) {
+  const { load: reloadSectorTargets } = useSectorTargetsContext();
+  const [busy, setBusy] = useState<'download' | 'preview' | 'restore' | null>(null);
+  const [error, setError] = useState('');
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [expanded, setExpanded] = useState<RestoreSection | null>(null);
+  const [failures, setFailures] = useState<SectionFailure[]>([]);
+  const [restored, setRestored] = useState(false);
+
+  const handleDownload = async () => {
+    setBusy('download');
+    setError('');
+    try {
+      const backup = createBackupBundle(await collectAccount(portfolioId));
+      downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), backupFileName(backup));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      setError('');
+      setFailures([]);
+      setRestored(false);
+      setPlan(null);
+      const parsed = parseBackupBundle((event.target?.result as string) || '');
+      if ('error' in parsed) {
+        setBundle(null);
+        setError(parsed.error);
+        return;
+      }
+      setBundle(parsed.bundle);
+      setBusy('preview');
+      try {
+        setPlan(planRestore(parsed.bundle, await collectAccount(portfolioId)));
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setBusy(null);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async () => {
+    if (!bundle || !plan) return;
+    if (!confirm('Restore this backup? Listed records will be created or overwritten.')) return;
+    setBusy('restore');
+    setError('');
+    const failed: SectionFailure[] = [];
+    const attempt = async (section: RestoreSection, label: string, run: () => Promise<unknown>) => {
+      try {
+        await run();
+      } catch (err) {
+        failed.push({ section, label, message: getErrorMessage(err) });
+      }
+    };
+
+    try {
+      // Operations first: the backend applies them to positions and cash, which the later
+      // sections then set to the backed-up values.
+      for (const item of plan.operations.filter((i) => i.action === 'create')) {
+        await attempt('operations', item.label, () => operationsAPI.create(item.value, portfolioId));
+      }
+
+      const next = planRestore(bundle, await collectAccount(portfolioId));
+      const stockChanges = next.stocks.filter((i) => i.action !== 'unchanged');
+      if (stockChanges.length > 0) {
+        await attempt('stocks', `${stockChanges.length} stocks`, () => stockAPI.bulkUpdate(stockChanges.map((i) => i.value), portfolioId));
+      }
+      for (const item of next.cash.filter((i) => i.action !== 'unchanged')) {
+        const { currency_code, amount, description } = item.value;
+        await attempt('cash', item.label, () =>
+          item.action === 'create'
+            ? cashAPI.create({ currency_code, amount, description }, portfolioId)
+            : cashAPI.update((item.current as { id: number }).id, { amount, description }, portfolioId)
+        );
+      }
+      for (const item of next.exchange_rates.filter((i) => i.action !== 'unchanged')) {
+        const { currency_code, rate, is_manual } = item.value;
+        await attempt('exchange_rates', item.label, () =>
+          item.action === 'create'
+            ? exchangeRateAPI.add({ currency_code, rate, is_manual })
+            : exchangeRateAPI.update(currency_code, { rate, is_manual })
+        );
+      }
+      for (const item of next.sector_targets.filter((i) => i.action !== 'unchanged')) {
+        await attempt('sector_targets', item.label, async () => {
+          await settingsAPI.saveSectorTargets({ rows: item.value });
+          await reloadSectorTargets();
+        });
+      }
+      for (const item of next.column_settings.filter((i) => i.action !== 'unchanged')) {
+        await attempt('column_settings', item.label, async () => {
+          await settingsAPI.saveColumnSettings(item.value);
+          localStorage.setItem(COLUMN_SETTINGS_STORAGE_KEY, item.value);
+        });
+      }
+      for (const item of next.portfolio_settings.filter((i) => i.action !== 'unchanged')) {
+        await attempt('portfolio_settings', item.label, () => portfolioAPI.updateSettings(item.value));
+      }
+
+      invalidateCache('portfolio');
+      setPlan(planRestore(bundle, await collectAccount(portfolioId)));
+      setFailures(failed);
+      setRestored(true);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sections = plan ? (Object.keys(SECTION_LABELS) as RestoreSection[]) : [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-bold text-white mb-2">Backup &amp; Restore</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        One file with stocks, operations, cash, exchange rates, sector targets, column and portfolio settings.
+        Restoring matches records by ticker, currency and trade details, so running it twice changes nothing.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={busy !== null}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          {busy === 'download' ? 'Preparing...' : 'Download backup'}
+        </button>
+        <label className={`flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+          <ArrowUpTrayIcon className="h-4 w-4" />
+          {busy === 'preview' ? 'Reading...' : 'Restore from file'}
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {bundle && plan && (
+        <div>
+          <p className="text-xs text-gray-500 mb-2">
+            Backup version {bundle.version}{bundle.created_at ? `, created ${new Date(bundle.created_at).toLocaleString()}` : ''}
+          </p>
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-2 pr-3">Section</th>
+                <th className="py-2 pr-3 text-right">Create</th>
+                <th className="py-2 pr-3 text-right">Overwrite</th>
+                <th className="py-2 text-right">Unchanged</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sections.map((section) => {
+                const counts = countActions(plan[section]);
+                const pending = plan[section].filter((i) => i.action !== 'unchanged');
+                return (
+                  <tr key={section} className="border-b border-gray-800 last:border-b-0 align-top">
+                    <td className="py-2 pr-3 text-gray-200">
+                      {pending.length > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(expanded === section ? null : section)}
+                          className="text-left hover:text-white"
+                        >
+                          {SECTION_LABELS[section]} {expanded === section ? '▾' : '▸'}
+                        </button>
+                      ) : (
+                        SECTION_LABELS[section]
+                      )}
+                      {expanded === section && (
+                        <ul className="mt-1 text-xs text-gray-400 space-y-0.5">
+                          {pending.map((item, idx) => (
+                            <li key={idx}>
+                              <span className={item.action === 'create' ? 'text-green-400' : 'text-amber-300'}>
+                                {item.action === 'create' ? '+' : '~'}
+                              </span>{' '}
+                              {item.label}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-green-400">{counts.create || '—'}</td>
+                    <td className="py-2 pr-3 text-right text-amber-300">{counts.update || '—'}</td>
+                    <td className="py-2 text-right text-gray-500">{counts.unchanged || '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {failures.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-900/50 border border-yellow-600 rounded">
+              <p className="text-yellow-300 mb-2">Some records could not be restored:</p>
+              <ul className="list-disc list-inside text-yellow-300 text-sm">
+                {failures.map((f, idx) => (
+                  <li key={idx}>{SECTION_LABELS[f.section]}: {f.label} — {f.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {restored && failures.length === 0 && (
+            <div className="mb-4 bg-green-900 bg-opacity-50 border border-green-700 text-green-200 px-4 py-3 rounded-lg">
+              Backup restored. Reload the page to apply column settings.
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={busy !== null || !hasPendingChanges(plan)}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy === 'restore' ? 'Restoring...' : hasPendingChanges(plan) ? 'Restore backup' : 'Account already matches this backup'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
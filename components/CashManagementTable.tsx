@@ -12,7 +12,11 @@ import {
   CurrencyDollarIcon,
 } from '@heroicons/react/24/outline';
 
-export default function CashManagementTable() {
+interface CashManagementTableProps {
+  portfolioId?: number;
+}
+
+export default function CashManagementTable({ portfolioId }: CashManagementTableProps) {
   const [cashHoldings, setCashHoldings] = useState<CashHolding[]>([]);
   const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -28,20 +32,26 @@ export default function CashManagementTable() {
   const [error, setError] = useState('');
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    // Drop responses for a portfolio that is no longer selected.
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [portfolioId]);
 
-  const fetchData = async () => {
+  const fetchData = async (signal?: AbortSignal) => {
     try {
       setLoading(true);
       const [cashResponse, ratesResponse] = await Promise.all([
-        cashAPI.getAll(),
+        cashAPI.getAll(portfolioId),
         exchangeRateAPI.getAll(),
       ]);
+      if (signal?.aborted) return;
       setCashHoldings(cashResponse.data);
       setExchangeRates(ratesResponse.data);
       setError('');
     } catch (err: any) {
+      if (signal?.aborted) return;
       // Check if it's a 500 error from missing endpoint
       if (err.response?.status === 500) {
         setError('Cash management feature not available - backend endpoint missing');
@@ -50,14 +60,14 @@ export default function CashManagementTable() {
       }
       console.error('Error fetching cash data:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
   const handleRefreshUSD = async () => {
     try {
       setRefreshing(true);
-      await cashAPI.refreshUSD();
+      await cashAPI.refreshUSD(portfolioId);
       await fetchData();
       setError('');
     } catch (err: any) {
@@ -85,7 +95,7 @@ export default function CashManagementTable() {
       await cashAPI.update(id, {
         amount: editValues.amount,
         description: editValues.description,
-      });
+      }, portfolioId);
       
       await fetchData();
       setEditingId(null);
@@ -104,7 +114,7 @@ export default function CashManagementTable() {
     if (!confirm(`Are you sure you want to delete ${currencyCode} cash holding?`)) return;
     
     try {
-      await cashAPI.delete(id);
+      await cashAPI.delete(id, portfolioId);
       await fetchData();
       setError('');
     } catch (err: any) {
@@ -123,7 +133,7 @@ export default function CashManagementTable() {
         currency_code: newCash.currency_code,
         amount: newCash.amount,
         description: newCash.description,
-      });
+      }, portfolioId);
       
       await fetchData();
       setShowAddForm(false);
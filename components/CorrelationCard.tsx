@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PortfolioMetrics, Stock, StockHistory, stockAPI } from '@/lib/api';
+import { buildCorrelationMatrix, computePortfolioVolatility, type CorrelationMatrix } from '@/lib/correlation';
+
+interface CorrelationCardProps {
+  metrics: PortfolioMetrics;
+  /** Active positions (shares_owned > 0). */
+  stocks: Stock[];
+  portfolioId?: number;
+}
+
+/** Red for positive, blue for negative correlation; opacity scales with strength. */
+function cellColor(value: number | null): string {
+  if (value === null) return 'rgba(75,85,99,0.3)';
+  const alpha = Math.min(1, Math.abs(value)) * 0.85 + 0.1;
+  return value >= 0 ? `rgba(239,68,68,${alpha})` : `rgba(59,130,246,${alpha})`;
+}
+
+export default function CorrelationCard({ metrics, stocks, portfolioId }: CorrelationCardProps) {
+  const [correlations, setCorrelations] = useState<CorrelationMatrix | null>(null);
+  const [loading, setLoading] = useState(true);
+  const stockIds = stocks.map((s) => s.id).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const histories = await Promise.all(
+        stocks.map((s) => stockAPI.getHistory(s.id, portfolioId).then((r) => r.data || []).catch(() => [] as StockHistory[]))
+      );
+      if (cancelled) return;
+      const byTicker: Record<string, StockHistory[]> = {};
+      stocks.forEach((s, i) => { byTicker[s.ticker.trim().toUpperCase()] = histories[i]; });
+      setCorrelations(buildCorrelationMatrix(byTicker));
+      setLoading(false);
+    };
+    load();
+    return () => { cancelled = true; };
+    // Refetch only when the set of positions changes.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stockIds, portfolioId]);
+
+  if (stocks.length < 2) return null;
+
+  const vol = correlations ? computePortfolioVolatility(stocks, correlations) : null;
+  const highlighted = new Set(vol?.worstPair ? [vol.worstPair.a, vol.worstPair.b] : []);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <h3 className="text-sm font-semibold text-gray-200 mb-2">Correlation &amp; diversification</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Pairwise correlation of price returns from stock history. Portfolio volatility uses the full covariance matrix instead of a weighted average, so it credits diversification.
+      </p>
+
+      {loading || !correlations || !vol ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+            <div>
+              <span className="text-gray-500 block" title="√(wᵀΣw) using position volatilities and historical correlations">Covariance volatility</span>
+              <span className="text-white font-semibold">{vol.volatility.toFixed(2)}%</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block" title="PortfolioMetrics.weighted_volatility (assumes correlation 1)">Weighted-average volatility</span>
+              <span className="text-white font-semibold">{(metrics.weighted_volatility ?? vol.weightedAverage).toFixed(2)}%</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block" title="Weighted-average volatility ÷ covariance volatility; higher is more diversified">Diversification ratio</span>
+              <span className="text-white font-semibold">{vol.diversificationRatio.toFixed(2)}×</span>
+            </div>
+            {vol.worstPair && (
+              <div>
+                <span className="text-gray-500 block" title="Pair adding the most covariance to portfolio variance">Least diversifying pair</span>
+                <span className="text-amber-300 font-semibold">{vol.worstPair.a} / {vol.worstPair.b}</span>
+                <span className="text-gray-400 text-xs ml-1">
+                  ρ {vol.worstPair.correlation.toFixed(2)}, {(vol.worstPair.contribution * 100).toFixed(1)}% of variance
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th />
+                  {correlations.tickers.map((t) => (
+                    <th key={t} className={`px-1 py-1 font-medium ${highlighted.has(t) ? 'text-amber-300' : 'text-gray-400'}`}>
+                      <span className="inline-block [writing-mode:vertical-rl] rotate-180">{t}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {correlations.tickers.map((row, i) => (
+                  <tr key={row}>
+                    <th className={`pr-2 text-right font-medium ${highlighted.has(row) ? 'text-amber-300' : 'text-gray-400'}`}>{row}</th>
+                    {correlations.matrix[i].map((value, j) => {
+                      const isWorst = highlighted.has(row) && highlighted.has(correlations.tickers[j]) && i !== j;
+                      return (
+                        <td
+                          key={j}
+                          title={`${row} / ${correlations.tickers[j]}: ${value === null ? 'not enough history' : value.toFixed(2)}`}
+                          className={`w-9 h-7 text-center text-white/90 rounded ${isWorst ? 'ring-2 ring-amber-400' : ''}`}
+                          style={{ backgroundColor: cellColor(value) }}
+                        >
+                          {value === null ? '–' : value.toFixed(1)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {vol.contributions.length > 0 && (
+            <div className="mt-4">
+              <span className="text-xs text-gray-500 block mb-1">Largest risk contributors (share of portfolio variance)</span>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {vol.contributions.slice(0, 5).map((c) => (
+                  <span
+                    key={c.ticker}
+                    className={`px-2 py-1 rounded border ${highlighted.has(c.ticker) ? 'border-amber-500/60 text-amber-300' : 'border-gray-600 text-gray-300'}`}
+                  >
+                    {c.ticker} {(c.contribution * 100).toFixed(1)}%
+                    <span className="text-gray-500 ml-1">(w {(c.weight * 100).toFixed(1)}%)</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {vol.missingPairs > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              {vol.missingPairs} pair(s) lack overlapping history and are treated as uncorrelated.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
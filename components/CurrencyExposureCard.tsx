@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PortfolioMetrics, Stock, CashHolding, ExchangeRate, cashAPI, exchangeRateAPI } from '@/lib/api';
+import { getCurrencyExposure, DEFAULT_CURRENCY_LIMIT_PCT } from '@/lib/currencyExposure';
+
+interface CurrencyExposureCardProps {
+  metrics: PortfolioMetrics;
+  /** Active positions (shares_owned > 0). */
+  stocks: Stock[];
+  portfolioId?: number;
+}
+
+const LIMIT_STORAGE_KEY = 'currency-exposure-limit';
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+function readLimit(): number {
+  if (typeof window === 'undefined') return DEFAULT_CURRENCY_LIMIT_PCT;
+  const saved = Number(localStorage.getItem(LIMIT_STORAGE_KEY));
+  return saved > 0 && saved <= 100 ? saved : DEFAULT_CURRENCY_LIMIT_PCT;
+}
+
+export default function CurrencyExposureCard({ metrics, stocks, portfolioId }: CurrencyExposureCardProps) {
+  const [holdings, setHoldings] = useState<CashHolding[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [limitPct, setLimitPct] = useState(readLimit);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchCash = async () => {
+      try {
+        const [cashResponse, ratesResponse] = await Promise.all([cashAPI.getAll(portfolioId), exchangeRateAPI.getAll()]);
+        if (cancelled) return;
+        setHoldings(cashResponse.data || []);
+        setRates(ratesResponse.data || []);
+      } catch (err) {
+        console.warn('Failed to fetch cash holdings for currency exposure:', err);
+      }
+    };
+    fetchCash();
+    return () => { cancelled = true; };
+  }, [portfolioId]);
+
+  const handleLimitChange = (value: number) => {
+    const next = Math.min(100, Math.max(1, value || DEFAULT_CURRENCY_LIMIT_PCT));
+    setLimitPct(next);
+    try {
+      localStorage.setItem(LIMIT_STORAGE_KEY, String(next));
+    } catch (err) {
+      console.error('Failed to save currency limit to local storage:', err);
+    }
+  };
+
+  const summary = getCurrencyExposure(stocks, metrics.total_value, holdings, rates, limitPct);
+  if (summary.exposures.length === 0) return null;
+  const flagged = summary.exposures.filter((e) => e.overLimit);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-gray-200">Currency exposure</h3>
+        <label className="text-xs text-gray-400">
+          Limit per currency %
+          <input
+            type="number"
+            min={1}
+            max={100}
+            step={5}
+            value={limitPct}
+            onChange={(e) => handleLimitChange(Number(e.target.value))}
+            className="ml-1 w-16 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Equities by trading currency plus cash holdings, converted to EUR with the exchange rate table. Share is of equities + cash.
+      </p>
+
+      {flagged.length > 0 && (
+        <p className="text-xs text-amber-300 mb-3">
+          Above {limitPct}%: {flagged.map((e) => `${e.currency} ${e.sharePct.toFixed(1)}%`).join(', ')}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700 text-left">
+              <th className="py-2 pr-3">Currency</th>
+              <th className="py-2 pr-3 text-right">Equities</th>
+              <th className="py-2 pr-3 text-right">Cash</th>
+              <th className="py-2 pr-3 text-right">Total (EUR)</th>
+              <th className="py-2 w-1/3">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.exposures.map((e) => (
+              <tr key={e.currency} className="border-b border-gray-800 last:border-b-0">
+                <td className={`py-2 pr-3 font-medium ${e.overLimit ? 'text-amber-300' : 'text-gray-200'}`}>{e.currency}</td>
+                <td className="py-2 pr-3 text-right text-gray-300">{formatEur(e.equityBase)}</td>
+                <td className="py-2 pr-3 text-right text-gray-300">{formatEur(e.cashBase)}</td>
+                <td className="py-2 pr-3 text-right text-white">{formatEur(e.totalBase)}</td>
+                <td className="py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-gray-700 rounded overflow-hidden relative">
+                      <div
+                        className={`h-full ${e.overLimit ? 'bg-amber-500' : 'bg-primary-500'}`}
+                        style={{ width: `${Math.min(100, Math.max(0, e.sharePct))}%` }}
+                      />
+                      <div className="absolute top-0 h-full w-px bg-gray-400" style={{ left: `${limitPct}%` }} />
+                    </div>
+                    <span className="text-xs text-gray-300 w-12 text-right">{e.sharePct.toFixed(1)}%</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {summary.unconverted.length > 0 && (
+        <p className="text-xs text-gray-500 mt-2">No rate for cash in {summary.unconverted.join(', ')}; excluded.</p>
+      )}
+    </div>
+  );
+}
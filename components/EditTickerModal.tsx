@@ -2,6 +2,7 @@
 
 import { useState, FormEvent, useEffect } from 'react';
 import { Stock, stockAPI } from '@/lib/api';
+import { checkTicker } from '@/lib/validation';
 import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 
 interface EditTickerModalProps {
@@ -9,6 +10,7 @@ interface EditTickerModalProps {
   allStocks: Stock[];
   onClose: () => void;
   onSuccess: () => void;
+  portfolioId?: number;
 }
 
 interface MergeCandidate {
@@ -17,7 +19,7 @@ interface MergeCandidate {
   emptyFields: string[];
 }
 
-export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }: EditTickerModalProps) {
+export default function EditTickerModal({ stock, allStocks, onClose, onSuccess, portfolioId }: EditTickerModalProps) {
   const [newTicker, setNewTicker] = useState(stock.ticker);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -103,9 +105,16 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
     }
   }, [newTicker, stock, allStocks]);
 
+  const tickerCheck = checkTicker(newTicker);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
+    // Format checks only warn: the backend already stores tickers such as "NOVO B".
+    if (!tickerCheck.ticker) {
+      setError(tickerCheck.error || 'Ticker is required');
+      return;
+    }
     setLoading(true);
 
     try {
@@ -114,7 +123,7 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
         await performMerge();
       } else {
         // Simple ticker update
-        await stockAPI.updateField(stock.id, 'ticker', newTicker.toUpperCase());
+        await stockAPI.updateField(stock.id, 'ticker', tickerCheck.ticker, portfolioId);
       }
       
       onSuccess();
@@ -133,7 +142,7 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
     const { target, source } = mergePreview;
     
     // Prepare merge data - fill empty fields in target with data from source
-    const mergeData: Partial<Stock> = { ticker: newTicker.toUpperCase() };
+    const mergeData: Partial<Stock> = { ticker: tickerCheck.ticker };
     
     target.emptyFields.forEach(field => {
       const sourceValue = source.stock[field as keyof Stock];
@@ -143,10 +152,10 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
     });
     
     // Update the target stock with merged data
-    await stockAPI.update(target.stock.id, mergeData);
+    await stockAPI.update(target.stock.id, mergeData, portfolioId);
     
     // Delete the source stock
-    await stockAPI.delete(source.stock.id, `Merged into ${target.stock.ticker} (${target.stock.company_name})`);
+    await stockAPI.delete(source.stock.id, `Merged into ${target.stock.ticker} (${target.stock.company_name})`, portfolioId);
   };
 
   const formatFieldName = (field: string): string => {
@@ -196,6 +205,17 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
               placeholder="Enter new ticker"
               required
             />
+            {newTicker.trim() && (
+              tickerCheck.valid ? (
+                tickerCheck.exchange && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    {tickerCheck.exchange.name} ({tickerCheck.exchange.country}, {tickerCheck.exchange.currency})
+                  </p>
+                )
+              ) : (
+                <p className="text-xs text-amber-400 mt-1">{tickerCheck.error} — it can still be saved.</p>
+              )
+            )}
           </div>
 
           {/* Duplicate Detection Warning */}
@@ -288,7 +308,7 @@ export default function EditTickerModal({ stock, allStocks, onClose, onSuccess }
             </button>
             <button
               type="submit"
-              disabled={loading || !newTicker.trim()}
+              disabled={loading || !tickerCheck.ticker}
               className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                 duplicateStock 
                   ? 'bg-amber-600 hover:bg-amber-700 text-white' 
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { XMarkIcon, DocumentArrowUpIcon } from '@heroicons/react/24/outline';
+import { operationsAPI, stockAPI, getErrorMessage, type Operation, type Stock } from '@/lib/api';
+import {
+  BROKER_FORMATS,
+  MAPPING_FIELDS,
+  detectBrokerFormat,
+  guessMapping,
+  parseStatement,
+  type BrokerFormat,
+  type ColumnMapping,
+  type ImportRow,
+} from '@/lib/brokerImport';
+
+interface ImportOperationsModalProps {
+  /** Current ledger, used to flag rows that were imported before. */
+  existing: Operation[];
+  onClose: () => void;
+  onSuccess: () => void;
+  portfolioId?: number;
+}
+
+type RowResult = { ok: boolean; message?: string };
+
+const selectClass =
+  'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const selectedByDefault = (row: ImportRow) => row.request !== null && !row.duplicate;
+
+export default function ImportOperationsModal({ existing, onClose, onSuccess, portfolioId }: ImportOperationsModalProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<BrokerFormat>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({ date: '' });
+  const [defaultCurrency, setDefaultCurrency] = useState('EUR');
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [toggled, setToggled] = useState<Record<number, boolean>>({});
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchStocks = async () => {
+      try {
+        const res = await stockAPI.getAll(portfolioId);
+        if (!cancelled) setStocks(res.data || []);
+      } catch (err) {
+        console.warn('Failed to fetch stocks for ISIN matching:', err);
+      }
+    };
+    fetchStocks();
+    return () => { cancelled = true; };
+  }, [portfolioId]);
+
+  const statement = useMemo(
+    () => (text ? parseStatement(text, { format, mapping, defaultCurrency, stocks, existing }) : null),
+    [text, format, mapping, defaultCurrency, stocks, existing]
+  );
+  const rows = useMemo(() => statement?.rows ?? [], [statement]);
+  const isSelected = (row: ImportRow) => row.request !== null && (toggled[row.line] ?? selectedByDefault(row));
+  const selected = rows.filter(isSelected);
+  const pending = selected.filter((row) => !results[row.line]?.ok);
+  const imported = Object.values(results).filter((r) => r.ok).length;
+  const failedCount = Object.values(results).filter((r) => !r.ok).length;
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const content = (event.target?.result as string) || '';
+      const detected = detectBrokerFormat(content);
+      setText(content);
+      setFileName(file.name);
+      setFormat(detected);
+      setMapping(guessMapping(parseStatement(content, { format: 'generic' }).headers));
+      setToggled({});
+      setResults({});
+      setError('');
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError('');
+    let created = 0;
+    // Sequential so per-row errors line up and cash balances apply in file order.
+    for (const row of pending) {
+      try {
+        await operationsAPI.create(row.request!, portfolioId);
+        created += 1;
+        setResults((prev) => ({ ...prev, [row.line]: { ok: true } }));
+      } catch (err) {
+        setResults((prev) => ({ ...prev, [row.line]: { ok: false, message: getErrorMessage(err) } }));
+      }
+    }
+    setImporting(false);
+    if (created === pending.length) {
+      onSuccess();
+      onClose();
+    } else {
+      setError(`${pending.length - created} of ${pending.length} rows failed; see the report below.`);
+    }
+  };
+
+  // Refresh the ledger only on close so the per-row report stays visible after a partial import.
+  const handleClose = () => {
+    if (imported > 0) onSuccess();
+    onClose();
+  };
+
+  const rowStatus = (row: ImportRow) => {
+    const result = results[row.line];
+    if (result?.ok) return <span className="text-green-400">Imported</span>;
+    if (result) return <span className="text-red-400">{result.message}</span>;
+    if (row.error) return <span className="text-red-400">{row.error}</span>;
+    if (row.duplicate) return <span className="text-amber-300">Already in history</span>;
+    if (row.warning) return <span className="text-amber-300">{row.warning}</span>;
+    return <span className="text-gray-500">Ready</span>;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Import Broker Statement</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer text-gray-300 hover:border-primary-500">
+              <DocumentArrowUpIcon className="h-6 w-6" />
+              <span className="text-sm">{fileName || 'Choose a CSV export'}</span>
+              <input type="file" accept=".csv,.txt,text/csv" onChange={handleFileUpload} className="hidden" />
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as BrokerFormat)} className={selectClass}>
+                {BROKER_FORMATS.map((f) => (
+                  <option key={f.value} value={f.value}>{f.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Detected from the file header; change it if the guess is wrong.</p>
+            </div>
+          </div>
+
+          {statement && format === 'generic' && (
+            <div className="mb-4 bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-200 mb-3">Column mapping</h3>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {MAPPING_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-gray-400 mb-1">{field.label}{field.required ? ' *' : ''}</label>
+                    <select
+                      value={mapping[field.key] ?? ''}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value || undefined }))}
+                      className={selectClass}
+                    >
+                      <option value="">—</option>
+                      {statement.headers.map((h) => (
+                        <option key={h} value={h}>{h}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Default currency</label>
+                  <input
+                    value={defaultCurrency}
+                    onChange={(e) => setDefaultCurrency(e.target.value.toUpperCase())}
+                    maxLength={3}
+                    className={`${selectClass} uppercase`}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {statement && (
+            <>
+              <p className="text-xs text-gray-500 mb-2">
+                {rows.length} rows · {selected.length} selected · {rows.filter((r) => r.duplicate).length} already in history ·{' '}
+                {rows.filter((r) => r.error).length} with errors
+                {(imported > 0 || failedCount > 0) && ` · ${imported} imported, ${failedCount} failed`}
+              </p>
+              <div className="overflow-x-auto rounded-lg border border-gray-700 max-h-96">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-800 text-left sticky top-0">
+                    <tr className="text-gray-300">
+                      <th className="px-3 py-2 w-8" />
+                      <th className="px-3 py-2 font-medium">Line</th>
+                      <th className="px-3 py-2 font-medium">Type</th>
+                      <th className="px-3 py-2 font-medium">Asset</th>
+                      <th className="px-3 py-2 font-medium">Trade date</th>
+                      <th className="px-3 py-2 font-medium text-right">Quantity</th>
+                      <th className="px-3 py-2 font-medium text-right">Price</th>
+                      <th className="px-3 py-2 font-medium">Currency</th>
+                      <th className="px-3 py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="px-3 py-6 text-center text-gray-500">
+                          {format === 'generic' && !mapping.date ? 'Map at least the date column.' : 'No operations found in this file.'}
+                        </td>
+                      </tr>
+                    ) : (
+                      rows.map((row) => (
+                        <tr key={row.line} className={row.request ? 'bg-gray-800/50' : 'bg-gray-800/20 text-gray-500'}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={isSelected(row)}
+                              disabled={!row.request || importing || results[row.line]?.ok}
+                              onChange={(e) => setToggled((prev) => ({ ...prev, [row.line]: e.target.checked }))}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                          <td className="px-3 py-2 text-gray-200">{row.request?.operation_type ?? '—'}</td>
+                          <td className="px-3 py-2 text-gray-200">{row.request?.ticker || row.request?.isin || '—'}</td>
+                          <td className="px-3 py-2 text-gray-300">{row.request?.trade_date ?? '—'}</td>
+                          <td className="px-3 py-2 text-gray-300 text-right">{row.request?.quantity ?? '—'}</td>
+                          <td className="px-3 py-2 text-gray-300 text-right">{row.request?.price !== undefined ? row.request.price.toFixed(2) : '—'}</td>
+                          <td className="px-3 py-2 text-gray-300">{row.request?.currency ?? '—'}</td>
+                          <td className="px-3 py-2 text-xs">{rowStatus(row)}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              {imported > 0 ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || pending.length === 0}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importing...' : `Import ${pending.length} operation${pending.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
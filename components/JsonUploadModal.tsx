@@ -1,21 +1,44 @@
 'use client';
 
-import { Fragment, useState } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, DocumentArrowUpIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
-import axios from 'axios';
+import { stockAPI, getErrorMessage, type Stock } from '@/lib/api';
+import {
+  validateStockImport,
+  hasBlockingErrors,
+  diffStocks,
+  buildBulkUpdate,
+  changeKey,
+  NEW_STOCK_FIELDS,
+  type StockImportError,
+  type StockDiff,
+} from '@/lib/stockImport';
 
 interface JsonUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  /** Current stocks; the review step diffs the upload against these by ticker. */
+  currentStocks: Stock[];
+  portfolioId?: number;
 }
 
-export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUploadModalProps) {
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export default function JsonUploadModal({ isOpen, onClose, onSuccess, currentStocks, portfolioId }: JsonUploadModalProps) {
   const [jsonContent, setJsonContent] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [validationErrors, setValidationErrors] = useState<StockImportError[]>([]);
+  const [diffs, setDiffs] = useState<StockDiff[] | null>(null);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const blocking = hasBlockingErrors(validationErrors);
+  const payload = useMemo(() => (diffs ? buildBulkUpdate(diffs, rejected) : []), [diffs, rejected]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -33,72 +56,48 @@ export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUplo
   const validateJson = (content: string) => {
     setError('');
     setValidationErrors([]);
-    
+    setDiffs(null);
+
+    let data: unknown;
     try {
-      const data = JSON.parse(content);
-      
-      if (!Array.isArray(data)) {
-        setError('JSON must be an array of stock objects');
-        return false;
-      }
+      data = JSON.parse(content);
+    } catch {
+      setError('Invalid JSON format');
+      return null;
+    }
 
-      const errors: string[] = [];
-      
-      data.forEach((stock, index) => {
-        if (!stock.ticker) {
-          errors.push(`Stock at index ${index}: ticker is required`);
-        }
-        if (!stock.company_name) {
-          errors.push(`Stock at index ${index}: company_name is required`);
-        }
-        if (stock.current_price !== undefined && typeof stock.current_price !== 'number') {
-          errors.push(`Stock at index ${index}: current_price must be a number`);
-        }
-        if (stock.fair_value !== undefined && typeof stock.fair_value !== 'number') {
-          errors.push(`Stock at index ${index}: fair_value must be a number`);
-        }
-      });
+    const result = validateStockImport(data);
+    setValidationErrors(result.errors);
+    return hasBlockingErrors(result.errors) ? null : result.stocks;
+  };
 
-      if (errors.length > 0) {
-        setValidationErrors(errors);
-        return false;
-      }
+  const handleReview = () => {
+    const stocks = validateJson(jsonContent);
+    if (!stocks) return;
+    setDiffs(diffStocks(stocks, currentStocks));
+    setRejected(new Set());
+  };
 
-      return true;
-    } catch (e) {
-      setError('Invalid JSON format');
-      return false;
-    }
+  const toggleChange = (key: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
   };
 
   const handleSubmit = async () => {
-    if (!validateJson(jsonContent)) {
-      return;
-    }
-
+    if (payload.length === 0) return;
     setLoading(true);
     try {
-      const data = JSON.parse(jsonContent);
-      const token = document.cookie.split('; ').find(row => row.startsWith('token='))?.split('=')[1];
-      
-      const response = await axios.post(
-        `${process.env.NEXT_PUBLIC_API_URL}/stocks/bulk-update`,
-        { stocks: data },
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (response.status === 200) {
-        onSuccess();
-        onClose();
-        setJsonContent('');
-      }
-    } catch (error: any) {
-      setError(error.response?.data?.error || 'Failed to update stocks');
+      await stockAPI.bulkUpdate(payload, portfolioId);
+      onSuccess();
+      onClose();
+      setJsonContent('');
+      setDiffs(null);
+    } catch (err) {
+      setError(getErrorMessage(err) || 'Failed to update stocks');
     } finally {
       setLoading(false);
     }
@@ -308,6 +307,7 @@ export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUplo
                               setJsonContent('');
                               setError('');
                               setValidationErrors([]);
+                              setDiffs(null);
                             }}
                             className="text-xs text-gray-400 hover:text-white"
                           >
@@ -324,6 +324,7 @@ export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUplo
                           } else {
                             setError('');
                             setValidationErrors([]);
+                            setDiffs(null);
                           }
                         }}
                         placeholder='Paste your JSON here, e.g.:
@@ -348,15 +349,78 @@ export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUplo
                   )}
 
                   {validationErrors.length > 0 && (
-                    <div className="mt-4 p-3 bg-yellow-900/50 border border-yellow-600 rounded">
-                      <p className="text-yellow-300 mb-2">Validation Errors:</p>
-                      <ul className="list-disc list-inside text-yellow-300 text-sm">
+                    <div className={`mt-4 p-3 rounded border ${blocking ? 'bg-yellow-900/50 border-yellow-600' : 'bg-gray-700/50 border-gray-600'}`}>
+                      <p className={`mb-2 ${blocking ? 'text-yellow-300' : 'text-gray-300'}`}>
+                        {blocking ? 'Validation Errors:' : 'Warnings (fields will be skipped):'}
+                      </p>
+                      <ul className="list-disc list-inside text-sm max-h-40 overflow-y-auto">
                         {validationErrors.map((err, idx) => (
-                          <li key={idx}>{err}</li>
+                          <li key={idx} className={err.severity === 'error' ? 'text-yellow-300' : 'text-gray-400'}>{err.message}</li>
                         ))}
                       </ul>
                     </div>
                   )}
+
+                  {diffs && (
+                    <div className="mt-4">
+                      <h4 className="text-white text-sm font-medium mb-2">Review changes</h4>
+                      {diffs.every((d) => d.changes.length === 0) ? (
+                        <p className="text-sm text-gray-400">Nothing to update: the upload matches current data.</p>
+                      ) : (
+                        <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                          {diffs.filter((d) => d.changes.length > 0).map((diff) => {
+                            const stockRejected = !diff.current && rejected.has(changeKey(diff.ticker, 'ticker'));
+                            return (
+                              <div key={diff.ticker} className="border border-gray-700 rounded p-3">
+                                <div className="flex items-center justify-between mb-2">
+                                  <span className="text-white font-medium">
+                                    {diff.ticker}
+                                    <span className={`ml-2 text-xs ${diff.current ? 'text-gray-400' : 'text-green-400'}`}>
+                                      {diff.current ? `${diff.changes.length} change${diff.changes.length === 1 ? '' : 's'}` : 'new stock'}
+                                    </span>
+                                  </span>
+                                  {!diff.current && (
+                                    <label className="text-xs text-gray-300 flex items-center gap-1">
+                                      <input
+                                        type="checkbox"
+                                        checked={!stockRejected}
+                                        onChange={() => toggleChange(changeKey(diff.ticker, 'ticker'))}
+                                      />
+                                      Add
+                                    </label>
+                                  )}
+                                </div>
+                                <table className="w-full text-xs">
+                                  <tbody>
+                                    {diff.changes.map((change) => {
+                                      const key = changeKey(diff.ticker, change.field);
+                                      const locked = !diff.current && NEW_STOCK_FIELDS.includes(change.field);
+                                      const accepted = !stockRejected && (locked || !rejected.has(key));
+                                      return (
+                                        <tr key={key} className={`border-b border-gray-800 last:border-b-0 ${accepted ? '' : 'opacity-50'}`}>
+                                          <td className="py-1 pr-2 w-6">
+                                            <input
+                                              type="checkbox"
+                                              checked={accepted}
+                                              disabled={locked || stockRejected}
+                                              onChange={() => toggleChange(key)}
+                                            />
+                                          </td>
+                                          <td className="py-1 pr-3 text-gray-300 font-mono">{change.field}</td>
+                                          <td className="py-1 pr-3 text-red-300 line-through break-all">{diff.current ? formatValue(change.before) : ''}</td>
+                                          <td className="py-1 text-green-300 break-all">{formatValue(change.after)}</td>
+                                        </tr>
+                                      );
+                                    })}
+                                  </tbody>
+                                </table>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-6 flex justify-end gap-3">
@@ -367,14 +431,25 @@ export default function JsonUploadModal({ isOpen, onClose, onSuccess }: JsonUplo
                   >
                     Cancel
                   </button>
-                  <button
-                    type="button"
-                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
-                    onClick={handleSubmit}
-                    disabled={!jsonContent || loading || validationErrors.length > 0}
-                  >
-                    {loading ? 'Uploading...' : 'Upload & Update'}
-                  </button>
+                  {diffs ? (
+                    <button
+                      type="button"
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                      onClick={handleSubmit}
+                      disabled={loading || payload.length === 0}
+                    >
+                      {loading ? 'Uploading...' : `Apply to ${payload.length} stock${payload.length === 1 ? '' : 's'}`}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                      onClick={handleReview}
+                      disabled={!jsonContent || blocking}
+                    >
+                      Review changes
+                    </button>
+                  )}
                 </div>
               </Dialog.Panel>
             </Transition.Child>
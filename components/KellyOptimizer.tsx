@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Stock } from '@/lib/api';
+import { optimizeKellyWeights, KELLY_MULTIPLIERS } from '@/lib/kellyOptimizer';
+import type { SectorTargetPct } from '@/hooks/useSectorTargets';
+
+interface KellyOptimizerProps {
+  /** Active positions (shares_owned > 0). */
+  stocks: Stock[];
+  sectorTargets?: SectorTargetPct;
+}
+
+const multiplierLabel = (m: number) => (m === 1 ? 'Full Kelly' : m === 0.5 ? '½ Kelly' : m === 0.25 ? '¼ Kelly' : `${m}× Kelly`);
+
+export default function KellyOptimizer({ stocks, sectorTargets }: KellyOptimizerProps) {
+  const [multiplier, setMultiplier] = useState(0.5);
+  const [positionCapPct, setPositionCapPct] = useState(15);
+
+  if (stocks.length === 0) return null;
+
+  const plan = optimizeKellyWeights(stocks, { multiplier, positionCapPct, targets: sectorTargets });
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-gray-200">Kelly target weights</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-xs text-gray-400">
+            Multiplier
+            <select
+              value={multiplier}
+              onChange={(e) => setMultiplier(Number(e.target.value))}
+              className="ml-1 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+            >
+              {KELLY_MULTIPLIERS.map((m) => <option key={m} value={m}>{multiplierLabel(m)}</option>)}
+            </select>
+          </label>
+          <label className="text-xs text-gray-400">
+            Position cap %
+            <input
+              type="number"
+              min={1}
+              max={100}
+              step={1}
+              value={positionCapPct}
+              onChange={(e) => setPositionCapPct(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+              className="ml-1 w-16 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+            />
+          </label>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Sizes every position at the chosen fraction of its Kelly bet (from Kelly F*, or b ratio and probability), caps single positions and keeps sectors inside their target bands, then normalizes to equity weights.
+      </p>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-400 mb-3">
+        <span title="Sum of fractional Kelly bets before normalization">
+          Kelly total: <span className={plan.grossKellyPct > 100 ? 'text-amber-300' : 'text-white'}>{plan.grossKellyPct.toFixed(1)}%</span>
+        </span>
+        <span title="Share of the book Kelly allocates to equities; the rest stays in cash">
+          Invested: <span className="text-white">{plan.investedPct.toFixed(1)}%</span>
+        </span>
+        {plan.unallocatedPct > 0.05 && (
+          <span title="Equity weight that caps and sector bands leave unassigned">
+            Unallocated: <span className="text-amber-300">{plan.unallocatedPct.toFixed(1)}%</span>
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto mb-3">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700 text-left">
+              <th className="py-2 pr-3">Ticker</th>
+              <th className="py-2 pr-3">Sector</th>
+              <th className="py-2 pr-3 text-right">Kelly F*</th>
+              <th className="py-2 pr-3 text-right">Current</th>
+              <th className="py-2 pr-3 text-right">Target</th>
+              <th className="py-2 text-right">Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.targets.map((t) => (
+              <tr key={t.stockId} className="border-b border-gray-800 last:border-b-0">
+                <td className="py-2 pr-3 text-primary-400 font-medium">{t.ticker}</td>
+                <td className="py-2 pr-3 text-gray-300">{t.sector}</td>
+                <td className="py-2 pr-3 text-right text-gray-300">{t.kellyPct.toFixed(1)}%</td>
+                <td className="py-2 pr-3 text-right text-gray-300">{t.currentPct.toFixed(1)}%</td>
+                <td className="py-2 pr-3 text-right text-white">
+                  {t.targetPct.toFixed(1)}%
+                  {t.capped && <span className="text-amber-400 text-xs ml-1" title={`Capped at ${positionCapPct}%`}>cap</span>}
+                </td>
+                <td className={`py-2 text-right ${t.deltaPct >= 0.05 ? 'text-green-300' : t.deltaPct <= -0.05 ? 'text-red-300' : 'text-gray-500'}`}>
+                  {t.deltaPct >= 0 ? '+' : ''}{t.deltaPct.toFixed(1)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="text-xs text-gray-400 space-y-0.5">
+        {plan.sectors.map((s) => (
+          <li key={s.sector}>
+            {s.sector}: {s.currentPct.toFixed(1)}% → {s.targetPct.toFixed(1)}%
+            {s.targetMin !== null && ` (target ${s.targetMin}–${s.targetMax}%)`}
+            {!s.inBand && <span className="text-amber-400 ml-1">no positive-edge capacity to reach band</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
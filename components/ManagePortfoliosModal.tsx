@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { getErrorMessage, type Portfolio } from '@/lib/api';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ManagePortfoliosModalProps {
+  onClose: () => void;
+}
+
+function PortfolioRow({ portfolio, canArchive, onError }: { portfolio: Portfolio; canArchive: boolean; onError: (message: string) => void }) {
+  const { portfolioId, rename, setArchived } = usePortfolioContext();
+  const [name, setName] = useState(portfolio.name);
+  const [busy, setBusy] = useState(false);
+  const changed = name.trim() !== '' && name.trim() !== portfolio.name;
+
+  const run = async (action: () => Promise<void>) => {
+    onError('');
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      onError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <tr className="border-b border-gray-800 last:border-b-0">
+      <td className="py-2 pr-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={portfolio.archived}
+          className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </td>
+      <td className="py-2 pr-3 text-xs text-gray-400 whitespace-nowrap">
+        {portfolio.archived ? 'Archived' : portfolio.id === portfolioId ? 'Selected' : ''}
+      </td>
+      <td className="py-2 text-right whitespace-nowrap space-x-2">
+        {changed && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => run(() => rename(portfolio.id, name))}
+            className="px-2 py-1 text-xs bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded"
+          >
+            Save
+          </button>
+        )}
+        <button
+          type="button"
+          disabled={busy || (!portfolio.archived && !canArchive)}
+          title={!portfolio.archived && !canArchive ? 'At least one portfolio must stay active' : undefined}
+          onClick={() => run(() => setArchived(portfolio.id, !portfolio.archived))}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 rounded"
+        >
+          {portfolio.archived ? 'Restore' : 'Archive'}
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+/** Create, rename, archive and restore portfolios. Archived portfolios keep their data. */
+export default function ManagePortfoliosModal({ onClose }: ManagePortfoliosModalProps) {
+  const { portfolios, activePortfolios, create } = usePortfolioContext();
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (portfolios.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A portfolio named "${name}" already exists`);
+      return;
+    }
+    setError('');
+    setCreating(true);
+    try {
+      await create(name);
+      setNewName('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Portfolios</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {portfolios.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              Everything is recorded in the default portfolio. Create a portfolio to keep separate books.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {portfolios.map((p) => (
+                  <PortfolioRow key={p.id} portfolio={p} canArchive={activePortfolios.length > 1} onError={setError} />
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New portfolio name"
+              className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              type="submit"
+              disabled={creating || !newName.trim()}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+            >
+              {creating ? 'Creating…' : 'Create'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { PortfolioMetrics, Stock, cashAPI, exchangeRateAPI } from '@/lib/api';
+import { getCashTotalBase } from '@/lib/fx';
+import type { SimulationRequest, SimulationResult } from '@/lib/monteCarlo';
+import { Chart as ChartJS, BarElement, CategoryScale, LinearScale, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface MonteCarloCardProps {
+  metrics: PortfolioMetrics;
+  /** Active positions (shares_owned > 0). */
+  stocks: Stock[];
+  portfolioId?: number;
+}
+
+const PATH_OPTIONS = [1000, 5000, 10000, 25000];
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+export default function MonteCarloCard({ metrics, stocks, portfolioId }: MonteCarloCardProps) {
+  const [paths, setPaths] = useState(5000);
+  const [correlation, setCorrelation] = useState(0.3);
+  const [includeCash, setIncludeCash] = useState(true);
+  const [cashBase, setCashBase] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => { isMountedRef.current = false; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchCash = async () => {
+      try {
+        const [cashResponse, ratesResponse] = await Promise.all([cashAPI.getAll(portfolioId), exchangeRateAPI.getAll()]);
+        if (!cancelled) setCashBase(getCashTotalBase(cashResponse.data, ratesResponse.data));
+      } catch (err) {
+        console.warn('Failed to fetch cash holdings for simulation:', err);
+      }
+    };
+    fetchCash();
+    return () => {
+      cancelled = true;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [portfolioId]);
+
+  const runSimulation = () => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../lib/monteCarlo.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    setRunning(true);
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<{ result?: SimulationResult; error?: string }>) => {
+      if (!isMountedRef.current) return;
+      if (event.data.result) setResult(event.data.result);
+      if (event.data.error) setError(event.data.error);
+      setRunning(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+    worker.onerror = (event) => {
+      if (!isMountedRef.current) return;
+      setError(event.message || 'Simulation failed');
+      setRunning(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+
+    const request: SimulationRequest = {
+      positions: stocks
+        .filter((s) => s.shares_owned > 0)
+        .map((s) => ({
+          ticker: s.ticker,
+          value: s.weight * metrics.total_value,
+          upsidePotential: s.upside_potential,
+          downsideRisk: s.downside_risk,
+          probabilityPositive: s.probability_positive,
+          volatility: s.volatility,
+        })),
+      cash: includeCash ? cashBase : 0,
+      paths,
+      correlation,
+    };
+    worker.postMessage(request);
+  };
+
+  const median = result?.percentiles.find((p) => p.p === 50)?.value ?? 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-gray-200">12-month outcome simulation</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-xs text-gray-400">
+            Paths
+            <select
+              value={paths}
+              onChange={(e) => setPaths(Number(e.target.value))}
+              className="ml-1 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+            >
+              {PATH_OPTIONS.map((n) => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+            </select>
+          </label>
+          <label className="text-xs text-gray-400">
+            Correlation
+            <input
+              type="number"
+              min={0}
+              max={0.99}
+              step={0.05}
+              value={correlation}
+              onChange={(e) => setCorrelation(Math.min(0.99, Math.max(0, Number(e.target.value))))}
+              className="ml-1 w-16 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={includeCash}
+              onChange={(e) => setIncludeCash(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-700"
+            />
+            Include cash
+          </label>
+          <button
+            onClick={runSimulation}
+            disabled={running || stocks.length === 0}
+            className="px-3 py-1.5 bg-indigo-600 text-white text-xs rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {running ? 'Simulating...' : 'Run'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Samples each position&apos;s upside/downside scenario by probability positive, with noise scaled to volatility and a shared market factor. Runs in a background worker.
+      </p>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {result ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+            <div>
+              <span className="text-gray-500 block">Start value</span>
+              <span className="text-white font-semibold">{formatEur(result.startValue)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">Median outcome</span>
+              <span className={`font-semibold ${median >= result.startValue ? 'text-emerald-400' : 'text-red-400'}`}>{formatEur(median)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block" title="Share of paths ending below the start value">Probability of loss</span>
+              <span className="text-white font-semibold">{(result.probabilityOfLoss * 100).toFixed(1)}%</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block" title="Average loss across the worst 5% of paths">Expected shortfall (95%)</span>
+              <span className="text-red-400 font-semibold">{formatEur(result.expectedShortfall95)}</span>
+              <span className="text-gray-500 text-xs ml-1">VaR {formatEur(result.valueAtRisk95)}</span>
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-2 text-xs mb-4">
+            {result.percentiles.map((p) => (
+              <div key={p.p} className="bg-gray-700/60 rounded-lg p-2 border border-gray-600 text-center">
+                <div className="text-gray-400">P{p.p}</div>
+                <div className="text-white font-semibold">{formatEur(p.value)}</div>
+              </div>
+            ))}
+          </div>
+          <div className="h-48">
+            <Bar
+              data={{
+                labels: result.histogram.map((b) => formatEur((b.from + b.to) / 2)),
+                datasets: [{
+                  label: 'Paths',
+                  data: result.histogram.map((b) => b.count),
+                  backgroundColor: result.histogram.map((b) => (b.to <= result.startValue ? 'rgba(239,68,68,0.6)' : 'rgba(16,185,129,0.6)')),
+                }],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { display: false } },
+                scales: {
+                  x: { ticks: { color: '#9ca3af', maxTicksLimit: 8 }, grid: { display: false } },
+                  y: { ticks: { color: '#9ca3af' }, grid: { color: 'rgba(75,85,99,0.3)' } },
+                },
+              }}
+            />
+          </div>
+        </>
+      ) : (
+        !running && <p className="text-gray-500 text-sm">Run the simulation to see the distribution of portfolio value in 12 months.</p>
+      )}
+    </div>
+  );
+}
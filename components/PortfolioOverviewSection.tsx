@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { PortfolioMetrics, PortfolioUnits, Stock, cashAPI, exchangeRateAPI } from '@/lib/api';
+import { getCashTotalBase } from '@/lib/fx';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
 import { Pie } from 'react-chartjs-2';
 
@@ -12,37 +13,31 @@ interface PortfolioOverviewSectionProps {
   units?: PortfolioUnits | null;
   /** Active positions (shares_owned > 0) for sector drill-down */
   stocks: Stock[];
+  portfolioId?: number;
 }
 
-export default function PortfolioOverviewSection({ metrics, units, stocks }: PortfolioOverviewSectionProps) {
+export default function PortfolioOverviewSection({ metrics, units, stocks, portfolioId }: PortfolioOverviewSectionProps) {
   const [totalCashValue, setTotalCashValue] = useState(0);
   const [selectedSector, setSelectedSector] = useState<string | null>(null);
-  const isMountedRef = useRef(true);
 
   useEffect(() => {
-    isMountedRef.current = true;
+    let cancelled = false;
     const fetchCashData = async () => {
       try {
         const [response, ratesResponse] = await Promise.all([
-          cashAPI.getAll(),
+          cashAPI.getAll(portfolioId),
           exchangeRateAPI.getAll(),
         ]);
-        if (!isMountedRef.current) return;
-        const usdRate = ratesResponse.data.find((rate) => rate.currency_code === 'USD')?.rate || 0;
-        const totalCash = response.data.reduce((total, cash) => {
-          if (cash.currency_code === 'EUR') return total + cash.amount;
-          if (usdRate <= 0) return total;
-          return total + (cash.usd_value / usdRate);
-        }, 0);
-        setTotalCashValue(totalCash);
+        if (cancelled) return;
+        setTotalCashValue(getCashTotalBase(response.data, ratesResponse.data));
       } catch (err) {
-        if (isMountedRef.current) setTotalCashValue(0);
+        if (!cancelled) setTotalCashValue(0);
         console.warn('Failed to fetch cash holdings:', err);
       }
     };
     fetchCashData();
-    return () => { isMountedRef.current = false; };
-  }, []);
+    return () => { cancelled = true; };
+  }, [portfolioId]);
 
   const formatCurrency = (num: number) => {
     if (num === 0 || num === null || num === undefined) return 'N/A';
@@ -93,14 +88,13 @@ export default function PortfolioOverviewSection({ metrics, units, stocks }: Por
     return out;
   };
 
-  const weightToFraction = (w: number) => (w <= 1 && w > 0 ? w : w / 100);
   const sortedStocks = [...stocks]
-    .filter((s) => s.shares_owned > 0 && weightToFraction(s.weight) > 0)
+    .filter((s) => s.shares_owned > 0 && s.weight > 0)
     .sort((a, b) => {
       const sa = (a.sector || '').toLowerCase();
       const sb = (b.sector || '').toLowerCase();
       if (sa !== sb) return sa.localeCompare(sb);
-      return weightToFraction(b.weight) - weightToFraction(a.weight);
+      return b.weight - a.weight;
     });
 
   const chartLabels: string[] = [];
@@ -111,7 +105,7 @@ export default function PortfolioOverviewSection({ metrics, units, stocks }: Por
   sortedStocks.forEach((stock) => {
     const sector = stock.sector?.trim() || 'Other';
     const fraction = totalPortfolioValue > 0
-      ? (weightToFraction(stock.weight) * metrics.total_value) / totalPortfolioValue
+      ? (stock.weight * metrics.total_value) / totalPortfolioValue
       : 0;
     chartLabels.push(stock.ticker);
     chartValues.push(fraction);
@@ -179,7 +173,6 @@ export default function PortfolioOverviewSection({ metrics, units, stocks }: Por
     maintainAspectRatio: false,
   };
 
-  const weightToPct = (w: number) => (w <= 1 && w > 0 ? w * 100 : w);
   const stocksInSector = selectedSector && selectedSector !== 'Cash'
     ? stocks.filter((s) => s.sector && s.sector.trim().toLowerCase() === selectedSector.trim().toLowerCase())
     : [];
@@ -299,11 +292,11 @@ export default function PortfolioOverviewSection({ metrics, units, stocks }: Por
                   <ul className="space-y-1 text-sm">
                     {stocksInSector
                       .slice()
-                      .sort((a, b) => weightToPct(b.weight) - weightToPct(a.weight))
+                      .sort((a, b) => b.weight - a.weight)
                       .map((s) => (
                         <li key={s.id} className="flex justify-between text-gray-300">
                           <span>{s.ticker}</span>
-                          <span>{weightToPct(s.weight).toFixed(1)}%</span>
+                          <span>{(s.weight * 100).toFixed(1)}%</span>
                         </li>
                       ))}
                   </ul>
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PortfolioMetrics, Stock, cashAPI, exchangeRateAPI } from '@/lib/api';
+import { planSectorRebalance, type RebalanceOrder } from '@/lib/rebalancePlanner';
+import { getCashTotalBase } from '@/lib/fx';
+import type { SectorTargetPct } from '@/hooks/useSectorTargets';
+import type { AddOperationInitialValues } from '@/components/AddOperationModal';
+
+interface RebalancePlannerProps {
+  metrics: PortfolioMetrics;
+  stocks: Stock[];
+  sectorTargets?: SectorTargetPct;
+  cashTarget?: { min: number; max: number };
+  /** Opens AddOperationModal pre-filled with the order. */
+  onCreateOperation: (values: AddOperationInitialValues) => void;
+  portfolioId?: number;
+}
+
+export default function RebalancePlanner({ metrics, stocks, sectorTargets, cashTarget, onCreateOperation, portfolioId }: RebalancePlannerProps) {
+  const [cashBase, setCashBase] = useState(0);
+  const [useCash, setUseCash] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchCash = async () => {
+      try {
+        const [cashResponse, ratesResponse] = await Promise.all([
+          cashAPI.getAll(portfolioId),
+          exchangeRateAPI.getAll(),
+        ]);
+        if (cancelled) return;
+        setCashBase(getCashTotalBase(cashResponse.data, ratesResponse.data));
+      } catch (err) {
+        if (!cancelled) setCashBase(0);
+        console.warn('Failed to fetch cash holdings for rebalance planner:', err);
+      }
+    };
+    fetchCash();
+    return () => { cancelled = true; };
+  }, [portfolioId]);
+
+  const plan = planSectorRebalance(stocks, metrics.sector_weights, metrics.total_value, {
+    targets: sectorTargets,
+    cashBase,
+    cashTarget,
+    useCash,
+  });
+  const outOfBand = plan.sectors.filter((s) => s.currentPct < s.targetMin || s.currentPct > s.targetMax);
+  if (outOfBand.length === 0 && plan.orders.length === 0) return null;
+
+  const formatEur = (n: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+  const handleCreate = (order: RebalanceOrder) => {
+    onCreateOperation({
+      ticker: order.ticker,
+      isin: order.isin,
+      company_name: order.companyName,
+      sector: order.sector,
+      currency: order.currency,
+      operation_type: order.side,
+      stock_id: order.stockId,
+      quantity: order.shares,
+      price: order.price,
+      note: 'Sector rebalance',
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-gray-200">Rebalance planner</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={useCash}
+            onChange={(e) => setUseCash(e.target.checked)}
+            className="rounded border-gray-600 bg-gray-700"
+          />
+          Use cash above target min ({formatEur(plan.deployableCashBase)})
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Whole-share orders that bring each sector into its target band. Sells trim over-weight sectors to their max; buys top up under-weight sectors to their min, pro rata to existing positions.
+      </p>
+
+      {plan.orders.length === 0 ? (
+        <p className="text-sm text-gray-400">No whole-share orders can close the gap with the available funds.</p>
+      ) : (
+        <div className="overflow-x-auto mb-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-2 pr-3">Order</th>
+                <th className="py-2 pr-3">Ticker</th>
+                <th className="py-2 pr-3">Sector</th>
+                <th className="py-2 pr-3 text-right">Shares</th>
+                <th className="py-2 pr-3 text-right">Price</th>
+                <th className="py-2 pr-3 text-right">Value (EUR)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {plan.orders.map((o) => (
+                <tr key={`${o.side}-${o.stockId}`} className="border-b border-gray-800 last:border-b-0">
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${o.side === 'Buy' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
+                      {o.side}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-primary-400 font-medium">{o.ticker}</td>
+                  <td className="py-2 pr-3 text-gray-300">{o.sector}</td>
+                  <td className="py-2 pr-3 text-right text-white">{o.shares}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{o.price.toFixed(2)} {o.currency}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{formatEur(o.valueBase)}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleCreate(o)}
+                      className="px-2 py-1 bg-indigo-600 text-white text-xs rounded hover:bg-indigo-700"
+                    >
+                      Create operation
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-400">
+        <span>Sells: <span className="text-red-300">{formatEur(plan.sellProceedsBase)}</span></span>
+        <span>Buys: <span className="text-green-300">{formatEur(plan.buyCostBase)}</span></span>
+        <span>Cash after: <span className="text-white">{formatEur(plan.cashAfterBase)}</span></span>
+      </div>
+      {outOfBand.length > 0 && (
+        <ul className="mt-2 text-xs text-gray-400 space-y-0.5">
+          {plan.sectors
+            .filter((s) => outOfBand.includes(s) || !s.inBand)
+            .map((s) => (
+              <li key={s.sector}>
+                {s.sector}: {s.currentPct.toFixed(1)}% → {s.projectedPct.toFixed(1)}% (target {s.targetMin}–{s.targetMax}%)
+                {!s.inBand && <span className="text-amber-400 ml-1">still out of band</span>}
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}
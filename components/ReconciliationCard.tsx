@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Operation, Stock, stockAPI, invalidateCache, getErrorMessage, type CreateOperationRequest } from '@/lib/api';
+import {
+  reconcilePositions,
+  stockFixFor,
+  stockRestoreFor,
+  savedAsDrafted,
+  draftOperationFor,
+  type DraftOperation,
+  type ReconciliationRow,
+} from '@/lib/reconciliation';
+import AddOperationModal from '@/components/AddOperationModal';
+
+interface ReconciliationCardProps {
+  operations: Operation[];
+  /** Called after a drafted operation is saved, so the ledger can be refetched. */
+  onOperationAdded: () => void;
+  portfolioId?: number;
+}
+
+const fmtQty = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(4));
+const fmtPrice = (n: number) => (n > 0 ? n.toFixed(2) : '—');
+
+function issueLabel(row: ReconciliationRow): string {
+  if (row.status === 'missing_stock') return 'No stock record';
+  if (row.sharesMismatch) return 'Shares differ';
+  if (row.avgPriceMismatch) return 'Average price differs';
+  return 'Matches';
+}
+
+export default function ReconciliationCard({ operations, onOperationAdded, portfolioId }: ReconciliationCardProps) {
+  const [stocks, setStocks] = useState<Stock[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showMatching, setShowMatching] = useState(false);
+  const [fixingTicker, setFixingTicker] = useState<string | null>(null);
+  const [drafting, setDrafting] = useState<{ row: ReconciliationRow; draft: DraftOperation } | null>(null);
+  const [error, setError] = useState('');
+
+  // Refetch on ledger changes too: the backend applies new operations to the stock positions.
+  useEffect(() => {
+    let cancelled = false;
+    const fetchStocks = async () => {
+      try {
+        const response = await stockAPI.getAll(portfolioId);
+        if (!cancelled) setStocks(response.data || []);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err));
+      }
+    };
+    fetchStocks();
+    return () => { cancelled = true; };
+  }, [operations, reloadKey, portfolioId]);
+
+  const handleUseLedger = async (row: ReconciliationRow) => {
+    if (!row.stock) return;
+    const fix = stockFixFor(row);
+    if (!confirm(`Set ${row.ticker} to ${fix.shares_owned} shares at ${fix.avg_price_local} ${row.currency} average, as derived from operations?`)) return;
+    setFixingTicker(row.ticker);
+    setError('');
+    try {
+      await stockAPI.update(row.stock.id, fix, portfolioId);
+      invalidateCache('portfolio');
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setFixingTicker(null);
+    }
+  };
+
+  // Saving the operation also moves the stock position; put it back so only the ledger changes.
+  const handleDraftSaved = async (saved?: CreateOperationRequest) => {
+    if (!drafting) return;
+    const { row, draft } = drafting;
+    setError('');
+    try {
+      // An edited draft is an ordinary operation; leave the stock as the backend updated it.
+      if (row.stock && saved && savedAsDrafted(draft, saved)) {
+        await stockAPI.update(row.stock.id, stockRestoreFor(row), portfolioId);
+      }
+    } catch (err) {
+      setError(`Operation saved, but restoring ${row.ticker} failed: ${getErrorMessage(err)}`);
+    } finally {
+      invalidateCache('portfolio');
+      onOperationAdded();
+    }
+  };
+
+  if (!stocks) return null;
+  const rows = reconcilePositions(stocks, operations);
+  const mismatches = rows.filter((r) => r.status !== 'ok');
+  const visible = showMatching ? rows : mismatches;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-sm font-semibold text-gray-200">
+          Positions vs operations{' '}
+          <span className={mismatches.length > 0 ? 'text-amber-400' : 'text-green-400'}>
+            ({mismatches.length > 0 ? `${mismatches.length} to review` : 'all match'})
+          </span>
+        </h3>
+        <label className="text-xs text-gray-400 flex items-center gap-1.5">
+          <input type="checkbox" checked={showMatching} onChange={(e) => setShowMatching(e.target.checked)} />
+          Show matching positions
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        Shares and average price replayed from Buy/Sell operations and corporate actions (average cost) compared with what is stored on each stock.
+        Fix either side: take the ledger values, or add the operation that is missing from the ledger.
+      </p>
+
+      {error && (
+        <div className="mb-3 bg-red-900 bg-opacity-50 border border-red-700 text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">Every position matches its operations.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-2 pr-3">Ticker</th>
+                <th className="py-2 pr-3 text-right">Stock shares</th>
+                <th className="py-2 pr-3 text-right">Ledger shares</th>
+                <th className="py-2 pr-3 text-right">Stock avg</th>
+                <th className="py-2 pr-3 text-right">Ledger avg</th>
+                <th className="py-2 pr-3">Issue</th>
+                <th className="py-2">Fix</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((row) => {
+                const draft = draftOperationFor(row);
+                return (
+                  <tr key={row.ticker} className="border-b border-gray-800 last:border-b-0">
+                    <td className="py-1.5 pr-3 font-medium text-white">{row.ticker}</td>
+                    <td className={`py-1.5 pr-3 text-right ${row.sharesMismatch ? 'text-amber-300' : 'text-gray-300'}`}>{fmtQty(row.stockShares)}</td>
+                    <td className={`py-1.5 pr-3 text-right ${row.sharesMismatch ? 'text-amber-300' : 'text-gray-300'}`}>{fmtQty(row.ledgerShares)}</td>
+                    <td className={`py-1.5 pr-3 text-right ${row.avgPriceMismatch ? 'text-amber-300' : 'text-gray-300'}`}>{fmtPrice(row.stockAvgPrice)}</td>
+                    <td className={`py-1.5 pr-3 text-right ${row.avgPriceMismatch ? 'text-amber-300' : 'text-gray-300'}`}>
+                      {fmtPrice(row.ledgerAvgPrice)} {row.currency}
+                    </td>
+                    <td className={`py-1.5 pr-3 ${row.status === 'ok' ? 'text-green-400' : 'text-amber-400'}`}>{issueLabel(row)}</td>
+                    <td className="py-1.5">
+                      {row.status !== 'ok' && (
+                        <div className="flex flex-wrap gap-2">
+                          {row.stock && (
+                            <button
+                              type="button"
+                              onClick={() => handleUseLedger(row)}
+                              disabled={fixingTicker !== null}
+                              className="px-2 py-1 text-xs bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+                              title="Overwrite shares and average price on the stock with the ledger values"
+                            >
+                              {fixingTicker === row.ticker ? 'Saving...' : 'Use ledger'}
+                            </button>
+                          )}
+                          {draft && (
+                            <button
+                              type="button"
+                              onClick={() => setDrafting({ row, draft })}
+                              className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 transition-colors"
+                              title={`Open a ${draft.operation_type} of ${fmtQty(draft.quantity)} @ ${draft.price} for review`}
+                            >
+                              Draft {draft.operation_type}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {drafting && (
+        <AddOperationModal
+          initialValues={drafting.draft}
+          onClose={() => setDrafting(null)}
+          onSuccess={handleDraftSaved}
+          portfolioId={portfolioId}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { exchangeRateAPI, operationsAPI, stockAPI, getErrorMessage, type StockHistory } from '@/lib/api';
+import { computePortfolioReturns, RETURN_PERIODS, type PeriodReturn } from '@/lib/returns';
+import { toRateMap } from '@/lib/fx';
+import { formatTradeDate } from '@/lib/tradeDate';
+
+const formatPct = (value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return 'N/A';
+  const pct = value * 100;
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(2)}%`;
+};
+
+const pctClass = (value: number | null) =>
+  value === null ? 'text-gray-500' : value >= 0 ? 'text-emerald-400' : 'text-red-400';
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+interface ReturnsCardProps {
+  portfolioId?: number;
+}
+
+export default function ReturnsCard({ portfolioId }: ReturnsCardProps) {
+  const [results, setResults] = useState<PeriodReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [opsRes, ratesRes, stocksRes] = await Promise.all([
+          operationsAPI.list(portfolioId),
+          exchangeRateAPI.getAll(),
+          stockAPI.getAll(portfolioId),
+        ]);
+        const operations = opsRes.data || [];
+        const stocks = stocksRes.data || [];
+        const traded = new Set(
+          operations.flatMap((op) =>
+            op.operation_type === 'Buy' || op.operation_type === 'Sell' ? [(op.ticker || '').trim().toUpperCase()]
+              : op.operation_type === 'Spin-off' ? [(op.spinoff_ticker || '').trim().toUpperCase()]
+                : []
+          )
+        );
+        const tradedStocks = stocks.filter((s) => traded.has(s.ticker.trim().toUpperCase()));
+        const histories = await Promise.all(
+          tradedStocks.map((s) => stockAPI.getHistory(s.id, portfolioId).then((r) => r.data || []).catch(() => [] as StockHistory[]))
+        );
+
+        const history: Record<string, StockHistory[]> = {};
+        const current: Record<string, { price: number; currency: string }> = {};
+        tradedStocks.forEach((s, i) => {
+          const key = s.ticker.trim().toUpperCase();
+          history[key] = histories[i];
+          current[key] = { price: s.current_price, currency: s.currency };
+        });
+
+        if (cancelled) return;
+        setResults(computePortfolioReturns({ operations, history, current, rates: toRateMap(ratesRes.data || []) }));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [portfolioId]);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <h3 className="text-sm font-semibold text-gray-200 mb-2">Portfolio returns</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Time-weighted return (TWR) strips out the timing of deposits and withdrawals; money-weighted return (XIRR, annualized) reflects it.
+        Deposits, withdrawals and dividends are external cash flows. Values use price history and today&apos;s exchange rates.
+      </p>
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500" />
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm">{error}</p>
+      ) : results.length === 0 ? (
+        <p className="text-gray-500 text-sm">No operations recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-2 pr-3">Period</th>
+                <th className="py-2 pr-3">From</th>
+                <th className="py-2 pr-3 text-right">Start value</th>
+                <th className="py-2 pr-3 text-right">Net flows</th>
+                <th className="py-2 pr-3 text-right">End value</th>
+                <th className="py-2 pr-3 text-right">TWR</th>
+                <th className="py-2 pr-3 text-right">XIRR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r) => (
+                <tr key={r.period} className="border-b border-gray-800 last:border-b-0">
+                  <td className="py-2 pr-3 text-white font-medium">
+                    {RETURN_PERIODS.find((p) => p.value === r.period)?.label ?? r.period}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-400">{formatTradeDate(r.start)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{formatEur(r.startValue)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{formatEur(r.netFlows)}</td>
+                  <td className="py-2 pr-3 text-right text-gray-300">{formatEur(r.endValue)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${pctClass(r.twr)}`}>{formatPct(r.twr)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${pctClass(r.xirr)}`}>{formatPct(r.xirr)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
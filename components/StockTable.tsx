@@ -3,11 +3,12 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { PortfolioUnits, Stock } from '@/lib/api';
-import { ArrowPathIcon, PencilIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline';
+import { ArrowPathIcon, ArrowDownTrayIcon, PencilIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline';
 import EditTickerModal from './EditTickerModal';
 import { useColumnSettings } from '@/hooks/useColumnSettings';
 import { formatSectorTarget } from '@/lib/sectorTargets';
 import { getDistanceToBuyZone, getDistanceToSellZone, getKellyHint } from '@/lib/portfolioInsights';
+import { buildExportRows, exportTable, type ExportMode } from '@/lib/tableExport';
 
 // Define column rendering configuration
 interface TableColumn {
@@ -35,19 +36,22 @@ interface StockTableProps {
   isWatchlist?: boolean;
   onTickerUpdate?: () => void;
   units?: PortfolioUnits | null;
-  /** Sector weights (0–1 or 0–100) of equity portfolio; when set, Active Positions are grouped by sector with % in subtable header */
+  /** Sector weights (0–1) of equity portfolio; when set, Active Positions are grouped by sector with % in subtable header */
   sectorWeights?: Record<string, number>;
   /** Persisted sector targets (min/max %); when set, sector headers show target from these instead of defaults */
   sectorTargets?: Record<string, { min: number; max: number }>;
   /** When set (Active Positions only), show Action column with Buy/Sell that open Add Operation with prefilled stock */
   onBuyClick?: (stock: Stock) => void;
   onSellClick?: (stock: Stock) => void;
+  /** Portfolio the ticker editor writes to. */
+  portfolioId?: number;
 }
 
-export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate, onFieldUpdate, updatingStocks = [], selectedStockIds = [], onSelectStock, onSelectAll, isWatchlist = false, onTickerUpdate, units, sectorWeights, sectorTargets, onBuyClick, onSellClick }: StockTableProps) {
+export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate, onFieldUpdate, updatingStocks = [], selectedStockIds = [], onSelectStock, onSelectAll, isWatchlist = false, onTickerUpdate, units, sectorWeights, sectorTargets, onBuyClick, onSellClick, portfolioId }: StockTableProps) {
   const [sortField, setSortField] = useState<keyof Stock>('ticker');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [filter, setFilter] = useState('');
+  const [exportMode, setExportMode] = useState<ExportMode>('formatted');
   const [editingField, setEditingField] = useState<{ stockId: number; field: string } | null>(null);
   const [editValue, setEditValue] = useState('');
   const [editingTicker, setEditingTicker] = useState<Stock | null>(null);
@@ -159,7 +163,7 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
         const raw = props.sectorWeights && !props.isWatchlist && stock.sector
           ? props.sectorWeights[stock.sector]
           : undefined;
-        const pct = raw != null ? (raw > 0 && raw <= 1 ? raw * 100 : raw) : undefined;
+        const pct = raw != null ? raw * 100 : undefined;
         if (pct != null && !Number.isNaN(pct)) {
           return (
             <span title="Share of active portfolio (excluding cash) held in this sector">
@@ -522,7 +526,7 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
       title: 'Position weight. Tooltip shows size vs ½-Kelly suggestion.',
       render: (stock, props) => {
         const kellyHint = getKellyHint(stock);
-        const weightPct = stock.weight != null ? (stock.weight <= 1 ? stock.weight * 100 : stock.weight) : null;
+        const weightPct = stock.weight != null ? stock.weight * 100 : null;
         const title = [weightPct != null ? `${weightPct.toFixed(1)}% of portfolio` : null, kellyHint].filter(Boolean).join(' · ');
         return (
           <span title={title || undefined}>
@@ -717,12 +721,9 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
     return `${formatNumber(num, decimals)}%`;
   };
 
-  // Backend may send sector weights as 0–1 (fraction) or 0–100 (percentage); normalize for display
-  const sectorDisplayPct = (pct: number | undefined): number | undefined => {
-    if (pct == null || Number.isNaN(pct)) return undefined;
-    if (pct > 0 && pct <= 1) return pct * 100;
-    return pct;
-  };
+  // Sector weights are 0–1 fractions; shown as percentages
+  const sectorDisplayPct = (weight: number | undefined): number | undefined =>
+    weight == null || Number.isNaN(weight) ? undefined : weight * 100;
 
   const groupBySector = Boolean(sectorWeights) || isWatchlist;
   const visibleColumnsForTable = groupBySector
@@ -818,6 +819,18 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
       return 0;
     });
 
+  // Export what the table shows: same row order (sector groups when grouped), visible columns in settings order.
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const rows = groupBySector && stocksBySector
+      ? sectorsOrdered.flatMap((sector) => sortStocks(stocksBySector.get(sector) || []))
+      : sortedStocks;
+    // Grouped tables carry the sector in the group header, so put it back as a column.
+    const columns = groupBySector ? [allColumns.find((c) => c.id === 'sector')!, ...visibleColumnsForTable] : visibleColumnsForTable;
+    const cells = buildExportRows(rows, columns, exportMode, { units, sectorWeights, isWatchlist });
+    const date = new Date().toISOString().slice(0, 10);
+    exportTable(cells, format, `${isWatchlist ? 'watchlist' : 'portfolio'}-${date}`);
+  };
+
   const renderTableHead = (cols: TableColumn[]) => (
     <tr>
       {cols[0]?.id === 'checkbox' && onSelectAll && (
@@ -898,14 +911,36 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
 
   return (
     <div className="stock-table">
-      <div className="mb-4">
+      <div className="mb-4 flex flex-wrap items-center gap-2">
         <input
           type="text"
           placeholder="Search by ticker, company, or sector..."
-          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          className="flex-1 min-w-[240px] px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
           value={filter}
           onChange={(e) => setFilter(e.target.value)}
         />
+        <select
+          value={exportMode}
+          onChange={(e) => setExportMode(e.target.value as ExportMode)}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          title="Export values as displayed or as raw numbers"
+        >
+          <option value="formatted">Formatted</option>
+          <option value="raw">Raw values</option>
+        </select>
+        {(['csv', 'xlsx'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={sortedStocks.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50"
+            title={`Export the current view (visible columns, sort and filter) as ${format.toUpperCase()}`}
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            {format.toUpperCase()}
+          </button>
+        ))}
       </div>
 
       <div className="overflow-x-auto rounded-lg border border-gray-700">
@@ -972,6 +1007,7 @@ export default function StockTable({ stocks, onDelete, onUpdate, onPriceUpdate,
         <EditTickerModal
           stock={editingTicker}
           allStocks={stocks}
+          portfolioId={portfolioId}
           onClose={() => setEditingTicker(null)}
           onSuccess={() => {
             setEditingTicker(null);
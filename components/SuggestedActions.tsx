@@ -11,7 +11,7 @@ interface SuggestedActionsProps {
   sectorTargets?: SectorTargetPct;
 }
 
-function actionLabel(a: SuggestedAction): string {
+export function actionLabel(a: SuggestedAction): string {
   switch (a.type) {
     case 'sector_over':
       return `Consider trimming: ${a.sector} (current ${a.currentPct.toFixed(1)}%, target ${a.targetMin}${a.targetMin !== a.targetMax ? `–${a.targetMax}` : ''}%).`;
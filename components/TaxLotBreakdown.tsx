@@ -0,0 +1,186 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import type { Operation } from '@/lib/api';
+import { BASE_CURRENCY } from '@/lib/fx';
+import { buildTaxLots, COST_METHODS, type CostMethod, type TickerLots } from '@/lib/taxLots';
+
+interface TaxLotBreakdownProps {
+  operations: Operation[];
+  /** Restrict to one ticker (stock detail page); otherwise every ticker is listed. */
+  ticker?: string;
+}
+
+const fmt = (n: number, decimals: number = 2) =>
+  new Intl.NumberFormat('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(n);
+
+const fmtQty = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(4));
+
+/** Base-currency amount, or a dash when the trade-date rate was not recorded. */
+const fmtBase = (n: number | null) => (n === null ? '—' : fmt(n));
+
+const pnlClass = (n: number) => (n > 0 ? 'text-emerald-400' : n < 0 ? 'text-red-400' : 'text-gray-300');
+
+function TickerLotTables({ lots }: { lots: TickerLots }) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-xs font-semibold text-gray-400 uppercase mb-2">Open lots</h4>
+        {lots.openLots.length === 0 ? (
+          <p className="text-xs text-gray-500">No open lots.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-1.5 pr-3">Opened</th>
+                <th className="py-1.5 pr-3 text-right">Shares</th>
+                <th className="py-1.5 pr-3 text-right">Cost price</th>
+                <th className="py-1.5 pr-3 text-right">Cost</th>
+                <th className="py-1.5 pr-3 text-right">Cost ({BASE_CURRENCY})</th>
+                <th className="py-1.5 pr-3 text-right">Held (days)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lots.openLots.map((l) => (
+                <tr key={l.buyOperationId} className="border-b border-gray-800 last:border-b-0">
+                  <td className="py-1.5 pr-3 text-gray-300">{l.openDate}</td>
+                  <td className="py-1.5 pr-3 text-right text-white">{fmtQty(l.quantity)}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-300">{fmt(l.price)}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-300">{fmt(l.cost)} {l.currency}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-400">{fmtBase(l.costBase)}</td>
+                  <td className="py-1.5 pr-3 text-right text-gray-400">{l.holdingDays}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-400 uppercase mb-2">Realized sales</h4>
+        {lots.sales.length === 0 ? (
+          <p className="text-xs text-gray-500">No sales yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700 text-left">
+                <th className="py-1.5 pr-3">Sold</th>
+                <th className="py-1.5 pr-3">Lot opened</th>
+                <th className="py-1.5 pr-3 text-right">Shares</th>
+                <th className="py-1.5 pr-3 text-right">Cost price</th>
+                <th className="py-1.5 pr-3 text-right">Sale price</th>
+                <th className="py-1.5 pr-3 text-right">Realized P&amp;L</th>
+                <th className="py-1.5 pr-3 text-right">P&amp;L ({BASE_CURRENCY})</th>
+                <th className="py-1.5 pr-3 text-right">Held (days)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lots.sales.map((sale) => (
+                <Fragment key={sale.sellOperationId}>
+                  {sale.lots.map((l, i) => (
+                    <tr key={`${sale.sellOperationId}-${l.buyOperationId}`} className="border-b border-gray-800">
+                      <td className="py-1.5 pr-3 text-gray-300">{i === 0 ? sale.date : ''}</td>
+                      <td className="py-1.5 pr-3 text-gray-400">{l.openDate}</td>
+                      <td className="py-1.5 pr-3 text-right text-white">{fmtQty(l.quantity)}</td>
+                      <td className="py-1.5 pr-3 text-right text-gray-300">{fmt(l.costPrice)}</td>
+                      <td className="py-1.5 pr-3 text-right text-gray-300">{fmt(l.salePrice)}</td>
+                      <td className={`py-1.5 pr-3 text-right ${pnlClass(l.realizedPnl)}`}>{fmt(l.realizedPnl)} {l.currency}</td>
+                      <td className={`py-1.5 pr-3 text-right ${l.realizedPnlBase === null ? 'text-gray-500' : pnlClass(l.realizedPnlBase)}`}>
+                        {fmtBase(l.realizedPnlBase)}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right text-gray-400">
+                        {l.holdingDays}
+                        {l.longTerm && <span className="ml-1 text-xs text-blue-300">LT</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  {sale.unmatchedQuantity > 0 && (
+                    <tr className="border-b border-gray-800">
+                      <td colSpan={8} className="py-1.5 pr-3 text-xs text-amber-400">
+                        {sale.date}: {fmtQty(sale.unmatchedQuantity)} shares sold without a matching Buy operation.
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TaxLotBreakdown({ operations, ticker }: TaxLotBreakdownProps) {
+  const [method, setMethod] = useState<CostMethod>('FIFO');
+  const allLots = useMemo(() => buildTaxLots(operations, method), [operations, method]);
+  const lots = ticker
+    ? allLots.filter((t) => t.ticker === ticker.trim().toUpperCase())
+    : allLots;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-bold text-white">Tax lots</h2>
+        <label className="text-xs text-gray-400">
+          Cost method
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CostMethod)}
+            className="ml-2 bg-gray-700 text-white text-xs rounded px-2 py-1 border border-gray-600"
+          >
+            {COST_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Rebuilt from Buy/Sell operations, splits and spin-offs in the trade currency; {BASE_CURRENCY} columns use the FX rate recorded on each operation. Lots held more than a year are marked LT (long-term).
+      </p>
+
+      {lots.length === 0 ? (
+        <p className="text-sm text-gray-500">No Buy/Sell operations recorded{ticker ? ` for ${ticker}` : ''}.</p>
+      ) : ticker ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+            <div>
+              <span className="text-gray-500 block">Open shares</span>
+              <span className="text-white font-semibold">{fmtQty(lots[0].sharesOpen)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">Average cost</span>
+              <span className="text-white font-semibold">{fmt(lots[0].avgCost)} {lots[0].currency}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">Open cost basis</span>
+              <span className="text-white font-semibold">{fmt(lots[0].costOpen)} {lots[0].currency}</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">Realized P&amp;L</span>
+              <span className={`font-semibold ${pnlClass(lots[0].realizedPnl)}`}>{fmt(lots[0].realizedPnl)} {lots[0].currency}</span>
+            </div>
+          </div>
+          <TickerLotTables lots={lots[0]} />
+        </>
+      ) : (
+        <div className="space-y-2">
+          {lots.map((t) => (
+            <details key={t.ticker} className="group rounded-lg border border-gray-700 bg-gray-900/40">
+              <summary className="cursor-pointer list-none px-4 py-3 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+                <span className="text-primary-400 font-medium w-24">{t.ticker}</span>
+                <span className="text-gray-400">Open: <span className="text-white">{fmtQty(t.sharesOpen)}</span> @ {fmt(t.avgCost)} {t.currency}</span>
+                <span className="text-gray-400">Lots: <span className="text-white">{t.openLots.length}</span></span>
+                <span className="text-gray-400">Realized: <span className={pnlClass(t.realizedPnl)}>{fmt(t.realizedPnl)} {t.currency}</span></span>
+                <span className="ml-auto text-xs text-gray-500 group-open:rotate-180 transition-transform duration-200">▼</span>
+              </summary>
+              <div className="px-4 pb-4">
+                <TickerLotTables lots={t} />
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { portfolioAPI, cashAPI, exchangeRateAPI, type Stock } from '@/lib/api';
+import { getCashTotalBase, toRateMap, type RateMap } from '@/lib/fx';
+import { simulateTrades, type HypotheticalTrade, type SkippedTrade } from '@/lib/tradeSandbox';
+import { useSectorTargetsContext } from '@/contexts/SectorTargetsContext';
+import { actionLabel } from '@/components/SuggestedActions';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TradeSandboxProps {
+  /** Stacked hypothetical trades. */
+  trades: HypotheticalTrade[];
+  /** Trade currently being entered in the form, previewed on top of the stack. */
+  draft: HypotheticalTrade | null;
+  onRemove: (index: number) => void;
+  portfolioId?: number;
+}
+
+const formatEur = (n: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(n);
+
+const statusClass = { over: 'text-red-300', under: 'text-amber-300', at: 'text-emerald-300', none: 'text-gray-300' };
+
+/** One line per skip reason, naming the trades it left out. */
+function skippedMessages(skipped: SkippedTrade[]): string[] {
+  const distinct = (reason: SkippedTrade['reason'], field: (t: HypotheticalTrade) => string) =>
+    Array.from(new Set(skipped.filter((s) => s.reason === reason).map((s) => field(s.trade))));
+  const noQuantity = distinct('no_quantity', (t) => t.ticker.trim().toUpperCase());
+  const currencies = distinct('no_rate', (t) => t.currency);
+  const messages: string[] = [];
+  if (skipped.some((s) => s.reason === 'no_ticker')) messages.push('A trade without a ticker is not included.');
+  if (noQuantity.length > 0) messages.push(`No shares entered for ${noQuantity.join(', ')}; not included.`);
+  if (currencies.length > 0) messages.push(`No exchange rate for ${currencies.join(', ')}; those trades are not included.`);
+  return messages;
+}
+
+export default function TradeSandbox({ trades, draft, onRemove, portfolioId }: TradeSandboxProps) {
+  const { targetPctBySector, cashTarget } = useSectorTargetsContext();
+  const [data, setData] = useState<{ stocks: Stock[]; totalValue: number; cashBase: number; rates: RateMap } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchData = async () => {
+      try {
+        const [summaryResponse, cashResponse, ratesResponse] = await Promise.all([
+          portfolioAPI.getSummary(portfolioId),
+          cashAPI.getAll(portfolioId),
+          exchangeRateAPI.getAll(),
+        ]);
+        if (cancelled) return;
+        setData({
+          stocks: summaryResponse.data.stocks || [],
+          totalValue: summaryResponse.data.summary?.total_value ?? 0,
+          cashBase: getCashTotalBase(cashResponse.data, ratesResponse.data),
+          rates: toRateMap(ratesResponse.data),
+        });
+      } catch (err) {
+        console.warn('Failed to load portfolio for trade sandbox:', err);
+        if (!cancelled) setError('Could not load the portfolio to preview the trade.');
+      }
+    };
+    fetchData();
+    return () => { cancelled = true; };
+  }, [portfolioId]);
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-500" />
+      </div>
+    );
+  }
+
+  const all = draft ? [...trades, draft] : trades;
+  const result = simulateTrades({ ...data, targets: targetPctBySector, cashTarget }, all);
+  const cashOutOfBand = result.cashPctAfter < cashTarget.min || result.cashPctAfter > cashTarget.max;
+  const changedSectors = result.sectors.filter((s) => Math.abs(s.afterPct - s.beforePct) >= 0.05);
+
+  return (
+    <div className="rounded-lg border border-indigo-700/60 bg-gray-900/40 p-4 space-y-3 text-sm">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-200">What-if preview</h3>
+        <p className="text-xs text-gray-500">Nothing is saved until you add the operations.</p>
+      </div>
+
+      {trades.length > 0 && (
+        <ul className="space-y-1">
+          {trades.map((t, i) => (
+            <li key={i} className="flex items-center justify-between text-xs text-gray-300 bg-gray-800 rounded px-2 py-1">
+              <span>
+                <span className={t.side === 'Buy' ? 'text-green-300' : 'text-red-300'}>{t.side}</span>{' '}
+                {t.quantity} {t.ticker.toUpperCase()} @ {t.price} {t.currency}
+              </span>
+              <button type="button" onClick={() => onRemove(i)} className="text-gray-500 hover:text-red-300" title="Remove from sandbox">
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {all.length === 0 ? (
+        <p className="text-xs text-gray-500">Enter a ticker, shares and price to preview the impact.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div>
+              <span className="text-gray-500 block">Cash</span>
+              <span className={cashOutOfBand ? 'text-amber-300' : 'text-white'}>
+                {formatEur(result.cashBefore)} → {formatEur(result.cashAfter)} ({result.cashPctAfter.toFixed(1)}%)
+              </span>
+              <span className="text-gray-500 ml-1">target {result.cashTarget.min}–{result.cashTarget.max}%</span>
+            </div>
+            <div>
+              <span className="text-gray-500 block">Largest position</span>
+              <span className="text-white">
+                {result.concentrationAfter.maxPositionTicker} {result.concentrationAfter.maxPositionPct.toFixed(1)}%
+              </span>
+              <span className="text-gray-500 ml-1">
+                top 3 {result.concentrationBefore.top3Pct.toFixed(1)}% → {result.concentrationAfter.top3Pct.toFixed(1)}%
+              </span>
+            </div>
+          </div>
+
+          {changedSectors.length > 0 && (
+            <ul className="text-xs space-y-0.5">
+              {changedSectors.map((s) => (
+                <li key={s.sector} className="text-gray-400">
+                  {s.sector}: {s.beforePct.toFixed(1)}% → <span className={statusClass[s.status]}>{s.afterPct.toFixed(1)}%</span>
+                  {s.targetMin !== null && <span className="text-gray-500"> (target {s.targetMin}–{s.targetMax}%)</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {(result.actionsAdded.length > 0 || result.actionsRemoved.length > 0) && (
+            <ul className="text-xs space-y-0.5">
+              {result.actionsRemoved.map((a, i) => (
+                <li key={`removed-${i}`} className="text-emerald-300">Resolved: {actionLabel(a)}</li>
+              ))}
+              {result.actionsAdded.map((a, i) => (
+                <li key={`added-${i}`} className="text-amber-300">New: {actionLabel(a)}</li>
+              ))}
+            </ul>
+          )}
+
+          {result.oversold.length > 0 && (
+            <p className="text-xs text-red-300">Selling more than held: {result.oversold.join(', ')}</p>
+          )}
+          {skippedMessages(result.skipped).map((message) => (
+            <p key={message} className="text-xs text-amber-300">{message}</p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+import { usePortfolios } from '@/hooks/usePortfolios';
+import type { Portfolio } from '@/lib/api';
+
+export type PortfolioContextValue = {
+  portfolios: Portfolio[];
+  activePortfolios: Portfolio[];
+  /** Selected portfolio for every API call; undefined means the backend's default portfolio. */
+  portfolioId: number | undefined;
+  selected: Portfolio | null;
+  isLoading: boolean;
+  select: (id: number) => void;
+  create: (name: string) => Promise<Portfolio>;
+  rename: (id: number, name: string) => Promise<void>;
+  setArchived: (id: number, archived: boolean) => Promise<void>;
+  load: () => Promise<void>;
+  ensureLoaded: () => void;
+};
+
+const PortfolioContext = createContext<PortfolioContextValue | null>(null);
+
+export function PortfolioProvider({ children }: { children: ReactNode }) {
+  const value = usePortfolios();
+  return (
+    <PortfolioContext.Provider value={value}>
+      {children}
+    </PortfolioContext.Provider>
+  );
+}
+
+export function usePortfolioContext(): PortfolioContextValue {
+  const ctx = useContext(PortfolioContext);
+  if (!ctx) {
+    throw new Error('usePortfolioContext must be used within PortfolioProvider');
+  }
+  return ctx;
+}
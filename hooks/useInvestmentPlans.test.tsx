@@ -0,0 +1,69 @@
+import { act, renderHook } from '@testing-library/react';
+import { useInvestmentPlans, PLANS_STORAGE_KEY, plansStorageKey } from './useInvestmentPlans';
+import type { InvestmentPlan } from '@/lib/investmentPlans';
+
+let mockPortfolioId: number | undefined;
+jest.mock('@/contexts/PortfolioContext', () => ({
+  usePortfolioContext: () => ({ portfolioId: mockPortfolioId }),
+}));
+
+const etf: InvestmentPlan = {
+  id: 'etf',
+  name: 'World ETF',
+  ticker: 'VWCE.DE',
+  amount: 500,
+  currency: 'EUR',
+  cadence: 'monthly',
+  startDate: '01.01.2024',
+  executions: {},
+};
+
+describe('investment plan storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockPortfolioId = undefined;
+  });
+
+  it('loads saved plans and ignores malformed entries', () => {
+    localStorage.setItem(PLANS_STORAGE_KEY, JSON.stringify([{ ...etf, executions: undefined }, { name: 'missing id' }]));
+
+    const { result } = renderHook(() => useInvestmentPlans());
+
+    expect(result.current.plans.map((p) => p.id)).toEqual(['etf']);
+    expect(result.current.plans[0].executions).toEqual({});
+  });
+
+  it('saves plans, records executions and deletes', () => {
+    const { result } = renderHook(() => useInvestmentPlans());
+
+    act(() => {
+      result.current.savePlan(etf);
+    });
+    act(() => {
+      result.current.setExecution('etf', '01.01.2024', 'done');
+    });
+    expect(JSON.parse(localStorage.getItem(PLANS_STORAGE_KEY)!)[0].executions).toEqual({ '01.01.2024': 'done' });
+
+    act(() => {
+      result.current.deletePlan('etf');
+    });
+    expect(result.current.plans).toEqual([]);
+    expect(localStorage.getItem(PLANS_STORAGE_KEY)).toBe('[]');
+  });
+
+  it('keeps plans per portfolio and reloads when the selection changes', () => {
+    localStorage.setItem(plansStorageKey(2), JSON.stringify([{ ...etf, id: 'family' }]));
+    mockPortfolioId = 1;
+    const { result, rerender } = renderHook(() => useInvestmentPlans());
+
+    act(() => {
+      result.current.savePlan(etf);
+    });
+    expect(JSON.parse(localStorage.getItem('investment-plans:1')!).map((p: InvestmentPlan) => p.id)).toEqual(['etf']);
+    expect(localStorage.getItem(PLANS_STORAGE_KEY)).toBeNull();
+
+    mockPortfolioId = 2;
+    rerender();
+    expect(result.current.plans.map((p) => p.id)).toEqual(['family']);
+  });
+});
@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import { withExecution, type ExecutionOutcome, type InvestmentPlan } from '@/lib/investmentPlans';
+
+export const PLANS_STORAGE_KEY = 'investment-plans';
+
+/** Plans belong to one portfolio; the backend's default portfolio keeps the unsuffixed key. */
+export const plansStorageKey = (portfolioId: number | undefined) =>
+  portfolioId ? `${PLANS_STORAGE_KEY}:${portfolioId}` : PLANS_STORAGE_KEY;
+
+function readPlans(key: string): InvestmentPlan[] {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((p): p is InvestmentPlan => p && typeof p.id === 'string' && typeof p.startDate === 'string' && typeof p.amount === 'number')
+          .map((p) => ({ ...p, ticker: p.ticker ?? '', executions: p.executions ?? {} }))
+      : [];
+  } catch (err) {
+    console.error('Failed to load investment plans from local storage:', err);
+    return [];
+  }
+}
+
+function writePlans(key: string, plans: InvestmentPlan[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(plans));
+  } catch (err) {
+    console.error('Failed to save investment plans to local storage:', err);
+  }
+}
+
+/** Recurring investment plans of the selected portfolio and their handled executions, persisted in local storage. */
+export function useInvestmentPlans() {
+  const { portfolioId } = usePortfolioContext();
+  const storageKey = plansStorageKey(portfolioId);
+  const [plans, setPlans] = useState<InvestmentPlan[]>([]);
+
+  // Loaded after mount so the first client render matches the server one.
+  useEffect(() => {
+    setPlans(readPlans(storageKey));
+  }, [storageKey]);
+
+  const update = useCallback((change: (prev: InvestmentPlan[]) => InvestmentPlan[]) => {
+    setPlans((prev) => {
+      const next = change(prev);
+      writePlans(storageKey, next);
+      return next;
+    });
+  }, [storageKey]);
+
+  /** Insert or replace by id. */
+  const savePlan = useCallback((plan: InvestmentPlan) => {
+    update((prev) => (prev.some((p) => p.id === plan.id) ? prev.map((p) => (p.id === plan.id ? plan : p)) : [...prev, plan]));
+  }, [update]);
+
+  const deletePlan = useCallback((id: string) => {
+    update((prev) => prev.filter((p) => p.id !== id));
+  }, [update]);
+
+  /** Mark one execution done or skipped; null reopens it. */
+  const setExecution = useCallback((planId: string, dueDate: string, outcome: ExecutionOutcome | null) => {
+    update((prev) => prev.map((p) => (p.id === planId ? withExecution(p, dueDate, outcome) : p)));
+  }, [update]);
+
+  return { plans, savePlan, deletePlan, setExecution };
+}
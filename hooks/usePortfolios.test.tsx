@@ -0,0 +1,84 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { usePortfolios, SELECTED_PORTFOLIO_STORAGE_KEY } from './usePortfolios';
+
+jest.mock('@/lib/api', () => ({
+  portfoliosAPI: {
+    list: jest.fn(),
+    create: jest.fn(),
+    rename: jest.fn(),
+    setArchived: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/auth', () => ({
+  isAuthenticated: jest.fn(),
+}));
+
+import { portfoliosAPI, type Portfolio } from '@/lib/api';
+import { isAuthenticated } from '@/lib/auth';
+
+const mockedPortfoliosAPI = portfoliosAPI as jest.Mocked<typeof portfoliosAPI>;
+const mockedIsAuthenticated = isAuthenticated as jest.MockedFunction<typeof isAuthenticated>;
+
+const personal: Portfolio = { id: 1, name: 'Personal', archived: false, created_at: '2024-01-01' };
+const family: Portfolio = { id: 2, name: 'Family', archived: false, created_at: '2024-02-01' };
+
+describe('usePortfolios', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    mockedIsAuthenticated.mockReturnValue(true);
+    mockedPortfoliosAPI.list.mockResolvedValue({ data: [personal, family] } as any);
+  });
+
+  it('restores the remembered portfolio and falls back to the first active one', async () => {
+    localStorage.setItem(SELECTED_PORTFOLIO_STORAGE_KEY, '2');
+    const { result } = renderHook(() => usePortfolios());
+    expect(result.current.portfolioId).toBe(2);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.selected?.name).toBe('Family');
+
+    localStorage.setItem(SELECTED_PORTFOLIO_STORAGE_KEY, '99');
+    const unknown = renderHook(() => usePortfolios());
+    await waitFor(() => expect(unknown.result.current.isLoading).toBe(false));
+    expect(unknown.result.current.portfolioId).toBe(1);
+  });
+
+  it('uses the default portfolio when none exist or the list fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedPortfoliosAPI.list.mockRejectedValue(new Error('Not found'));
+    const { result } = renderHook(() => usePortfolios());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.portfolioId).toBeUndefined();
+    expect(result.current.activePortfolios).toEqual([]);
+    warn.mockRestore();
+  });
+
+  it('selects new portfolios and moves off an archived selection', async () => {
+    const kids: Portfolio = { id: 3, name: 'Kids', archived: false, created_at: '2024-03-01' };
+    mockedPortfoliosAPI.create.mockResolvedValue({ data: kids } as any);
+    mockedPortfoliosAPI.setArchived.mockResolvedValue({ data: { ...kids, archived: true } } as any);
+    mockedPortfoliosAPI.rename.mockResolvedValue({ data: { ...personal, name: 'Mine' } } as any);
+
+    const { result } = renderHook(() => usePortfolios());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.create('  Kids ');
+    });
+    expect(mockedPortfoliosAPI.create).toHaveBeenCalledWith('Kids');
+    expect(result.current.portfolioId).toBe(3);
+    expect(localStorage.getItem(SELECTED_PORTFOLIO_STORAGE_KEY)).toBe('3');
+
+    await act(async () => {
+      await result.current.setArchived(3, true);
+    });
+    expect(result.current.portfolioId).toBe(1);
+    expect(result.current.activePortfolios.map((p) => p.id)).toEqual([1, 2]);
+
+    await act(async () => {
+      await result.current.rename(1, 'Mine');
+    });
+    expect(result.current.selected?.name).toBe('Mine');
+  });
+});
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { portfoliosAPI, type Portfolio } from '@/lib/api';
+import { isAuthenticated } from '@/lib/auth';
+
+export const SELECTED_PORTFOLIO_STORAGE_KEY = 'selected-portfolio';
+
+function readSelected(): number | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const id = Number(localStorage.getItem(SELECTED_PORTFOLIO_STORAGE_KEY));
+    return Number.isInteger(id) && id > 0 ? id : undefined;
+  } catch (err) {
+    console.error('Failed to load selected portfolio from local storage:', err);
+    return undefined;
+  }
+}
+
+function writeSelected(id: number | undefined) {
+  try {
+    if (id) localStorage.setItem(SELECTED_PORTFOLIO_STORAGE_KEY, String(id));
+    else localStorage.removeItem(SELECTED_PORTFOLIO_STORAGE_KEY);
+  } catch (err) {
+    console.error('Failed to save selected portfolio to local storage:', err);
+  }
+}
+
+/**
+ * The user's portfolios and the selected one, remembered in local storage.
+ * portfolioId is undefined (the backend's default portfolio) until portfolios exist; an archived
+ * or unknown selection falls back to the first active portfolio once the list has loaded.
+ */
+export function usePortfolios() {
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [selectedId, setSelectedId] = useState<number | undefined>(readSelected);
+  const [isLoading, setLoading] = useState(true);
+  const isMountedRef = useRef(true);
+  const requestedRef = useRef(false);
+
+  const load = useCallback(async () => {
+    if (!isAuthenticated()) {
+      setLoading(false);
+      return;
+    }
+    requestedRef.current = true;
+    setLoading(true);
+    try {
+      const res = await portfoliosAPI.list();
+      if (isMountedRef.current && Array.isArray(res.data)) setPortfolios(res.data);
+    } catch (err) {
+      console.warn('Failed to load portfolios, using the default portfolio', err);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  /** Load once per session; the provider mounts before login, so the dashboard calls this again. */
+  const ensureLoaded = useCallback(() => {
+    if (!requestedRef.current) load();
+  }, [load]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    load();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [load]);
+
+  const activePortfolios = portfolios.filter((p) => !p.archived);
+  const portfolioId = isLoading
+    ? selectedId
+    : activePortfolios.some((p) => p.id === selectedId)
+      ? selectedId
+      : activePortfolios[0]?.id;
+  const selected = portfolios.find((p) => p.id === portfolioId) ?? null;
+
+  const select = useCallback((id: number) => {
+    setSelectedId(id);
+    writeSelected(id);
+  }, []);
+
+  /** Create a portfolio and switch to it. */
+  const create = useCallback(async (name: string) => {
+    const res = await portfoliosAPI.create(name.trim());
+    setPortfolios((prev) => [...prev, res.data]);
+    select(res.data.id);
+    return res.data;
+  }, [select]);
+
+  const rename = useCallback(async (id: number, name: string) => {
+    const res = await portfoliosAPI.rename(id, name.trim());
+    setPortfolios((prev) => prev.map((p) => (p.id === id ? res.data : p)));
+  }, []);
+
+  /** Archive (or restore) a portfolio; archiving the selected one switches to the next active one. */
+  const setArchived = useCallback(async (id: number, archived: boolean) => {
+    const res = await portfoliosAPI.setArchived(id, archived);
+    setPortfolios((prev) => prev.map((p) => (p.id === id ? res.data : p)));
+  }, []);
+
+  return { portfolios, activePortfolios, portfolioId, selected, isLoading, select, create, rename, setArchived, load, ensureLoaded };
+}
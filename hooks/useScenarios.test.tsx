@@ -0,0 +1,60 @@
+import { act, renderHook } from '@testing-library/react';
+import { useScenarios, SCENARIOS_STORAGE_KEY, scenariosStorageKey } from './useScenarios';
+
+let mockPortfolioId: number | undefined;
+jest.mock('@/contexts/PortfolioContext', () => ({
+  usePortfolioContext: () => ({ portfolioId: mockPortfolioId }),
+}));
+
+describe('scenario storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockPortfolioId = undefined;
+  });
+
+  it('loads saved scenarios and ignores malformed entries', () => {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify([
+      { id: 'a', name: 'Tech crash', shocks: [{ kind: 'sector', sector: 'Technology', pct: -30 }] },
+      { name: 'missing id' },
+    ]));
+
+    const { result } = renderHook(() => useScenarios());
+
+    expect(result.current.scenarios.map((s) => s.id)).toEqual(['a']);
+  });
+
+  it('saves, replaces and deletes scenarios', () => {
+    const { result } = renderHook(() => useScenarios());
+
+    act(() => {
+      result.current.saveScenario({ id: 'q1', name: 'Q1 review', shocks: [{ kind: 'market', pct: -20 }] });
+    });
+    act(() => {
+      result.current.saveScenario({ id: 'q1', name: 'Q1 review v2', shocks: [{ kind: 'market', pct: -15 }] });
+    });
+    expect(result.current.scenarios).toHaveLength(1);
+    expect(JSON.parse(localStorage.getItem(SCENARIOS_STORAGE_KEY)!)[0].name).toBe('Q1 review v2');
+
+    act(() => {
+      result.current.deleteScenario('q1');
+    });
+    expect(result.current.scenarios).toEqual([]);
+    expect(localStorage.getItem(SCENARIOS_STORAGE_KEY)).toBe('[]');
+  });
+
+  it('keeps scenarios per portfolio and reloads when the selection changes', () => {
+    localStorage.setItem(scenariosStorageKey(2), JSON.stringify([{ id: 'family', name: 'Rates up', shocks: [] }]));
+    mockPortfolioId = 1;
+    const { result, rerender } = renderHook(() => useScenarios());
+
+    act(() => {
+      result.current.saveScenario({ id: 'q1', name: 'Q1 review', shocks: [{ kind: 'market', pct: -20 }] });
+    });
+    expect(JSON.parse(localStorage.getItem('stress-scenarios:1')!)[0].id).toBe('q1');
+    expect(localStorage.getItem(SCENARIOS_STORAGE_KEY)).toBeNull();
+
+    mockPortfolioId = 2;
+    rerender();
+    expect(result.current.scenarios.map((s) => s.id)).toEqual(['family']);
+  });
+});
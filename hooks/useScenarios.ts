@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePortfolioContext } from '@/contexts/PortfolioContext';
+import type { Scenario } from '@/lib/scenarios';
+
+export const SCENARIOS_STORAGE_KEY = 'stress-scenarios';
+
+/** Scenarios belong to one portfolio; the backend's default portfolio keeps the unsuffixed key. */
+export const scenariosStorageKey = (portfolioId: number | undefined) =>
+  portfolioId ? `${SCENARIOS_STORAGE_KEY}:${portfolioId}` : SCENARIOS_STORAGE_KEY;
+
+function readScenarios(key: string): Scenario[] {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed.filter((s): s is Scenario => s && typeof s.id === 'string' && typeof s.name === 'string' && Array.isArray(s.shocks))
+      : [];
+  } catch (err) {
+    console.error('Failed to load scenarios from local storage:', err);
+    return [];
+  }
+}
+
+function writeScenarios(key: string, scenarios: Scenario[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(scenarios));
+  } catch (err) {
+    console.error('Failed to save scenarios to local storage:', err);
+  }
+}
+
+/** Named stress scenarios of the selected portfolio, persisted in local storage so they can be rerun after each review. */
+export function useScenarios() {
+  const { portfolioId } = usePortfolioContext();
+  const storageKey = scenariosStorageKey(portfolioId);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  // Loaded after mount so the first client render matches the server one.
+  useEffect(() => {
+    setScenarios(readScenarios(storageKey));
+  }, [storageKey]);
+
+  /** Insert or replace by id. */
+  const saveScenario = useCallback((scenario: Scenario) => {
+    setScenarios((prev) => {
+      const exists = prev.some((s) => s.id === scenario.id);
+      const next = exists ? prev.map((s) => (s.id === scenario.id ? scenario : s)) : [...prev, scenario];
+      writeScenarios(storageKey, next);
+      return next;
+    });
+  }, [storageKey]);
+
+  const deleteScenario = useCallback((id: string) => {
+    setScenarios((prev) => {
+      const next = prev.filter((s) => s.id !== id);
+      writeScenarios(storageKey, next);
+      return next;
+    });
+  }, [storageKey]);
+
+  return { scenarios, saveScenario, deleteScenario };
+}
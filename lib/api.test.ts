@@ -34,8 +34,16 @@ function loadApiModule() {
 }
 
 describe('api subsystem', () => {
+  let warn: jest.SpyInstance;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    // Bare mock bodies drift from the response contract; the schema tests cover the warnings.
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
   });
 
   it('serializes selected ids for getBatch endpoint', async () => {
@@ -61,6 +69,23 @@ describe('api subsystem', () => {
     expect(mockApiInstance.get).toHaveBeenCalledTimes(1);
   });
 
+  it('validates and normalizes responses at the boundary', async () => {
+    mockApiInstance.get.mockResolvedValue({
+      data: {
+        summary: { total_value: '1000', sector_weights: { Technology: 75, Energy: 25 } },
+        stocks: [{ id: 1, ticker: 'MSFT', weight: 75 }, { id: 2, ticker: 'XOM', weight: 25 }],
+      },
+    });
+    const { portfolioAPI } = loadApiModule();
+
+    const { data } = await portfolioAPI.getSummary();
+
+    expect(data.summary.total_value).toBe(1000);
+    expect(data.summary.sector_weights).toEqual({ Technology: 0.75, Energy: 0.25 });
+    expect(data.stocks.map((s: { weight: number }) => s.weight)).toEqual([0.75, 0.25]);
+    expect(warn).toHaveBeenCalledWith('API contract drift', expect.objectContaining({ endpoint: 'GET /portfolio/summary', issue: 'scale' }));
+  });
+
   it('invalidates cached portfolio summary when requested', async () => {
     mockApiInstance.get.mockResolvedValue({
       data: { summary: {}, stocks: [] },
@@ -107,4 +132,45 @@ describe('api subsystem', () => {
     await operationsAPI.list(3);
     expect(mockApiInstance.get).toHaveBeenCalledWith('/operations', { params: { portfolio_id: 3 } });
   });
+
+  it('caches portfolio summaries per portfolio', async () => {
+    mockApiInstance.get.mockResolvedValue({
+      data: { summary: {}, stocks: [] },
+    });
+    const { portfolioAPI } = loadApiModule();
+
+    await portfolioAPI.getSummary(1);
+    await portfolioAPI.getSummary(2);
+    await portfolioAPI.getSummary(1);
+
+    expect(mockApiInstance.get).toHaveBeenCalledTimes(2);
+    expect(mockApiInstance.get).toHaveBeenLastCalledWith('/portfolio/summary', { params: { portfolio_id: 2 } });
+  });
+
+  it('scopes stock and cash writes to the given portfolio', async () => {
+    mockApiInstance.patch.mockResolvedValue({ data: {} });
+    mockApiInstance.post.mockResolvedValue({ data: {} });
+    const { stockAPI, cashAPI } = loadApiModule();
+
+    await stockAPI.updatePrice(7, 12.5, 2);
+    expect(mockApiInstance.patch).toHaveBeenCalledWith('/stocks/7/price', { current_price: 12.5 }, { params: { portfolio_id: 2 } });
+
+    await cashAPI.create({ currency_code: 'EUR', amount: 100 }, 2);
+    expect(mockApiInstance.post).toHaveBeenCalledWith('/cash', { currency_code: 'EUR', amount: 100 }, { params: { portfolio_id: 2 } });
+  });
+
+  it('portfoliosAPI creates, renames and archives portfolios', async () => {
+    mockApiInstance.post.mockResolvedValue({ data: {} });
+    mockApiInstance.put.mockResolvedValue({ data: {} });
+    const { portfoliosAPI } = loadApiModule();
+
+    await portfoliosAPI.create('Family');
+    expect(mockApiInstance.post).toHaveBeenCalledWith('/portfolios', { name: 'Family' });
+
+    await portfoliosAPI.rename(2, 'Household');
+    expect(mockApiInstance.put).toHaveBeenCalledWith('/portfolios/2', { name: 'Household' });
+
+    await portfoliosAPI.setArchived(2, true);
+    expect(mockApiInstance.put).toHaveBeenLastCalledWith('/portfolios/2', { archived: true });
+  });
 });
@@ -1,5 +1,34 @@
-import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import Cookies from 'js-cookie';
+import {
+  alertListSchema,
+  apiStatusSchema,
+  assessmentCompareSchema,
+  assessmentListSchema,
+  assessmentResponseSchema,
+  assessmentTextSchema,
+  cashHoldingListSchema,
+  cashHoldingSchema,
+  columnSettingsSchema,
+  exchangeRateListSchema,
+  extractedStockSchema,
+  fairValueHistorySchema,
+  operationListSchema,
+  operationSchema,
+  parseResponse,
+  portfolioListSchema,
+  portfolioSchema,
+  portfolioSettingsSchema,
+  portfolioSummarySchema,
+  sectorTargetsSchema,
+  stockHistorySchema,
+  stockListSchema,
+  stockSchema,
+  stockSubsetSchema,
+  topLosersSchema,
+  topMoversSchema,
+  type Schema,
+} from '@/lib/apiSchema';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api';
 
@@ -149,6 +178,14 @@ api.interceptors.response.use(
   }
 );
 
+// Validate and normalize a response body against its schema (see lib/apiSchema).
+function parsed<T>(schema: Schema<T>, endpoint: string) {
+  return (response: AxiosResponse): AxiosResponse<T> => ({
+    ...response,
+    data: parseResponse(schema, endpoint, response.data),
+  });
+}
+
 export interface Stock {
   id: number;
   portfolio_id?: number;
@@ -175,6 +212,7 @@ export interface Stock {
   shares_owned: number;
   avg_price_local: number;
   current_value_usd: number;
+  /** Share of the portfolio's equity, 0–1 (normalized at the API boundary). */
   weight: number;
   unrealized_pnl: number;
   buy_zone_min: number;
@@ -201,6 +239,7 @@ export interface PortfolioMetrics {
   weighted_volatility: number;
   sharpe_ratio: number;
   kelly_utilization: number;
+  /** Equity share per sector, 0–1 (normalized at the API boundary). */
   sector_weights: { [key: string]: number };
   /** Lifetime realized PnL from closed trades (FIFO), in base currency (EUR). */
   realized_pnl?: number;
@@ -276,18 +315,23 @@ export const authAPI = {
 
 // Stock API
 export const stockAPI = {
-  getAll: (portfolioId?: number) => api.get<Stock[]>('/stocks', { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+  getAll: (portfolioId?: number) =>
+    api.get('/stocks', { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(stockListSchema, 'GET /stocks')),
   getBatch: (ids: number[], portfolioId?: number) =>
-    api.get<Stock[]>('/stocks/batch', {
-      params: {
-        ids: ids.join(','),
-        ...(portfolioId ? { portfolio_id: portfolioId } : {}),
-      },
-    }),
-  getById: (id: number, portfolioId?: number) => api.get<Stock>(`/stocks/${id}`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
-  create: (data: Partial<Stock>) => api.post<Stock>('/stocks', data),
-  update: (id: number, data: Partial<Stock>) =>
-    api.put<Stock>(`/stocks/${id}`, data),
+    api
+      .get('/stocks/batch', {
+        params: {
+          ids: ids.join(','),
+          ...(portfolioId ? { portfolio_id: portfolioId } : {}),
+        },
+      })
+      .then(parsed(stockSubsetSchema, 'GET /stocks/batch')),
+  getById: (id: number, portfolioId?: number) =>
+    api.get(`/stocks/${id}`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(stockSchema, 'GET /stocks/:id')),
+  create: (data: Partial<Stock>, portfolioId?: number) =>
+    api.post('/stocks', data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(stockSchema, 'POST /stocks')),
+  update: (id: number, data: Partial<Stock>, portfolioId?: number) =>
+    api.put(`/stocks/${id}`, data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(stockSchema, 'PUT /stocks/:id')),
   delete: (id: number, reason?: string, portfolioId?: number) =>
     api.delete(`/stocks/${id}`, { params: { reason, ...(portfolioId ? { portfolio_id: portfolioId } : {}) } }),
   updateAll: (portfolioId?: number) => api.post('/stocks/update-all', {}, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
@@ -295,37 +339,52 @@ export const stockAPI = {
   updateSingle: (id: number, source?: 'grok' | 'alphavantage', portfolioId?: number) =>
     api.post(`/stocks/${id}/update`, {}, { params: { ...(source ? { source } : {}), ...(portfolioId ? { portfolio_id: portfolioId } : {}) } }),
   latestPrice: (id: number, portfolioId?: number) =>
-    api.post<Stock>(
-      `/stocks/${id}/latest-price`,
-      {},
-      { params: portfolioId ? { portfolio_id: portfolioId } : {}, timeout: PRICE_REFRESH_TIMEOUT }
-    ),
+    api
+      .post(
+        `/stocks/${id}/latest-price`,
+        {},
+        { params: portfolioId ? { portfolio_id: portfolioId } : {}, timeout: PRICE_REFRESH_TIMEOUT }
+      )
+      .then(parsed(stockSchema, 'POST /stocks/:id/latest-price')),
   bulkLatestPrice: (ids: number[], portfolioId?: number) =>
     api.post(
       '/stocks/bulk-latest-price',
       { ids },
       { params: portfolioId ? { portfolio_id: portfolioId } : {}, timeout: PRICE_REFRESH_TIMEOUT }
     ),
-  updatePrice: (id: number, newPrice: number) => api.patch(`/stocks/${id}/price`, { current_price: newPrice }),
-  updateField: (id: number, field: string, value: number | string) => {
-    const payload: any = { field };
+  updatePrice: (id: number, newPrice: number, portfolioId?: number) =>
+    api.patch(`/stocks/${id}/price`, { current_price: newPrice }, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+  updateField: (id: number, field: string, value: number | string, portfolioId?: number) => {
+    const payload: { field: string; value: number | string; string_value?: string } = { field, value };
     if (typeof value === 'string') {
       payload.string_value = value;
-      payload.value = value;
-    } else {
-      payload.value = value;
     }
-    return api.patch(`/stocks/${id}/field`, payload);
+    return api.patch(`/stocks/${id}/field`, payload, { params: portfolioId ? { portfolio_id: portfolioId } : {} });
   },
-  getHistory: (id: number, portfolioId?: number) => api.get<StockHistory[]>(`/stocks/${id}/history`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+  getHistory: (id: number, portfolioId?: number) =>
+    api
+      .get(`/stocks/${id}/history`, { params: portfolioId ? { portfolio_id: portfolioId } : {} })
+      .then(parsed(stockHistorySchema, 'GET /stocks/:id/history')),
   getFairValueHistory: (id: number, portfolioId?: number) =>
-    api.get<FairValueHistoryEntry[]>(`/stocks/${id}/fair-value-history`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+    api
+      .get(`/stocks/${id}/fair-value-history`, { params: portfolioId ? { portfolio_id: portfolioId } : {} })
+      .then(parsed(fairValueHistorySchema, 'GET /stocks/:id/fair-value-history')),
   collectFairValues: (ids: number[], portfolioId?: number, signal?: AbortSignal) =>
     api.post('/stocks/fair-value/collect', { ids }, { params: portfolioId ? { portfolio_id: portfolioId } : {}, signal }),
   exportJSON: (portfolioId?: number) => api.get('/export/json', { responseType: 'blob', params: portfolioId ? { portfolio_id: portfolioId } : {} }),
 };
 
-export type OperationType = 'Buy' | 'Sell' | 'Deposit' | 'Withdraw' | 'Dividend';
+export type OperationType =
+  | 'Buy'
+  | 'Sell'
+  | 'Deposit'
+  | 'Withdraw'
+  | 'Dividend'
+  | 'Fee'
+  | 'Withholding Tax'
+  | 'Split'
+  | 'Reverse Split'
+  | 'Spin-off';
 
 export interface Operation {
   id: number;
@@ -342,6 +401,12 @@ export interface Operation {
   amount: number;
   note: string;
   trade_date: string;
+  /** Spin-off: ticker of the new company; quantity holds the shares received. */
+  spinoff_ticker?: string;
+  /** Spin-off: percentage of the parent's cost basis moved to the new position. */
+  cost_basis_pct?: number;
+  /** Units of currency per 1 base currency on the trade date (same convention as ExchangeRate.rate). */
+  fx_rate?: number;
   created_at: string;
   updated_at: string;
 }
@@ -359,19 +424,58 @@ export interface CreateOperationRequest {
   note?: string;
   trade_date: string;
   stock_id?: number;
+  spinoff_ticker?: string;
+  cost_basis_pct?: number;
+  fx_rate?: number;
 }
 
 export const operationsAPI = {
   create: (data: CreateOperationRequest, portfolioId?: number) =>
-    api.post<Operation>('/operations', data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+    api.post('/operations', data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(operationSchema, 'POST /operations')),
   list: (portfolioId?: number) =>
-    api.get<Operation[]>('/operations', { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+    api.get('/operations', { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(operationListSchema, 'GET /operations')),
   delete: (id: number, portfolioId?: number) =>
     api.delete(`/operations/${id}`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
   update: (id: number, data: CreateOperationRequest, portfolioId?: number) =>
-    api.put<Operation>(`/operations/${id}`, data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+    api
+      .put(`/operations/${id}`, data, { params: portfolioId ? { portfolio_id: portfolioId } : {} })
+      .then(parsed(operationSchema, 'PUT /operations/:id')),
+};
+
+export interface Portfolio {
+  id: number;
+  name: string;
+  /** Archived portfolios keep their data but are hidden from the switcher. */
+  archived: boolean;
+  created_at: string;
+}
+
+// Portfolios (books) of the current user
+export const portfoliosAPI = {
+  list: () => api.get('/portfolios').then(parsed(portfolioListSchema, 'GET /portfolios')),
+  create: (name: string) => api.post('/portfolios', { name }).then(parsed(portfolioSchema, 'POST /portfolios')),
+  rename: (id: number, name: string) => api.put(`/portfolios/${id}`, { name }).then(parsed(portfolioSchema, 'PUT /portfolios/:id')),
+  setArchived: (id: number, archived: boolean) =>
+    api.put(`/portfolios/${id}`, { archived }).then(parsed(portfolioSchema, 'PUT /portfolios/:id')),
 };
 
+export interface PortfolioSettings {
+  update_frequency: string;
+  alerts_enabled: boolean;
+  alert_threshold_ev: number;
+}
+
+export interface APIServiceStatus {
+  /** e.g. "configured", "not_configured" or "error". */
+  status: string;
+  message?: string;
+}
+
+export interface APIStatus {
+  alpha_vantage?: APIServiceStatus;
+  grok?: APIServiceStatus;
+}
+
 // Portfolio API with caching
 export const portfolioAPI = {
   getSummary: async (portfolioId?: number, options?: { forceRefresh?: boolean }) => {
@@ -389,26 +493,26 @@ export const portfolioAPI = {
       }
     }
 
-    const response = await api.get<PortfolioSummaryResponse>(
-      '/portfolio/summary',
-      { params: portfolioId ? { portfolio_id: portfolioId } : {} }
-    );
+    const response = await api
+      .get('/portfolio/summary', { params: portfolioId ? { portfolio_id: portfolioId } : {} })
+      .then(parsed(portfolioSummarySchema, 'GET /portfolio/summary'));
     cache.set(cacheKey, response.data);
     return response;
   },
-  getSettings: () => api.get('/portfolio/settings'),
-  updateSettings: (data: any) => api.put('/portfolio/settings', data),
-  getAlerts: (portfolioId?: number) => api.get<Alert[]>('/alerts', { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
+  getSettings: () => api.get('/portfolio/settings').then(parsed(portfolioSettingsSchema, 'GET /portfolio/settings')),
+  updateSettings: (data: Partial<PortfolioSettings>) => api.put('/portfolio/settings', data),
+  getAlerts: (portfolioId?: number) =>
+    api.get('/alerts', { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(alertListSchema, 'GET /alerts')),
   deleteAlert: (id: number, portfolioId?: number) => api.delete(`/alerts/${id}`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
   getAPIStatus: async () => {
     const cacheKey = 'api:status';
-    const cached = cache.get<any>(cacheKey, 60000); // 60 seconds for API status
+    const cached = cache.get<APIStatus>(cacheKey, 60000); // 60 seconds for API status
 
     if (cached) {
       return { data: cached };
     }
 
-    const response = await api.get('/api-status');
+    const response = await api.get('/api-status').then(parsed(apiStatusSchema, 'GET /api-status'));
     cache.set(cacheKey, response.data);
     return response;
   },
@@ -452,7 +556,7 @@ export interface CashHolding {
 }
 
 export const exchangeRateAPI = {
-  getAll: () => api.get<ExchangeRate[]>('/exchange-rates'),
+  getAll: () => api.get('/exchange-rates').then(parsed(exchangeRateListSchema, 'GET /exchange-rates')),
   refresh: () => api.post('/exchange-rates/refresh'),
   add: (data: { currency_code: string; rate: number; is_manual: boolean }) => 
     api.post('/exchange-rates', data),
@@ -463,12 +567,13 @@ export const exchangeRateAPI = {
 
 // Cash Holdings API
 export const cashAPI = {
-  getAll: (portfolioId?: number) => api.get<CashHolding[]>('/cash', { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
-  create: (data: { currency_code: string; amount: number; description?: string }) => 
-    api.post<CashHolding>('/cash', data),
-  update: (id: number, data: { amount: number; description?: string }) => 
-    api.put<CashHolding>(`/cash/${id}`, data),
-  delete: (id: number) => api.delete(`/cash/${id}`),
+  getAll: (portfolioId?: number) =>
+    api.get('/cash', { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(cashHoldingListSchema, 'GET /cash')),
+  create: (data: { currency_code: string; amount: number; description?: string }, portfolioId?: number) =>
+    api.post('/cash', data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(cashHoldingSchema, 'POST /cash')),
+  update: (id: number, data: { amount: number; description?: string }, portfolioId?: number) =>
+    api.put(`/cash/${id}`, data, { params: portfolioId ? { portfolio_id: portfolioId } : {} }).then(parsed(cashHoldingSchema, 'PUT /cash/:id')),
+  delete: (id: number, portfolioId?: number) => api.delete(`/cash/${id}`, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
   refreshUSD: (portfolioId?: number) => api.post('/cash/refresh', {}, { params: portfolioId ? { portfolio_id: portfolioId } : {} }),
 };
 
@@ -511,34 +616,45 @@ export interface AssessmentCompareResponse {
 }
 
 export const assessmentAPI = {
-  request: (data: AssessmentRequest) => 
-    api.post<{ assessment: string }>('/assessment/request', data, { timeout: ASSESSMENT_TIMEOUT }),
+  request: (data: AssessmentRequest) =>
+    api
+      .post('/assessment/request', data, { timeout: ASSESSMENT_TIMEOUT })
+      .then(parsed(assessmentTextSchema, 'POST /assessment/request')),
+  /** Stock fields read from screenshots; only what the model found is present. */
   extractFromImages: (images: string[], source?: 'grok' | 'deepseek') =>
-    api.post<any>('/assessment/extract-from-images', { images, source }, { timeout: ASSESSMENT_TIMEOUT }),
-  getRecent: () => 
-    api.get<AssessmentResponse[]>('/assessment/recent'),
+    api
+      .post('/assessment/extract-from-images', { images, source }, { timeout: ASSESSMENT_TIMEOUT })
+      .then(parsed(extractedStockSchema, 'POST /assessment/extract-from-images')),
+  getRecent: () =>
+    api.get('/assessment/recent').then(parsed(assessmentListSchema, 'GET /assessment/recent')),
   getByTicker: (ticker: string, source?: 'grok' | 'deepseek' | 'perplexity' | 'chatgpt', limit: number = 20) =>
-    api.get<AssessmentResponse[]>(`/assessment/ticker/${encodeURIComponent(ticker)}`, {
-      params: {
-        ...(source ? { source } : {}),
-        limit,
-      },
-    }),
+    api
+      .get(`/assessment/ticker/${encodeURIComponent(ticker)}`, {
+        params: {
+          ...(source ? { source } : {}),
+          limit,
+        },
+      })
+      .then(parsed(assessmentListSchema, 'GET /assessment/ticker/:ticker')),
   getDiffByTicker: (ticker: string) =>
-    api.get<AssessmentCompareResponse>(`/assessment/ticker/${encodeURIComponent(ticker)}/diff`),
+    api
+      .get(`/assessment/ticker/${encodeURIComponent(ticker)}/diff`)
+      .then(parsed(assessmentCompareSchema, 'GET /assessment/ticker/:ticker/diff')),
   compare: (data: { ticker: string; grok_assessment: string; deepseek_assessment: string; perplexity_assessment?: string; chatgpt_assessment?: string }) =>
-    api.post<AssessmentCompareResponse>('/assessment/compare', data, { timeout: ASSESSMENT_TIMEOUT }),
-  getById: (id: number) => 
-    api.get<AssessmentResponse>(`/assessment/${id}`),
+    api
+      .post('/assessment/compare', data, { timeout: ASSESSMENT_TIMEOUT })
+      .then(parsed(assessmentCompareSchema, 'POST /assessment/compare')),
+  getById: (id: number) =>
+    api.get(`/assessment/${id}`).then(parsed(assessmentResponseSchema, 'GET /assessment/:id')),
 };
 
 // User Settings API
 export const settingsAPI = {
-  getColumnSettings: () => api.get<{ settings: string }>('/settings/columns'),
+  getColumnSettings: () => api.get('/settings/columns').then(parsed(columnSettingsSchema, 'GET /settings/columns')),
   saveColumnSettings: (settings: string) =>
     api.post('/settings/columns', { settings }),
   getSectorTargets: () =>
-    api.get<{ rows: SectorTargetRow[] | null }>('/settings/sector-targets'),
+    api.get('/settings/sector-targets').then(parsed(sectorTargetsSchema, 'GET /settings/sector-targets')),
   saveSectorTargets: (payload: { rows: SectorTargetRow[] }) =>
     api.post('/settings/sector-targets', payload),
 };
@@ -603,13 +719,17 @@ export interface TopMoversResponse {
 
 export const analyticsAPI = {
   getTopLosers: (limit: number = 10, minShares: number = 1, portfolioId?: number) =>
-    api.get<TopLosersResponse>('/analytics/top-losers', {
-      params: { limit, min_shares: minShares, ...(portfolioId ? { portfolio_id: portfolioId } : {}) },
-    }),
+    api
+      .get('/analytics/top-losers', {
+        params: { limit, min_shares: minShares, ...(portfolioId ? { portfolio_id: portfolioId } : {}) },
+      })
+      .then(parsed(topLosersSchema, 'GET /analytics/top-losers')),
   getTopMovers: (timeframe: '24h' | '7d' | '30d' = '24h', limit: number = 5, portfolioId?: number) =>
-    api.get<TopMoversResponse>('/analytics/top-movers', {
-      params: { timeframe, limit, ...(portfolioId ? { portfolio_id: portfolioId } : {}) },
-    }),
+    api
+      .get('/analytics/top-movers', {
+        params: { timeframe, limit, ...(portfolioId ? { portfolio_id: portfolioId } : {}) },
+      })
+      .then(parsed(topMoversSchema, 'GET /analytics/top-movers')),
 };
 
 export default api;
@@ -0,0 +1,100 @@
+import {
+  onContractDrift,
+  operationListSchema,
+  parseResponse,
+  portfolioSummarySchema,
+  stockHistorySchema,
+  stockListSchema,
+  stockSchema,
+  type ContractWarning,
+} from './apiSchema';
+
+describe('apiSchema', () => {
+  let warnings: ContractWarning[];
+  let unsubscribe: () => void;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warnings = [];
+    unsubscribe = onContractDrift((w) => warnings.push(w));
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    warn.mockRestore();
+  });
+
+  it('normalizes percentage weights in a summary to fractions and reports the drift', () => {
+    const summary = parseResponse(portfolioSummarySchema, 'GET /summary (percent)', {
+      summary: { total_value: 1000, overall_ev: 5, weighted_volatility: 20, sharpe_ratio: 1, kelly_utilization: 0.5, sector_weights: { Technology: 60, Energy: 40 } },
+      stocks: [
+        { id: 1, ticker: 'MSFT', weight: 60, shares_owned: 5 },
+        { id: 2, ticker: 'XOM', weight: 40, shares_owned: 3 },
+      ],
+    });
+    expect(summary.summary.sector_weights).toEqual({ Technology: 0.6, Energy: 0.4 });
+    expect(summary.stocks.map((s) => s.weight)).toEqual([0.6, 0.4]);
+    expect(warnings.filter((w) => w.issue === 'scale').map((w) => w.path)).toEqual(['summary.sector_weights{}', 'stocks[].weight']);
+  });
+
+  it('keeps fraction weights, including a lone position at 1 and a weight series over time', () => {
+    const summary = parseResponse(portfolioSummarySchema, 'GET /summary (fraction)', {
+      summary: { total_value: 1000, overall_ev: 5, weighted_volatility: 20, sharpe_ratio: 1, kelly_utilization: 0.5, sector_weights: { Technology: 1 } },
+      stocks: [{ id: 1, ticker: 'MSFT', weight: 1, shares_owned: 5 }],
+    });
+    expect(summary.summary.sector_weights.Technology).toBe(1);
+    expect(summary.stocks[0].weight).toBe(1);
+
+    const history = parseResponse(stockHistorySchema, 'GET /history', [0.4, 0.5, 0.6, 0.7].map((weight, id) => ({ id, weight })));
+    expect(history.map((h) => h.weight)).toEqual([0.4, 0.5, 0.6, 0.7]);
+    expect(warnings.some((w) => w.issue === 'scale')).toBe(false);
+  });
+
+  it('normalizes a percentage probability_positive to a fraction', () => {
+    const stocks = parseResponse(stockListSchema, 'GET /stocks (probability)', [
+      { id: 1, ticker: 'MSFT', probability_positive: 65, weight: 0.5 },
+      { id: 2, ticker: 'XOM', probability_positive: 0.7, weight: 0.5 },
+    ]);
+    expect(stocks.map((s) => s.probability_positive)).toEqual([0.65, 0.7]);
+    expect(warnings.filter((w) => w.issue === 'scale').map((w) => w.path)).toEqual(['[].probability_positive']);
+  });
+
+  it('coerces numeric strings, defaults missing fields and passes unknown fields through', () => {
+    const stock = parseResponse(stockSchema, 'GET /stocks/:id (types)', {
+      id: 7,
+      ticker: 'AAPL',
+      current_price: '180.5',
+      weight: 12.5,
+      alpha_vantage_fetched_at: null,
+      extra_field: 'kept',
+    });
+    expect(stock.current_price).toBe(180.5);
+    expect(stock.weight).toBe(0.125);
+    expect(stock.fair_value).toBe(0);
+    expect(stock.company_name).toBe('');
+    expect(stock.alpha_vantage_fetched_at).toBeNull();
+    expect(stock.buy_zone_status).toBeUndefined();
+    expect((stock as unknown as Record<string, unknown>).extra_field).toBe('kept');
+    expect(warnings).toContainEqual({
+      endpoint: 'GET /stocks/:id (types)',
+      path: 'current_price',
+      issue: 'coerced',
+      expected: 'number',
+      received: 'string',
+    });
+    expect(warnings).toContainEqual(expect.objectContaining({ path: 'fair_value', issue: 'missing' }));
+  });
+
+  it('reads null lists as empty, keeps unknown operation types and reports each drift once', () => {
+    expect(parseResponse(operationListSchema, 'GET /operations (null)', null)).toEqual([]);
+    expect(warnings).toEqual([]);
+
+    const body = [{ id: 1, operation_type: 'Merger' }, { id: 2, operation_type: 'Merger' }];
+    const operations = parseResponse(operationListSchema, 'GET /operations (types)', body);
+    parseResponse(operationListSchema, 'GET /operations (types)', body);
+    expect(operations.map((o) => o.operation_type)).toEqual(['Merger', 'Merger']);
+    expect(warnings.filter((w) => w.path === '[].operation_type')).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith('API contract drift', expect.objectContaining({ path: '[].operation_type', issue: 'type' }));
+  });
+});
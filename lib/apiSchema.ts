@@ -0,0 +1,518 @@
+/**
+ * Runtime contract for backend responses, applied at the API boundary in lib/api.ts.
+ *
+ * Every typed response is parsed against a schema: numeric strings are coerced, missing or
+ * mistyped fields fall back to safe defaults, and weights and probabilities are normalized to 0–1 fractions, so
+ * the rest of the app can trust the interfaces in lib/api.ts without guessing. Unknown fields
+ * are passed through untouched. Each deviation is reported once per session as a structured
+ * ContractWarning (console.warn plus any onContractDrift listeners).
+ */
+import type {
+  Alert,
+  APIStatus,
+  AssessmentCompareResponse,
+  AssessmentResponse,
+  CashHolding,
+  ExchangeRate,
+  FairValueHistoryEntry,
+  MoverData,
+  Operation,
+  OperationType,
+  Portfolio,
+  PortfolioMetrics,
+  PortfolioSettings,
+  PortfolioSummaryResponse,
+  PortfolioUnits,
+  SectorTargetRow,
+  Stock,
+  StockHistory,
+  TopLoser,
+  TopLosersResponse,
+  TopMoversResponse,
+} from '@/lib/api';
+
+export type DriftIssue =
+  /** Field absent or null; the default was used. */
+  | 'missing'
+  /** Field of the wrong type; the default was used (or the value kept, for unknown enum members). */
+  | 'type'
+  /** Numeric string converted to a number. */
+  | 'coerced'
+  /** Weights or probabilities sent as 0–100 percentages; divided by 100. */
+  | 'scale';
+
+export type ContractWarning = {
+  /** Request that returned the response, e.g. "GET /portfolio/summary". */
+  endpoint: string;
+  /** Field path with array indices collapsed, e.g. "stocks[].weight". */
+  path: string;
+  issue: DriftIssue;
+  expected: string;
+  received: string;
+};
+
+type ParseContext = { endpoint: string; warnings: ContractWarning[] };
+
+/** Parses one value; never throws, records deviations on the context instead. */
+export type Schema<T> = (value: unknown, ctx: ParseContext, path: string) => T;
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const kindOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+function warn(ctx: ParseContext, path: string, issue: DriftIssue, expected: string, received: string) {
+  ctx.warnings.push({ endpoint: ctx.endpoint, path: path || '(root)', issue, expected, received });
+}
+
+const number = (fallback = 0): Schema<number> => (value, ctx, path) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    warn(ctx, path, 'coerced', 'number', 'string');
+    return Number(value);
+  }
+  warn(ctx, path, value == null ? 'missing' : 'type', 'number', kindOf(value));
+  return fallback;
+};
+
+const string = (fallback = ''): Schema<string> => (value, ctx, path) => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') {
+    warn(ctx, path, 'coerced', 'string', 'number');
+    return String(value);
+  }
+  warn(ctx, path, value == null ? 'missing' : 'type', 'string', kindOf(value));
+  return fallback;
+};
+
+const boolean = (fallback = false): Schema<boolean> => (value, ctx, path) => {
+  if (typeof value === 'boolean') return value;
+  warn(ctx, path, value == null ? 'missing' : 'type', 'boolean', kindOf(value));
+  return fallback;
+};
+
+/** Known members pass; unknown strings are kept (the backend may be ahead of us) but reported. */
+const oneOf = <T extends string>(values: readonly T[], fallback: T): Schema<T> => (value, ctx, path) => {
+  if (typeof value === 'string') {
+    if (!(values as readonly string[]).includes(value)) warn(ctx, path, 'type', values.join(' | '), `"${value}"`);
+    return value as T;
+  }
+  warn(ctx, path, value == null ? 'missing' : 'type', values.join(' | '), kindOf(value));
+  return fallback;
+};
+
+/** Absent or null reads as undefined without a warning. */
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, ctx, path) =>
+  value == null ? undefined : schema(value, ctx, path);
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, ctx, path) =>
+  value == null ? null : schema(value, ctx, path);
+
+/** null is accepted as an empty list: that is how the backend encodes an empty slice. */
+const array = <T>(item: Schema<T>): Schema<T[]> => (value, ctx, path) => {
+  if (value === null) return [];
+  if (!Array.isArray(value)) {
+    warn(ctx, path, value === undefined ? 'missing' : 'type', 'array', kindOf(value));
+    return [];
+  }
+  return value.map((v) => item(v, ctx, `${path}[]`));
+};
+
+const record = <T>(item: Schema<T>): Schema<Record<string, T>> => (value, ctx, path) => {
+  if (value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    warn(ctx, path, value === undefined ? 'missing' : 'type', 'object', kindOf(value));
+    return {};
+  }
+  const out: Record<string, T> = {};
+  for (const [key, v] of Object.entries(value)) out[key] = item(v, ctx, `${path}{}`);
+  return out;
+};
+
+function object<T>(shape: Shape<T>): Schema<T> {
+  return (value, ctx, path) => {
+    let source: Record<string, unknown> = {};
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      source = value as Record<string, unknown>;
+    } else {
+      warn(ctx, path, value == null ? 'missing' : 'type', 'object', kindOf(value));
+    }
+    const out: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      out[key] = shape[key](source[key], ctx, join(path, key));
+    }
+    return out as T;
+  };
+}
+
+/** Every field optional: for payloads that carry whatever subset of a record was found. */
+function partial<T>(shape: Shape<T>): Schema<Partial<T>> {
+  const loose = {} as Shape<Partial<T>>;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    loose[key] = optional(shape[key]) as Schema<Partial<T>[typeof key]>;
+  }
+  return object(loose);
+}
+
+/**
+ * Whether a set of weights is in percent. Any value above 1 settles it; weights that partition
+ * the portfolio (positions of one summary, sector weights) are also percent when they add up to
+ * well over 1. A lone fraction of exactly 1 (one position, one sector) stays a fraction.
+ */
+function isPercentScale(weights: number[], partition: boolean): boolean {
+  if (weights.some((w) => w > 1)) return true;
+  return partition && weights.reduce((sum, w) => sum + Math.max(0, w), 0) > 1.5;
+}
+
+function scaleWeights<T extends { weight: number }>(items: T[], ctx: ParseContext, path: string, partition: boolean): T[] {
+  if (!isPercentScale(items.map((i) => i.weight), partition)) return items;
+  warn(ctx, path, 'scale', '0-1 fraction', '0-100 percent');
+  return items.map((i) => ({ ...i, weight: i.weight / 100 }));
+}
+
+const weightedList = <T extends { weight: number }>(item: Schema<T>, partition: boolean): Schema<T[]> => (value, ctx, path) =>
+  scaleWeights(array(item)(value, ctx, path), ctx, `${path}[].weight`, partition);
+
+const weightedItem = <T extends { weight: number }>(item: Schema<T>): Schema<T> => (value, ctx, path) =>
+  scaleWeights([item(value, ctx, path)], ctx, join(path, 'weight'), false)[0];
+
+const sectorWeights: Schema<Record<string, number>> = (value, ctx, path) => {
+  const weights = record(number())(value, ctx, path);
+  if (!isPercentScale(Object.values(weights), true)) return weights;
+  warn(ctx, `${path}{}`, 'scale', '0-1 fraction', '0-100 percent');
+  return Object.fromEntries(Object.entries(weights).map(([sector, w]) => [sector, w / 100]));
+};
+
+/** A single probability; any value above 1 is a percentage. */
+const probability: Schema<number> = (value, ctx, path) => {
+  const p = number()(value, ctx, path);
+  if (p <= 1) return p;
+  warn(ctx, path, 'scale', '0-1 fraction', '0-100 percent');
+  return p / 100;
+};
+
+const OPERATION_TYPES: readonly OperationType[] = [
+  'Buy',
+  'Sell',
+  'Deposit',
+  'Withdraw',
+  'Dividend',
+  'Fee',
+  'Withholding Tax',
+  'Split',
+  'Reverse Split',
+  'Spin-off',
+];
+
+const stockShape: Shape<Stock> = {
+  id: number(),
+  portfolio_id: optional(number()),
+  ticker: string(),
+  isin: string(),
+  company_name: string(),
+  sector: string(),
+  current_price: number(),
+  currency: string(),
+  fair_value: number(),
+  upside_potential: number(),
+  downside_risk: number(),
+  probability_positive: probability,
+  expected_value: number(),
+  beta: number(),
+  volatility: number(),
+  pe_ratio: number(),
+  eps_growth_rate: number(),
+  debt_to_ebitda: number(),
+  dividend_yield: number(),
+  b_ratio: number(),
+  kelly_fraction: number(),
+  half_kelly_suggested: number(),
+  shares_owned: number(),
+  avg_price_local: number(),
+  current_value_usd: number(),
+  weight: number(),
+  unrealized_pnl: number(),
+  buy_zone_min: number(),
+  buy_zone_max: number(),
+  buy_zone_status: optional(string()),
+  sell_zone_lower_bound: optional(number()),
+  sell_zone_upper_bound: optional(number()),
+  sell_zone_status: optional(string()),
+  assessment: string(),
+  update_frequency: string(),
+  data_source: string(),
+  fair_value_source: string(),
+  alpha_vantage_fetched_at: nullable(string()),
+  grok_fetched_at: nullable(string()),
+  alpha_vantage_raw_json: string(),
+  grok_raw_json: string(),
+  comment: string(),
+  last_updated: string(),
+};
+
+const stock = object(stockShape);
+
+/** One stock (create, update, latest price, detail). */
+export const stockSchema = weightedItem(stock);
+/** All stocks of a portfolio; held weights partition its equity. */
+export const stockListSchema = weightedList(stock, true);
+/** A selection of stocks (batch fetch); weights need not add up to 1. */
+export const stockSubsetSchema = weightedList(stock, false);
+/** Fields read from screenshots by the assessment extractor. */
+export const extractedStockSchema = partial(stockShape);
+
+const portfolioMetrics = object<PortfolioMetrics>({
+  total_value: number(),
+  overall_ev: number(),
+  weighted_volatility: number(),
+  sharpe_ratio: number(),
+  kelly_utilization: number(),
+  sector_weights: sectorWeights,
+  realized_pnl: optional(number()),
+});
+
+const portfolioUnits = object<PortfolioUnits>({
+  summary_total_value: optional(string()),
+  summary_ev: optional(string()),
+  summary_volatility: optional(string()),
+  stock_current_value: optional(string()),
+  stock_weight: optional(string()),
+  exchange_rate_base: optional(string()),
+  exchange_rate_semantic: optional(string()),
+});
+
+export const portfolioSummarySchema = object<PortfolioSummaryResponse>({
+  summary: portfolioMetrics,
+  stocks: stockListSchema,
+  units: optional(portfolioUnits),
+});
+
+export const alertListSchema = array(
+  object<Alert>({
+    id: number(),
+    stock_id: number(),
+    ticker: string(),
+    alert_type: string(),
+    message: string(),
+    email_sent: boolean(),
+    created_at: string(),
+  })
+);
+
+export const stockHistorySchema = weightedList(
+  object<StockHistory>({
+    id: number(),
+    stock_id: number(),
+    ticker: string(),
+    current_price: number(),
+    fair_value: number(),
+    upside_potential: number(),
+    expected_value: number(),
+    kelly_fraction: number(),
+    weight: number(),
+    assessment: string(),
+    recorded_at: string(),
+  }),
+  false
+);
+
+export const fairValueHistorySchema = array(
+  object<FairValueHistoryEntry>({
+    id: number(),
+    stock_id: number(),
+    portfolio_id: number(),
+    ticker: string(),
+    fair_value: number(),
+    source: string(),
+    recorded_at: string(),
+  })
+);
+
+export const operationSchema = object<Operation>({
+  id: number(),
+  portfolio_id: number(),
+  stock_id: optional(number()),
+  operation_type: oneOf(OPERATION_TYPES, 'Buy'),
+  ticker: string(),
+  isin: string(),
+  company_name: string(),
+  sector: string(),
+  currency: string(),
+  quantity: number(),
+  price: number(),
+  amount: number(),
+  note: string(),
+  trade_date: string(),
+  spinoff_ticker: optional(string()),
+  cost_basis_pct: optional(number()),
+  fx_rate: optional(number()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const operationListSchema = array(operationSchema);
+
+export const portfolioSchema = object<Portfolio>({
+  id: number(),
+  name: string(),
+  archived: boolean(),
+  created_at: string(),
+});
+
+export const portfolioListSchema = array(portfolioSchema);
+
+export const portfolioSettingsSchema = object<PortfolioSettings>({
+  update_frequency: string('daily'),
+  alerts_enabled: boolean(true),
+  alert_threshold_ev: number(10),
+});
+
+const serviceStatus = object({ status: string(), message: optional(string()) });
+
+export const apiStatusSchema = object<APIStatus>({
+  alpha_vantage: optional(serviceStatus),
+  grok: optional(serviceStatus),
+});
+
+export const exchangeRateListSchema = array(
+  object<ExchangeRate>({
+    id: number(),
+    currency_code: string(),
+    rate: number(),
+    last_updated: string(),
+    is_active: boolean(true),
+    is_manual: boolean(),
+  })
+);
+
+export const cashHoldingSchema = object<CashHolding>({
+  id: number(),
+  currency_code: string(),
+  amount: number(),
+  usd_value: number(),
+  description: string(),
+  last_updated: string(),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const cashHoldingListSchema = array(cashHoldingSchema);
+
+export const assessmentTextSchema = object<{ assessment: string }>({ assessment: string() });
+
+const assessmentResponse = object<AssessmentResponse>({
+  id: optional(number()),
+  ticker: string(),
+  source: string(),
+  assessment: string(),
+  created_at: string(),
+  status: oneOf(['pending', 'completed', 'failed'] as const, 'completed'),
+});
+
+export const assessmentResponseSchema = assessmentResponse;
+export const assessmentListSchema = array(assessmentResponse);
+
+export const assessmentCompareSchema = object<AssessmentCompareResponse>({
+  rows: array(
+    object({
+      key: string(),
+      label: string(),
+      grok: string(),
+      deepseek: string(),
+      perplexity: optional(string()),
+      chatgpt: optional(string()),
+    })
+  ),
+});
+
+export const columnSettingsSchema = object<{ settings: string }>({ settings: string() });
+
+export const sectorTargetsSchema = object<{ rows: SectorTargetRow[] | null }>({
+  rows: nullable(
+    array(
+      object<SectorTargetRow>({
+        sector: string(),
+        min: number(),
+        max: number(),
+        rationale: string(),
+      })
+    )
+  ),
+});
+
+export const topLosersSchema = object<TopLosersResponse>({
+  losers: weightedList(
+    object<TopLoser>({
+      ticker: string(),
+      company_name: string(),
+      sector: string(),
+      currency: string(),
+      current_price: number(),
+      unrealized_pnl: number(),
+      unrealized_pnl_pct: number(),
+      shares_owned: number(),
+      avg_price_local: number(),
+      current_value_usd: number(),
+      weight: number(),
+      expected_value: number(),
+      assessment: string(),
+      buy_zone_status: string(),
+      sell_zone_status: string(),
+    }),
+    false
+  ),
+  count: number(),
+  meta: object({ portfolio_id: number(), limit: number(), min_shares: number() }),
+});
+
+const mover = object<MoverData>({
+  stock_id: number(),
+  ticker: string(),
+  company_name: string(),
+  sector: string(),
+  current_price: number(),
+  previous_price: number(),
+  price_change: number(),
+  price_change_percent: number(),
+  current_ev: number(),
+  previous_ev: number(),
+  ev_change: number(),
+  current_assessment: string(),
+  previous_assessment: string(),
+  last_updated: string(),
+});
+
+export const topMoversSchema = object<TopMoversResponse>({
+  timeframe: string(),
+  top_gainers: array(mover),
+  top_losers: array(mover),
+  biggest_ev_rises: array(mover),
+  biggest_ev_drops: array(mover),
+  generated_at: string(),
+});
+
+const listeners = new Set<(warning: ContractWarning) => void>();
+const reported = new Set<string>();
+
+/** Subscribe to contract drift (each endpoint/path/issue once per session); returns the unsubscribe. */
+export function onContractDrift(listener: (warning: ContractWarning) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Validate and normalize a response body; deviations are reported, never thrown. */
+export function parseResponse<T>(schema: Schema<T>, endpoint: string, data: unknown): T {
+  const ctx: ParseContext = { endpoint, warnings: [] };
+  const result = schema(data, ctx, '');
+  for (const warning of ctx.warnings) {
+    const key = `${warning.endpoint}|${warning.path}|${warning.issue}`;
+    if (reported.has(key)) continue;
+    reported.add(key);
+    console.warn('API contract drift', warning);
+    listeners.forEach((listener) => listener(warning));
+  }
+  return result;
+}
@@ -0,0 +1,81 @@
+import { createBackupBundle, hasPendingChanges, parseBackupBundle, planRestore, countActions, type BackupData } from './backup';
+import type { CashHolding, ExchangeRate, Operation, Stock } from '@/lib/api';
+
+function stock(partial: Partial<Stock>): Stock {
+  return { ...({} as Stock), ...partial };
+}
+
+function op(partial: Partial<Operation>): Operation {
+  return { ...({} as Operation), price: 0, amount: 0, ...partial };
+}
+
+const empty: BackupData = {
+  stocks: [],
+  operations: [],
+  cash: [],
+  exchange_rates: [],
+  sector_targets: null,
+  column_settings: null,
+  portfolio_settings: null,
+};
+
+const data: BackupData = {
+  stocks: [stock({ id: 7, ticker: 'AAPL', company_name: 'Apple', shares_owned: 10, weight: 0.4, fair_value: 200 })],
+  operations: [
+    op({ id: 2, operation_type: 'Buy', ticker: 'AAPL', currency: 'USD', quantity: 5, price: 150, trade_date: '02.01.2024' }),
+    op({ id: 3, operation_type: 'Buy', ticker: 'AAPL', currency: 'USD', quantity: 5, price: 150, trade_date: '02.01.2024' }),
+    op({ id: 1, operation_type: 'Deposit', currency: 'EUR', quantity: 2000, trade_date: '2024-01-01' }),
+  ],
+  cash: [{ ...({} as CashHolding), id: 4, currency_code: 'EUR', amount: 500, description: '' }],
+  exchange_rates: [{ ...({} as ExchangeRate), currency_code: 'USD', rate: 1.1, is_manual: true }],
+  sector_targets: [{ sector: 'Technology', min: 10, max: 20, rationale: '' }],
+  column_settings: '[{"id":"ticker","visible":true}]',
+  portfolio_settings: { update_frequency: 'daily', alerts_enabled: true, alert_threshold_ev: 10 },
+};
+
+describe('backup', () => {
+  it('validates the bundle format and version', () => {
+    expect(parseBackupBundle('nope')).toEqual({ error: 'Not a JSON file' });
+    expect(parseBackupBundle('{"stocks":[]}')).toEqual({ error: 'Not an AssessApp backup bundle' });
+    const bundle = createBackupBundle(data, new Date('2024-03-01T00:00:00Z'));
+    expect(parseBackupBundle(JSON.stringify({ ...bundle, version: 99 }))).toEqual({
+      error: 'Backup version 99 is newer than this app supports (1); update the app first',
+    });
+    expect(parseBackupBundle(JSON.stringify({ ...bundle, data: { ...data, cash: {} } }))).toEqual({
+      error: 'Backup section "cash" is missing or not a list',
+    });
+    const parsed = parseBackupBundle(JSON.stringify(bundle));
+    expect(parsed).toEqual({ bundle });
+  });
+
+  it('plans creates for a fresh account, without ids or computed fields', () => {
+    const plan = planRestore(createBackupBundle(data), empty);
+    expect(plan.operations.map((i) => [i.action, i.value.trade_date])).toEqual([
+      ['create', '01.01.2024'],
+      ['create', '02.01.2024'],
+      ['create', '02.01.2024'],
+    ]);
+    expect(plan.stocks[0].action).toBe('create');
+    expect(plan.stocks[0].value).toEqual({ ticker: 'AAPL', company_name: 'Apple', shares_owned: 10, fair_value: 200 });
+    expect(countActions(plan.cash)).toEqual({ create: 1, update: 0, unchanged: 0 });
+    expect(plan.sector_targets[0].action).toBe('create');
+  });
+
+  it('plans updates where live data differs and nothing once restored', () => {
+    const live: BackupData = {
+      ...data,
+      stocks: [stock({ id: 1, ticker: 'AAPL', company_name: 'Apple', shares_owned: 10, weight: 0.9, fair_value: 180 })],
+      operations: [data.operations[0], data.operations[2]],
+      cash: [{ ...data.cash[0], id: 99, amount: 450 }],
+      portfolio_settings: { update_frequency: 'weekly', alerts_enabled: true, alert_threshold_ev: 10 },
+    };
+    const plan = planRestore(createBackupBundle(data), live);
+    expect(plan.operations.map((i) => i.action)).toEqual(['unchanged', 'unchanged', 'create']);
+    expect(plan.stocks[0]).toMatchObject({ action: 'update', label: 'AAPL (fair_value)' });
+    expect(plan.cash[0]).toMatchObject({ action: 'update', current: { id: 99 } });
+    expect(plan.exchange_rates[0].action).toBe('unchanged');
+    expect(plan.portfolio_settings[0].action).toBe('update');
+
+    expect(hasPendingChanges(planRestore(createBackupBundle(data), data))).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Account backup bundle: one versioned JSON document with stocks, operations, cash, exchange rates
+ * and settings, plus the restore plan that compares a bundle with the live account.
+ * Planning is keyed on natural identifiers (ticker, currency, operation fingerprint) rather than
+ * database ids, so a bundle restores into a fresh backend and a second restore is a no-op.
+ */
+import type { CashHolding, CreateOperationRequest, ExchangeRate, Operation, SectorTargetRow, Stock } from '@/lib/api';
+import { operationFingerprint } from '@/lib/brokerImport';
+import { STOCK_SCHEMA, diffStocks } from '@/lib/stockImport';
+import { compareByTradeDate, formatTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export const BACKUP_FORMAT = 'assessapp-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupData = {
+  stocks: Stock[];
+  operations: Operation[];
+  cash: CashHolding[];
+  exchange_rates: ExchangeRate[];
+  sector_targets: SectorTargetRow[] | null;
+  /** Column settings as stored by useColumnSettings (JSON string). */
+  column_settings: string | null;
+  portfolio_settings: Record<string, unknown> | null;
+};
+
+export type BackupBundle = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  data: BackupData;
+};
+
+/** Portfolio settings that belong in a backup; ids and timestamps from the endpoint are dropped. */
+export const PORTFOLIO_SETTING_KEYS = ['update_frequency', 'alerts_enabled', 'alert_threshold_ev'] as const;
+
+export function pickPortfolioSettings(raw: unknown): Record<string, unknown> | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const key of PORTFOLIO_SETTING_KEYS) {
+    if (source[key] !== undefined) out[key] = source[key];
+  }
+  return Object.keys(out).length > 0 ? out : null;
+}
+
+export function createBackupBundle(data: BackupData, now: Date = new Date()): BackupBundle {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, created_at: now.toISOString(), data };
+}
+
+export function backupFileName(bundle: BackupBundle): string {
+  return `assessapp-backup-${bundle.created_at.slice(0, 10)}.json`;
+}
+
+const ARRAY_SECTIONS = ['stocks', 'operations', 'cash', 'exchange_rates'] as const;
+
+/** Parse and validate a bundle file; returns the bundle or a reason it cannot be restored. */
+export function parseBackupBundle(text: string): { bundle: BackupBundle } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: 'Not a JSON file' };
+  }
+  const doc = raw as Partial<BackupBundle> | null;
+  if (!doc || typeof doc !== 'object' || doc.format !== BACKUP_FORMAT) {
+    return { error: 'Not an AssessApp backup bundle' };
+  }
+  if (typeof doc.version !== 'number' || !Number.isInteger(doc.version) || doc.version < 1) {
+    return { error: 'Backup bundle has no valid version' };
+  }
+  if (doc.version > BACKUP_VERSION) {
+    return { error: `Backup version ${doc.version} is newer than this app supports (${BACKUP_VERSION}); update the app first` };
+  }
+  const data = doc.data as Partial<BackupData> | undefined;
+  if (!data || typeof data !== 'object') return { error: 'Backup bundle has no data section' };
+  for (const section of ARRAY_SECTIONS) {
+    if (!Array.isArray(data[section])) return { error: `Backup section "${section}" is missing or not a list` };
+  }
+  if (data.sector_targets != null && !Array.isArray(data.sector_targets)) {
+    return { error: 'Backup section "sector_targets" is not a list' };
+  }
+  if (data.column_settings != null && typeof data.column_settings !== 'string') {
+    return { error: 'Backup section "column_settings" is not a string' };
+  }
+  return {
+    bundle: {
+      format: BACKUP_FORMAT,
+      version: doc.version,
+      created_at: typeof doc.created_at === 'string' ? doc.created_at : '',
+      data: {
+        stocks: data.stocks!,
+        operations: data.operations!,
+        cash: data.cash!,
+        exchange_rates: data.exchange_rates!,
+        sector_targets: data.sector_targets ?? null,
+        column_settings: data.column_settings ?? null,
+        portfolio_settings: pickPortfolioSettings(data.portfolio_settings),
+      },
+    },
+  };
+}
+
+export type RestoreAction = 'create' | 'update' | 'unchanged';
+
+export type RestoreItem<T> = {
+  action: RestoreAction;
+  label: string;
+  value: T;
+  /** Live record being overwritten (updates only). */
+  current?: unknown;
+};
+
+export type RestorePlan = {
+  operations: RestoreItem<CreateOperationRequest>[];
+  stocks: RestoreItem<Partial<Stock>>[];
+  cash: RestoreItem<CashHolding>[];
+  exchange_rates: RestoreItem<ExchangeRate>[];
+  sector_targets: RestoreItem<SectorTargetRow[]>[];
+  column_settings: RestoreItem<string>[];
+  portfolio_settings: RestoreItem<Record<string, unknown>>[];
+};
+
+export type RestoreSection = keyof RestorePlan;
+
+/** Writable stock fields only; ids and computed values belong to the target backend. */
+export function writableStock(stock: Stock): Partial<Stock> {
+  const out: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(STOCK_SCHEMA)) {
+    const value = stock[field as keyof Stock];
+    if (!spec.readOnly && value !== undefined) out[field] = value;
+  }
+  return out as Partial<Stock>;
+}
+
+/** Operation as a create request, without ids tied to the source backend. */
+export function operationToRequest(op: Operation): CreateOperationRequest {
+  const date = parseTradeDate(op.trade_date);
+  return {
+    operation_type: op.operation_type,
+    ticker: op.ticker || undefined,
+    isin: op.isin || undefined,
+    company_name: op.company_name || undefined,
+    sector: op.sector || undefined,
+    currency: op.currency,
+    quantity: op.quantity,
+    price: op.price || undefined,
+    amount: op.amount || undefined,
+    note: op.note || undefined,
+    trade_date: date ? formatTradeDate(date) : op.trade_date,
+    spinoff_ticker: op.spinoff_ticker || undefined,
+    cost_basis_pct: op.cost_basis_pct ?? undefined,
+    fx_rate: op.fx_rate || undefined,
+  };
+}
+
+const cashKey = (c: CashHolding) => `${c.currency_code.toUpperCase()}|${(c.description || '').trim()}`;
+const stableJson = (value: unknown) => JSON.stringify(value ?? null);
+
+export function planRestore(bundle: BackupBundle, current: BackupData): RestorePlan {
+  const data = bundle.data;
+
+  // Operations are matched as a multiset so identical same-day trades restore once each.
+  const available = new Map<string, number>();
+  for (const op of current.operations) {
+    const key = operationFingerprint(op);
+    available.set(key, (available.get(key) ?? 0) + 1);
+  }
+  const operations = [...data.operations].sort(compareByTradeDate).map((op) => {
+    const key = operationFingerprint(op);
+    const left = available.get(key) ?? 0;
+    if (left > 0) available.set(key, left - 1);
+    return {
+      action: (left > 0 ? 'unchanged' : 'create') as RestoreAction,
+      label: `${op.trade_date} ${op.operation_type} ${op.ticker || op.currency} ${op.quantity}`,
+      value: operationToRequest(op),
+    };
+  });
+
+  const backupStocks = data.stocks.map(writableStock);
+  const stocks = diffStocks(backupStocks, current.stocks).map((diff, i) => ({
+    action: (!diff.current ? 'create' : diff.changes.length > 0 ? 'update' : 'unchanged') as RestoreAction,
+    label: diff.current && diff.changes.length > 0
+      ? `${diff.ticker} (${diff.changes.map((c) => c.field).join(', ')})`
+      : diff.ticker,
+    value: backupStocks[i],
+    current: diff.current ?? undefined,
+  }));
+
+  const liveCash = new Map(current.cash.map((c) => [cashKey(c), c]));
+  const cash = data.cash.map((c) => {
+    const live = liveCash.get(cashKey(c));
+    const action: RestoreAction = !live ? 'create' : live.amount !== c.amount ? 'update' : 'unchanged';
+    return { action, label: `${c.currency_code} ${c.amount}${c.description ? ` (${c.description})` : ''}`, value: c, current: live };
+  });
+
+  const liveRates = new Map(current.exchange_rates.map((r) => [r.currency_code.toUpperCase(), r]));
+  const exchange_rates = data.exchange_rates.map((r) => {
+    const live = liveRates.get(r.currency_code.toUpperCase());
+    const action: RestoreAction = !live ? 'create' : live.rate !== r.rate || live.is_manual !== r.is_manual ? 'update' : 'unchanged';
+    return { action, label: `${r.currency_code} ${r.rate}${r.is_manual ? ' (manual)' : ''}`, value: r, current: live };
+  });
+
+  const single = <T,>(label: string, value: T | null, live: T | null): RestoreItem<T>[] => {
+    if (value == null) return [];
+    const action: RestoreAction = live == null ? 'create' : stableJson(value) !== stableJson(live) ? 'update' : 'unchanged';
+    return [{ action, label, value, current: live ?? undefined }];
+  };
+
+  return {
+    operations,
+    stocks,
+    cash,
+    exchange_rates,
+    sector_targets: single(`${data.sector_targets?.length ?? 0} sector rows`, data.sector_targets, current.sector_targets),
+    column_settings: single('Stock table columns', data.column_settings, current.column_settings),
+    portfolio_settings: single('Update frequency and alerts', data.portfolio_settings, current.portfolio_settings),
+  };
+}
+
+export function countActions(items: RestoreItem<unknown>[]): Record<RestoreAction, number> {
+  const counts: Record<RestoreAction, number> = { create: 0, update: 0, unchanged: 0 };
+  for (const item of items) counts[item.action] += 1;
+  return counts;
+}
+
+export function hasPendingChanges(plan: RestorePlan): boolean {
+  return Object.values(plan).some((items: RestoreItem<unknown>[]) => items.some((i) => i.action !== 'unchanged'));
+}
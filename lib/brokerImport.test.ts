@@ -0,0 +1,132 @@
+import { detectBrokerFormat, guessMapping, parseStatement, parseStatementDate } from './brokerImport';
+import type { Operation, Stock } from '@/lib/api';
+
+const IBKR = [
+  'Statement,Header,Field Name,Field Value',
+  'Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,Proceeds',
+  'Trades,Data,Order,Stocks,USD,AAPL,"2024-01-15, 10:30:00",10,185.5,-1855',
+  'Trades,Data,Order,Stocks,USD,MSFT,"2024-02-01, 15:00:00",-5,400,2000',
+  'Trades,SubTotal,,Stocks,USD,AAPL,,10,,-1855',
+  'Dividends,Header,Currency,Date,Description,Amount',
+  'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share,2.40',
+  'Dividends,Data,Total,,,2.40',
+  'Deposits & Withdrawals,Header,Currency,Settle Date,Description,Amount',
+  'Deposits & Withdrawals,Data,EUR,2024-01-02,Electronic Fund Transfer,5000',
+  'Deposits & Withdrawals,Data,EUR,2024-03-02,Disbursement,-200',
+].join('\n');
+
+const DEGIRO = [
+  'Date,Time,Product,ISIN,Reference exchange,Venue,Quantity,Price,,Local value,,Value,,Exchange rate,Transaction and/or third,,Total,,Order ID',
+  '15-01-2024,09:01,NOVO NORDISK A/S,DK0062498333,CSE,XCSE,4,"745,20",DKK,"-2980,80",DKK,"-399,80",EUR,"7,4558","-2,00",EUR,"-401,80",EUR,abc-1',
+  '20-02-2024,10:00,UNKNOWN CO,US0000000001,NSY,XNYS,-2,"50,00",USD,"100,00",USD,"92,00",EUR,"1,087",,,"92,00",EUR,abc-2',
+].join('\n');
+
+const T212 = [
+  'Action,Time,ISIN,Ticker,Name,No. of shares,Price / share,Currency (Price / share),Exchange rate,Total,Currency (Total),ID',
+  'Market buy,2024-03-01 14:30:00,US0378331005,AAPL,Apple,1.5,180.00,USD,1.08,250.00,EUR,EOF1',
+  'Dividend (Ordinary),2024-03-15 08:00:00,US0378331005,AAPL,Apple,1.5,0.24,USD,,0.33,EUR,',
+  'Deposit,2024-02-28 10:00:00,,,,,,,,1000.00,EUR,',
+  'Interest on cash,2024-03-31 00:00:00,,,,,,,,0.50,EUR,',
+].join('\n');
+
+function op(partial: Partial<Operation>): Operation {
+  return { ...({} as Operation), price: 0, amount: 0, ...partial } as Operation;
+}
+
+describe('brokerImport', () => {
+  it('parses statement dates in common formats', () => {
+    expect(parseStatementDate('2024-01-15, 10:30:00')?.toISOString().slice(0, 10)).toBe('2024-01-15');
+    expect(parseStatementDate('15-01-2024')?.toISOString().slice(0, 10)).toBe('2024-01-15');
+    expect(parseStatementDate('5/1/2024')?.toISOString().slice(0, 10)).toBe('2024-01-05');
+    expect(parseStatementDate('20240115;103000')?.toISOString().slice(0, 10)).toBe('2024-01-15');
+    expect(parseStatementDate('garbage')).toBeNull();
+  });
+
+  it('detects broker formats from the header', () => {
+    expect(detectBrokerFormat(IBKR)).toBe('ibkr');
+    expect(detectBrokerFormat(DEGIRO)).toBe('degiro');
+    expect(detectBrokerFormat(T212)).toBe('trading212');
+    expect(detectBrokerFormat('date,symbol,qty\n')).toBe('generic');
+  });
+
+  it('maps IBKR trades, dividends and cash movements', () => {
+    const { format, rows } = parseStatement(IBKR);
+    expect(format).toBe('ibkr');
+    expect(rows.map((r) => r.request?.operation_type)).toEqual(['Buy', 'Sell', 'Dividend', 'Deposit', 'Withdraw']);
+    expect(rows[0].request).toMatchObject({ ticker: 'AAPL', quantity: 10, price: 185.5, currency: 'USD', trade_date: '15.01.2024' });
+    expect(rows[1].request).toMatchObject({ ticker: 'MSFT', quantity: 5 });
+    expect(rows[2].request).toMatchObject({ ticker: 'AAPL', isin: 'US0378331005', quantity: 2.4 });
+    expect(rows[4].request).toMatchObject({ quantity: 200, currency: 'EUR', trade_date: '02.03.2024' });
+  });
+
+  it('maps IBKR withholding tax and fees', () => {
+    const statement = [
+      'Withholding Tax,Header,Currency,Date,Description,Amount,Code',
+      'Withholding Tax,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share - US Tax,-0.36,',
+      'Withholding Tax,Data,USD,2024-03-01,AAPL(US0378331005) Cash Dividend USD 0.24 per Share - US Tax,0.36,',
+      'Fees,Header,Subtitle,Currency,Date,Description,Amount',
+      'Fees,Data,Other Fees,USD,2024-02-05,Market data fee,-10',
+    ].join('\n');
+    const rows = parseStatement(statement, { format: 'ibkr' }).rows;
+    expect(rows[0].request).toMatchObject({ operation_type: 'Withholding Tax', ticker: 'AAPL', quantity: 0.36, trade_date: '15.02.2024' });
+    expect(rows[1].error).toMatch(/refund/);
+    expect(rows[2].request).toMatchObject({ operation_type: 'Fee', quantity: 10, currency: 'USD' });
+  });
+
+  it('maps Degiro transactions and resolves tickers by ISIN', () => {
+    const stocks = [{ ...({} as Stock), ticker: 'NOVO-B.CO', isin: 'DK0062498333' }];
+    const { rows } = parseStatement(DEGIRO, { stocks });
+    expect(rows[0].request).toMatchObject({
+      operation_type: 'Buy', ticker: 'NOVO-B.CO', quantity: 4, price: 745.2, currency: 'DKK', trade_date: '15.01.2024', fx_rate: 7.4558,
+    });
+    expect(rows[0].warning).toBeUndefined();
+    expect(rows[1].request).toMatchObject({ operation_type: 'Sell', ticker: undefined, isin: 'US0000000001', quantity: 2 });
+    expect(rows[1].warning).toMatch(/ISIN/);
+  });
+
+  it('maps Trading 212 actions and reports unsupported ones', () => {
+    const { rows } = parseStatement(T212);
+    expect(rows[0].request).toMatchObject({ operation_type: 'Buy', ticker: 'AAPL', quantity: 1.5, price: 180, currency: 'USD', fx_rate: 1.08 });
+    expect(rows[1].request).toMatchObject({ operation_type: 'Dividend', quantity: 0.33, currency: 'EUR' });
+    expect(rows[2].request).toMatchObject({ operation_type: 'Deposit', quantity: 1000 });
+    expect(rows[3]).toMatchObject({ request: null, error: 'Unsupported action "Interest on cash"' });
+  });
+
+  it('reports the source line of rows after blank lines and multi-line notes', () => {
+    const text = [
+      'Action,Time,Ticker,No. of shares,Price / share,Currency (Price / share),Total,Currency (Total),Notes',
+      '',
+      'Market buy,2024-03-01 14:30:00,AAPL,"1,000",180.00,USD,,EUR,"split',
+      'across lines"',
+      'Deposit,2024-02-28 10:00:00,,,,,"5,000.00",EUR,',
+      'Interest on cash,2024-03-31 00:00:00,,,,,0.50,EUR,',
+    ].join('\n');
+    const { rows } = parseStatement(text, { format: 'trading212' });
+    expect(rows.map((r) => r.line)).toEqual([3, 5, 6]);
+    expect(rows[0].request).toMatchObject({ quantity: 1000 });
+    expect(rows[1].request).toMatchObject({ operation_type: 'Deposit', quantity: 5000 });
+  });
+
+  it('uses a column mapping for generic files', () => {
+    const text = 'Trade Date;Symbol;Qty;Price;Ccy\n02.01.2024;SAP;3;150,5;EUR\n03.01.2024;SAP;-1;155;EUR\n;SAP;1;1;EUR';
+    const mapping = guessMapping(['Trade Date', 'Symbol', 'Qty', 'Price', 'Ccy']);
+    expect(mapping).toMatchObject({ date: 'Trade Date', ticker: 'Symbol', quantity: 'Qty', price: 'Price', currency: 'Ccy' });
+    const { rows } = parseStatement(text, { format: 'generic', mapping });
+    expect(rows[0].request).toMatchObject({ operation_type: 'Buy', ticker: 'SAP', quantity: 3, price: 150.5 });
+    expect(rows[1].request).toMatchObject({ operation_type: 'Sell', quantity: 1 });
+    expect(rows[2].error).toBe('Missing or invalid date');
+  });
+
+  it('flags rows already in the ledger and repeated within the file', () => {
+    const existing = [
+      op({ operation_type: 'Buy', ticker: 'aapl', quantity: 10, price: 185.5, currency: 'USD', trade_date: '2024-01-15T00:00:00Z' }),
+      op({ operation_type: 'Deposit', quantity: 5000, currency: 'EUR', trade_date: '02.01.2024' }),
+    ];
+    const { rows } = parseStatement(IBKR, { existing });
+    expect(rows.map((r) => r.duplicate)).toEqual([true, false, false, true, false]);
+
+    const twice = 'Date,Type,Amount,Currency\n2024-01-01,Deposit,100,EUR\n2024-01-01,Deposit,100,EUR';
+    const generic = parseStatement(twice, { format: 'generic', mapping: guessMapping(['Date', 'Type', 'Amount', 'Currency']) });
+    expect(generic.rows.map((r) => r.duplicate)).toEqual([false, true]);
+  });
+});
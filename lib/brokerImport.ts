@@ -0,0 +1,428 @@
+/**
+ * Broker statement import: maps transaction CSVs (Interactive Brokers activity statements,
+ * Degiro Transactions, Trading 212 history, or any CSV through a column mapping) to
+ * CreateOperationRequest rows, and flags rows that already exist in the operations list.
+ */
+import type { CreateOperationRequest, Operation, OperationType, Stock } from '@/lib/api';
+import { parseCsv, parseNumber, type CsvRow } from '@/lib/csv';
+import { BASE_CURRENCY } from '@/lib/fx';
+import { isCorporateAction, operationAmount } from '@/lib/ledger';
+import { formatTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export type BrokerFormat = 'ibkr' | 'degiro' | 'trading212' | 'generic';
+
+export const BROKER_FORMATS: { value: BrokerFormat; label: string }[] = [
+  { value: 'ibkr', label: 'Interactive Brokers (activity statement)' },
+  { value: 'degiro', label: 'Degiro (Transactions.csv)' },
+  { value: 'trading212', label: 'Trading 212 (history export)' },
+  { value: 'generic', label: 'Other (map columns)' },
+];
+
+/** Fields the generic mapper can fill; values are header names from the file. */
+export type ColumnMapping = {
+  date: string;
+  type?: string;
+  ticker?: string;
+  isin?: string;
+  name?: string;
+  quantity?: string;
+  price?: string;
+  amount?: string;
+  currency?: string;
+  note?: string;
+};
+
+export const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; required?: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'type', label: 'Type (Buy/Sell/…)' },
+  { key: 'ticker', label: 'Ticker' },
+  { key: 'isin', label: 'ISIN' },
+  { key: 'name', label: 'Company name' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'price', label: 'Price' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'note', label: 'Note' },
+];
+
+export type ImportRow = {
+  /** 1-based line in the source file. */
+  line: number;
+  request: CreateOperationRequest | null;
+  /** Why the row cannot be imported. */
+  error?: string;
+  /** Non-blocking remarks, e.g. ticker taken from a matching ISIN. */
+  warning?: string;
+  duplicate: boolean;
+};
+
+export type ParsedStatement = {
+  format: BrokerFormat;
+  headers: string[];
+  rows: ImportRow[];
+};
+
+type RawRecord = { line: number; cells: string[]; get: (header: string) => string };
+
+/** Statement dates: ISO (with optional time), DD.MM.YYYY, DD-MM-YYYY, DD/MM/YYYY, YYYYMMDD. */
+export function parseStatementDate(value: string): Date | null {
+  const s = (value || '').trim();
+  const compact = /^(\d{4})(\d{2})(\d{2})(?:[;,\s]|$)/.exec(s);
+  if (compact) return parseTradeDate(`${compact[1]}-${compact[2]}-${compact[3]}`);
+  const dmy = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/.exec(s);
+  if (dmy) return parseTradeDate(`${dmy[1].padStart(2, '0')}.${dmy[2].padStart(2, '0')}.${dmy[3]}`);
+  return parseTradeDate(s);
+}
+
+function normalizeHeader(h: string): string {
+  return h.trim().toLowerCase();
+}
+
+export function detectBrokerFormat(text: string): BrokerFormat {
+  const head = text.slice(0, 4000).toLowerCase();
+  if (/^﻿?"?statement"?,/m.test(head) || /^"?trades"?,"?header"?,/m.test(head)) return 'ibkr';
+  if (head.includes('no. of shares') && head.includes('action')) return 'trading212';
+  if (head.includes('isin') && head.includes('product') && (head.includes('local value') || head.includes('reference exchange'))) return 'degiro';
+  return 'generic';
+}
+
+function records(rows: CsvRow[], headerIndex: number): { headers: string[]; records: RawRecord[] } {
+  const headers = rows[headerIndex]?.cells ?? [];
+  const index = new Map<string, number>();
+  headers.forEach((h, i) => {
+    const key = normalizeHeader(h);
+    if (key && !index.has(key)) index.set(key, i);
+  });
+  return {
+    headers,
+    records: rows.slice(headerIndex + 1).map(({ line, cells }) => ({
+      line,
+      cells,
+      get: (header: string) => {
+        const at = index.get(normalizeHeader(header));
+        return at === undefined ? '' : (cells[at] ?? '').trim();
+      },
+    })),
+  };
+}
+
+function buySell(
+  type: 'Buy' | 'Sell',
+  fields: {
+    ticker: string; isin: string; name: string; quantity: number; price: number; currency: string; date: Date; note?: string;
+    /** Broker's rate in currency units per base unit, when the statement is settled in the base currency. */
+    fxRate?: number | null;
+  }
+): CreateOperationRequest {
+  const currency = fields.currency.toUpperCase();
+  return {
+    operation_type: type,
+    ticker: fields.ticker || undefined,
+    isin: fields.isin || undefined,
+    company_name: fields.name || undefined,
+    currency,
+    quantity: Math.abs(fields.quantity),
+    price: Math.abs(fields.price),
+    trade_date: formatTradeDate(fields.date),
+    note: fields.note || undefined,
+    fx_rate: currency !== BASE_CURRENCY && fields.fxRate && fields.fxRate > 0 ? fields.fxRate : undefined,
+  };
+}
+
+/** Cash operations carry the amount in quantity, as AddOperationModal sends them. */
+function cashOperation(
+  type: OperationType,
+  fields: { amount: number; currency: string; date: Date; ticker?: string; isin?: string; name?: string; note?: string }
+): CreateOperationRequest {
+  return {
+    operation_type: type,
+    ticker: fields.ticker || undefined,
+    isin: fields.isin || undefined,
+    company_name: fields.name || undefined,
+    currency: fields.currency.toUpperCase(),
+    quantity: Math.abs(fields.amount),
+    trade_date: formatTradeDate(fields.date),
+    note: fields.note || undefined,
+  };
+}
+
+function failed(line: number, error: string): ImportRow {
+  return { line, request: null, error, duplicate: false };
+}
+
+/** Interactive Brokers activity statement: sections prefixed by name, each with its own Header row. */
+function parseIbkr(rows: CsvRow[]): ImportRow[] {
+  const out: ImportRow[] = [];
+  const headers = new Map<string, string[]>();
+  rows.forEach(({ line, cells }) => {
+    const [section, kind] = cells;
+    if (kind === 'Header') {
+      headers.set(section, cells.slice(2).map(normalizeHeader));
+      return;
+    }
+    if (kind !== 'Data') return;
+    const h = headers.get(section);
+    if (!h) return;
+    const get = (name: string) => (h.includes(name) ? (cells[2 + h.indexOf(name)] ?? '').trim() : '');
+    if (section === 'Trades') {
+      if (get('datadiscriminator') && get('datadiscriminator') !== 'Order') return;
+      if (get('asset category') && !/stock/i.test(get('asset category'))) return;
+      const date = parseStatementDate(get('date/time'));
+      const quantity = parseNumber(get('quantity'), '.');
+      const price = parseNumber(get('t. price'), '.');
+      if (!date || quantity === null || price === null || quantity === 0) {
+        out.push(failed(line, 'Missing date, quantity or price'));
+        return;
+      }
+      out.push({
+        line,
+        request: buySell(quantity > 0 ? 'Buy' : 'Sell', {
+          ticker: get('symbol'), isin: '', name: '', quantity, price, currency: get('currency'), date,
+        }),
+        duplicate: false,
+      });
+    } else if (section === 'Dividends' || section === 'Deposits & Withdrawals' || section === 'Withholding Tax' || section === 'Fees') {
+      const currency = get('currency');
+      if (!currency || /^total/i.test(currency)) return;
+      const date = parseStatementDate(get('date') || get('settle date'));
+      const amount = parseNumber(get('amount'), '.');
+      if (!date || amount === null || amount === 0) {
+        out.push(failed(line, 'Missing date or amount'));
+        return;
+      }
+      const description = get('description');
+      if (section === 'Dividends' || section === 'Withholding Tax') {
+        if (section === 'Withholding Tax' && amount > 0) {
+          out.push(failed(line, 'Withholding tax refund; enter it manually'));
+          return;
+        }
+        // "AAPL(US0378331005) Cash Dividend USD 0.24 per Share"
+        const match = /^([A-Z0-9.\- ]+?)\s*\(([A-Z]{2}[A-Z0-9]{9}\d)\)/.exec(description);
+        out.push({
+          line,
+          request: cashOperation(section === 'Dividends' ? 'Dividend' : 'Withholding Tax', {
+            amount, currency, date, ticker: match?.[1], isin: match?.[2], note: description,
+          }),
+          duplicate: false,
+        });
+      } else if (section === 'Fees') {
+        if (amount > 0) {
+          out.push(failed(line, 'Fee rebate; enter it manually'));
+          return;
+        }
+        out.push({ line, request: cashOperation('Fee', { amount, currency, date, note: description }), duplicate: false });
+      } else {
+        out.push({
+          line,
+          request: cashOperation(amount > 0 ? 'Deposit' : 'Withdraw', { amount, currency, date, note: description }),
+          duplicate: false,
+        });
+      }
+    }
+  });
+  return out;
+}
+
+/**
+ * Degiro Transactions.csv: signed quantity, decimal comma; the price currency sits in the unnamed
+ * column after Price, the account currency in the one after Value.
+ */
+function parseDegiro(rows: CsvRow[], stocks: Stock[]): ImportRow[] {
+  const { headers, records: recs } = records(rows, 0);
+  const priceIndex = headers.findIndex((h) => normalizeHeader(h) === 'price');
+  const valueIndex = headers.findIndex((h) => normalizeHeader(h) === 'value');
+  return recs.map((r) => {
+    const date = parseStatementDate(r.get('date'));
+    const quantity = parseNumber(r.get('quantity'), ',');
+    const price = parseNumber(r.get('price'), ',');
+    const currency = priceIndex >= 0 ? (r.cells[priceIndex + 1] ?? '').trim() : '';
+    if (!date || quantity === null || price === null || quantity === 0 || !currency) {
+      return failed(r.line, 'Missing date, quantity, price or currency');
+    }
+    const isin = r.get('isin').toUpperCase();
+    const known = stocks.find((s) => (s.isin || '').toUpperCase() === isin);
+    const accountCurrency = valueIndex >= 0 ? (r.cells[valueIndex + 1] ?? '').trim().toUpperCase() : '';
+    return {
+      line: r.line,
+      request: buySell(quantity > 0 ? 'Buy' : 'Sell', {
+        ticker: known?.ticker ?? '', isin, name: r.get('product'), quantity, price, currency, date,
+        fxRate: accountCurrency === BASE_CURRENCY ? parseNumber(r.get('exchange rate'), ',') : null,
+        note: r.get('order id') ? `Degiro order ${r.get('order id')}` : undefined,
+      }),
+      warning: known ? undefined : 'No stock with this ISIN; ticker left empty',
+      duplicate: false,
+    };
+  });
+}
+
+/** Trading 212 history export: one Action column covering trades, dividends and cash movements. */
+function parseTrading212(rows: CsvRow[]): ImportRow[] {
+  const { records: recs } = records(rows, 0);
+  const out: ImportRow[] = [];
+  for (const r of recs) {
+    const action = r.get('action').toLowerCase();
+    const date = parseStatementDate(r.get('time'));
+    if (!date) {
+      out.push(failed(r.line, 'Missing or invalid time'));
+      continue;
+    }
+    const note = r.get('notes') || (r.get('id') ? `Trading 212 ${r.get('id')}` : '');
+    if (action.includes('buy') || action.includes('sell')) {
+      const quantity = parseNumber(r.get('no. of shares'), '.');
+      const price = parseNumber(r.get('price / share'), '.');
+      if (quantity === null || price === null || quantity === 0) {
+        out.push(failed(r.line, 'Missing shares or price'));
+        continue;
+      }
+      out.push({
+        line: r.line,
+        request: buySell(action.includes('buy') ? 'Buy' : 'Sell', {
+          ticker: r.get('ticker'), isin: r.get('isin'), name: r.get('name'), quantity, price,
+          currency: r.get('currency (price / share)'), date, note,
+          fxRate: r.get('currency (total)').toUpperCase() === BASE_CURRENCY ? parseNumber(r.get('exchange rate'), '.') : null,
+        }),
+        duplicate: false,
+      });
+      continue;
+    }
+    const type: OperationType | null = action.startsWith('dividend') ? 'Dividend'
+      : action.includes('deposit') ? 'Deposit'
+        : action.includes('withdraw') ? 'Withdraw'
+          : null;
+    if (!type) {
+      out.push(failed(r.line, `Unsupported action "${r.get('action')}"`));
+      continue;
+    }
+    const amount = parseNumber(r.get('total'), '.');
+    if (amount === null || amount === 0) {
+      out.push(failed(r.line, 'Missing total'));
+      continue;
+    }
+    out.push({
+      line: r.line,
+      request: cashOperation(type, {
+        amount, currency: r.get('currency (total)'), date, ticker: r.get('ticker'), isin: r.get('isin'), name: r.get('name'), note,
+      }),
+      duplicate: false,
+    });
+  }
+  return out;
+}
+
+/** Map a free-text type to an operation type; falls back to the quantity sign for trades. */
+function genericType(value: string, quantity: number | null): OperationType | null {
+  const v = value.trim().toLowerCase();
+  if (v.includes('buy') || v === 'b' || v === 'bot') return 'Buy';
+  if (v.includes('sell') || v === 's' || v === 'sld') return 'Sell';
+  if (v.includes('withholding') || v === 'wht') return 'Withholding Tax';
+  if (v.includes('div')) return 'Dividend';
+  if (v.includes('fee') || v.includes('commission')) return 'Fee';
+  if (v.includes('deposit')) return 'Deposit';
+  if (v.includes('withdraw')) return 'Withdraw';
+  if (!v && quantity !== null && quantity !== 0) return quantity > 0 ? 'Buy' : 'Sell';
+  return null;
+}
+
+function parseGeneric(rows: CsvRow[], mapping: ColumnMapping, defaultCurrency: string): ImportRow[] {
+  const { records: recs } = records(rows, 0);
+  const field = (r: RawRecord, key: keyof ColumnMapping) => (mapping[key] ? r.get(mapping[key]!) : '');
+  return recs.map((r) => {
+    const date = parseStatementDate(field(r, 'date'));
+    if (!date) return failed(r.line, 'Missing or invalid date');
+    const quantity = parseNumber(field(r, 'quantity'));
+    const price = parseNumber(field(r, 'price'));
+    const amount = parseNumber(field(r, 'amount'));
+    const type = genericType(field(r, 'type'), quantity);
+    if (!type) return failed(r.line, `Unknown type "${field(r, 'type')}"`);
+    const currency = field(r, 'currency') || defaultCurrency;
+    const common = { ticker: field(r, 'ticker'), isin: field(r, 'isin'), name: field(r, 'name'), currency, date, note: field(r, 'note') };
+    if (type === 'Buy' || type === 'Sell') {
+      const unitPrice = price ?? (amount !== null && quantity ? Math.abs(amount / quantity) : null);
+      if (quantity === null || quantity === 0 || unitPrice === null) return failed(r.line, 'Missing quantity or price');
+      return { line: r.line, request: buySell(type, { ...common, quantity, price: unitPrice }), duplicate: false };
+    }
+    const value = amount ?? quantity;
+    if (value === null || value === 0) return failed(r.line, 'Missing amount');
+    return { line: r.line, request: cashOperation(type, { ...common, amount: value }), duplicate: false };
+  });
+}
+
+/** Identity used for duplicate detection: type, asset, date, size and currency. */
+export function operationFingerprint(op: {
+  operation_type: OperationType;
+  ticker?: string;
+  isin?: string;
+  currency: string;
+  quantity: number;
+  price?: number;
+  amount?: number;
+  trade_date: string;
+}): string {
+  const date = parseTradeDate(op.trade_date);
+  const day = date ? date.toISOString().slice(0, 10) : op.trade_date;
+  const isTrade = op.operation_type === 'Buy' || op.operation_type === 'Sell';
+  // Corporate actions have no cash amount; their ratio or share count sits in quantity.
+  const isCorporate = isCorporateAction(op);
+  const size = isTrade
+    ? `${Math.abs(op.quantity)}@${Math.abs(op.price ?? 0).toFixed(4)}`
+    : isCorporate
+      ? String(Math.abs(op.quantity))
+      : operationAmount({ ...({} as Operation), operation_type: op.operation_type, quantity: op.quantity, price: op.price ?? 0, amount: op.amount ?? 0 }).toFixed(2);
+  const asset = isTrade || isCorporate ? ((op.ticker || '').trim().toUpperCase() || (op.isin || '').trim().toUpperCase()) : '';
+  return [op.operation_type, asset, day, size, (op.currency || '').toUpperCase()].join('|');
+}
+
+/** Mark rows matching an existing operation, or an earlier row of the same file. */
+export function markDuplicates(rows: ImportRow[], existing: Operation[]): ImportRow[] {
+  const seen = new Set(existing.map(operationFingerprint));
+  return rows.map((row) => {
+    if (!row.request) return row;
+    const key = operationFingerprint(row.request);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+}
+
+export function parseStatement(
+  text: string,
+  options: { format?: BrokerFormat; mapping?: ColumnMapping; defaultCurrency?: string; stocks?: Stock[]; existing?: Operation[] } = {}
+): ParsedStatement {
+  const format = options.format ?? detectBrokerFormat(text);
+  const rows = parseCsv(text);
+  const headers = format === 'ibkr' ? [] : rows[0]?.cells ?? [];
+  let parsed: ImportRow[];
+  switch (format) {
+    case 'ibkr':
+      parsed = parseIbkr(rows);
+      break;
+    case 'degiro':
+      parsed = parseDegiro(rows, options.stocks ?? []);
+      break;
+    case 'trading212':
+      parsed = parseTrading212(rows);
+      break;
+    default:
+      parsed = options.mapping ? parseGeneric(rows, options.mapping, options.defaultCurrency ?? 'EUR') : [];
+  }
+  return { format, headers, rows: markDuplicates(parsed, options.existing ?? []) };
+}
+
+/** Guess a generic mapping from common header names. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const find = (...candidates: string[]) =>
+    headers.find((h) => candidates.includes(normalizeHeader(h))) ??
+    headers.find((h) => candidates.some((c) => normalizeHeader(h).includes(c)));
+  return {
+    date: find('date', 'trade date', 'tradedate', 'time') ?? '',
+    type: find('type', 'action', 'side', 'buy/sell', 'operation'),
+    ticker: find('ticker', 'symbol'),
+    isin: find('isin'),
+    name: find('name', 'company', 'product', 'description'),
+    quantity: find('quantity', 'shares', 'qty', 'units'),
+    price: find('price'),
+    amount: find('amount', 'total', 'value', 'net amount'),
+    currency: find('currency', 'ccy'),
+    note: find('note', 'comment', 'notes'),
+  };
+}
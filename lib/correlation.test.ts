@@ -0,0 +1,62 @@
+import { buildCorrelationMatrix, computePortfolioVolatility, correlate, toDailyPrices } from './correlation';
+import type { Stock, StockHistory } from '@/lib/api';
+
+function series(ticker: string, prices: number[]): StockHistory[] {
+  return prices.map((price, i) => ({
+    ...({} as StockHistory),
+    ticker,
+    current_price: price,
+    recorded_at: new Date(Date.UTC(2024, 0, 1 + i, 12)).toISOString(),
+  }));
+}
+
+function stock(ticker: string, weight: number, volatility: number): Stock {
+  return { ...({} as Stock), ticker, weight, volatility, shares_owned: 10 };
+}
+
+const up = [100, 102, 101, 104, 103, 107, 106, 110];
+const same = up.map((p) => p * 2);
+const inverse = up.map((p, i) => (i === 0 ? 100 : 100 * (up[0] / p)));
+
+describe('correlation', () => {
+  it('keeps the last price per day', () => {
+    const history = [
+      { ...({} as StockHistory), current_price: 10, recorded_at: '2024-01-01T08:00:00Z' },
+      { ...({} as StockHistory), current_price: 11, recorded_at: '2024-01-01T18:00:00Z' },
+    ];
+    expect(toDailyPrices(history).get('2024-01-01')).toBe(11);
+  });
+
+  it('finds perfect positive and negative correlation', () => {
+    const a = toDailyPrices(series('A', up));
+    expect(correlate(a, toDailyPrices(series('B', same)))).toBeCloseTo(1, 6);
+    expect(correlate(a, toDailyPrices(series('C', inverse)))!).toBeLessThan(-0.9);
+  });
+
+  it('returns null when series barely overlap', () => {
+    expect(correlate(toDailyPrices(series('A', up.slice(0, 3))), toDailyPrices(series('B', same)))).toBeNull();
+  });
+
+  it('builds a symmetric matrix with ones on the diagonal', () => {
+    const m = buildCorrelationMatrix({ B: series('B', same), A: series('A', up) });
+    expect(m.tickers).toEqual(['A', 'B']);
+    expect(m.matrix[0][0]).toBe(1);
+    expect(m.matrix[0][1]).toBeCloseTo(m.matrix[1][0]!, 12);
+  });
+
+  it('equals the weighted average volatility when everything is perfectly correlated', () => {
+    const m = buildCorrelationMatrix({ A: series('A', up), B: series('B', same) });
+    const v = computePortfolioVolatility([stock('A', 0.5, 20), stock('B', 0.5, 40)], m);
+    expect(v.volatility).toBeCloseTo(30, 6);
+    expect(v.weightedAverage).toBeCloseTo(30, 6);
+    expect(v.diversificationRatio).toBeCloseTo(1, 6);
+    expect(v.worstPair).toMatchObject({ a: 'A', b: 'B' });
+  });
+
+  it('treats missing pairs as uncorrelated and counts them', () => {
+    const v = computePortfolioVolatility([stock('A', 0.5, 20), stock('B', 0.5, 20)], { tickers: [], matrix: [] });
+    expect(v.volatility).toBeCloseTo(Math.sqrt(2 * 0.25 * 0.04) * 100, 6);
+    expect(v.missingPairs).toBe(1);
+    expect(v.diversificationRatio).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Return correlations from StockHistory price series and covariance-based portfolio volatility.
+ * Position volatilities come from Stock.volatility (annualized, %) so the result is directly
+ * comparable with PortfolioMetrics.weighted_volatility, which assumes perfect correlation.
+ */
+import type { Stock, StockHistory } from '@/lib/api';
+
+/** Minimum overlapping returns for a correlation to be reported. */
+export const MIN_OVERLAP = 5;
+
+export type CorrelationMatrix = {
+  tickers: string[];
+  /** matrix[i][j] is null when the two series overlap on fewer than MIN_OVERLAP returns. */
+  matrix: (number | null)[][];
+};
+
+export type RiskContribution = {
+  ticker: string;
+  weight: number;
+  /** Share of portfolio variance, 0-1 (can be negative for hedges). */
+  contribution: number;
+};
+
+export type PortfolioVolatility = {
+  /** Annualized portfolio volatility in percent from the covariance matrix. */
+  volatility: number;
+  /** Weighted average of position volatilities in percent (correlation 1 everywhere). */
+  weightedAverage: number;
+  /** weightedAverage / volatility; 1 means no diversification benefit. */
+  diversificationRatio: number;
+  contributions: RiskContribution[];
+  /** The pair adding the most covariance to the portfolio, or null with fewer than two positions. */
+  worstPair: { a: string; b: string; correlation: number; contribution: number } | null;
+  /** Pairs without enough history; treated as uncorrelated. */
+  missingPairs: number;
+};
+
+function dayKey(recordedAt: string): string {
+  return recordedAt.slice(0, 10);
+}
+
+/** Last recorded price per calendar day. */
+export function toDailyPrices(history: StockHistory[]): Map<string, number> {
+  const out = new Map<string, number>();
+  const sorted = [...history].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  for (const h of sorted) {
+    if (h.current_price > 0) out.set(dayKey(h.recorded_at), h.current_price);
+  }
+  return out;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const mx = xs.reduce((s, x) => s + x, 0) / n;
+  const my = ys.reduce((s, y) => s + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+}
+
+/** Correlation of simple returns between two daily price series over their common days. */
+export function correlate(a: Map<string, number>, b: Map<string, number>): number | null {
+  const days = Array.from(a.keys()).filter((d) => b.has(d)).sort();
+  const ra: number[] = [];
+  const rb: number[] = [];
+  for (let i = 1; i < days.length; i++) {
+    const pa = a.get(days[i - 1])!;
+    const pb = b.get(days[i - 1])!;
+    ra.push(a.get(days[i])! / pa - 1);
+    rb.push(b.get(days[i])! / pb - 1);
+  }
+  if (ra.length < MIN_OVERLAP) return null;
+  return pearson(ra, rb);
+}
+
+export function buildCorrelationMatrix(historyByTicker: Record<string, StockHistory[]>): CorrelationMatrix {
+  const tickers = Object.keys(historyByTicker).sort();
+  const prices = tickers.map((t) => toDailyPrices(historyByTicker[t]));
+  const matrix = tickers.map((_, i) =>
+    tickers.map((__, j) => (i === j ? 1 : null as number | null))
+  );
+  for (let i = 0; i < tickers.length; i++) {
+    for (let j = i + 1; j < tickers.length; j++) {
+      const c = correlate(prices[i], prices[j]);
+      matrix[i][j] = c;
+      matrix[j][i] = c;
+    }
+  }
+  return { tickers, matrix };
+}
+
+/**
+ * σp = √(wᵀ Σ w) with Σij = ρij σi σj. Weights are normalized over positions with a volatility.
+ * Pairs missing from the correlation matrix count as uncorrelated.
+ */
+export function computePortfolioVolatility(stocks: Stock[], correlations: CorrelationMatrix): PortfolioVolatility {
+  const active = stocks
+    .filter((s) => s.shares_owned > 0 && s.weight > 0 && s.volatility > 0)
+    .map((s) => ({ ticker: s.ticker.trim().toUpperCase(), w: s.weight, sigma: s.volatility / 100 }));
+  const totalWeight = active.reduce((sum, p) => sum + p.w, 0);
+  if (totalWeight <= 0) {
+    return { volatility: 0, weightedAverage: 0, diversificationRatio: 1, contributions: [], worstPair: null, missingPairs: 0 };
+  }
+  const positions = active.map((p) => ({ ...p, w: p.w / totalWeight }));
+  const index = new Map(correlations.tickers.map((t, i) => [t.trim().toUpperCase(), i]));
+
+  let missingPairs = 0;
+  const rho = (a: string, b: string): number => {
+    if (a === b) return 1;
+    const i = index.get(a);
+    const j = index.get(b);
+    const value = i !== undefined && j !== undefined ? correlations.matrix[i][j] : null;
+    return value ?? 0;
+  };
+
+  let variance = 0;
+  const marginal = positions.map(() => 0);
+  let worstPair: PortfolioVolatility['worstPair'] = null;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = 0; j < positions.length; j++) {
+      const pi = positions[i];
+      const pj = positions[j];
+      const r = rho(pi.ticker, pj.ticker);
+      const term = pi.w * pj.w * r * pi.sigma * pj.sigma;
+      variance += term;
+      marginal[i] += term;
+      if (j > i) {
+        const i0 = index.get(pi.ticker);
+        const j0 = index.get(pj.ticker);
+        if (i0 === undefined || j0 === undefined || correlations.matrix[i0][j0] === null) missingPairs += 1;
+        const pairContribution = 2 * term;
+        if (!worstPair || pairContribution > worstPair.contribution) {
+          worstPair = { a: pi.ticker, b: pj.ticker, correlation: r, contribution: pairContribution };
+        }
+      }
+    }
+  }
+
+  const volatility = Math.sqrt(Math.max(0, variance));
+  const weightedAverage = positions.reduce((sum, p) => sum + p.w * p.sigma, 0);
+  return {
+    volatility: volatility * 100,
+    weightedAverage: weightedAverage * 100,
+    diversificationRatio: volatility > 0 ? weightedAverage / volatility : 1,
+    contributions: positions
+      .map((p, i) => ({ ticker: p.ticker, weight: p.w, contribution: variance > 0 ? marginal[i] / variance : 0 }))
+      .sort((a, b) => b.contribution - a.contribution),
+    worstPair: worstPair && variance > 0
+      ? { ...worstPair, contribution: worstPair.contribution / variance }
+      : worstPair,
+    missingPairs,
+  };
+}
@@ -0,0 +1,53 @@
+import { detectDelimiter, parseCsv, parseNumber } from './csv';
+
+describe('csv', () => {
+  it('detects the delimiter from the header line', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3')).toBe(',');
+    expect(detectDelimiter('"a;b",c;d;e\n')).toBe(';');
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+  });
+
+  it('parses quoted fields, escaped quotes, CRLF and a BOM', () => {
+    const text = '﻿Name,Note\r\n"Apple, Inc.","say ""hi"""\r\n\r\nMSFT,\r\n';
+    expect(parseCsv(text).map((r) => r.cells)).toEqual([
+      ['Name', 'Note'],
+      ['Apple, Inc.', 'say "hi"'],
+      ['MSFT', ''],
+    ]);
+  });
+
+  it('keeps the source line of each row across blank lines and multi-line cells', () => {
+    const text = 'Name,Note\n\n"Apple","first\r\nsecond"\nMSFT,\n\n\nXOM,x\n';
+    expect(parseCsv(text).map((r) => [r.line, r.cells[0]])).toEqual([
+      [1, 'Name'],
+      [3, 'Apple'],
+      [5, 'MSFT'],
+      [8, 'XOM'],
+    ]);
+  });
+
+  it('parses numbers in broker formats', () => {
+    expect(parseNumber('1,234.56')).toBeCloseTo(1234.56, 6);
+    expect(parseNumber('1.234,56')).toBeCloseTo(1234.56, 6);
+    expect(parseNumber('12,5')).toBeCloseTo(12.5, 6);
+    expect(parseNumber('-3')).toBe(-3);
+    expect(parseNumber('(250.00)')).toBe(-250);
+    expect(parseNumber('€ 99')).toBe(99);
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber(undefined)).toBeNull();
+  });
+
+  it('reads a lone comma before three digits as thousands unless the broker uses a decimal comma', () => {
+    expect(parseNumber('1,000')).toBe(1000);
+    expect(parseNumber('5,000.00')).toBe(5000);
+    expect(parseNumber('1,234,567')).toBe(1234567);
+    expect(parseNumber('1.234.567')).toBe(1234567);
+    expect(parseNumber('1,000', '.')).toBe(1000);
+    expect(parseNumber('1,087', ',')).toBeCloseTo(1.087, 6);
+    expect(parseNumber('1.000', ',')).toBe(1000);
+    expect(parseNumber('1.087', '.')).toBeCloseTo(1.087, 6);
+    expect(parseNumber('12,5', '.')).toBeCloseTo(12.5, 6);
+    expect(parseNumber('1.234,56', '.')).toBeCloseTo(1234.56, 6);
+    expect(parseNumber('1,234.56', ',')).toBeCloseTo(1234.56, 6);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Minimal CSV reading for statement imports: quoted fields, escaped quotes, CRLF,
+ * and comma / semicolon / tab delimiters.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+/** Pick the delimiter that occurs most often in the first line (outside quotes). */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts: Record<CsvDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const ch of firstLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch in counts) counts[ch as CsvDelimiter] += 1;
+  }
+  return (Object.keys(counts) as CsvDelimiter[]).reduce((best, d) => (counts[d] > counts[best] ? d : best), ',');
+}
+
+/** One parsed row and the 1-based source line it starts on (quoted cells may span lines). */
+export type CsvRow = { line: number; cells: string[] };
+
+/** Parse CSV text into rows of raw string cells. Blank lines are dropped. */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push({ line: rowLine, cells: row });
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && source[i + 1] !== '\n')) line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/** Decimal separator of a statement; the other one is read as a thousands separator. */
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * Parse a number as written in broker exports: thousands separators, decimal comma,
+ * currency suffixes and parentheses for negatives. Returns null when nothing numeric is left.
+ *
+ * With both separators present the last one is the decimal. A lone separator followed by
+ * exactly three digits ("1,000", "1.087") is ambiguous: the broker's `decimal` convention
+ * decides, and without one a comma reads as thousands and a dot as decimal.
+ */
+export function parseNumber(value: string | undefined, decimal?: DecimalSeparator): number | null {
+  if (value === undefined) return null;
+  let s = value.trim().replace(/[^\d,.\-()]/g, '');
+  if (!s) return null;
+  const negative = s.startsWith('(') && s.endsWith(')');
+  s = s.replace(/[()]/g, '');
+  const commas = s.split(',').length - 1;
+  const dots = s.split('.').length - 1;
+  let decimalSeparator: DecimalSeparator | null;
+  if (commas > 0 && dots > 0) {
+    // 1.234,56 or 1,234.56
+    decimalSeparator = s.lastIndexOf(',') > s.lastIndexOf('.') ? ',' : '.';
+  } else if (commas + dots === 0) {
+    decimalSeparator = null;
+  } else {
+    const separator: DecimalSeparator = commas > 0 ? ',' : '.';
+    if (commas + dots > 1) {
+      // 1,234,567 or 1.234.567
+      decimalSeparator = separator === ',' ? '.' : ',';
+    } else if (/^-?\d{1,3}[.,]\d{3}$/.test(s)) {
+      const isDecimal = decimal ? separator === decimal : separator === '.';
+      decimalSeparator = isDecimal ? separator : separator === ',' ? '.' : ',';
+    } else {
+      decimalSeparator = separator;
+    }
+  }
+  if (decimalSeparator === ',') s = s.replace(/\./g, '').replace(',', '.');
+  else s = s.replace(/,/g, '');
+  const n = Number(s);
+  if (!Number.isFinite(n)) return null;
+  return negative ? -Math.abs(n) : n;
+}
@@ -0,0 +1,42 @@
+import { getCurrencyExposure } from './currencyExposure';
+import type { CashHolding, ExchangeRate, Stock } from '@/lib/api';
+
+function stock(ticker: string, currency: string, weight: number): Stock {
+  return { ...({} as Stock), ticker, currency, weight, shares_owned: 1 };
+}
+
+function cash(currency_code: string, amount: number, usd_value = 0): CashHolding {
+  return { ...({} as CashHolding), currency_code, amount, usd_value };
+}
+
+function rate(currency_code: string, value: number): ExchangeRate {
+  return { ...({} as ExchangeRate), currency_code, rate: value };
+}
+
+const rates = [rate('USD', 1.25), rate('DKK', 7.5)];
+
+describe('currencyExposure', () => {
+  it('combines equities and cash per currency in base currency', () => {
+    const summary = getCurrencyExposure(
+      [stock('MSFT', 'USD', 0.6), stock('SAP', 'EUR', 0.2), stock('NOVO', 'dkk', 0.2)],
+      1000,
+      [cash('USD', 250), cash('EUR', 100), cash('DKK', 750)],
+      rates,
+      50
+    );
+    expect(summary.totalBase).toBeCloseTo(1000 + 200 + 100 + 100, 6);
+    const usd = summary.exposures[0];
+    expect(usd).toMatchObject({ currency: 'USD', equityBase: 600, cashBase: 200, totalBase: 800 });
+    expect(usd.sharePct).toBeCloseTo((800 / 1400) * 100, 6);
+    expect(usd.overLimit).toBe(true);
+    expect(summary.exposures.find((e) => e.currency === 'DKK')).toMatchObject({ equityBase: 200, cashBase: 100, overLimit: false });
+  });
+
+  it('falls back to the USD value for cash without a rate and reports the rest', () => {
+    const summary = getCurrencyExposure([], 0, [cash('CHF', 100, 125), cash('JPY', 1000)], rates);
+    expect(summary.exposures).toEqual([
+      { currency: 'CHF', equityBase: 0, cashBase: 100, totalBase: 100, sharePct: 100, overLimit: true },
+    ]);
+    expect(summary.unconverted).toEqual(['JPY']);
+  });
+});
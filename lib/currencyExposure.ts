@@ -0,0 +1,70 @@
+/**
+ * Currency exposure: equity market value by trading currency plus cash holdings, in base currency.
+ * Equity values are weight × total_value (already EUR); cash is converted through the rate table.
+ */
+import type { CashHolding, ExchangeRate, Stock } from '@/lib/api';
+import { BASE_CURRENCY, convertCashToBase, toRateMap } from '@/lib/fx';
+
+/** Default per-currency limit in percent of equity + cash. */
+export const DEFAULT_CURRENCY_LIMIT_PCT = 50;
+
+export type CurrencyExposure = {
+  currency: string;
+  equityBase: number;
+  cashBase: number;
+  totalBase: number;
+  /** Share of equity + cash, percent. */
+  sharePct: number;
+  overLimit: boolean;
+};
+
+export type CurrencyExposureSummary = {
+  exposures: CurrencyExposure[];
+  totalBase: number;
+  /** Cash holdings with no usable rate or USD value; left out of totals. */
+  unconverted: string[];
+};
+
+export function getCurrencyExposure(
+  stocks: Stock[],
+  totalValue: number,
+  holdings: CashHolding[],
+  rates: ExchangeRate[],
+  limitPct: number = DEFAULT_CURRENCY_LIMIT_PCT
+): CurrencyExposureSummary {
+  const rateMap = toRateMap(rates);
+  const byCurrency = new Map<string, { equityBase: number; cashBase: number }>();
+  const entry = (currency: string) => {
+    const key = (currency || BASE_CURRENCY).trim().toUpperCase();
+    const existing = byCurrency.get(key) ?? { equityBase: 0, cashBase: 0 };
+    byCurrency.set(key, existing);
+    return existing;
+  };
+
+  for (const s of stocks) {
+    if (s.shares_owned <= 0) continue;
+    entry(s.currency).equityBase += s.weight * totalValue;
+  }
+
+  const unconverted: string[] = [];
+  for (const cash of holdings) {
+    const base = convertCashToBase(cash, rateMap);
+    if (base === null) {
+      unconverted.push(cash.currency_code.toUpperCase());
+      continue;
+    }
+    entry(cash.currency_code).cashBase += base;
+  }
+
+  const totalBase = Array.from(byCurrency.values()).reduce((sum, e) => sum + e.equityBase + e.cashBase, 0);
+  const exposures = Array.from(byCurrency.entries())
+    .map(([currency, e]) => {
+      const total = e.equityBase + e.cashBase;
+      const sharePct = totalBase > 0 ? (total / totalBase) * 100 : 0;
+      return { currency, equityBase: e.equityBase, cashBase: e.cashBase, totalBase: total, sharePct, overLimit: sharePct > limitPct };
+    })
+    .filter((e) => e.totalBase !== 0)
+    .sort((a, b) => b.totalBase - a.totalBase);
+
+  return { exposures, totalBase, unconverted: Array.from(new Set(unconverted)).sort() };
+}
@@ -0,0 +1,74 @@
+import { forecastDividendIncome, summarizeDividends } from './dividends';
+import type { Operation, OperationType, Stock } from '@/lib/api';
+
+function op(id: number, type: OperationType, ticker: string, currency: string, amount: number, date: string): Operation {
+  return { ...({} as Operation), id, operation_type: type, ticker, currency, amount, quantity: 0, price: 0, trade_date: date };
+}
+
+const rates = { EUR: 1, USD: 1.25 };
+
+describe('dividends', () => {
+  it('groups received dividends by month, year, ticker and currency', () => {
+    const ops = [
+      op(1, 'Dividend', 'msft', 'USD', 25, '15.03.2024'),
+      op(2, 'Dividend', 'SAP', 'EUR', 10, '20.03.2024'),
+      op(3, 'Dividend', 'MSFT', 'USD', 50, '14.06.2023'),
+      op(4, 'Buy', 'SAP', 'EUR', 1000, '01.01.2023'),
+    ];
+    const summary = summarizeDividends(ops, rates);
+    expect(summary.totalBase).toBeCloseTo(20 + 10 + 40, 10);
+    expect(summary.byMonth.map((b) => b.key)).toEqual(['2023-06', '2024-03']);
+    expect(summary.byMonth[1]).toMatchObject({ totalBase: 30, byCurrency: { USD: 25, EUR: 10 }, count: 2 });
+    expect(summary.byYear.map((b) => [b.key, b.totalBase])).toEqual([['2023', 40], ['2024', 30]]);
+    expect(summary.byTicker[0]).toMatchObject({ key: 'MSFT', totalBase: 60, count: 2 });
+    expect(summary.byCurrency.map((b) => b.key)).toEqual(['USD', 'EUR']);
+    expect(summary.unconverted).toEqual([]);
+  });
+
+  it('nets withholding tax against the dividends it belongs to', () => {
+    const ops = [
+      op(1, 'Dividend', 'MSFT', 'USD', 25, '15.03.2024'),
+      op(2, 'Withholding Tax', 'MSFT', 'USD', 7.5, '15.03.2024'),
+    ];
+    const summary = summarizeDividends(ops, rates);
+    expect(summary.totalBase).toBeCloseTo(14, 10);
+    expect(summary.withholdingBase).toBeCloseTo(6, 10);
+    expect(summary.byTicker[0]).toMatchObject({ key: 'MSFT', byCurrency: { USD: 17.5 }, count: 1 });
+  });
+
+  it('reports currencies without a rate', () => {
+    const summary = summarizeDividends([op(1, 'Dividend', 'NOVO', 'DKK', 100, '01.02.2024')], rates);
+    expect(summary.totalBase).toBe(0);
+    expect(summary.unconverted).toEqual(['DKK']);
+  });
+
+  it('converts at the rate recorded on the operation when there is one', () => {
+    const summary = summarizeDividends([{ ...op(1, 'Dividend', 'NOVO', 'DKK', 100, '01.02.2024'), fx_rate: 7.5 }], rates);
+    expect(summary.totalBase).toBeCloseTo(100 / 7.5, 10);
+    expect(summary.unconverted).toEqual([]);
+  });
+
+  it('projects forward income and yield-on-cost', () => {
+    const stock: Stock = {
+      ...({} as Stock),
+      id: 1,
+      ticker: 'MSFT',
+      currency: 'USD',
+      shares_owned: 10,
+      avg_price_local: 200,
+      current_price: 400,
+      current_value_usd: 4000,
+      dividend_yield: 1,
+    };
+    const ops = [
+      op(1, 'Dividend', 'MSFT', 'USD', 30, '01.03.2024'),
+      op(2, 'Dividend', 'MSFT', 'USD', 99, '01.03.2023'),
+    ];
+    const forecast = forecastDividendIncome([stock], ops, rates, new Date(Date.UTC(2024, 5, 30)));
+    expect(forecast.totalBase).toBeCloseTo(0.01 * 4000 / 1.25, 10);
+    expect(forecast.portfolioYield).toBeCloseTo(1, 10);
+    expect(forecast.positions[0].yieldOnCost).toBeCloseTo(2, 10);
+    expect(forecast.positions[0].trailingIncomeLocal).toBe(30);
+    expect(forecast.positions[0].trailingYieldOnCost).toBeCloseTo(1.5, 10);
+  });
+});
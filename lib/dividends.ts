@@ -0,0 +1,171 @@
+/**
+ * Dividend income: received dividends aggregated from Dividend operations net of Withholding Tax,
+ * forward 12-month income from dividend_yield × current_value_usd, and yield-on-cost per position.
+ * Received income converts at the rate recorded on each operation, otherwise at today's rates (as
+ * does the forward estimate); amounts without a rate are reported as unconverted.
+ */
+import type { Operation, Stock } from '@/lib/api';
+import { BASE_CURRENCY, convertOperationToBase, convertToBase, type RateMap } from '@/lib/fx';
+import { operationAmount } from '@/lib/ledger';
+import { compareByTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export type IncomeBucket = {
+  /** Month (YYYY-MM), year (YYYY), ticker or currency code depending on the grouping. */
+  key: string;
+  totalBase: number;
+  /** Local amounts per currency. */
+  byCurrency: Record<string, number>;
+  count: number;
+};
+
+export type DividendSummary = {
+  byMonth: IncomeBucket[];
+  byYear: IncomeBucket[];
+  byTicker: IncomeBucket[];
+  byCurrency: IncomeBucket[];
+  /** Net of withholding tax. */
+  totalBase: number;
+  /** Withholding tax deducted from the dividends, base currency (positive). */
+  withholdingBase: number;
+  /** Currencies without an exchange rate; their amounts are left out of base totals. */
+  unconverted: string[];
+};
+
+export type ForwardIncome = {
+  stockId: number;
+  ticker: string;
+  currency: string;
+  /** Dividend yield in percent, as stored on the stock. */
+  dividendYield: number;
+  /** Projected income over the next 12 months, base currency. */
+  annualIncomeBase: number;
+  /** Forward dividend per share ÷ average cost per share, percent. */
+  yieldOnCost: number | null;
+  /** Dividends received over the trailing 12 months ÷ cost basis, percent. */
+  trailingYieldOnCost: number | null;
+  trailingIncomeLocal: number;
+};
+
+export type ForwardIncomeSummary = {
+  positions: ForwardIncome[];
+  totalBase: number;
+  /** Forward income ÷ current equity value, percent. */
+  portfolioYield: number;
+};
+
+function addTo(map: Map<string, IncomeBucket>, key: string, currency: string, amount: number, base: number | null, isPayment: boolean) {
+  const bucket = map.get(key) ?? { key, totalBase: 0, byCurrency: {}, count: 0 };
+  bucket.byCurrency[currency] = (bucket.byCurrency[currency] ?? 0) + amount;
+  bucket.totalBase += base ?? 0;
+  if (isPayment) bucket.count += 1;
+  map.set(key, bucket);
+}
+
+const monthKey = (d: Date) => `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+
+/** Signed income of a Dividend (+) or Withholding Tax (−) operation; 0 for anything else. */
+function incomeAmount(op: Operation): number {
+  if (op.operation_type === 'Dividend') return operationAmount(op);
+  if (op.operation_type === 'Withholding Tax') return -operationAmount(op);
+  return 0;
+}
+
+/**
+ * Received dividends net of withholding tax, grouped by month, year, ticker and currency (months
+ * and years ascending). Bucket counts are dividend payments; tax rows only reduce the amounts.
+ */
+export function summarizeDividends(operations: Operation[], rates: RateMap): DividendSummary {
+  const byMonth = new Map<string, IncomeBucket>();
+  const byYear = new Map<string, IncomeBucket>();
+  const byTicker = new Map<string, IncomeBucket>();
+  const byCurrency = new Map<string, IncomeBucket>();
+  const unconverted = new Set<string>();
+  let totalBase = 0;
+  let withholdingBase = 0;
+
+  const income = operations
+    .filter((op) => op.operation_type === 'Dividend' || op.operation_type === 'Withholding Tax')
+    .sort(compareByTradeDate);
+  for (const op of income) {
+    const date = parseTradeDate(op.trade_date);
+    const currency = (op.currency || BASE_CURRENCY).toUpperCase();
+    const amount = incomeAmount(op);
+    const isPayment = op.operation_type === 'Dividend';
+    const base = convertOperationToBase(amount, op, rates);
+    if (base === null) unconverted.add(currency);
+    totalBase += base ?? 0;
+    if (!isPayment) withholdingBase -= base ?? 0;
+    if (date) {
+      addTo(byMonth, monthKey(date), currency, amount, base, isPayment);
+      addTo(byYear, String(date.getUTCFullYear()), currency, amount, base, isPayment);
+    }
+    addTo(byTicker, (op.ticker || '').trim().toUpperCase() || '—', currency, amount, base, isPayment);
+    addTo(byCurrency, currency, currency, amount, base, isPayment);
+  }
+
+  const byKey = (a: IncomeBucket, b: IncomeBucket) => a.key.localeCompare(b.key);
+  const byTotal = (a: IncomeBucket, b: IncomeBucket) => b.totalBase - a.totalBase;
+  return {
+    byMonth: Array.from(byMonth.values()).sort(byKey),
+    byYear: Array.from(byYear.values()).sort(byKey),
+    byTicker: Array.from(byTicker.values()).sort(byTotal),
+    byCurrency: Array.from(byCurrency.values()).sort(byTotal),
+    totalBase,
+    withholdingBase,
+    unconverted: Array.from(unconverted).sort(),
+  };
+}
+
+/**
+ * Forward 12-month income per active position: dividend_yield (%) × current_value_usd, converted
+ * from USD to base. Yield-on-cost compares the forward dividend per share with avg_price_local;
+ * the trailing variant uses dividends actually received (net of withholding tax) in the 12 months
+ * before asOf.
+ */
+export function forecastDividendIncome(
+  stocks: Stock[],
+  operations: Operation[],
+  rates: RateMap,
+  asOf: Date = new Date()
+): ForwardIncomeSummary {
+  const since = new Date(asOf);
+  since.setUTCFullYear(since.getUTCFullYear() - 1);
+  const trailingByTicker = new Map<string, number>();
+  for (const op of operations) {
+    const amount = incomeAmount(op);
+    if (amount === 0) continue;
+    const date = parseTradeDate(op.trade_date);
+    if (!date || date <= since || date > asOf) continue;
+    const key = (op.ticker || '').trim().toUpperCase();
+    trailingByTicker.set(key, (trailingByTicker.get(key) ?? 0) + amount);
+  }
+
+  let equityBase = 0;
+  const positions: ForwardIncome[] = stocks
+    .filter((s) => s.shares_owned > 0)
+    .map((s) => {
+      const dividendYield = Number.isFinite(s.dividend_yield) ? s.dividend_yield : 0;
+      const valueBase = convertToBase(s.current_value_usd || 0, 'USD', rates) ?? 0;
+      equityBase += valueBase;
+      const costBasis = s.shares_owned * s.avg_price_local;
+      const trailingIncomeLocal = trailingByTicker.get(s.ticker.trim().toUpperCase()) ?? 0;
+      return {
+        stockId: s.id,
+        ticker: s.ticker,
+        currency: s.currency,
+        dividendYield,
+        annualIncomeBase: (dividendYield / 100) * valueBase,
+        yieldOnCost: s.avg_price_local > 0 ? (dividendYield * s.current_price) / s.avg_price_local : null,
+        trailingYieldOnCost: costBasis > 0 ? (trailingIncomeLocal / costBasis) * 100 : null,
+        trailingIncomeLocal,
+      };
+    })
+    .sort((a, b) => b.annualIncomeBase - a.annualIncomeBase);
+
+  const totalBase = positions.reduce((sum, p) => sum + p.annualIncomeBase, 0);
+  return {
+    positions,
+    totalBase,
+    portfolioYield: equityBase > 0 ? (totalBase / equityBase) * 100 : 0,
+  };
+}
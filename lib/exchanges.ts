@@ -0,0 +1,92 @@
+/**
+ * Exchange suffix registry (Yahoo-style `.XX` ticker suffixes) and ISIN country codes.
+ * Used by ticker/ISIN validation to recognise where a security is listed.
+ */
+
+export type ExchangeInfo = {
+  suffix: string;
+  name: string;
+  /** ISO 3166-1 alpha-2 country of the exchange. */
+  country: string;
+  currency: string;
+  /** Shape of the local symbol when the exchange uses a fixed format (e.g. 4 digits in Tokyo). */
+  symbolPattern?: RegExp;
+};
+
+const exchanges: ExchangeInfo[] = [
+  { suffix: 'AS', name: 'Euronext Amsterdam', country: 'NL', currency: 'EUR' },
+  { suffix: 'PA', name: 'Euronext Paris', country: 'FR', currency: 'EUR' },
+  { suffix: 'BR', name: 'Euronext Brussels', country: 'BE', currency: 'EUR' },
+  { suffix: 'LS', name: 'Euronext Lisbon', country: 'PT', currency: 'EUR' },
+  { suffix: 'IR', name: 'Euronext Dublin', country: 'IE', currency: 'EUR' },
+  { suffix: 'MI', name: 'Borsa Italiana', country: 'IT', currency: 'EUR' },
+  { suffix: 'MC', name: 'Bolsa de Madrid', country: 'ES', currency: 'EUR' },
+  { suffix: 'DE', name: 'Xetra', country: 'DE', currency: 'EUR' },
+  { suffix: 'F', name: 'Frankfurt', country: 'DE', currency: 'EUR' },
+  { suffix: 'VI', name: 'Vienna', country: 'AT', currency: 'EUR' },
+  { suffix: 'HE', name: 'Nasdaq Helsinki', country: 'FI', currency: 'EUR' },
+  { suffix: 'CO', name: 'Nasdaq Copenhagen', country: 'DK', currency: 'DKK' },
+  { suffix: 'ST', name: 'Nasdaq Stockholm', country: 'SE', currency: 'SEK' },
+  { suffix: 'OL', name: 'Oslo Børs', country: 'NO', currency: 'NOK' },
+  { suffix: 'SW', name: 'SIX Swiss Exchange', country: 'CH', currency: 'CHF' },
+  { suffix: 'L', name: 'London Stock Exchange', country: 'GB', currency: 'GBP' },
+  { suffix: 'WA', name: 'Warsaw', country: 'PL', currency: 'PLN' },
+  { suffix: 'TO', name: 'Toronto', country: 'CA', currency: 'CAD' },
+  { suffix: 'V', name: 'TSX Venture', country: 'CA', currency: 'CAD' },
+  { suffix: 'SA', name: 'B3 São Paulo', country: 'BR', currency: 'BRL' },
+  { suffix: 'MX', name: 'Bolsa Mexicana', country: 'MX', currency: 'MXN' },
+  { suffix: 'T', name: 'Tokyo', country: 'JP', currency: 'JPY', symbolPattern: /^\d{4}$|^\d{3}[A-Z]$/ },
+  { suffix: 'HK', name: 'Hong Kong', country: 'HK', currency: 'HKD', symbolPattern: /^\d{4,5}$/ },
+  { suffix: 'KS', name: 'Korea Exchange', country: 'KR', currency: 'KRW', symbolPattern: /^\d{6}$/ },
+  { suffix: 'SS', name: 'Shanghai', country: 'CN', currency: 'CNY', symbolPattern: /^\d{6}$/ },
+  { suffix: 'SZ', name: 'Shenzhen', country: 'CN', currency: 'CNY', symbolPattern: /^\d{6}$/ },
+  { suffix: 'SI', name: 'Singapore', country: 'SG', currency: 'SGD' },
+  { suffix: 'AX', name: 'ASX', country: 'AU', currency: 'AUD' },
+  { suffix: 'NZ', name: 'NZX', country: 'NZ', currency: 'NZD' },
+];
+
+export const EXCHANGE_SUFFIXES: Record<string, ExchangeInfo> = Object.fromEntries(
+  exchanges.map((e) => [e.suffix, e])
+);
+
+/** Country names for ISIN prefixes; XS and EU are issuer-agnostic international codes. */
+export const ISIN_COUNTRY_NAMES: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+  GB: 'United Kingdom',
+  IE: 'Ireland',
+  NL: 'Netherlands',
+  BE: 'Belgium',
+  LU: 'Luxembourg',
+  FR: 'France',
+  DE: 'Germany',
+  AT: 'Austria',
+  CH: 'Switzerland',
+  IT: 'Italy',
+  ES: 'Spain',
+  PT: 'Portugal',
+  DK: 'Denmark',
+  SE: 'Sweden',
+  NO: 'Norway',
+  FI: 'Finland',
+  PL: 'Poland',
+  JP: 'Japan',
+  HK: 'Hong Kong',
+  KR: 'South Korea',
+  CN: 'China',
+  TW: 'Taiwan',
+  SG: 'Singapore',
+  AU: 'Australia',
+  NZ: 'New Zealand',
+  BR: 'Brazil',
+  MX: 'Mexico',
+  IL: 'Israel',
+  IN: 'India',
+  ZA: 'South Africa',
+  BM: 'Bermuda',
+  KY: 'Cayman Islands',
+  JE: 'Jersey',
+  GG: 'Guernsey',
+  XS: 'International (Euroclear/Clearstream)',
+  EU: 'European Union',
+};
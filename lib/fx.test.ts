@@ -0,0 +1,23 @@
+import { convertCashToBase, getCashTotalBase, toRateMap } from './fx';
+import type { CashHolding, ExchangeRate } from '@/lib/api';
+
+const rates = [{ currency_code: 'USD', rate: 1.08 }, { currency_code: 'DKK', rate: 7.5 }] as ExchangeRate[];
+
+describe('fx', () => {
+  it('converts cash at its own rate and falls back to the USD value', () => {
+    const rateMap = toRateMap(rates);
+    expect(convertCashToBase({ currency_code: 'DKK', amount: 750, usd_value: 0 }, rateMap)).toBeCloseTo(100, 6);
+    expect(convertCashToBase({ currency_code: 'GBP', amount: 100, usd_value: 216 }, rateMap)).toBeCloseTo(200, 6);
+    expect(convertCashToBase({ currency_code: 'JPY', amount: 1000, usd_value: 0 }, rateMap)).toBeNull();
+  });
+
+  it('sums cash holdings in base currency, skipping what does not convert', () => {
+    const holdings = [
+      { currency_code: 'EUR', amount: 100, usd_value: 108 },
+      { currency_code: 'DKK', amount: 750, usd_value: 108 },
+      { currency_code: 'GBP', amount: 100, usd_value: 216 },
+      { currency_code: 'JPY', amount: 1000, usd_value: 0 },
+    ] as CashHolding[];
+    expect(getCashTotalBase(holdings, rates)).toBeCloseTo(400, 6);
+  });
+});
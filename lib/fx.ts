@@ -0,0 +1,61 @@
+/**
+ * Currency conversion against the exchange rate table.
+ * Rates are units of currency per 1 EUR (base), e.g. USD 1.08 means 1 EUR = 1.08 USD.
+ */
+import type { CashHolding, ExchangeRate, Operation } from '@/lib/api';
+
+export const BASE_CURRENCY = 'EUR';
+
+export type RateMap = Record<string, number>;
+
+/** Index rates by currency code; the base currency is always 1. */
+export function toRateMap(rates: ExchangeRate[]): RateMap {
+  const map: RateMap = { [BASE_CURRENCY]: 1 };
+  for (const r of rates) {
+    if (r.rate > 0) map[r.currency_code.toUpperCase()] = r.rate;
+  }
+  return map;
+}
+
+/** Convert a local amount to base currency; null when the currency has no rate. */
+export function convertToBase(amount: number, currency: string, rates: RateMap): number | null {
+  const code = (currency || BASE_CURRENCY).toUpperCase();
+  const rate = rates[code];
+  if (!rate || rate <= 0) return null;
+  return amount / rate;
+}
+
+/**
+ * Convert a cash holding to base currency at its own rate, falling back to the stored USD value
+ * when the currency has no rate; null when neither converts.
+ */
+export function convertCashToBase(cash: Pick<CashHolding, 'amount' | 'currency_code' | 'usd_value'>, rates: RateMap): number | null {
+  return convertToBase(cash.amount, cash.currency_code, rates)
+    ?? (cash.usd_value ? convertToBase(cash.usd_value, 'USD', rates) : null);
+}
+
+/** Sum cash holdings in base currency; holdings that do not convert are left out. */
+export function getCashTotalBase(holdings: CashHolding[], rates: ExchangeRate[]): number {
+  const rateMap = toRateMap(rates);
+  return holdings.reduce((total, cash) => total + (convertCashToBase(cash, rateMap) ?? 0), 0);
+}
+
+/** Convert a base-currency amount to the given currency; null when the currency has no rate. */
+export function convertFromBase(amount: number, currency: string, rates: RateMap): number | null {
+  const code = (currency || BASE_CURRENCY).toUpperCase();
+  const rate = rates[code];
+  if (!rate || rate <= 0) return null;
+  return amount * rate;
+}
+
+/** Rate recorded on an operation at trade time; 1 for base-currency operations, null when not recorded. */
+export function operationFxRate(op: Pick<Operation, 'currency' | 'fx_rate'>): number | null {
+  if ((op.currency || BASE_CURRENCY).toUpperCase() === BASE_CURRENCY) return 1;
+  return op.fx_rate && op.fx_rate > 0 ? op.fx_rate : null;
+}
+
+/** Convert an operation's amount at its recorded trade-date rate, falling back to the rate table. */
+export function convertOperationToBase(amount: number, op: Pick<Operation, 'currency' | 'fx_rate'>, rates: RateMap): number | null {
+  const rate = operationFxRate(op);
+  return rate ? amount / rate : convertToBase(amount, op.currency, rates);
+}
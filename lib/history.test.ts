@@ -0,0 +1,65 @@
+import {
+  EMPTY_HISTORY_FILTERS,
+  buildHistoryRows,
+  closingBalances,
+  filterHistoryRows,
+  groupByMonth,
+  pageCount,
+  pageRows,
+} from './history';
+import type { Operation, OperationType } from '@/lib/api';
+
+function op(id: number, type: OperationType, date: string, quantity: number, price: number, extra: Partial<Operation> = {}): Operation {
+  return { ...({} as Operation), id, operation_type: type, ticker: '', currency: 'USD', quantity, price, amount: 0, note: '', trade_date: date, ...extra };
+}
+
+const ledger: Operation[] = [
+  op(4, 'Dividend', '15.02.2024', 5, 0, { ticker: 'AAPL', note: 'Q1 dividend' }),
+  op(1, 'Deposit', '02.01.2024', 1000, 0),
+  op(2, 'Buy', '03.01.2024', 2, 150, { ticker: 'AAPL' }),
+  op(3, 'Deposit', '10.01.2024', 500, 0, { currency: 'EUR', note: 'Bonus' }),
+  op(5, 'Sell', '20.02.2024', 1, 200, { ticker: 'AAPL' }),
+  op(6, 'Withdraw', '01.03.2024', 100, 0, { currency: 'EUR' }),
+];
+
+describe('history', () => {
+  it('computes running balances per currency, newest first', () => {
+    const rows = buildHistoryRows(ledger);
+    expect(rows.map((r) => [r.op.id, r.balance])).toEqual([
+      [6, 400],
+      [5, 905],
+      [4, 705],
+      [3, 500],
+      [2, 700],
+      [1, 1000],
+    ]);
+    expect(closingBalances(rows)).toEqual({ EUR: 400, USD: 905 });
+  });
+
+  it('filters by type, ticker, currency, date range and note text', () => {
+    const rows = buildHistoryRows(ledger);
+    const ids = (filters: Partial<typeof EMPTY_HISTORY_FILTERS>) =>
+      filterHistoryRows(rows, { ...EMPTY_HISTORY_FILTERS, ...filters }).map((r) => r.op.id);
+    expect(ids({})).toEqual([6, 5, 4, 3, 2, 1]);
+    expect(ids({ types: ['Buy', 'Sell'] })).toEqual([5, 2]);
+    expect(ids({ ticker: 'aap' })).toEqual([5, 4, 2]);
+    expect(ids({ currency: 'EUR' })).toEqual([6, 3]);
+    expect(ids({ from: '2024-01-10', to: '2024-02-15' })).toEqual([4, 3]);
+    expect(ids({ search: 'DIVIDEND' })).toEqual([4]);
+    // A filtered row keeps the balance from the full ledger.
+    expect(filterHistoryRows(rows, { ...EMPTY_HISTORY_FILTERS, types: ['Sell'] })[0].balance).toBe(905);
+  });
+
+  it('groups rows by month and pages them', () => {
+    const groups = groupByMonth(buildHistoryRows(ledger));
+    expect(groups.map((g) => [g.label, g.rows.length])).toEqual([
+      ['March 2024', 1],
+      ['February 2024', 2],
+      ['January 2024', 3],
+    ]);
+    expect(pageCount(0, 2)).toBe(1);
+    expect(pageCount(5, 2)).toBe(3);
+    expect(pageRows([1, 2, 3, 4, 5], 3, 2)).toEqual([5]);
+    expect(pageRows([1, 2, 3, 4, 5], 9, 2)).toEqual([5]);
+  });
+});
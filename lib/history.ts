@@ -0,0 +1,122 @@
+/**
+ * History page model: running cash balance per currency, filters, month grouping and paging.
+ * Balances are computed over the full ledger before filtering, so a filtered row still shows
+ * the balance the account had after that operation.
+ */
+import type { Operation, OperationType } from '@/lib/api';
+import { cashDelta } from '@/lib/ledger';
+import { compareByTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export type HistoryRow = {
+  op: Operation;
+  /** Cash balance in op.currency after this operation. */
+  balance: number;
+};
+
+export type HistoryFilters = {
+  /** Empty means every type. */
+  types: OperationType[];
+  ticker: string;
+  /** Empty means every currency. */
+  currency: string;
+  /** Inclusive bounds as YYYY-MM-DD (date input value); empty means open. */
+  from: string;
+  to: string;
+  /** Case-insensitive match on the note. */
+  search: string;
+};
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { types: [], ticker: '', currency: '', from: '', to: '', search: '' };
+
+export const HISTORY_PAGE_SIZE = 50;
+
+const currencyOf = (op: Operation) => (op.currency || '').toUpperCase();
+
+/** Rows newest first, each with the running balance of its currency. */
+export function buildHistoryRows(operations: Operation[]): HistoryRow[] {
+  const balances = new Map<string, number>();
+  const rows = [...operations].sort(compareByTradeDate).map((op) => {
+    const currency = currencyOf(op);
+    const balance = (balances.get(currency) ?? 0) + cashDelta(op);
+    balances.set(currency, balance);
+    return { op, balance };
+  });
+  return rows.reverse();
+}
+
+/** Closing balance per currency (the newest row of each currency). */
+export function closingBalances(rows: HistoryRow[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const row of rows) {
+    const currency = currencyOf(row.op);
+    if (!(currency in out)) out[currency] = row.balance;
+  }
+  return out;
+}
+
+export function isFiltered(filters: HistoryFilters): boolean {
+  return (
+    filters.types.length > 0 ||
+    !!filters.ticker.trim() ||
+    !!filters.currency ||
+    !!filters.from ||
+    !!filters.to ||
+    !!filters.search.trim()
+  );
+}
+
+export function filterHistoryRows(rows: HistoryRow[], filters: HistoryFilters): HistoryRow[] {
+  const ticker = filters.ticker.trim().toUpperCase();
+  const search = filters.search.trim().toLowerCase();
+  const from = filters.from ? parseTradeDate(filters.from)?.getTime() ?? null : null;
+  const to = filters.to ? parseTradeDate(filters.to)?.getTime() ?? null : null;
+  return rows.filter(({ op }) => {
+    if (filters.types.length > 0 && !filters.types.includes(op.operation_type)) return false;
+    if (ticker && !(op.ticker || '').toUpperCase().includes(ticker)) return false;
+    if (filters.currency && currencyOf(op) !== filters.currency) return false;
+    if (from !== null || to !== null) {
+      const time = parseTradeDate(op.trade_date)?.getTime();
+      if (time === undefined) return false;
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+    }
+    if (search && !(op.note || '').toLowerCase().includes(search)) return false;
+    return true;
+  });
+}
+
+export type MonthGroup = {
+  /** YYYY-MM, or '' for unparseable dates. */
+  key: string;
+  label: string;
+  rows: HistoryRow[];
+};
+
+/** Consecutive rows grouped by trade month, keeping row order. */
+export function groupByMonth(rows: HistoryRow[]): MonthGroup[] {
+  const groups: MonthGroup[] = [];
+  for (const row of rows) {
+    const date = parseTradeDate(row.op.trade_date);
+    const key = date ? `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}` : '';
+    const last = groups[groups.length - 1];
+    if (last && last.key === key) {
+      last.rows.push(row);
+      continue;
+    }
+    const label = date
+      ? date.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+      : 'Unknown date';
+    groups.push({ key, label, rows: [row] });
+  }
+  return groups;
+}
+
+export function pageCount(total: number, pageSize: number = HISTORY_PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/** Rows of a 1-based page; out-of-range pages are clamped. */
+export function pageRows<T>(rows: T[], page: number, pageSize: number = HISTORY_PAGE_SIZE): T[] {
+  const current = Math.min(Math.max(1, page), pageCount(rows.length, pageSize));
+  return rows.slice((current - 1) * pageSize, current * pageSize);
+}
@@ -0,0 +1,71 @@
+import { buildHousehold, type PortfolioSnapshot } from './household';
+import { getConcentration, getSectorRebalanceSummary } from '@/lib/portfolioInsights';
+import type { CashHolding, ExchangeRate, PortfolioMetrics, Stock } from '@/lib/api';
+
+function stock(ticker: string, isin: string, sector: string, weight: number, shares: number, avgPrice = 100): Stock {
+  return { ...({} as Stock), id: shares, ticker, isin, sector, weight, shares_owned: shares, avg_price_local: avgPrice, current_price: 120, currency: 'USD' };
+}
+
+function snapshot(portfolioId: number, name: string, totalValue: number, stocks: Stock[], sectorWeights: Record<string, number>, cash: CashHolding[] = []): PortfolioSnapshot {
+  const summary = { ...({} as PortfolioMetrics), total_value: totalValue, overall_ev: portfolioId * 10, sector_weights: sectorWeights };
+  return { portfolioId, name, summary: { summary, stocks }, cash };
+}
+
+const rates: ExchangeRate[] = [{ ...({} as ExchangeRate), currency_code: 'USD', rate: 1.25 }];
+
+const personal = snapshot(1, 'Personal', 10000, [
+  stock('AAPL', 'US0378331005', 'Technology', 0.6, 30, 100),
+  stock('NOVO-B.CO', 'DK0062498333', 'Healthcare', 0.4, 20),
+  stock('WATCH', '', 'Energy', 0, 0),
+], { Technology: 0.6, Healthcare: 0.4 }, [{ ...({} as CashHolding), currency_code: 'EUR', amount: 1000 }]);
+
+const family = snapshot(2, 'Family', 30000, [
+  stock('AAPL.DE', 'US0378331005', 'Technology', 0.5, 10, 140),
+  stock('XOM', 'US30231G1022', 'Energy', 0.5, 40),
+], { Technology: 0.5, Energy: 0.5 }, [{ ...({} as CashHolding), currency_code: 'USD', amount: 500, usd_value: 500 }]);
+
+describe('household', () => {
+  const household = buildHousehold([personal, family], rates);
+
+  it('merges positions by ISIN across portfolios and keeps the per-portfolio split', () => {
+    expect(household.positions.map((p) => [p.stock.ticker, p.valueBase])).toEqual([
+      ['AAPL.DE', 21000],
+      ['XOM', 15000],
+      ['NOVO-B.CO', 4000],
+    ]);
+    const [apple] = household.positions;
+    expect(apple.holdings.map((h) => [h.portfolioName, h.valueBase])).toEqual([['Family', 15000], ['Personal', 6000]]);
+    expect(apple.stock.shares_owned).toBe(40);
+    expect(apple.stock.avg_price_local).toBeCloseTo((30 * 100 + 10 * 140) / 40, 10);
+    expect(apple.stock.weight).toBeCloseTo(21000 / 40000, 10);
+  });
+
+  it('combines sector weights, cash and metrics into one summary', () => {
+    const { summary } = household.summary;
+    expect(summary.total_value).toBe(40000);
+    expect(summary.sector_weights.Technology).toBeCloseTo(21000 / 40000, 10);
+    expect(summary.sector_weights.Energy).toBeCloseTo(15000 / 40000, 10);
+    expect(summary.overall_ev).toBeCloseTo((10 * 10000 + 20 * 30000) / 40000, 10);
+    expect(household.cashBase).toBeCloseTo(1000 + 500 / 1.25, 10);
+    expect(household.portfolios.map((p) => [p.name, p.positions, Math.round(p.sharePct)])).toEqual([
+      ['Personal', 2, 27],
+      ['Family', 2, 73],
+    ]);
+  });
+
+  it('feeds the existing insights unchanged', () => {
+    expect(getConcentration(household.summary.stocks)).toMatchObject({ maxPositionTicker: 'AAPL.DE' });
+    expect(getConcentration(household.summary.stocks).maxPositionPct).toBeCloseTo(52.5, 10);
+    const rebalance = getSectorRebalanceSummary(household.summary.summary.sector_weights, { Energy: { min: 40, max: 60 } });
+    expect(rebalance.under.map((d) => d.sector)).toEqual(['Energy']);
+  });
+
+  it('joins positions linked by ISIN in one portfolio and by ticker in another', () => {
+    const byTicker = snapshot(3, 'Kids', 1000, [stock('AAPL.DE', '', 'Technology', 1, 5)], { Technology: 1 });
+    const linked = buildHousehold([personal, byTicker, family], rates);
+    const apple = linked.positions.filter((p) => p.holdings.some((h) => h.stock.isin === 'US0378331005' || h.stock.ticker === 'AAPL.DE'));
+    expect(apple).toHaveLength(1);
+    expect(apple[0].holdings.map((h) => h.portfolioName).sort()).toEqual(['Family', 'Kids', 'Personal']);
+    expect(apple[0].stock.shares_owned).toBe(45);
+  });
+});
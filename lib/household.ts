@@ -0,0 +1,178 @@
+/**
+ * Household view: several portfolios merged into one PortfolioSummaryResponse so the existing
+ * insights (sector rebalance, concentration, suggested actions) run unchanged on the combined set.
+ *
+ * Each portfolio's position value is weight × total_value (equity, base currency). Positions are
+ * merged when they share an ISIN or a ticker; the merged stock carries the summed shares and
+ * values and its weight in the combined equity. Sector weights are recomputed from the
+ * portfolios' own sector_weights; EV, volatility, Sharpe and Kelly utilization are value-weighted
+ * averages (volatility ignores diversification between the books, so it is an upper bound).
+ */
+import type { CashHolding, ExchangeRate, PortfolioMetrics, PortfolioSummaryResponse, Stock } from '@/lib/api';
+import { getCashTotalBase } from '@/lib/fx';
+
+/** One portfolio's data; portfolioId is undefined for the backend's default portfolio. */
+export type PortfolioSnapshot = {
+  portfolioId: number | undefined;
+  name: string;
+  summary: PortfolioSummaryResponse;
+  cash: CashHolding[];
+};
+
+export type PositionHolding = {
+  portfolioId: number | undefined;
+  portfolioName: string;
+  stock: Stock;
+  valueBase: number;
+};
+
+export type HouseholdPosition = {
+  /** Merged stock: summed shares and values, weight in the combined equity (0–1). */
+  stock: Stock;
+  valueBase: number;
+  /** Per-portfolio holdings, largest first. */
+  holdings: PositionHolding[];
+};
+
+export type PortfolioBreakdown = {
+  portfolioId: number | undefined;
+  name: string;
+  equityBase: number;
+  cashBase: number;
+  totalBase: number;
+  /** Share of the household total (equity + cash), 0–100. */
+  sharePct: number;
+  positions: number;
+};
+
+export type Household = {
+  /** Combined summary; stocks are the merged positions. */
+  summary: PortfolioSummaryResponse;
+  positions: HouseholdPosition[];
+  cashBase: number;
+  portfolios: PortfolioBreakdown[];
+};
+
+const norm = (value: string | undefined) => (value || '').trim().toUpperCase();
+
+/**
+ * Shares-weighted average of a per-share field over the holdings quoted in the largest holding's
+ * currency (the same ISIN may be listed elsewhere in another currency).
+ */
+function sharesWeighted(holdings: PositionHolding[], field: 'avg_price_local' | 'current_price'): number {
+  const currency = norm(holdings[0].stock.currency);
+  const same = holdings.filter((h) => norm(h.stock.currency) === currency);
+  const shares = same.reduce((sum, h) => sum + h.stock.shares_owned, 0);
+  return same.reduce((sum, h) => sum + h.stock[field] * h.stock.shares_owned, 0) / shares;
+}
+
+function mergeMetrics(snapshots: PortfolioSnapshot[]): PortfolioMetrics {
+  const total = snapshots.reduce((sum, s) => sum + (s.summary.summary?.total_value || 0), 0);
+  const weighted = (field: 'overall_ev' | 'weighted_volatility' | 'sharpe_ratio' | 'kelly_utilization') =>
+    total > 0
+      ? snapshots.reduce((sum, s) => sum + (s.summary.summary?.[field] || 0) * (s.summary.summary?.total_value || 0), 0) / total
+      : 0;
+
+  const sectorValue: Record<string, number> = {};
+  for (const s of snapshots) {
+    const value = s.summary.summary?.total_value || 0;
+    for (const [sector, weight] of Object.entries(s.summary.summary?.sector_weights ?? {})) {
+      sectorValue[sector] = (sectorValue[sector] ?? 0) + weight * value;
+    }
+  }
+  const sector_weights: Record<string, number> = {};
+  for (const [sector, value] of Object.entries(sectorValue)) {
+    sector_weights[sector] = total > 0 ? value / total : 0;
+  }
+
+  const realized = snapshots.map((s) => s.summary.summary?.realized_pnl).filter((v): v is number => v != null);
+  return {
+    total_value: total,
+    overall_ev: weighted('overall_ev'),
+    weighted_volatility: weighted('weighted_volatility'),
+    sharpe_ratio: weighted('sharpe_ratio'),
+    kelly_utilization: weighted('kelly_utilization'),
+    sector_weights,
+    realized_pnl: realized.length > 0 ? realized.reduce((a, b) => a + b, 0) : undefined,
+  };
+}
+
+/** Merge portfolios into one household; only held positions (shares_owned > 0) are merged. */
+export function buildHousehold(snapshots: PortfolioSnapshot[], rates: ExchangeRate[]): Household {
+  const metrics = mergeMetrics(snapshots);
+  const groups: { isins: Set<string>; tickers: Set<string>; holdings: PositionHolding[] }[] = [];
+
+  for (const snapshot of snapshots) {
+    const totalValue = snapshot.summary.summary?.total_value || 0;
+    for (const stock of snapshot.summary.stocks ?? []) {
+      if (!(stock.shares_owned > 0)) continue;
+      const isin = norm(stock.isin);
+      const ticker = norm(stock.ticker);
+      const matches = groups.filter((g) => (isin && g.isins.has(isin)) || (ticker && g.tickers.has(ticker)));
+      let group = matches[0];
+      if (!group) {
+        group = { isins: new Set(), tickers: new Set(), holdings: [] };
+        groups.push(group);
+      }
+      // Matching one group by ISIN and another by ticker means both hold this security: fold them together.
+      for (const other of matches.slice(1)) {
+        other.isins.forEach((i) => group.isins.add(i));
+        other.tickers.forEach((t) => group.tickers.add(t));
+        group.holdings.push(...other.holdings);
+        groups.splice(groups.indexOf(other), 1);
+      }
+      if (isin) group.isins.add(isin);
+      if (ticker) group.tickers.add(ticker);
+      group.holdings.push({
+        portfolioId: snapshot.portfolioId,
+        portfolioName: snapshot.name,
+        stock,
+        valueBase: stock.weight * totalValue,
+      });
+    }
+  }
+
+  const positions: HouseholdPosition[] = groups
+    .map(({ holdings }) => {
+      holdings.sort((a, b) => b.valueBase - a.valueBase);
+      const valueBase = holdings.reduce((sum, h) => sum + h.valueBase, 0);
+      const sum = (field: 'shares_owned' | 'current_value_usd' | 'unrealized_pnl') =>
+        holdings.reduce((total, h) => total + (h.stock[field] || 0), 0);
+      const stock: Stock = {
+        ...holdings[0].stock,
+        portfolio_id: undefined,
+        shares_owned: sum('shares_owned'),
+        current_value_usd: sum('current_value_usd'),
+        unrealized_pnl: sum('unrealized_pnl'),
+        avg_price_local: sharesWeighted(holdings, 'avg_price_local'),
+        current_price: sharesWeighted(holdings, 'current_price'),
+        weight: metrics.total_value > 0 ? valueBase / metrics.total_value : 0,
+      };
+      return { stock, valueBase, holdings };
+    })
+    .sort((a, b) => b.valueBase - a.valueBase);
+
+  const breakdown = snapshots.map((s) => ({
+    portfolioId: s.portfolioId,
+    name: s.name,
+    equityBase: s.summary.summary?.total_value || 0,
+    cashBase: getCashTotalBase(s.cash, rates),
+    positions: (s.summary.stocks ?? []).filter((stock) => stock.shares_owned > 0).length,
+  }));
+  const cashBase = breakdown.reduce((sum, p) => sum + p.cashBase, 0);
+  const grandTotal = metrics.total_value + cashBase;
+
+  return {
+    summary: {
+      summary: metrics,
+      stocks: positions.map((p) => p.stock),
+      units: snapshots.find((s) => s.summary.units)?.summary.units,
+    },
+    positions,
+    cashBase,
+    portfolios: breakdown.map((p) => {
+      const totalBase = p.equityBase + p.cashBase;
+      return { ...p, totalBase, sharePct: grandTotal > 0 ? (totalBase / grandTotal) * 100 : 0 };
+    }),
+  };
+}
@@ -0,0 +1,56 @@
+import { draftForExecution, dueDates, nextDueDate, planExecutions, planSchedule, withExecution, type InvestmentPlan } from './investmentPlans';
+import type { Stock } from '@/lib/api';
+
+function plan(partial: Partial<InvestmentPlan>): InvestmentPlan {
+  return { id: 'p', name: 'ETF', ticker: 'VWCE.DE', amount: 500, currency: 'EUR', cadence: 'monthly', startDate: '31.01.2024', executions: {}, ...partial };
+}
+
+const asOf = new Date(Date.UTC(2024, 4, 5));
+
+describe('investmentPlans', () => {
+  it('generates due dates per cadence, clamping to month end and stopping at the end date', () => {
+    const format = (dates: Date[]) => dates.map((d) => d.toISOString().slice(0, 10));
+    expect(format(dueDates(plan({}), new Date(Date.UTC(2024, 3, 30))))).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    expect(format(dueDates(plan({ cadence: 'biweekly', startDate: '01.01.2024' }), new Date(Date.UTC(2024, 0, 31))))).toEqual([
+      '2024-01-01', '2024-01-15', '2024-01-29',
+    ]);
+    expect(dueDates(plan({ cadence: 'quarterly', endDate: '01.06.2024' }), new Date(Date.UTC(2025, 0, 1)))).toHaveLength(2);
+    expect(dueDates(plan({ startDate: 'soon' }), asOf)).toEqual([]);
+  });
+
+  it('classifies executions as done, skipped, missed, due or upcoming', () => {
+    const p = plan({ executions: { '31.01.2024': 'done', '29.02.2024': 'skipped' } });
+    expect(planExecutions(p, asOf, 30).map((e) => [e.dueDate, e.status])).toEqual([
+      ['31.01.2024', 'done'],
+      ['29.02.2024', 'skipped'],
+      ['31.03.2024', 'missed'],
+      ['30.04.2024', 'due'],
+      ['31.05.2024', 'upcoming'],
+    ]);
+    const schedule = planSchedule([p, plan({ id: 'cash', name: 'Savings', ticker: '', startDate: '01.05.2024' })], asOf, 30);
+    expect(schedule.due.map((e) => [e.plan.id, e.dueDate])).toEqual([['p', '30.04.2024'], ['cash', '01.05.2024']]);
+    expect(schedule.missed).toHaveLength(1);
+    expect(schedule.upcoming.map((e) => e.dueDate)).toEqual(['31.05.2024', '01.06.2024']);
+    expect(nextDueDate(p, asOf)).toBe('31.05.2024');
+    expect(nextDueDate(plan({ endDate: '01.03.2024' }), asOf)).toBeNull();
+  });
+
+  it('records and clears execution outcomes without mutating the plan', () => {
+    const p = plan({});
+    const done = withExecution(p, '31.01.2024', 'done');
+    expect(done.executions).toEqual({ '31.01.2024': 'done' });
+    expect(p.executions).toEqual({});
+    expect(withExecution(done, '31.01.2024', null).executions).toEqual({});
+  });
+
+  it('drafts a fractional Buy at the fill price, or a Deposit for cash plans', () => {
+    const stock = { ...({} as Stock), id: 7, ticker: 'VWCE.DE', isin: 'IE00BK5BQT80', company_name: 'Vanguard FTSE All-World', sector: 'ETF' };
+    const [execution] = planExecutions(plan({}), asOf, 0);
+    expect(draftForExecution(execution, 112.5, stock)).toMatchObject({
+      operation_type: 'Buy', ticker: 'VWCE.DE', stock_id: 7, isin: 'IE00BK5BQT80', quantity: 4.444444, price: 112.5, trade_date: '31.01.2024',
+    });
+    expect(draftForExecution(execution, null).quantity).toBe(0);
+    const [cash] = planExecutions(plan({ ticker: '', name: 'Savings' }), asOf, 0);
+    expect(draftForExecution(cash, null)).toMatchObject({ operation_type: 'Deposit', quantity: 500, currency: 'EUR', note: 'Plan "Savings" (due 31.01.2024)' });
+  });
+});
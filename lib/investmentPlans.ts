@@ -0,0 +1,183 @@
+/**
+ * Recurring investment plans (dollar-cost averaging): a fixed amount into a ticker, or a cash
+ * deposit, on a cadence from a start date. Every due date is an execution; executions that have
+ * not been confirmed or skipped are due, and become missed once overdue by MISSED_AFTER_DAYS.
+ * Confirming an execution records the actual fill as an operation.
+ */
+import type { OperationType, Stock } from '@/lib/api';
+import { daysBetween, formatTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export type PlanCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+export const PLAN_CADENCES: { value: PlanCadence; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+];
+
+/** Days past the due date after which an unconfirmed execution counts as missed. */
+export const MISSED_AFTER_DAYS = 7;
+/** How far ahead upcoming executions are listed. */
+export const UPCOMING_DAYS = 45;
+/** Safety cap on generated dates per plan (about 20 years of weekly executions). */
+const MAX_EXECUTIONS = 1040;
+
+export type ExecutionOutcome = 'done' | 'skipped';
+
+export type InvestmentPlan = {
+  id: string;
+  name: string;
+  /** Empty for a cash plan (recurring deposit). */
+  ticker: string;
+  amount: number;
+  currency: string;
+  cadence: PlanCadence;
+  /** First execution, DD.MM.YYYY. */
+  startDate: string;
+  /** Last possible execution, DD.MM.YYYY; open-ended when empty. */
+  endDate?: string;
+  /** Handled executions keyed by due date (DD.MM.YYYY). */
+  executions: Record<string, ExecutionOutcome>;
+};
+
+export type ExecutionStatus = 'upcoming' | 'due' | 'missed' | ExecutionOutcome;
+
+export type PlanExecution = {
+  plan: InvestmentPlan;
+  /** DD.MM.YYYY */
+  dueDate: string;
+  status: ExecutionStatus;
+  /** Days past the due date; negative for upcoming executions. */
+  daysOverdue: number;
+};
+
+export type PlanSchedule = {
+  due: PlanExecution[];
+  missed: PlanExecution[];
+  upcoming: PlanExecution[];
+};
+
+/** Operation drafted for an execution; compatible with AddOperationModal initial values. */
+export type PlanDraft = {
+  operation_type: OperationType;
+  ticker?: string;
+  isin?: string;
+  company_name?: string;
+  sector?: string;
+  currency: string;
+  stock_id?: number;
+  quantity: number;
+  price?: number;
+  note: string;
+  trade_date: string;
+};
+
+export const isCashPlan = (plan: Pick<InvestmentPlan, 'ticker'>) => !plan.ticker.trim();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** The n-th date of the cadence; month-based cadences clamp to the last day of shorter months. */
+function nthDate(start: Date, cadence: PlanCadence, n: number): Date {
+  if (cadence === 'weekly' || cadence === 'biweekly') {
+    return new Date(start.getTime() + n * (cadence === 'weekly' ? 7 : 14) * DAY_MS);
+  }
+  const months = n * (cadence === 'monthly' ? 1 : 3);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay)));
+}
+
+/** Due dates of a plan from its start up to and including `until` (and its end date, if any). */
+export function dueDates(plan: InvestmentPlan, until: Date): Date[] {
+  const start = parseTradeDate(plan.startDate);
+  if (!start) return [];
+  const end = parseTradeDate(plan.endDate);
+  const limit = end && end < until ? end : until;
+  const out: Date[] = [];
+  for (let n = 0; n < MAX_EXECUTIONS; n++) {
+    const date = nthDate(start, plan.cadence, n);
+    if (date > limit) break;
+    out.push(date);
+  }
+  return out;
+}
+
+/** Every execution of a plan up to asOf + horizonDays, oldest first. */
+export function planExecutions(plan: InvestmentPlan, asOf: Date = new Date(), horizonDays = UPCOMING_DAYS): PlanExecution[] {
+  const today = startOfDay(asOf);
+  const until = new Date(today.getTime() + horizonDays * DAY_MS);
+  return dueDates(plan, until).map((date) => {
+    const dueDate = formatTradeDate(date);
+    const daysOverdue = daysBetween(date, today);
+    const outcome = plan.executions[dueDate];
+    const status: ExecutionStatus = outcome ?? (daysOverdue < 0 ? 'upcoming' : daysOverdue > MISSED_AFTER_DAYS ? 'missed' : 'due');
+    return { plan, dueDate, status, daysOverdue };
+  });
+}
+
+/** Open executions across plans: due now, missed (oldest first) and upcoming (soonest first). */
+export function planSchedule(plans: InvestmentPlan[], asOf: Date = new Date(), horizonDays = UPCOMING_DAYS): PlanSchedule {
+  const all = plans.flatMap((plan) => planExecutions(plan, asOf, horizonDays));
+  const byDate = (a: PlanExecution, b: PlanExecution) =>
+    b.daysOverdue - a.daysOverdue || a.plan.name.localeCompare(b.plan.name);
+  return {
+    due: all.filter((e) => e.status === 'due').sort(byDate),
+    missed: all.filter((e) => e.status === 'missed').sort(byDate),
+    upcoming: all.filter((e) => e.status === 'upcoming').sort(byDate),
+  };
+}
+
+/** Next open execution date of a plan on or after asOf, or null when the plan has ended. */
+export function nextDueDate(plan: InvestmentPlan, asOf: Date = new Date()): string | null {
+  const today = startOfDay(asOf);
+  const start = parseTradeDate(plan.startDate);
+  const end = parseTradeDate(plan.endDate);
+  if (!start) return null;
+  for (let n = 0; n < MAX_EXECUTIONS; n++) {
+    const date = nthDate(start, plan.cadence, n);
+    if (end && date > end) return null;
+    if (date >= today && !plan.executions[formatTradeDate(date)]) return formatTradeDate(date);
+  }
+  return null;
+}
+
+/** Record (or clear, with null) the outcome of one execution. */
+export function withExecution(plan: InvestmentPlan, dueDate: string, outcome: ExecutionOutcome | null): InvestmentPlan {
+  const executions = { ...plan.executions };
+  if (outcome) executions[dueDate] = outcome;
+  else delete executions[dueDate];
+  return { ...plan, executions };
+}
+
+/**
+ * Operation for one execution. Cash plans deposit the amount; ticker plans buy amount ÷ fill price
+ * shares (fractional, rounded to 6 decimals). Without a fill price the quantity is left for the
+ * user to fill in.
+ */
+export function draftForExecution(execution: PlanExecution, fillPrice: number | null, stock?: Stock | null): PlanDraft {
+  const { plan, dueDate } = execution;
+  const note = `Plan "${plan.name}" (due ${dueDate})`;
+  if (isCashPlan(plan)) {
+    return { operation_type: 'Deposit', currency: plan.currency, quantity: plan.amount, note, trade_date: dueDate };
+  }
+  const price = fillPrice && fillPrice > 0 ? fillPrice : undefined;
+  return {
+    operation_type: 'Buy',
+    ticker: plan.ticker.trim().toUpperCase(),
+    isin: stock?.isin || undefined,
+    company_name: stock?.company_name || undefined,
+    sector: stock?.sector || undefined,
+    currency: plan.currency,
+    stock_id: stock?.id,
+    quantity: price ? Number((plan.amount / price).toFixed(6)) : 0,
+    price,
+    note,
+    trade_date: dueDate,
+  };
+}
@@ -0,0 +1,63 @@
+import { getKellyFraction, optimizeKellyWeights } from './kellyOptimizer';
+import type { Stock } from '@/lib/api';
+
+function stock(id: number, ticker: string, sector: string, kelly: number, weight = 0.25): Stock {
+  return { ...({} as Stock), id, ticker, sector, kelly_fraction: kelly, weight, shares_owned: 10 };
+}
+
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+
+describe('kellyOptimizer', () => {
+  it('derives f* from b_ratio and probability_positive when kelly_fraction is missing', () => {
+    const s = { ...({} as Stock), kelly_fraction: 0, b_ratio: 2, probability_positive: 0.6 };
+    expect(getKellyFraction(s)).toBeCloseTo(0.6 - 0.4 / 2, 10);
+    expect(getKellyFraction({ ...s, probability_positive: 0.2 })).toBe(0);
+    expect(getKellyFraction({ ...s, kelly_fraction: 12 })).toBeCloseTo(0.12, 10);
+  });
+
+  it('scales bets down to 100% when fractional Kelly oversubscribes the book', () => {
+    const stocks = [stock(1, 'A', 'X', 80), stock(2, 'B', 'Y', 40)];
+    const plan = optimizeKellyWeights(stocks, { multiplier: 1, positionCapPct: 100, targets: {} });
+    expect(plan.grossKellyPct).toBeCloseTo(120, 6);
+    expect(plan.investedPct).toBeCloseTo(100, 6);
+    expect(plan.targets.map((t) => t.ticker)).toEqual(['A', 'B']);
+    expect(plan.targets[0].targetPct).toBeCloseTo(200 / 3, 4);
+    expect(plan.targets[1].targetPct).toBeCloseTo(100 / 3, 4);
+  });
+
+  it('keeps the uninvested remainder in cash when Kelly sums below 100%', () => {
+    const stocks = [stock(1, 'A', 'X', 30), stock(2, 'B', 'Y', 10)];
+    const plan = optimizeKellyWeights(stocks, { multiplier: 0.5, positionCapPct: 100, targets: {} });
+    expect(plan.investedPct).toBeCloseTo(20, 6);
+    expect(sum(plan.targets.map((t) => t.targetPct))).toBeCloseTo(100, 4);
+    expect(plan.targets[0].bookPct).toBeCloseTo(15, 4);
+  });
+
+  it('caps positions and redistributes the excess', () => {
+    const stocks = [stock(1, 'A', 'X', 60), stock(2, 'B', 'X', 10), stock(3, 'C', 'X', 10), stock(4, 'D', 'X', 10)];
+    const plan = optimizeKellyWeights(stocks, { multiplier: 1, positionCapPct: 40, targets: {} });
+    const a = plan.targets.find((t) => t.ticker === 'A')!;
+    expect(a.targetPct).toBeCloseTo(40, 4);
+    expect(a.capped).toBe(true);
+    expect(plan.targets.find((t) => t.ticker === 'B')!.targetPct).toBeCloseTo(20, 4);
+    expect(plan.unallocatedPct).toBeCloseTo(0, 4);
+  });
+
+  it('holds sectors inside their bands', () => {
+    const stocks = [stock(1, 'A', 'Technology', 50), stock(2, 'B', 'Healthcare', 10), stock(3, 'C', 'Energy', 10)];
+    const targets = { technology: { min: 20, max: 40 }, Healthcare: { min: 30, max: 50 }, Energy: { min: 10, max: 30 } };
+    const plan = optimizeKellyWeights(stocks, { multiplier: 1, positionCapPct: 100, targets });
+    const bySector = Object.fromEntries(plan.sectors.map((s) => [s.sector, s.targetPct]));
+    expect(bySector.Technology).toBeCloseTo(40, 4);
+    expect(bySector.Healthcare).toBeCloseTo(30, 4);
+    expect(bySector.Energy).toBeCloseTo(30, 4);
+    expect(plan.unresolved).toEqual([]);
+  });
+
+  it('flags a sector band that no positive-edge position can fill', () => {
+    const stocks = [stock(1, 'A', 'Technology', 20), stock(2, 'B', 'Energy', -5)];
+    const plan = optimizeKellyWeights(stocks, { targets: { Energy: { min: 5, max: 8 } } });
+    expect(plan.targets.find((t) => t.ticker === 'B')!.targetPct).toBe(0);
+    expect(plan.unresolved).toEqual(['Energy']);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Multi-asset fractional Kelly optimizer: reconciles per-position Kelly fractions into one book.
+ * Each position bets multiplier × f* (f* from kelly_fraction, else b_ratio / probability_positive).
+ * Positions are capped, sectors are held inside their target bands, and the result is normalized
+ * to equity weights comparable with Stock.weight. Display-only.
+ */
+import type { Stock } from '@/lib/api';
+import { SECTOR_TARGET_PCT } from '@/lib/sectorTargets';
+
+type TargetMap = Record<string, { min: number; max: number }>;
+
+export const KELLY_MULTIPLIERS = [0.25, 0.5, 0.75, 1];
+
+export type KellyOptimizerOptions = {
+  /** Fraction of full Kelly to bet; defaults to 0.5 (half-Kelly). */
+  multiplier?: number;
+  /** Largest target weight per position, percent of equity; defaults to 15. */
+  positionCapPct?: number;
+  /** Sector bands in percent of equity; defaults to SECTOR_TARGET_PCT. */
+  targets?: TargetMap;
+};
+
+export type KellyTarget = {
+  stockId: number;
+  ticker: string;
+  sector: string;
+  /** Full Kelly fraction f*, percent of bankroll (0 when the edge is negative). */
+  kellyPct: number;
+  currentPct: number;
+  /** Target weight, percent of equity. */
+  targetPct: number;
+  /** Target as percent of the whole book when Kelly leaves part of it in cash. */
+  bookPct: number;
+  deltaPct: number;
+  capped: boolean;
+};
+
+export type KellySectorTarget = {
+  sector: string;
+  targetMin: number | null;
+  targetMax: number | null;
+  currentPct: number;
+  targetPct: number;
+  inBand: boolean;
+};
+
+export type KellyPlan = {
+  targets: KellyTarget[];
+  sectors: KellySectorTarget[];
+  /** Σ multiplier × f* before normalization, percent. Above 100 means the bets had to be scaled down. */
+  grossKellyPct: number;
+  /** Share of the book Kelly puts into equities (≤ 100). */
+  investedPct: number;
+  /** Equity weight left unassigned because caps and bands leave no room, percent of equity. */
+  unallocatedPct: number;
+  /** Sectors whose target weight still sits outside the band. */
+  unresolved: string[];
+};
+
+function getTarget(sector: string, targets: TargetMap): { min: number; max: number } | null {
+  const key = Object.keys(targets).find((k) => k.toLowerCase() === (sector || '').trim().toLowerCase());
+  return key ? targets[key] : null;
+}
+
+/**
+ * Full Kelly fraction (0-1). Prefers kelly_fraction (percent) and falls back to
+ * f* = p − (1 − p) / b from probability_positive and b_ratio. Negative edges size to 0.
+ */
+export function getKellyFraction(stock: Stock): number {
+  if (Number.isFinite(stock.kelly_fraction) && stock.kelly_fraction !== 0) {
+    return Math.max(0, stock.kelly_fraction / 100);
+  }
+  const p = stock.probability_positive;
+  const b = stock.b_ratio;
+  if (!Number.isFinite(p) || !Number.isFinite(b) || b <= 0 || p <= 0) return 0;
+  return Math.max(0, p - (1 - p) / b);
+}
+
+/**
+ * Values clamp(λ × demand, lo, hi) summing to total, with λ found by bisection.
+ * Returns the bounds when total is outside what they allow.
+ */
+function fitProportional(demand: number[], lo: number[], hi: number[], total: number): number[] {
+  const at = (lambda: number) => demand.map((d, i) => Math.min(hi[i], Math.max(lo[i], lambda * d)));
+  const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+  // Above this λ every position with demand sits at its upper bound.
+  const saturation = Math.max(0, ...demand.map((d, i) => (d > 0 ? hi[i] / d : 0)));
+  if (saturation <= 0) return [...lo];
+  let low = 0;
+  let high = saturation;
+  const ceiling = sum(at(high));
+  if (ceiling <= total) return at(high);
+  if (sum(at(0)) >= total) return at(0);
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (sum(at(mid)) < total) low = mid;
+    else high = mid;
+  }
+  return at(high);
+}
+
+/** Target weights from fractional Kelly with per-position caps and sector bands. */
+export function optimizeKellyWeights(stocks: Stock[], options: KellyOptimizerOptions = {}): KellyPlan {
+  const { multiplier = 0.5, positionCapPct = 15, targets = SECTOR_TARGET_PCT } = options;
+  const cap = Math.max(0, positionCapPct) / 100;
+  const positions = stocks
+    .filter((s) => s.shares_owned > 0)
+    .map((stock) => {
+      const kelly = getKellyFraction(stock);
+      return { stock, kelly, demand: multiplier * kelly, current: stock.weight };
+    });
+  const currentTotal = positions.reduce((sum, p) => sum + p.current, 0);
+
+  const grossKelly = positions.reduce((sum, p) => sum + p.demand, 0);
+  const invested = Math.min(1, positions.reduce((sum, p) => sum + Math.min(p.demand, cap), 0));
+
+  // Group by sector, keeping the first spelling seen.
+  const sectorNames: string[] = [];
+  const sectorIndex = new Map<string, number>();
+  const positionSector = positions.map((p) => {
+    const name = (p.stock.sector || '').trim() || 'Unknown';
+    const key = name.toLowerCase();
+    if (!sectorIndex.has(key)) {
+      sectorIndex.set(key, sectorNames.length);
+      sectorNames.push(name);
+    }
+    return sectorIndex.get(key)!;
+  });
+
+  const sectorDemand = sectorNames.map(() => 0);
+  const sectorCapacity = sectorNames.map(() => 0);
+  positions.forEach((p, i) => {
+    sectorDemand[positionSector[i]] += p.demand;
+    if (p.demand > 0) sectorCapacity[positionSector[i]] += cap;
+  });
+  const bands = sectorNames.map((name) => getTarget(name, targets));
+  const sectorHi = sectorNames.map((_, s) => Math.min(bands[s] ? bands[s]!.max / 100 : 1, sectorCapacity[s]));
+  const sectorLo = sectorNames.map((_, s) => Math.min(bands[s] ? bands[s]!.min / 100 : 0, sectorHi[s]));
+  const sectorTotals = invested > 0 ? fitProportional(sectorDemand, sectorLo, sectorHi, 1) : sectorNames.map(() => 0);
+
+  const weights = positions.map(() => 0);
+  sectorNames.forEach((_, s) => {
+    const members = positions.map((_, i) => i).filter((i) => positionSector[i] === s);
+    const fitted = fitProportional(
+      members.map((i) => positions[i].demand),
+      members.map(() => 0),
+      members.map(() => cap),
+      sectorTotals[s]
+    );
+    members.forEach((i, k) => { weights[i] = fitted[k]; });
+  });
+
+  const allocated = weights.reduce((sum, w) => sum + w, 0);
+  const targetsOut: KellyTarget[] = positions
+    .map((p, i) => {
+      const currentPct = currentTotal > 0 ? (p.current / currentTotal) * 100 : 0;
+      const targetPct = weights[i] * 100;
+      return {
+        stockId: p.stock.id,
+        ticker: p.stock.ticker,
+        sector: p.stock.sector ?? '',
+        kellyPct: p.kelly * 100,
+        currentPct,
+        targetPct,
+        bookPct: targetPct * invested,
+        deltaPct: targetPct - currentPct,
+        capped: p.demand > 0 && weights[i] >= cap - 1e-9,
+      };
+    })
+    .sort((a, b) => b.targetPct - a.targetPct);
+
+  const sectors: KellySectorTarget[] = sectorNames.map((sector, s) => {
+    const currentPct = positions.reduce(
+      (sum, p, i) => sum + (positionSector[i] === s && currentTotal > 0 ? (p.current / currentTotal) * 100 : 0),
+      0
+    );
+    const targetPct = sectorTotals[s] * 100;
+    const band = bands[s];
+    const inBand = !band || (targetPct >= band.min - 0.05 && targetPct <= band.max + 0.05);
+    return { sector, targetMin: band?.min ?? null, targetMax: band?.max ?? null, currentPct, targetPct, inBand };
+  });
+
+  return {
+    targets: targetsOut,
+    sectors,
+    grossKellyPct: grossKelly * 100,
+    investedPct: invested * 100,
+    unallocatedPct: Math.max(0, 1 - allocated) * 100,
+    unresolved: sectors.filter((s) => !s.inBand).map((s) => s.sector),
+  };
+}
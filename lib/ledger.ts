@@ -0,0 +1,52 @@
+/**
+ * Operations ledger helpers shared by history, returns and reconciliation views.
+ */
+import type { Operation, OperationType } from '@/lib/api';
+
+/** Corporate actions change share counts or cost basis without moving cash. */
+export const CORPORATE_ACTION_TYPES: OperationType[] = ['Split', 'Reverse Split', 'Spin-off'];
+
+export function isCorporateAction(op: Pick<Operation, 'operation_type'>): boolean {
+  return CORPORATE_ACTION_TYPES.includes(op.operation_type);
+}
+
+/**
+ * Share multiplier of a split: Split and Reverse Split carry the ratio in quantity (10 for a 10:1
+ * split or a 1:10 reverse split). 1 for other operations and invalid ratios.
+ */
+export function splitFactor(op: Operation): number {
+  if (!(op.quantity > 0)) return 1;
+  if (op.operation_type === 'Split') return op.quantity;
+  if (op.operation_type === 'Reverse Split') return 1 / op.quantity;
+  return 1;
+}
+
+/**
+ * Cash amount of an operation in its currency (always positive).
+ * Buy/Sell without a stored amount fall back to quantity × price; cash operations entered through
+ * AddOperationModal carry the amount in quantity. Corporate actions have no cash amount.
+ */
+export function operationAmount(op: Operation): number {
+  if (isCorporateAction(op)) return 0;
+  if (op.amount) return Math.abs(op.amount);
+  if (op.operation_type === 'Buy' || op.operation_type === 'Sell') return Math.abs(op.quantity * op.price);
+  return Math.abs(op.quantity);
+}
+
+/** Signed effect of an operation on the cash balance in its currency. */
+export function cashDelta(op: Operation): number {
+  const amount = operationAmount(op);
+  switch (op.operation_type) {
+    case 'Deposit':
+    case 'Sell':
+    case 'Dividend':
+      return amount;
+    case 'Withdraw':
+    case 'Buy':
+    case 'Fee':
+    case 'Withholding Tax':
+      return -amount;
+    default:
+      return 0;
+  }
+}
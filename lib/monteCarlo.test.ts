@@ -0,0 +1,54 @@
+import { simulatePortfolio, createRandom, type SimulationPosition } from './monteCarlo';
+
+const position: SimulationPosition = {
+  ticker: 'A',
+  value: 1000,
+  upsidePotential: 30,
+  downsideRisk: -20,
+  probabilityPositive: 0.6,
+  volatility: 30,
+};
+
+describe('monteCarlo', () => {
+  it('is reproducible for a given seed', () => {
+    const request = { positions: [position], cash: 0, paths: 500, correlation: 0.3, seed: 42 };
+    expect(simulatePortfolio(request)).toEqual(simulatePortfolio(request));
+  });
+
+  it('centers the distribution on the expected value', () => {
+    const result = simulatePortfolio({ positions: [position], cash: 0, paths: 20000, correlation: 0, seed: 7 });
+    // EV = 0.6 × 30% + 0.4 × −20% = +10%
+    expect(result.mean / result.startValue - 1).toBeCloseTo(0.1, 1);
+    expect(result.probabilityOfLoss).toBeGreaterThan(0);
+    expect(result.probabilityOfLoss).toBeLessThan(1);
+  });
+
+  it('orders percentiles and reports tail loss at least as large as VaR', () => {
+    const result = simulatePortfolio({ positions: [position, { ...position, ticker: 'B' }], cash: 500, paths: 5000, correlation: 0.5, seed: 3 });
+    const values = result.percentiles.map((p) => p.value);
+    expect([...values].sort((a, b) => a - b)).toEqual(values);
+    expect(result.expectedShortfall95).toBeGreaterThanOrEqual(result.valueAtRisk95);
+    expect(result.histogram.reduce((sum, b) => sum + b.count, 0)).toBe(5000);
+    expect(result.startValue).toBe(2500);
+  });
+
+  it('keeps cash flat and never loses more than the position', () => {
+    const result = simulatePortfolio({
+      positions: [{ ...position, downsideRisk: -100, volatility: 200 }],
+      cash: 100,
+      paths: 2000,
+      correlation: 0,
+      seed: 1,
+    });
+    expect(result.percentiles[0].value).toBeGreaterThanOrEqual(100);
+  });
+
+  it('createRandom yields values in [0, 1)', () => {
+    const random = createRandom(123);
+    for (let i = 0; i < 1000; i++) {
+      const v = random();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
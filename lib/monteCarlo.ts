@@ -0,0 +1,154 @@
+/**
+ * Monte Carlo outcome simulator: samples 12-month portfolio values from each position's
+ * upside_potential, downside_risk, probability_positive and volatility.
+ *
+ * Per position, a path lands in the upside or downside scenario (probability_positive),
+ * then gets Gaussian noise sized so the total spread matches volatility where possible.
+ * Scenario draws share a market factor (one-factor Gaussian copula) so positions move together.
+ * Pure and seeded so it runs the same in the Web Worker and in tests.
+ */
+
+export type SimulationPosition = {
+  ticker: string;
+  /** Position value in base currency. */
+  value: number;
+  /** Percent, e.g. 25 for +25%. */
+  upsidePotential: number;
+  /** Percent, e.g. -20 for −20% (sign is normalized). */
+  downsideRisk: number;
+  /** 0-1 fraction. */
+  probabilityPositive: number;
+  /** Annualized volatility in percent. */
+  volatility: number;
+};
+
+export type SimulationRequest = {
+  positions: SimulationPosition[];
+  /** Cash in base currency, held flat over the horizon. */
+  cash: number;
+  paths: number;
+  /** Pairwise correlation of scenario draws, 0-1. */
+  correlation: number;
+  seed?: number;
+  /** Histogram bucket count. */
+  buckets?: number;
+};
+
+export type SimulationResult = {
+  paths: number;
+  startValue: number;
+  mean: number;
+  percentiles: { p: number; value: number }[];
+  probabilityOfLoss: number;
+  /** 95% value at risk: loss at the 5th percentile (positive number). */
+  valueAtRisk95: number;
+  /** 95% expected shortfall: average loss in the worst 5% of paths (positive number). */
+  expectedShortfall95: number;
+  histogram: { from: number; to: number; count: number }[];
+};
+
+export const SIMULATION_PERCENTILES = [5, 25, 50, 75, 95];
+
+/** Small, fast seeded PRNG (mulberry32). */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const s = spare;
+      spare = null;
+      return s;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    const mag = Math.sqrt(-2 * Math.log(u));
+    spare = mag * Math.sin(2 * Math.PI * v);
+    return mag * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26). */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + y) / 2 : (1 - y) / 2;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+type PreparedPosition = { value: number; p: number; up: number; down: number; noise: number };
+
+function prepare(pos: SimulationPosition): PreparedPosition {
+  const p = Math.min(1, Math.max(0, pos.probabilityPositive));
+  const up = (pos.upsidePotential || 0) / 100;
+  const down = -Math.abs(pos.downsideRisk || 0) / 100;
+  const sigma = Math.max(0, pos.volatility || 0) / 100;
+  const scenarioVariance = p * (1 - p) * (up - down) * (up - down);
+  return { value: pos.value, p, up, down, noise: Math.sqrt(Math.max(0, sigma * sigma - scenarioVariance)) };
+}
+
+export function simulatePortfolio(request: SimulationRequest): SimulationResult {
+  const paths = Math.max(1, Math.floor(request.paths));
+  const rho = Math.min(0.99, Math.max(0, request.correlation));
+  const random = createRandom(request.seed ?? Date.now());
+  const normal = createNormal(random);
+  const positions = request.positions.filter((p) => p.value > 0).map(prepare);
+  const startValue = positions.reduce((sum, p) => sum + p.value, 0) + request.cash;
+
+  const values = new Array<number>(paths);
+  for (let i = 0; i < paths; i++) {
+    const market = normal();
+    let total = request.cash;
+    for (const pos of positions) {
+      const z = Math.sqrt(rho) * market + Math.sqrt(1 - rho) * normal();
+      const center = normalCdf(z) < pos.p ? pos.up : pos.down;
+      const r = Math.max(-1, center + pos.noise * normal());
+      total += pos.value * (1 + r);
+    }
+    values[i] = total;
+  }
+  values.sort((a, b) => a - b);
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / paths;
+  const tailCount = Math.max(1, Math.floor(paths * 0.05));
+  const tailMean = values.slice(0, tailCount).reduce((sum, v) => sum + v, 0) / tailCount;
+  const p5 = percentile(values, 5);
+
+  const bucketCount = Math.max(1, request.buckets ?? 30);
+  const min = values[0];
+  const max = values[paths - 1];
+  const width = max > min ? (max - min) / bucketCount : 1;
+  const histogram = Array.from({ length: bucketCount }, (_, b) => ({ from: min + b * width, to: min + (b + 1) * width, count: 0 }));
+  for (const v of values) {
+    const b = Math.min(bucketCount - 1, Math.floor((v - min) / width));
+    histogram[b].count += 1;
+  }
+
+  return {
+    paths,
+    startValue,
+    mean,
+    percentiles: SIMULATION_PERCENTILES.map((p) => ({ p, value: percentile(values, p) })),
+    probabilityOfLoss: values.filter((v) => v < startValue).length / paths,
+    valueAtRisk95: Math.max(0, startValue - p5),
+    expectedShortfall95: Math.max(0, startValue - tailMean),
+    histogram,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Web Worker entry for the Monte Carlo simulator, so sampling does not block the analysis page.
+ */
+import { simulatePortfolio, type SimulationRequest, type SimulationResult } from '@/lib/monteCarlo';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<SimulationRequest>) => void) | null;
+  postMessage: (message: { result?: SimulationResult; error?: string }) => void;
+};
+
+ctx.onmessage = (event) => {
+  try {
+    ctx.postMessage({ result: simulatePortfolio(event.data) });
+  } catch (err) {
+    ctx.postMessage({ error: err instanceof Error ? err.message : 'Simulation failed' });
+  }
+};
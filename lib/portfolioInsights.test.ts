@@ -23,13 +23,6 @@ describe('portfolioInsights', () => {
       expect(summary.under[0].sector).toBe('Energy');
     });
 
-    it('accepts sector weights as 0-100 (percentage)', () => {
-      const weights = { Healthcare: 40 };
-      const summary = getSectorRebalanceSummary(weights);
-      expect(summary.over).toHaveLength(1);
-      expect(summary.over[0].currentPct).toBe(40);
-    });
-
     it('uses customTargets when provided', () => {
       const weights = { Healthcare: 0.28 };
       const defaultSummary = getSectorRebalanceSummary(weights);
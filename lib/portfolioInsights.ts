@@ -19,12 +19,6 @@ export type RebalanceSummary = {
   noTarget: { sector: string; currentPct: number }[];
 };
 
-/** Normalize sector weight to percentage (backend may send 0-1 or 0-100). */
-function toPct(weight: number): number {
-  if (weight > 0 && weight <= 1) return weight * 100;
-  return weight;
-}
-
 type TargetMap = Record<string, { min: number; max: number }>;
 
 /** Get target min/max for sector (case-insensitive). */
@@ -36,7 +30,7 @@ function getTarget(sectorName: string, targets: TargetMap): { min: number; max:
 }
 
 /**
- * Classify sectors vs targets. Uses equity-only sector_weights (0-1 or 0-100).
+ * Classify sectors vs targets. Uses equity-only sector_weights (0-1 fractions).
  * Pass optional targets (e.g. from persisted settings); otherwise uses default SECTOR_TARGET_PCT.
  */
 export function getSectorRebalanceSummary(
@@ -50,7 +44,7 @@ export function getSectorRebalanceSummary(
   const noTarget: { sector: string; currentPct: number }[] = [];
 
   for (const [sector, weight] of Object.entries(sectorWeights)) {
-    const currentPct = toPct(weight);
+    const currentPct = weight * 100;
     const target = getTarget(sector, targets);
     if (!target) {
       noTarget.push({ sector, currentPct });
@@ -211,7 +205,7 @@ export function getSuggestedActions(
       continue;
     }
     const ev = stock.expected_value;
-    const weightPct = stock.weight != null ? (stock.weight <= 1 ? stock.weight * 100 : stock.weight) : 0;
+    const weightPct = (stock.weight ?? 0) * 100;
     const halfKelly = stock.half_kelly_suggested ?? 0;
     if (ev != null && ev > 15 && halfKelly > 0 && weightPct < halfKelly) {
       actions.push({ type: 'high_ev_underweight', stock });
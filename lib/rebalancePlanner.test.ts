@@ -0,0 +1,96 @@
+import { planSectorRebalance } from './rebalancePlanner';
+import type { Stock } from '@/lib/api';
+
+function stock(id: number, ticker: string, sector: string, weight: number, shares: number): Stock {
+  return {
+    ...({} as Stock),
+    id,
+    ticker,
+    sector,
+    weight,
+    shares_owned: shares,
+    current_price: 100,
+    currency: 'USD',
+  };
+}
+
+const targets = {
+  Healthcare: { min: 25, max: 30 },
+  Technology: { min: 15, max: 18 },
+  Energy: { min: 40, max: 60 },
+};
+
+describe('rebalancePlanner', () => {
+  describe('planSectorRebalance', () => {
+    const stocks = [
+      stock(1, 'HC', 'Healthcare', 0.4, 40),
+      stock(2, 'TECH', 'Technology', 0.1, 10),
+      stock(3, 'OIL', 'Energy', 0.5, 50),
+    ];
+    const sectorWeights = { Healthcare: 0.4, Technology: 0.1, Energy: 0.5 };
+
+    it('sells over-weight and buys under-weight sectors in whole shares', () => {
+      const plan = planSectorRebalance(stocks, sectorWeights, 10000, { targets, useCash: false });
+      const sell = plan.orders.find((o) => o.side === 'Sell');
+      const buy = plan.orders.find((o) => o.side === 'Buy');
+      expect(sell?.ticker).toBe('HC');
+      expect(buy?.ticker).toBe('TECH');
+      expect(Number.isInteger(sell!.shares)).toBe(true);
+      expect(Number.isInteger(buy!.shares)).toBe(true);
+      expect(plan.buyCostBase).toBeLessThanOrEqual(plan.sellProceedsBase);
+      expect(plan.unresolved).toEqual([]);
+      for (const s of plan.sectors) expect(s.inBand).toBe(true);
+    });
+
+    it('never sells more shares than owned', () => {
+      const plan = planSectorRebalance(stocks, sectorWeights, 10000, {
+        targets: { ...targets, Healthcare: { min: 0, max: 0 } },
+        useCash: false,
+      });
+      const sell = plan.orders.find((o) => o.ticker === 'HC');
+      expect(sell?.shares).toBe(40);
+    });
+
+    it('funds buys from cash above the cash target minimum', () => {
+      const plan = planSectorRebalance(
+        [stock(1, 'TECH', 'Technology', 0.1, 10), stock(2, 'OIL', 'Energy', 0.9, 90)],
+        { Technology: 0.1, Energy: 0.9 },
+        10000,
+        { targets: { Technology: { min: 15, max: 18 }, Energy: { min: 0, max: 100 } }, cashBase: 2000, cashTarget: { min: 8, max: 12 } }
+      );
+      expect(plan.deployableCashBase).toBeCloseTo(2000 - 0.08 * 12000, 6);
+      expect(plan.orders.every((o) => o.side === 'Buy')).toBe(true);
+      expect(plan.buyCostBase).toBeGreaterThan(0);
+      expect(plan.cashAfterBase).toBeCloseTo(2000 - plan.buyCostBase, 6);
+    });
+
+    it('rounds buys up only while they stay within sells plus deployable cash', () => {
+      // Technology needs ~5.9 shares (588 EUR) to reach 15%; 590 is deployable, so 6 shares would overspend.
+      const plan = planSectorRebalance(
+        [stock(1, 'TECH', 'Technology', 0.1, 10), stock(2, 'OIL', 'Energy', 0.9, 90)],
+        { Technology: 0.1, Energy: 0.9 },
+        10000,
+        { targets: { Technology: { min: 15, max: 18 }, Energy: { min: 0, max: 100 } }, cashBase: 590, cashTarget: { min: 0, max: 100 } }
+      );
+      expect(plan.orders).toMatchObject([{ ticker: 'TECH', side: 'Buy', shares: 5 }]);
+      expect(plan.buyCostBase).toBeLessThanOrEqual(plan.sellProceedsBase + plan.deployableCashBase);
+    });
+
+    it('scales buys down and reports unresolved sectors when funding is short', () => {
+      const plan = planSectorRebalance(
+        [stock(1, 'TECH', 'Technology', 0.1, 10), stock(2, 'OIL', 'Energy', 0.9, 90)],
+        { Technology: 0.1, Energy: 0.9 },
+        10000,
+        { targets: { Technology: { min: 15, max: 18 }, Energy: { min: 0, max: 100 } }, useCash: false }
+      );
+      expect(plan.orders).toHaveLength(0);
+      expect(plan.unresolved).toContain('Technology');
+    });
+
+    it('reports sectors without positions as unresolved', () => {
+      const plan = planSectorRebalance([], { Healthcare: 0.4 }, 10000, { targets });
+      expect(plan.orders).toHaveLength(0);
+      expect(plan.unresolved).toContain('Healthcare');
+    });
+  });
+});
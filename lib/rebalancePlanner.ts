@@ -0,0 +1,214 @@
+/**
+ * Rebalance planner: turns the sector rebalance summary into whole-share Buy/Sell orders.
+ * Display-only; orders are handed to AddOperationModal, nothing is sent automatically.
+ */
+import type { Stock } from '@/lib/api';
+import { getSectorRebalanceSummary } from '@/lib/portfolioInsights';
+import { CASH_TARGET_PCT } from '@/lib/sectorTargets';
+
+type TargetMap = Record<string, { min: number; max: number }>;
+
+export type RebalanceSide = 'Buy' | 'Sell';
+
+export type RebalanceOrder = {
+  stockId: number;
+  ticker: string;
+  isin: string;
+  companyName: string;
+  sector: string;
+  currency: string;
+  side: RebalanceSide;
+  shares: number;
+  /** Price per share in the stock's trading currency. */
+  price: number;
+  /** Order value in base currency. */
+  valueBase: number;
+};
+
+export type SectorRebalancePlan = {
+  sector: string;
+  targetMin: number;
+  targetMax: number;
+  currentPct: number;
+  projectedPct: number;
+  inBand: boolean;
+};
+
+export type RebalancePlan = {
+  orders: RebalanceOrder[];
+  sectors: SectorRebalancePlan[];
+  sellProceedsBase: number;
+  buyCostBase: number;
+  /** Cash above the cash target minimum that the plan may spend on buys. */
+  deployableCashBase: number;
+  cashAfterBase: number;
+  equityAfterBase: number;
+  /** Sectors that are still outside their band after rounding or because buys could not be funded. */
+  unresolved: string[];
+};
+
+export type RebalancePlanOptions = {
+  targets?: TargetMap;
+  /** Cash holdings in base currency. */
+  cashBase?: number;
+  /** Cash band (percent of equity + cash); defaults to CASH_TARGET_PCT. */
+  cashTarget?: { min: number; max: number };
+  /** When false, buys are funded only from sell proceeds. */
+  useCash?: boolean;
+};
+
+function sameSector(a: string, b: string): boolean {
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+type Position = {
+  stock: Stock;
+  valueBase: number;
+  perShareBase: number;
+};
+
+/**
+ * Plan whole-share orders that bring every targeted sector into its band.
+ * Position values are weight × totalValue (equity, base currency); per-share value in base
+ * currency is derived from that, so no FX lookup is needed for the stocks themselves.
+ * Over-weight sectors are trimmed to their max, under-weight sectors are topped up to their min,
+ * each pro rata to the existing positions in the sector.
+ */
+export function planSectorRebalance(
+  stocks: Stock[],
+  sectorWeights: Record<string, number>,
+  totalValue: number,
+  options: RebalancePlanOptions = {}
+): RebalancePlan {
+  const { targets, cashBase = 0, cashTarget = CASH_TARGET_PCT, useCash = true } = options;
+  const summary = getSectorRebalanceSummary(sectorWeights, targets);
+  const targeted = [...summary.over, ...summary.at, ...summary.under];
+
+  const positions: Position[] = stocks
+    .filter((s) => s.shares_owned > 0 && s.current_price > 0)
+    .map((stock) => {
+      const valueBase = stock.weight * totalValue;
+      return { stock, valueBase, perShareBase: valueBase / stock.shares_owned };
+    })
+    .filter((p) => p.perShareBase > 0);
+
+  const deployableCashBase = useCash
+    ? Math.max(0, cashBase - (cashTarget.min / 100) * (totalValue + cashBase))
+    : 0;
+
+  type SectorTrade = { sector: string; amount: number; positions: Position[] };
+  const tradesFor = (equity: number) => {
+    const sells: SectorTrade[] = [];
+    const buys: SectorTrade[] = [];
+    for (const d of targeted) {
+      const sectorValue = (d.currentPct / 100) * totalValue;
+      const sectorPositions = positions.filter((p) => sameSector(p.stock.sector, d.sector));
+      if (sectorPositions.length === 0 || equity <= 0) continue;
+      const pct = (sectorValue / equity) * 100;
+      if (pct > d.targetMax) {
+        sells.push({ sector: d.sector, amount: sectorValue - (d.targetMax / 100) * equity, positions: sectorPositions });
+      } else if (pct < d.targetMin) {
+        buys.push({ sector: d.sector, amount: (d.targetMin / 100) * equity - sectorValue, positions: sectorPositions });
+      }
+    }
+    const sellTotal = sells.reduce((sum, t) => sum + t.amount, 0);
+    const buyTotal = buys.reduce((sum, t) => sum + t.amount, 0);
+    return { sells, buys, sellTotal, buyTotal };
+  };
+
+  // Post-trade equity depends on the trades themselves (proceeds not reinvested leave equity),
+  // so solve equity = totalValue - sells + funded buys by fixed-point iteration.
+  let equity = totalValue + deployableCashBase;
+  for (let i = 0; i < 50; i++) {
+    const { sellTotal, buyTotal } = tradesFor(equity);
+    const next = totalValue - sellTotal + Math.min(buyTotal, sellTotal + deployableCashBase);
+    if (Math.abs(next - equity) < 0.01) {
+      equity = next;
+      break;
+    }
+    equity = next;
+  }
+  const { sells, buys, sellTotal, buyTotal } = tradesFor(equity);
+
+  const orders: RebalanceOrder[] = [];
+  const tradedBySector = new Map<string, number>();
+
+  const pushOrder = (p: Position, side: RebalanceSide, shares: number) => {
+    if (shares <= 0) return;
+    const valueBase = shares * p.perShareBase;
+    orders.push({
+      stockId: p.stock.id,
+      ticker: p.stock.ticker,
+      isin: p.stock.isin ?? '',
+      companyName: p.stock.company_name ?? '',
+      sector: p.stock.sector ?? '',
+      currency: p.stock.currency ?? 'USD',
+      side,
+      shares,
+      price: p.stock.current_price,
+      valueBase,
+    });
+    const key = (p.stock.sector || '').trim().toLowerCase();
+    tradedBySector.set(key, (tradedBySector.get(key) ?? 0) + (side === 'Buy' ? valueBase : -valueBase));
+  };
+
+  const heldValue = (t: SectorTrade) => t.positions.reduce((sum, p) => sum + p.valueBase, 0);
+
+  for (const t of sells) {
+    const held = heldValue(t);
+    for (const p of t.positions) {
+      const share = t.amount * (p.valueBase / held);
+      // Round up so the sector ends at or below its max.
+      pushOrder(p, 'Sell', Math.min(p.stock.shares_owned, Math.ceil(share / p.perShareBase)));
+    }
+  }
+
+  const scale = buyTotal > sellTotal + deployableCashBase && buyTotal > 0
+    ? (sellTotal + deployableCashBase) / buyTotal
+    : 1;
+  const budget = orders.reduce((sum, o) => sum + o.valueBase, 0) + deployableCashBase;
+  let spent = 0;
+  for (const t of buys) {
+    const held = heldValue(t);
+    for (const p of t.positions) {
+      const exact = (t.amount * scale * (p.valueBase / held)) / p.perShareBase;
+      // Round up when fully funded so the sector reaches its min, but never past sells + deployable cash.
+      const affordable = Math.floor((budget - spent) / p.perShareBase + 1e-9);
+      const shares = Math.max(0, Math.min(scale < 1 ? Math.floor(exact) : Math.ceil(exact), affordable));
+      pushOrder(p, 'Buy', shares);
+      spent += shares * p.perShareBase;
+    }
+  }
+
+  const sellProceedsBase = orders.filter((o) => o.side === 'Sell').reduce((sum, o) => sum + o.valueBase, 0);
+  const buyCostBase = orders.filter((o) => o.side === 'Buy').reduce((sum, o) => sum + o.valueBase, 0);
+  const equityAfterBase = totalValue - sellProceedsBase + buyCostBase;
+
+  const unresolved = new Set<string>();
+  const sectors: SectorRebalancePlan[] = targeted.map((d) => {
+    const before = (d.currentPct / 100) * totalValue;
+    const after = before + (tradedBySector.get(d.sector.trim().toLowerCase()) ?? 0);
+    const projectedPct = equityAfterBase > 0 ? (after / equityAfterBase) * 100 : 0;
+    const inBand = projectedPct >= d.targetMin - 1e-9 && projectedPct <= d.targetMax + 1e-9;
+    if (!inBand) unresolved.add(d.sector);
+    return {
+      sector: d.sector,
+      targetMin: d.targetMin,
+      targetMax: d.targetMax,
+      currentPct: d.currentPct,
+      projectedPct,
+      inBand,
+    };
+  });
+
+  return {
+    orders,
+    sectors,
+    sellProceedsBase,
+    buyCostBase,
+    deployableCashBase,
+    cashAfterBase: cashBase + sellProceedsBase - buyCostBase,
+    equityAfterBase,
+    unresolved: Array.from(unresolved),
+  };
+}
@@ -0,0 +1,93 @@
+import { draftOperationFor, reconcilePositions, savedAsDrafted, stockFixFor, stockRestoreFor } from './reconciliation';
+import type { Operation, OperationType, Stock } from '@/lib/api';
+
+function op(id: number, type: OperationType, date: string, quantity: number, price: number, ticker: string): Operation {
+  return { ...({} as Operation), id, operation_type: type, ticker, currency: 'USD', quantity, price, amount: 0, trade_date: date };
+}
+
+function stock(id: number, ticker: string, shares: number, avg: number, extra: Partial<Stock> = {}): Stock {
+  return { ...({} as Stock), id, ticker, currency: 'USD', shares_owned: shares, avg_price_local: avg, current_price: 0, ...extra };
+}
+
+const operations: Operation[] = [
+  op(1, 'Buy', '01.01.2024', 10, 100, 'AAPL'),
+  op(2, 'Buy', '01.02.2024', 10, 200, 'AAPL'),
+  op(3, 'Sell', '01.03.2024', 5, 250, 'AAPL'),
+  op(4, 'Buy', '01.01.2024', 4, 50, 'MSFT'),
+  op(5, 'Buy', '01.01.2024', 3, 20, 'KO'),
+  op(6, 'Buy', '01.01.2024', 2, 10, 'SAP'),
+];
+
+describe('reconciliation', () => {
+  const stocks = [
+    stock(1, 'AAPL', 15, 150),
+    stock(2, 'MSFT', 6, 60, { isin: 'US5949181045', current_price: 70 }),
+    stock(3, 'ko', 3, 25),
+    stock(4, 'SAP', 1, 10, { current_price: 12 }),
+    stock(5, 'WATCH', 0, 0),
+  ];
+
+  it('compares ledger shares and average cost with each stock', () => {
+    const rows = reconcilePositions(stocks, operations);
+    expect(rows.map((r) => [r.ticker, r.status])).toEqual([
+      ['KO', 'mismatch'],
+      ['MSFT', 'mismatch'],
+      ['SAP', 'mismatch'],
+      ['AAPL', 'ok'],
+    ]);
+    const ko = rows[0];
+    expect(ko).toMatchObject({ sharesMismatch: false, avgPriceMismatch: true, ledgerAvgPrice: 20, stockAvgPrice: 25 });
+    expect(rows.find((r) => r.ticker === 'AAPL')?.ledgerAvgPrice).toBeCloseTo(150, 6);
+  });
+
+  it('reports open ledger positions without a stock', () => {
+    const rows = reconcilePositions(stocks.filter((s) => s.ticker !== 'MSFT'), operations);
+    expect(rows[0]).toMatchObject({ ticker: 'MSFT', status: 'missing_stock', stock: null, ledgerShares: 4 });
+  });
+
+  it('builds the stock fix from the ledger', () => {
+    const ko = reconcilePositions(stocks, operations).find((r) => r.ticker === 'KO')!;
+    expect(stockFixFor(ko)).toEqual({ shares_owned: 3, avg_price_local: 20 });
+    expect(draftOperationFor(ko)).toBeNull();
+  });
+
+  it('drafts a Buy that restores the stored average, or a Sell for surplus ledger shares', () => {
+    const rows = reconcilePositions(stocks, operations);
+    const buy = draftOperationFor(rows.find((r) => r.ticker === 'MSFT')!);
+    // (6 × 60 − 4 × 50) / 2 = 80
+    expect(buy).toMatchObject({ operation_type: 'Buy', ticker: 'MSFT', quantity: 2, price: 80, isin: 'US5949181045', stock_id: 2 });
+    const sell = draftOperationFor(rows.find((r) => r.ticker === 'SAP')!);
+    expect(sell).toMatchObject({ operation_type: 'Sell', quantity: 1, price: 12, stock_id: 4 });
+  });
+
+  it('reaches a match after saving the drafted operation and restoring the stock', () => {
+    let ledger = operations;
+    let stored = stocks;
+    for (const row of reconcilePositions(stored, ledger).filter((r) => r.sharesMismatch)) {
+      const draft = draftOperationFor(row)!;
+      ledger = [...ledger, op(ledger.length + 1, draft.operation_type, '01.06.2024', draft.quantity, draft.price, draft.ticker)];
+      // The backend also applies the new operation to the stock position...
+      const moved = stored.map((s) =>
+        s.id === draft.stock_id
+          ? { ...s, shares_owned: s.shares_owned + (draft.operation_type === 'Buy' ? draft.quantity : -draft.quantity) }
+          : s,
+      );
+      expect(reconcilePositions(moved, ledger).find((r) => r.ticker === row.ticker)?.status).toBe('mismatch');
+      // ...so the card writes the original position back.
+      stored = moved.map((s) => (s.id === draft.stock_id ? { ...s, ...stockRestoreFor(row) } : s));
+    }
+    const rows = reconcilePositions(stored, ledger);
+    expect(rows.filter((r) => r.sharesMismatch)).toEqual([]);
+    expect(rows.find((r) => r.ticker === 'MSFT')).toMatchObject({ status: 'ok', ledgerShares: 6, stockShares: 6 });
+    expect(rows.find((r) => r.ticker === 'SAP')).toMatchObject({ status: 'ok', ledgerShares: 1, stockShares: 1 });
+  });
+
+  it('recognizes a draft saved unchanged, but not one edited in the form', () => {
+    const draft = draftOperationFor(reconcilePositions(stocks, operations).find((r) => r.ticker === 'MSFT')!)!;
+    const saved = { operation_type: draft.operation_type, ticker: 'msft ', currency: 'USD', quantity: 2, price: 85, trade_date: '01.06.2024' };
+    expect(savedAsDrafted(draft, saved)).toBe(true);
+    expect(savedAsDrafted(draft, { ...saved, quantity: 3 })).toBe(false);
+    expect(savedAsDrafted(draft, { ...saved, ticker: 'AAPL' })).toBe(false);
+    expect(savedAsDrafted(draft, { ...saved, operation_type: 'Sell' })).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Operations-to-positions reconciliation: replays the ledger per ticker (average cost) and
+ * compares the derived shares and average price with the stored Stock fields, which are
+ * maintained separately and can drift. Each mismatch can be fixed either way: overwrite the
+ * stock with the ledger values, or draft the operation that would make the ledger match (and
+ * then put the stock back, since saving an operation also moves the stored position).
+ */
+import type { CreateOperationRequest, Operation, OperationType, Stock } from '@/lib/api';
+import { buildTaxLots } from '@/lib/taxLots';
+
+/** Share differences below this are rounding noise. */
+export const SHARES_TOLERANCE = 1e-6;
+/** Relative average-price difference tolerated (0.5%), covering fees folded into the stored cost. */
+export const AVG_PRICE_TOLERANCE = 0.005;
+
+export type ReconciliationStatus = 'ok' | 'mismatch' | 'missing_stock';
+
+export type ReconciliationRow = {
+  ticker: string;
+  currency: string;
+  /** Null when the ledger holds shares of a ticker with no Stock record. */
+  stock: Stock | null;
+  ledgerShares: number;
+  ledgerAvgPrice: number;
+  stockShares: number;
+  stockAvgPrice: number;
+  sharesMismatch: boolean;
+  avgPriceMismatch: boolean;
+  status: ReconciliationStatus;
+};
+
+/** Operation that brings the ledger in line with the stock; compatible with AddOperationModal initial values. */
+export type DraftOperation = {
+  operation_type: OperationType;
+  ticker: string;
+  isin?: string;
+  company_name?: string;
+  sector?: string;
+  currency: string;
+  stock_id?: number;
+  quantity: number;
+  price: number;
+  note: string;
+};
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+/** One row per ticker that has either stored shares or ledger activity; mismatches first. */
+export function reconcilePositions(stocks: Stock[], operations: Operation[]): ReconciliationRow[] {
+  const ledger = new Map(buildTaxLots(operations, 'AVERAGE').map((t) => [t.ticker, t]));
+  const rows: ReconciliationRow[] = [];
+  const seen = new Set<string>();
+
+  for (const stock of stocks) {
+    const ticker = (stock.ticker || '').trim().toUpperCase();
+    if (!ticker || seen.has(ticker)) continue;
+    seen.add(ticker);
+    const lots = ledger.get(ticker);
+    const stockShares = stock.shares_owned || 0;
+    if (!lots && stockShares === 0) continue;
+
+    const ledgerShares = lots?.sharesOpen ?? 0;
+    const ledgerAvgPrice = lots?.avgCost ?? 0;
+    const stockAvgPrice = stock.avg_price_local || 0;
+    const sharesMismatch = Math.abs(stockShares - ledgerShares) > SHARES_TOLERANCE;
+    const avgPriceMismatch =
+      !sharesMismatch &&
+      ledgerShares > SHARES_TOLERANCE &&
+      Math.abs(stockAvgPrice - ledgerAvgPrice) > AVG_PRICE_TOLERANCE * Math.max(ledgerAvgPrice, stockAvgPrice);
+    rows.push({
+      ticker,
+      currency: stock.currency || lots?.currency || '',
+      stock,
+      ledgerShares,
+      ledgerAvgPrice,
+      stockShares,
+      stockAvgPrice,
+      sharesMismatch,
+      avgPriceMismatch,
+      status: sharesMismatch || avgPriceMismatch ? 'mismatch' : 'ok',
+    });
+  }
+
+  for (const [ticker, lots] of ledger) {
+    if (seen.has(ticker) || lots.sharesOpen <= SHARES_TOLERANCE) continue;
+    rows.push({
+      ticker,
+      currency: lots.currency,
+      stock: null,
+      ledgerShares: lots.sharesOpen,
+      ledgerAvgPrice: lots.avgCost,
+      stockShares: 0,
+      stockAvgPrice: 0,
+      sharesMismatch: true,
+      avgPriceMismatch: false,
+      status: 'missing_stock',
+    });
+  }
+
+  const rank: Record<ReconciliationStatus, number> = { missing_stock: 0, mismatch: 1, ok: 2 };
+  return rows.sort((a, b) => rank[a.status] - rank[b.status] || a.ticker.localeCompare(b.ticker));
+}
+
+/** Stock fields that make the stored position equal the ledger. */
+export function stockFixFor(row: ReconciliationRow): Partial<Stock> {
+  return {
+    shares_owned: round(row.ledgerShares, 6),
+    avg_price_local: row.ledgerShares > SHARES_TOLERANCE ? round(row.ledgerAvgPrice, 4) : 0,
+  };
+}
+
+/**
+ * Stock fields to write back once a drafted operation is saved. The backend applies every new
+ * operation to the stock position as well, so without this the draft would only move the gap.
+ */
+export function stockRestoreFor(row: ReconciliationRow): Partial<Stock> {
+  return { shares_owned: row.stockShares, avg_price_local: row.stockAvgPrice };
+}
+
+/** Whether the operation saved from a draft is still the drafted fix (the form may have been edited). */
+export function savedAsDrafted(draft: DraftOperation, saved: CreateOperationRequest): boolean {
+  return (
+    saved.operation_type === draft.operation_type &&
+    (saved.ticker || '').trim().toUpperCase() === draft.ticker &&
+    Math.abs(saved.quantity - draft.quantity) <= SHARES_TOLERANCE
+  );
+}
+
+/**
+ * Operation that would make the ledger match the stored position: a Buy for missing shares,
+ * priced so the resulting average equals the stored one, or a Sell for surplus ledger shares.
+ * Null when only the average price differs (no single trade fixes that without changing shares).
+ */
+export function draftOperationFor(row: ReconciliationRow): DraftOperation | null {
+  const diff = row.stockShares - row.ledgerShares;
+  if (Math.abs(diff) <= SHARES_TOLERANCE) return null;
+  const stock = row.stock;
+  const base = {
+    ticker: row.ticker,
+    isin: stock?.isin || undefined,
+    company_name: stock?.company_name || undefined,
+    sector: stock?.sector || undefined,
+    currency: row.currency,
+    stock_id: stock?.id,
+    quantity: round(Math.abs(diff), 6),
+  };
+  if (diff > 0) {
+    const ledgerCost = row.ledgerShares * row.ledgerAvgPrice;
+    const implied = (row.stockShares * row.stockAvgPrice - ledgerCost) / diff;
+    const price = implied > 0 ? implied : row.stockAvgPrice;
+    return { ...base, operation_type: 'Buy', price: round(price, 4), note: 'Reconciliation: shares missing from the ledger' };
+  }
+  const price = stock?.current_price || row.ledgerAvgPrice;
+  return { ...base, operation_type: 'Sell', price: round(price, 4), note: 'Reconciliation: ledger holds more shares than the position' };
+}
@@ -0,0 +1,123 @@
+import { computePortfolioReturns, xirr } from './returns';
+import type { Operation, OperationType, StockHistory } from '@/lib/api';
+
+function op(id: number, type: OperationType, date: string, quantity: number, price: number = 0): Operation {
+  return {
+    ...({} as Operation),
+    id,
+    operation_type: type,
+    ticker: type === 'Buy' || type === 'Sell' || type === 'Dividend' ? 'X' : '',
+    currency: 'EUR',
+    quantity,
+    price,
+    amount: 0,
+    trade_date: date,
+  };
+}
+
+function hist(date: string, price: number): StockHistory {
+  return { ...({} as StockHistory), ticker: 'X', current_price: price, recorded_at: `${date}T18:00:00Z` };
+}
+
+const asOf = new Date(Date.UTC(2024, 11, 31));
+const current = { X: { price: 110, currency: 'EUR' } };
+const rates = { EUR: 1 };
+
+describe('returns', () => {
+  describe('xirr', () => {
+    it('solves a one-year 10% return', () => {
+      const r = xirr([
+        { date: new Date(Date.UTC(2023, 0, 1)), amount: -1000 },
+        { date: new Date(Date.UTC(2024, 0, 1)), amount: 1100 },
+      ]);
+      expect(r).toBeCloseTo(0.1, 6);
+    });
+
+    it('returns null without both signs', () => {
+      expect(xirr([{ date: new Date(), amount: 100 }, { date: new Date(), amount: 50 }])).toBeNull();
+    });
+  });
+
+  describe('computePortfolioReturns', () => {
+    it('measures since-inception TWR and XIRR for a single deposit', () => {
+      const ops = [op(1, 'Deposit', '01.01.2024', 1000), op(2, 'Buy', '01.01.2024', 10, 100)];
+      const results = computePortfolioReturns({ operations: ops, history: {}, current, rates, asOf });
+      const inception = results.find((r) => r.period === 'INCEPTION')!;
+      expect(inception.endValue).toBeCloseTo(1100, 6);
+      expect(inception.twr).toBeCloseTo(0.1, 6);
+      expect(inception.xirr).toBeCloseTo(0.1, 3);
+    });
+
+    it('chains sub-period returns around a mid-year deposit', () => {
+      const ops = [
+        op(1, 'Deposit', '01.01.2024', 1000),
+        op(2, 'Buy', '01.01.2024', 10, 100),
+        op(3, 'Deposit', '01.07.2024', 1200),
+        op(4, 'Buy', '01.07.2024', 10, 120),
+      ];
+      const history = { X: [hist('2024-07-01', 120)] };
+      const [ytd] = computePortfolioReturns({ operations: ops, history, current, rates, asOf });
+      expect(ytd.period).toBe('YTD');
+      expect(ytd.endValue).toBeCloseTo(2200, 6);
+      expect(ytd.twr).toBeCloseTo(0.1, 6);
+      expect(ytd.netFlows).toBeCloseTo(2200, 6);
+      // Money-weighted: 2200 contributed, 2200 at the end.
+      expect(ytd.xirr).toBeCloseTo(0, 6);
+    });
+
+    it('values the period start from price history', () => {
+      const ops = [op(1, 'Deposit', '01.06.2023', 1000), op(2, 'Buy', '01.06.2023', 10, 90)];
+      const history = { X: [hist('2023-12-31', 100)] };
+      const [ytd] = computePortfolioReturns({ operations: ops, history, current, rates, asOf });
+      expect(ytd.startValue).toBeCloseTo(1100, 6);
+      expect(ytd.endValue).toBeCloseTo(1200, 6);
+      expect(ytd.twr).toBeCloseTo(1200 / 1100 - 1, 6);
+    });
+
+    it('treats dividends as distributions rather than portfolio value', () => {
+      const ops = [
+        op(1, 'Deposit', '01.01.2024', 1000),
+        op(2, 'Buy', '01.01.2024', 10, 100),
+        op(3, 'Dividend', '01.07.2024', 50),
+      ];
+      const history = { X: [hist('2024-07-01', 100)] };
+      const inception = computePortfolioReturns({ operations: ops, history, current, rates, asOf })
+        .find((r) => r.period === 'INCEPTION')!;
+      expect(inception.endValue).toBeCloseTo(1100, 6);
+      expect(inception.twr).toBeCloseTo(1.05 * 1.1 - 1, 6);
+    });
+
+    it('rescales shares and the fallback trade price on a split and deducts fees', () => {
+      const ops = [
+        op(1, 'Deposit', '01.01.2024', 1000),
+        op(2, 'Buy', '01.01.2024', 10, 100),
+        { ...op(3, 'Split', '01.03.2024', 10), ticker: 'X' },
+        op(4, 'Deposit', '01.07.2024', 500),
+        op(5, 'Fee', '01.10.2024', 10),
+      ];
+      const inception = computePortfolioReturns({ operations: ops, history: {}, current: { X: { price: 11, currency: 'EUR' } }, rates, asOf })
+        .find((r) => r.period === 'INCEPTION')!;
+      // 100 shares valued at the split-adjusted 10 on 01.07, then at 11; the fee leaves the cash.
+      expect(inception.endValue).toBeCloseTo(1590, 6);
+      expect(inception.twr).toBeCloseTo(1 * (1590 / 1500) - 1, 6);
+    });
+
+    it('nets withholding tax against dividend distributions', () => {
+      const ops = [
+        op(1, 'Deposit', '01.01.2024', 1000),
+        op(2, 'Buy', '01.01.2024', 10, 100),
+        op(3, 'Dividend', '01.07.2024', 50),
+        op(4, 'Withholding Tax', '01.07.2024', 15),
+      ];
+      const history = { X: [hist('2024-07-01', 100)] };
+      const inception = computePortfolioReturns({ operations: ops, history, current, rates, asOf })
+        .find((r) => r.period === 'INCEPTION')!;
+      expect(inception.netFlows).toBeCloseTo(1000 - 35, 6);
+      expect(inception.twr).toBeCloseTo(1.035 * 1.1 - 1, 6);
+    });
+
+    it('returns nothing without operations', () => {
+      expect(computePortfolioReturns({ operations: [], history: {}, current, rates, asOf })).toEqual([]);
+    });
+  });
+});
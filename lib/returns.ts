@@ -0,0 +1,254 @@
+/**
+ * Portfolio returns: time-weighted (TWR) and money-weighted (XIRR) over standard periods.
+ *
+ * Model: the portfolio is the securities rebuilt from Buy/Sell operations, splits and spin-offs
+ * plus a cash ledger (Deposit, Withdraw, Buy, Sell, Fee). Deposits, withdrawals and dividends net
+ * of withholding tax are external cash flows; dividends count as distributions to the investor, so
+ * they are not added to the cash ledger. Securities are valued from StockHistory (latest record on
+ * or before the date), falling back to the split-adjusted last trade price. Holdings are converted
+ * to base currency at today's rates; external flows at the rate recorded on the operation when
+ * there is one.
+ */
+import type { Operation, StockHistory } from '@/lib/api';
+import { convertOperationToBase, convertToBase, type RateMap } from '@/lib/fx';
+import { operationAmount, splitFactor } from '@/lib/ledger';
+import { compareByTradeDate, parseTradeDate } from '@/lib/tradeDate';
+
+export type ReturnPeriod = 'YTD' | '1Y' | '3Y' | 'INCEPTION';
+
+export const RETURN_PERIODS: { value: ReturnPeriod; label: string }[] = [
+  { value: 'YTD', label: 'YTD' },
+  { value: '1Y', label: '1Y' },
+  { value: '3Y', label: '3Y' },
+  { value: 'INCEPTION', label: 'Since inception' },
+];
+
+export type CashFlow = { date: Date; amount: number };
+
+export type PeriodReturn = {
+  period: ReturnPeriod;
+  start: Date;
+  end: Date;
+  startValue: number;
+  endValue: number;
+  /** Net external inflow over the period (deposits − withdrawals − net dividends), base currency. */
+  netFlows: number;
+  /** Cumulative time-weighted return as a fraction; null when there is nothing to measure. */
+  twr: number | null;
+  /** Annualized money-weighted return as a fraction; null when it cannot be solved. */
+  xirr: number | null;
+};
+
+export type ReturnsInput = {
+  operations: Operation[];
+  /** Price history per ticker (upper case). */
+  history: Record<string, StockHistory[]>;
+  /** Current price and trading currency per ticker (upper case). */
+  current: Record<string, { price: number; currency: string }>;
+  rates: RateMap;
+  asOf?: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXTERNAL_TYPES = new Set(['Deposit', 'Withdraw', 'Dividend', 'Withholding Tax']);
+
+/** Net present value of flows at an annual rate, discounted to the first flow date. */
+function npv(flows: CashFlow[], rate: number): number {
+  const t0 = flows[0].date.getTime();
+  return flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, (f.date.getTime() - t0) / DAY_MS / 365), 0);
+}
+
+/**
+ * Annualized internal rate of return for irregular flows (investor perspective:
+ * contributions negative, distributions and ending value positive). Newton with bisection fallback.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const sorted = flows.filter((f) => f.amount !== 0).sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (sorted.length < 2) return null;
+  if (!sorted.some((f) => f.amount > 0) || !sorted.some((f) => f.amount < 0)) return null;
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(sorted, rate);
+    const h = 1e-6;
+    const derivative = (npv(sorted, rate + h) - value) / h;
+    if (!Number.isFinite(derivative) || derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -0.9999) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let lo = -0.9999;
+  let hi = 10;
+  let fLo = npv(sorted, lo);
+  if (fLo * npv(sorted, hi) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(sorted, mid);
+    if (Math.abs(fMid) < 1e-7) return mid;
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+type Dated<T> = { time: number; op: T };
+
+function priceOn(ticker: string, time: number, input: ReturnsInput, lastTradePrice: number | undefined, isEnd: boolean): number {
+  if (isEnd && input.current[ticker]?.price > 0) return input.current[ticker].price;
+  let best: { time: number; price: number } | null = null;
+  for (const h of input.history[ticker] ?? []) {
+    const t = new Date(h.recorded_at).getTime();
+    if (t <= time + DAY_MS - 1 && h.current_price > 0 && (!best || t > best.time)) best = { time: t, price: h.current_price };
+  }
+  if (best) return best.price;
+  if (lastTradePrice && lastTradePrice > 0) return lastTradePrice;
+  return input.current[ticker]?.price ?? 0;
+}
+
+/** Portfolio value in base currency at the end of the given day (flows on that day included). */
+function valueAt(time: number, input: ReturnsInput, ops: Dated<Operation>[], isEnd: boolean): number {
+  const shares = new Map<string, number>();
+  // Last trade price per ticker, split-adjusted; the fallback when there is no price history.
+  const lastPrice = new Map<string, number>();
+  const tradeCurrency = new Map<string, string>();
+  const cash = new Map<string, number>();
+  for (const d of ops) {
+    if (d.time > time) break;
+    const op = d.op;
+    const ticker = (op.ticker || '').trim().toUpperCase();
+    if (op.operation_type === 'Buy' || op.operation_type === 'Sell') {
+      const sign = op.operation_type === 'Buy' ? 1 : -1;
+      shares.set(ticker, (shares.get(ticker) ?? 0) + sign * op.quantity);
+      if (op.price > 0) lastPrice.set(ticker, op.price);
+      tradeCurrency.set(ticker, op.currency);
+      cash.set(op.currency, (cash.get(op.currency) ?? 0) - sign * operationAmount(op));
+    } else if (op.operation_type === 'Deposit' || op.operation_type === 'Withdraw') {
+      const sign = op.operation_type === 'Deposit' ? 1 : -1;
+      cash.set(op.currency, (cash.get(op.currency) ?? 0) + sign * operationAmount(op));
+    } else if (op.operation_type === 'Fee') {
+      cash.set(op.currency, (cash.get(op.currency) ?? 0) - operationAmount(op));
+    } else if (op.operation_type === 'Split' || op.operation_type === 'Reverse Split') {
+      const factor = splitFactor(op);
+      if (shares.has(ticker)) shares.set(ticker, (shares.get(ticker) ?? 0) * factor);
+      if (lastPrice.has(ticker)) lastPrice.set(ticker, (lastPrice.get(ticker) ?? 0) / factor);
+    } else if (op.operation_type === 'Spin-off') {
+      const target = (op.spinoff_ticker || '').trim().toUpperCase();
+      if (!target || !(op.quantity > 0)) continue;
+      shares.set(target, (shares.get(target) ?? 0) + op.quantity);
+      if (!tradeCurrency.has(target)) tradeCurrency.set(target, op.currency);
+    }
+  }
+
+  let total = 0;
+  for (const [ticker, qty] of Array.from(shares.entries())) {
+    if (qty <= 0) continue;
+    const currency = input.current[ticker]?.currency || tradeCurrency.get(ticker) || 'EUR';
+    const local = qty * priceOn(ticker, time, input, lastPrice.get(ticker), isEnd);
+    total += convertToBase(local, currency, input.rates) ?? local;
+  }
+  for (const [currency, amount] of Array.from(cash.entries())) {
+    total += convertToBase(amount, currency, input.rates) ?? amount;
+  }
+  return total;
+}
+
+/**
+ * Signed external inflow into the portfolio in base currency (deposit +, withdraw/dividend −).
+ * Withholding tax is +: it reduces the dividend the investor actually received.
+ */
+function externalFlow(op: Operation, rates: RateMap): number {
+  const amount = operationAmount(op);
+  const base = convertOperationToBase(amount, op, rates) ?? amount;
+  return op.operation_type === 'Deposit' || op.operation_type === 'Withholding Tax' ? base : -base;
+}
+
+function periodStart(period: ReturnPeriod, asOf: Date, inception: Date): Date {
+  const y = asOf.getUTCFullYear();
+  const m = asOf.getUTCMonth();
+  const d = asOf.getUTCDate();
+  let start: Date;
+  switch (period) {
+    case 'YTD':
+      start = new Date(Date.UTC(y, 0, 1));
+      break;
+    case '1Y':
+      start = new Date(Date.UTC(y - 1, m, d));
+      break;
+    case '3Y':
+      start = new Date(Date.UTC(y - 3, m, d));
+      break;
+    default:
+      start = inception;
+  }
+  return start.getTime() < inception.getTime() ? inception : start;
+}
+
+/**
+ * TWR and XIRR for YTD, 1Y, 3Y and since inception.
+ * Periods that start before the first operation are measured from inception.
+ */
+export function computePortfolioReturns(input: ReturnsInput): PeriodReturn[] {
+  const asOf = input.asOf ?? new Date();
+  const end = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()));
+  const ops: Dated<Operation>[] = [...input.operations]
+    .sort(compareByTradeDate)
+    .map((op) => ({ time: parseTradeDate(op.trade_date)?.getTime() ?? NaN, op }))
+    .filter((d) => Number.isFinite(d.time) && d.time <= end.getTime());
+  if (ops.length === 0) return [];
+  const inception = new Date(ops[0].time);
+
+  return RETURN_PERIODS.map(({ value: period }) => {
+    const start = periodStart(period, end, inception);
+    const fromInception = start.getTime() === inception.getTime();
+    // Since inception starts from zero: the first day's flows are part of the period.
+    const startTime = fromInception ? start.getTime() - DAY_MS : start.getTime();
+    const startValue = fromInception ? 0 : valueAt(startTime, input, ops, false);
+    const endValue = valueAt(end.getTime(), input, ops, true);
+
+    const flowsByDay = new Map<number, number>();
+    for (const d of ops) {
+      if (d.time <= startTime || !EXTERNAL_TYPES.has(d.op.operation_type)) continue;
+      flowsByDay.set(d.time, (flowsByDay.get(d.time) ?? 0) + externalFlow(d.op, input.rates));
+    }
+    const flowDays = Array.from(flowsByDay.keys()).sort((a, b) => a - b);
+
+    let growth = 1;
+    let measured = false;
+    let prevValue = startValue;
+    for (const day of flowDays) {
+      const flow = flowsByDay.get(day) ?? 0;
+      const after = day === end.getTime() ? endValue : valueAt(day, input, ops, false);
+      if (prevValue > 0) {
+        growth *= (after - flow) / prevValue;
+        measured = true;
+      }
+      prevValue = after;
+    }
+    if (prevValue > 0 && flowDays[flowDays.length - 1] !== end.getTime()) {
+      growth *= endValue / prevValue;
+      measured = true;
+    }
+
+    const investorFlows: CashFlow[] = [];
+    if (startValue > 0) investorFlows.push({ date: start, amount: -startValue });
+    for (const day of flowDays) investorFlows.push({ date: new Date(day), amount: -(flowsByDay.get(day) ?? 0) });
+    investorFlows.push({ date: end, amount: endValue });
+
+    return {
+      period,
+      start,
+      end,
+      startValue,
+      endValue,
+      netFlows: flowDays.reduce((sum, day) => sum + (flowsByDay.get(day) ?? 0), 0),
+      twr: measured ? growth - 1 : null,
+      xirr: xirr(investorFlows),
+    };
+  });
+}
@@ -0,0 +1,51 @@
+import { applyScenario, describeShock, shockMultiplier } from './scenarios';
+import type { Stock } from '@/lib/api';
+
+function stock(id: number, ticker: string, sector: string, currency: string, beta: number, weight: number): Stock {
+  return { ...({} as Stock), id, ticker, sector, currency, beta, weight, shares_owned: 10 };
+}
+
+const stocks = [
+  stock(1, 'MSFT', 'Technology', 'USD', 1.2, 0.5),
+  stock(2, 'NOVO', 'Healthcare', 'DKK', 0.5, 0.3),
+  stock(3, 'SAP', 'Technology', 'EUR', 1, 0.2),
+];
+
+describe('scenarios', () => {
+  it('applies a sector shock only to that sector (case-insensitive)', () => {
+    const result = applyScenario(stocks, 1000, [{ kind: 'sector', sector: 'technology', pct: -25 }]);
+    expect(result.totalBefore).toBeCloseTo(1000, 6);
+    expect(result.totalAfter).toBeCloseTo(1000 - 0.25 * 700, 6);
+    const tech = result.sectors.find((s) => s.sector === 'Technology')!;
+    expect(tech.weightBeforePct).toBeCloseTo(70, 6);
+    expect(tech.weightAfterPct).toBeCloseTo((525 / 825) * 100, 6);
+  });
+
+  it('applies currency shocks to positions in that currency and reports shocked rates', () => {
+    const result = applyScenario(stocks, 1000, [{ kind: 'currency', currency: 'usd', pct: -10 }], { EUR: 1, USD: 1.08 });
+    expect(result.change).toBeCloseTo(-50, 6);
+    expect(result.shockedRates).toEqual([{ currency: 'USD', before: 1.08, after: 1.08 / 0.9 }]);
+  });
+
+  it('scales a market shock by beta and compounds with other shocks', () => {
+    expect(shockMultiplier(stocks[0], [{ kind: 'market', pct: -20 }])).toBeCloseTo(0.76, 10);
+    expect(shockMultiplier(stocks[0], [
+      { kind: 'market', pct: -20 },
+      { kind: 'currency', currency: 'USD', pct: -10 },
+    ])).toBeCloseTo(0.76 * 0.9, 10);
+    expect(shockMultiplier(stocks[0], [{ kind: 'market', pct: -100 }])).toBe(0);
+  });
+
+  it('recomputes concentration from shocked values', () => {
+    const result = applyScenario(stocks, 1000, [{ kind: 'sector', sector: 'Technology', pct: -50 }]);
+    expect(result.concentrationBefore.maxPositionTicker).toBe('MSFT');
+    expect(result.concentrationAfter.maxPositionTicker).toBe('NOVO');
+    expect(result.concentrationAfter.maxPositionPct).toBeCloseTo((300 / 650) * 100, 6);
+    expect(result.positions[0].ticker).toBe('MSFT');
+  });
+
+  it('describes shocks', () => {
+    expect(describeShock({ kind: 'sector', sector: 'Technology', pct: -25 })).toBe('Technology −25%');
+    expect(describeShock({ kind: 'currency', currency: 'usd', pct: 5 })).toBe('USD +5% vs EUR');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Stress scenarios: apply sector, currency and beta-scaled market shocks to current positions.
+ * Position values are weight × total_value (equity, base currency). Display-only.
+ */
+import type { Stock } from '@/lib/api';
+import { getConcentration, type ConcentrationSummary } from '@/lib/portfolioInsights';
+import { BASE_CURRENCY, type RateMap } from '@/lib/fx';
+
+/** Percent moves, e.g. -25 for "Technology −25%". */
+export type Shock =
+  | { kind: 'sector'; sector: string; pct: number }
+  /** Move of the currency against EUR; −10 means the currency loses 10% vs EUR. */
+  | { kind: 'currency'; currency: string; pct: number }
+  /** Market move; each stock moves beta × pct. */
+  | { kind: 'market'; pct: number };
+
+export type Scenario = {
+  id: string;
+  name: string;
+  shocks: Shock[];
+};
+
+export type ScenarioPosition = {
+  stockId: number;
+  ticker: string;
+  sector: string;
+  currency: string;
+  valueBefore: number;
+  valueAfter: number;
+  changePct: number;
+};
+
+export type ScenarioSector = {
+  sector: string;
+  weightBeforePct: number;
+  weightAfterPct: number;
+};
+
+export type ScenarioResult = {
+  totalBefore: number;
+  totalAfter: number;
+  change: number;
+  changePct: number;
+  positions: ScenarioPosition[];
+  sectors: ScenarioSector[];
+  concentrationBefore: ConcentrationSummary;
+  concentrationAfter: ConcentrationSummary;
+  /** Shocked rates (units per 1 EUR) for currencies with a currency shock. */
+  shockedRates: { currency: string; before: number | null; after: number | null }[];
+};
+
+/** Built-in examples offered when no scenarios are saved yet. */
+export const EXAMPLE_SCENARIOS: Scenario[] = [
+  { id: 'example-tech', name: 'Technology −25%', shocks: [{ kind: 'sector', sector: 'Technology', pct: -25 }] },
+  { id: 'example-usd', name: 'USD −10% vs EUR', shocks: [{ kind: 'currency', currency: 'USD', pct: -10 }] },
+  { id: 'example-market', name: 'Market −20% (beta-scaled)', shocks: [{ kind: 'market', pct: -20 }] },
+];
+
+const sameText = (a: string, b: string) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+export function describeShock(shock: Shock): string {
+  const pct = `${shock.pct >= 0 ? '+' : '−'}${Math.abs(shock.pct)}%`;
+  switch (shock.kind) {
+    case 'sector':
+      return `${shock.sector} ${pct}`;
+    case 'currency':
+      return `${shock.currency.toUpperCase()} ${pct} vs ${BASE_CURRENCY}`;
+    case 'market':
+      return `Market ${pct} (beta-scaled)`;
+  }
+}
+
+/** Multiplier on a position's base-currency value; shocks compound. A position cannot go below zero. */
+export function shockMultiplier(stock: Stock, shocks: Shock[]): number {
+  let m = 1;
+  for (const shock of shocks) {
+    if (shock.kind === 'sector' && sameText(stock.sector, shock.sector)) {
+      m *= 1 + shock.pct / 100;
+    } else if (shock.kind === 'currency' && sameText(stock.currency || BASE_CURRENCY, shock.currency)) {
+      m *= 1 + shock.pct / 100;
+    } else if (shock.kind === 'market') {
+      const beta = Number.isFinite(stock.beta) ? stock.beta : 1;
+      m *= 1 + (beta * shock.pct) / 100;
+    }
+  }
+  return Math.max(0, m);
+}
+
+function sectorWeights(values: { sector: string; value: number }[], total: number): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const v of values) {
+    const sector = (v.sector || '').trim() || 'Unknown';
+    out.set(sector, (out.get(sector) ?? 0) + (total > 0 ? (v.value / total) * 100 : 0));
+  }
+  return out;
+}
+
+export function applyScenario(stocks: Stock[], totalValue: number, shocks: Shock[], rates: RateMap = {}): ScenarioResult {
+  const active = stocks.filter((s) => s.shares_owned > 0);
+  const positions: ScenarioPosition[] = active.map((s) => {
+    const valueBefore = s.weight * totalValue;
+    const multiplier = shockMultiplier(s, shocks);
+    return {
+      stockId: s.id,
+      ticker: s.ticker,
+      sector: s.sector ?? '',
+      currency: s.currency ?? BASE_CURRENCY,
+      valueBefore,
+      valueAfter: valueBefore * multiplier,
+      changePct: (multiplier - 1) * 100,
+    };
+  });
+
+  const totalBefore = positions.reduce((sum, p) => sum + p.valueBefore, 0);
+  const totalAfter = positions.reduce((sum, p) => sum + p.valueAfter, 0);
+
+  const before = sectorWeights(positions.map((p) => ({ sector: p.sector, value: p.valueBefore })), totalBefore);
+  const after = sectorWeights(positions.map((p) => ({ sector: p.sector, value: p.valueAfter })), totalAfter);
+  const sectors = Array.from(before.keys())
+    .map((sector) => ({ sector, weightBeforePct: before.get(sector) ?? 0, weightAfterPct: after.get(sector) ?? 0 }))
+    .sort((a, b) => b.weightAfterPct - a.weightAfterPct);
+
+  const withWeights = (valueOf: (p: ScenarioPosition) => number, total: number) =>
+    active.map((s, i) => ({ ...s, weight: total > 0 ? valueOf(positions[i]) / total : 0 }));
+
+  const shockedRates = shocks
+    .filter((s): s is Extract<Shock, { kind: 'currency' }> => s.kind === 'currency')
+    .map((s) => {
+      const currency = s.currency.toUpperCase();
+      const rate = rates[currency] ?? null;
+      // A weaker currency means more units per EUR.
+      const factor = 1 + s.pct / 100;
+      return { currency, before: rate, after: rate !== null && factor > 0 ? rate / factor : null };
+    });
+
+  return {
+    totalBefore,
+    totalAfter,
+    change: totalAfter - totalBefore,
+    changePct: totalBefore > 0 ? (totalAfter / totalBefore - 1) * 100 : 0,
+    positions: [...positions].sort((a, b) => (a.valueAfter - a.valueBefore) - (b.valueAfter - b.valueBefore)),
+    sectors,
+    concentrationBefore: getConcentration(withWeights((p) => p.valueBefore, totalBefore)),
+    concentrationAfter: getConcentration(withWeights((p) => p.valueAfter, totalAfter)),
+    shockedRates,
+  };
+}
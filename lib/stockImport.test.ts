@@ -0,0 +1,63 @@
+import { buildBulkUpdate, changeKey, diffStocks, hasBlockingErrors, validateStockImport } from './stockImport';
+import type { Stock } from '@/lib/api';
+
+function stock(partial: Partial<Stock>): Stock {
+  return { ...({} as Stock), ...partial };
+}
+
+describe('stockImport', () => {
+  it('rejects a document that is not an array', () => {
+    const { stocks, errors } = validateStockImport({ ticker: 'AAPL' });
+    expect(stocks).toEqual([]);
+    expect(errors).toEqual([expect.objectContaining({ kind: 'not_array', index: -1, severity: 'error' })]);
+  });
+
+  it('reports typed errors for every Stock field', () => {
+    const { stocks, errors } = validateStockImport([
+      { ticker: 'aapl', company_name: 'Apple', current_price: '175', probability_positive: 1.4, currency: 'usd', weight: 0.1, foo: 1 },
+      { company_name: 'No ticker', beta: 1 },
+      { ticker: 'AAPL', company_name: 'Again' },
+      'MSFT',
+      { ticker: 'SAP', company_name: 'SAP', currency: 'EURO', buy_zone_min: 120, buy_zone_max: 100 },
+    ]);
+    const summary = errors.map((e) => [e.index, e.kind, e.field, e.severity]);
+    expect(summary).toEqual([
+      [0, 'wrong_type', 'current_price', 'error'],
+      [0, 'out_of_range', 'probability_positive', 'error'],
+      [0, 'read_only', 'weight', 'warning'],
+      [0, 'unknown_field', 'foo', 'warning'],
+      [1, 'missing_required', 'ticker', 'error'],
+      [2, 'duplicate_ticker', 'ticker', 'error'],
+      [3, 'not_object', undefined, 'error'],
+      [4, 'invalid_format', 'currency', 'error'],
+      [4, 'out_of_range', 'buy_zone_min', 'error'],
+    ]);
+    expect(stocks[0]).toEqual({ ticker: 'AAPL', company_name: 'Apple', currency: 'USD' });
+    expect(hasBlockingErrors(errors)).toBe(true);
+    expect(hasBlockingErrors(errors.filter((e) => e.severity === 'warning'))).toBe(false);
+  });
+
+  it('diffs against current stocks by ticker and builds the payload from accepted changes', () => {
+    const current = [stock({ id: 1, ticker: 'AAPL', company_name: 'Apple', fair_value: 200, comment: '' })];
+    const { stocks } = validateStockImport([
+      { ticker: 'AAPL', company_name: 'Apple', fair_value: 210, comment: 'raised' },
+      { ticker: 'MSFT', company_name: 'Microsoft', fair_value: 420 },
+      { ticker: 'NVDA', company_name: 'Nvidia' },
+    ]);
+    const diffs = diffStocks(stocks, current);
+    expect(diffs[0].current?.id).toBe(1);
+    expect(diffs[0].changes).toEqual([
+      { field: 'fair_value', before: 200, after: 210 },
+      { field: 'comment', before: '', after: 'raised' },
+    ]);
+    expect(diffs[1].current).toBeNull();
+    expect(diffs[1].changes.map((c) => c.field)).toEqual(['ticker', 'company_name', 'fair_value']);
+
+    const rejected = new Set([changeKey('AAPL', 'comment'), changeKey('MSFT', 'fair_value'), changeKey('NVDA', 'ticker')]);
+    expect(buildBulkUpdate(diffs, rejected)).toEqual([
+      { ticker: 'AAPL', fair_value: 210 },
+      { ticker: 'MSFT', company_name: 'Microsoft' },
+    ]);
+    expect(buildBulkUpdate(diffs, new Set([changeKey('AAPL', 'comment'), changeKey('AAPL', 'fair_value')]))).toHaveLength(2);
+  });
+});
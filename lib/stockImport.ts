@@ -0,0 +1,234 @@
+/**
+ * JSON stock import: validates an uploaded array against the Stock schema, diffs it against the
+ * current stocks (matched by ticker) and builds the bulk-update payload from accepted changes.
+ */
+import type { Stock } from '@/lib/api';
+
+type FieldKind = 'string' | 'number' | 'nullable-string';
+
+type FieldSpec = {
+  kind: FieldKind;
+  /** Computed or maintained by the backend; ignored on import. */
+  readOnly?: boolean;
+  required?: boolean;
+  min?: number;
+  max?: number;
+};
+
+/** Every Stock field. Typed as a full Record so a new Stock field fails the type-check until listed here. */
+export const STOCK_SCHEMA: Record<keyof Stock, FieldSpec> = {
+  id: { kind: 'number', readOnly: true },
+  portfolio_id: { kind: 'number', readOnly: true },
+  ticker: { kind: 'string', required: true },
+  isin: { kind: 'string' },
+  company_name: { kind: 'string', required: true },
+  sector: { kind: 'string' },
+  current_price: { kind: 'number', min: 0 },
+  currency: { kind: 'string' },
+  fair_value: { kind: 'number', min: 0 },
+  upside_potential: { kind: 'number' },
+  downside_risk: { kind: 'number' },
+  probability_positive: { kind: 'number', min: 0, max: 1 },
+  expected_value: { kind: 'number' },
+  beta: { kind: 'number' },
+  volatility: { kind: 'number', min: 0 },
+  pe_ratio: { kind: 'number' },
+  eps_growth_rate: { kind: 'number' },
+  debt_to_ebitda: { kind: 'number' },
+  dividend_yield: { kind: 'number', min: 0 },
+  b_ratio: { kind: 'number' },
+  kelly_fraction: { kind: 'number' },
+  half_kelly_suggested: { kind: 'number' },
+  shares_owned: { kind: 'number', min: 0 },
+  avg_price_local: { kind: 'number', min: 0 },
+  current_value_usd: { kind: 'number', readOnly: true },
+  weight: { kind: 'number', readOnly: true },
+  unrealized_pnl: { kind: 'number', readOnly: true },
+  buy_zone_min: { kind: 'number', min: 0 },
+  buy_zone_max: { kind: 'number', min: 0 },
+  buy_zone_status: { kind: 'string', readOnly: true },
+  sell_zone_lower_bound: { kind: 'number', min: 0 },
+  sell_zone_upper_bound: { kind: 'number', min: 0 },
+  sell_zone_status: { kind: 'string', readOnly: true },
+  assessment: { kind: 'string' },
+  update_frequency: { kind: 'string' },
+  data_source: { kind: 'string' },
+  fair_value_source: { kind: 'string' },
+  alpha_vantage_fetched_at: { kind: 'nullable-string', readOnly: true },
+  grok_fetched_at: { kind: 'nullable-string', readOnly: true },
+  alpha_vantage_raw_json: { kind: 'string', readOnly: true },
+  grok_raw_json: { kind: 'string', readOnly: true },
+  comment: { kind: 'string' },
+  last_updated: { kind: 'string', readOnly: true },
+};
+
+export type StockImportErrorKind =
+  | 'not_array'
+  | 'not_object'
+  | 'missing_required'
+  | 'wrong_type'
+  | 'out_of_range'
+  | 'invalid_format'
+  | 'duplicate_ticker'
+  | 'unknown_field'
+  | 'read_only';
+
+export type StockImportError = {
+  kind: StockImportErrorKind;
+  /** Array index of the offending entry; -1 for problems with the document itself. */
+  index: number;
+  field?: string;
+  message: string;
+  /** Warnings drop the field but do not block the import. */
+  severity: 'error' | 'warning';
+};
+
+export type StockImportValidation = {
+  stocks: Partial<Stock>[];
+  errors: StockImportError[];
+};
+
+const WARNING_KINDS: StockImportErrorKind[] = ['unknown_field', 'read_only'];
+
+function issue(kind: StockImportErrorKind, index: number, message: string, field?: string): StockImportError {
+  return { kind, index, field, message, severity: WARNING_KINDS.includes(kind) ? 'warning' : 'error' };
+}
+
+export function hasBlockingErrors(errors: StockImportError[]): boolean {
+  return errors.some((e) => e.severity === 'error');
+}
+
+/** Validate parsed JSON. Returned stocks keep only writable, well-typed fields, with ticker upper-cased. */
+export function validateStockImport(data: unknown): StockImportValidation {
+  if (!Array.isArray(data)) {
+    return { stocks: [], errors: [issue('not_array', -1, 'JSON must be an array of stock objects')] };
+  }
+  const errors: StockImportError[] = [];
+  const stocks: Partial<Stock>[] = [];
+  const seen = new Map<string, number>();
+
+  data.forEach((entry: unknown, index) => {
+    const label = `Stock at index ${index}`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors.push(issue('not_object', index, `${label}: must be an object`));
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const clean: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(record)) {
+      const spec = STOCK_SCHEMA[field as keyof Stock];
+      if (!spec) {
+        errors.push(issue('unknown_field', index, `${label}: unknown field "${field}" ignored`, field));
+        continue;
+      }
+      if (spec.readOnly) {
+        errors.push(issue('read_only', index, `${label}: ${field} is computed and will be ignored`, field));
+        continue;
+      }
+      if (value === undefined) continue;
+      if (spec.kind === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(issue('wrong_type', index, `${label}: ${field} must be a number`, field));
+          continue;
+        }
+        if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+          const range = spec.max !== undefined ? `between ${spec.min ?? '-∞'} and ${spec.max}` : `at least ${spec.min}`;
+          errors.push(issue('out_of_range', index, `${label}: ${field} must be ${range}`, field));
+          continue;
+        }
+      } else if (typeof value !== 'string' && !(spec.kind === 'nullable-string' && value === null)) {
+        errors.push(issue('wrong_type', index, `${label}: ${field} must be a string`, field));
+        continue;
+      }
+      clean[field] = value;
+    }
+
+    for (const [field, spec] of Object.entries(STOCK_SCHEMA)) {
+      if (spec.required && (typeof clean[field] !== 'string' || !(clean[field] as string).trim())) {
+        if (!errors.some((e) => e.index === index && e.field === field)) {
+          errors.push(issue('missing_required', index, `${label}: ${field} is required`, field));
+        }
+      }
+    }
+
+    if (typeof clean.currency === 'string' && clean.currency && !/^[A-Za-z]{3}$/.test(clean.currency)) {
+      errors.push(issue('invalid_format', index, `${label}: currency must be a 3-letter code`, 'currency'));
+      delete clean.currency;
+    }
+    const zoneMin = clean.buy_zone_min as number | undefined;
+    const zoneMax = clean.buy_zone_max as number | undefined;
+    if (zoneMin !== undefined && zoneMax !== undefined && zoneMin > 0 && zoneMax > 0 && zoneMin > zoneMax) {
+      errors.push(issue('out_of_range', index, `${label}: buy_zone_min must not exceed buy_zone_max`, 'buy_zone_min'));
+    }
+
+    if (typeof clean.ticker === 'string' && clean.ticker.trim()) {
+      const ticker = clean.ticker.trim().toUpperCase();
+      clean.ticker = ticker;
+      if (typeof clean.currency === 'string') clean.currency = clean.currency.toUpperCase();
+      const first = seen.get(ticker);
+      if (first !== undefined) {
+        errors.push(issue('duplicate_ticker', index, `${label}: ticker ${ticker} already appears at index ${first}`, 'ticker'));
+        return;
+      }
+      seen.set(ticker, index);
+      stocks.push(clean as Partial<Stock>);
+    }
+  });
+
+  return { stocks, errors };
+}
+
+export type FieldChange = {
+  field: keyof Stock;
+  before: unknown;
+  after: unknown;
+};
+
+export type StockDiff = {
+  ticker: string;
+  /** Current stock with this ticker; null when the import adds a new stock. */
+  current: Stock | null;
+  changes: FieldChange[];
+};
+
+/** Fields that must accompany a new stock, so they cannot be rejected individually. */
+export const NEW_STOCK_FIELDS: (keyof Stock)[] = ['ticker', 'company_name'];
+
+/** Field-level differences between imported stocks and the current ones, matched by ticker. */
+export function diffStocks(incoming: Partial<Stock>[], current: Stock[]): StockDiff[] {
+  const byTicker = new Map(current.map((s) => [s.ticker.trim().toUpperCase(), s]));
+  return incoming.map((stock) => {
+    const ticker = (stock.ticker || '').toUpperCase();
+    const existing = byTicker.get(ticker) ?? null;
+    const changes: FieldChange[] = [];
+    for (const [field, after] of Object.entries(stock) as [keyof Stock, unknown][]) {
+      if (field === 'ticker' && existing) continue;
+      const before = existing ? existing[field] : undefined;
+      if (existing && (before ?? null) === (after ?? null)) continue;
+      changes.push({ field, before, after });
+    }
+    return { ticker, current: existing, changes };
+  });
+}
+
+export function changeKey(ticker: string, field: keyof Stock): string {
+  return `${ticker}:${field}`;
+}
+
+/** Payload for stockAPI.bulkUpdate: ticker plus accepted changes; stocks with nothing accepted are left out. */
+export function buildBulkUpdate(diffs: StockDiff[], rejected: Set<string>): Partial<Stock>[] {
+  const payload: Partial<Stock>[] = [];
+  for (const diff of diffs) {
+    const accepted = diff.changes.filter(
+      (c) => (!diff.current && NEW_STOCK_FIELDS.includes(c.field)) || !rejected.has(changeKey(diff.ticker, c.field))
+    );
+    if (diff.current && accepted.length === 0) continue;
+    // A new stock is rejected as a whole through its ticker key.
+    if (!diff.current && rejected.has(changeKey(diff.ticker, 'ticker'))) continue;
+    const entry: Record<string, unknown> = { ticker: diff.ticker };
+    for (const c of accepted) entry[c.field] = c.after;
+    payload.push(entry as Partial<Stock>);
+  }
+  return payload;
+}
@@ -0,0 +1,59 @@
+import { buildExportRows, downloadBlob, toCsv } from './tableExport';
+import type { Stock } from '@/lib/api';
+
+function stock(partial: Partial<Stock>): Stock {
+  return { ...({} as Stock), currency: 'USD', ...partial };
+}
+
+const columns = [
+  { id: 'checkbox', label: 'Select' },
+  { id: 'ticker', label: 'Ticker' },
+  { id: 'current_price', label: 'Current Price' },
+  { id: 'total_value', label: 'Total Value' },
+  { id: 'weight', label: 'Weight %' },
+  { id: 'unrealized_pnl', label: 'P&L (EUR)' },
+  { id: 'action', label: 'Action' },
+];
+
+describe('tableExport', () => {
+  const stocks = [
+    stock({ ticker: 'AAPL', current_price: 180, shares_owned: 10, weight: 0.125, unrealized_pnl: 150.5 }),
+    stock({ ticker: 'NEW', current_price: 0, shares_owned: 0, weight: 0, unrealized_pnl: 0 }),
+  ];
+
+  it('formats cells the way the table displays them and drops control columns', () => {
+    const rows = buildExportRows(stocks, columns, 'formatted', { units: { stock_current_value: 'EUR' } });
+    expect(rows).toEqual([
+      ['Ticker', 'Current Price', 'Total Value', 'Weight %', 'P&L (EUR)'],
+      ['AAPL', '180.00 USD', '1800.00 USD', '12.5%', '€150.50'],
+      ['NEW', 'N/A', 'N/A', 'N/A', 'N/A'],
+    ]);
+  });
+
+  it('exports raw field values as numbers', () => {
+    const rows = buildExportRows(stocks, columns, 'raw');
+    expect(rows[1]).toEqual(['AAPL', 180, 1800, 0.125, 150.5]);
+    expect(rows[2]).toEqual(['NEW', 0, null, 0, 0]);
+  });
+
+  it('quotes CSV cells that need it', () => {
+    expect(toCsv([['a,b', 'say "x"', null, 3]])).toBe('"a,b","say ""x""",,3');
+  });
+
+  it('clicks the download link while it is attached to the document, then cleans up', () => {
+    const createObjectURL = jest.fn(() => 'blob:export');
+    const revokeObjectURL = jest.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const attached: boolean[] = [];
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      attached.push(document.body.contains(this));
+    });
+
+    downloadBlob(new Blob(['a,b']), 'stocks.csv');
+
+    expect(attached).toEqual([true]);
+    expect(document.body.querySelector('a')).toBeNull();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    click.mockRestore();
+  });
+});
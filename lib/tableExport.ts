@@ -0,0 +1,137 @@
+/**
+ * StockTable export: turns the rows and visible columns of the table into a grid of cells,
+ * either formatted as displayed or as raw field values, and serializes it as CSV or XLSX.
+ */
+import type { PortfolioUnits, Stock } from '@/lib/api';
+import { buildXlsx, XLSX_MIME, type SheetCell } from '@/lib/xlsx';
+
+export type ExportMode = 'formatted' | 'raw';
+
+export type ExportColumn = { id: string; label: string };
+
+export type ExportContext = {
+  units?: PortfolioUnits | null;
+  sectorWeights?: Record<string, number>;
+  isWatchlist?: boolean;
+};
+
+/** Columns that are controls rather than data. */
+const NON_DATA_COLUMNS = new Set(['checkbox', 'action']);
+
+// Same rules as the StockTable formatters: zero reads as N/A.
+const formatNumber = (num: number, decimals: number = 2) => (!num ? 'N/A' : num.toFixed(decimals));
+const formatPercentage = (num: number, decimals: number = 1) => (!num ? 'N/A' : `${formatNumber(num, decimals)}%`);
+const withCurrency = (num: number, currency: string) => (num > 0 ? `${formatNumber(num)} ${currency}` : 'N/A');
+const weightPct = (weight: number | null | undefined) => (weight == null ? null : weight * 100);
+
+function formatCurrency(num: number, currency: string): string {
+  if (!num) return 'N/A';
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(num);
+  } catch {
+    return `${formatNumber(num, 2)} ${currency}`;
+  }
+}
+
+type Accessor = {
+  raw: (stock: Stock) => SheetCell;
+  formatted: (stock: Stock, ctx: ExportContext) => string;
+};
+
+const field = (key: keyof Stock, formatted: Accessor['formatted']): Accessor => ({
+  raw: (s) => {
+    const value = s[key];
+    return typeof value === 'number' || typeof value === 'string' ? value : null;
+  },
+  formatted,
+});
+
+const ACCESSORS: Record<string, Accessor> = {
+  ticker: field('ticker', (s) => s.ticker),
+  company_name: field('company_name', (s) => s.company_name),
+  sector: field('sector', (s, ctx) => {
+    const name = s.sector || '—';
+    const raw = ctx.sectorWeights && !ctx.isWatchlist && s.sector ? ctx.sectorWeights[s.sector] : undefined;
+    const pct = weightPct(raw);
+    return pct != null && !Number.isNaN(pct) ? `${name} (${formatNumber(pct, 1)}%)` : name;
+  }),
+  beta: field('beta', (s) => formatNumber(s.beta, 2)),
+  avg_price_local: field('avg_price_local', (s) => `${formatNumber(s.avg_price_local)} ${s.avg_price_local > 0 ? s.currency : ''}`.trim()),
+  current_price: field('current_price', (s) => `${formatNumber(s.current_price)} ${s.current_price > 0 ? s.currency : ''}`.trim()),
+  total_value: {
+    raw: (s) => (s.current_price > 0 ? s.current_price * s.shares_owned : null),
+    formatted: (s) => (s.current_price > 0 ? `${formatNumber(s.current_price * s.shares_owned)} ${s.currency}` : 'N/A'),
+  },
+  fair_value: field('fair_value', (s) => `${formatNumber(s.fair_value)} ${s.fair_value > 0 ? s.currency : ''}`.trim()),
+  buy_zone_min: field('buy_zone_min', (s) => withCurrency(s.buy_zone_min, s.currency)),
+  buy_zone_max: field('buy_zone_max', (s) => withCurrency(s.buy_zone_max, s.currency)),
+  buy_zone_status: field('buy_zone_status', (s) => s.buy_zone_status || 'N/A'),
+  sell_zone_lower_bound: field('sell_zone_lower_bound', (s) => withCurrency(s.sell_zone_lower_bound || 0, s.currency)),
+  sell_zone_upper_bound: field('sell_zone_upper_bound', (s) => withCurrency(s.sell_zone_upper_bound || 0, s.currency)),
+  sell_zone_status: field('sell_zone_status', (s) => s.sell_zone_status || 'N/A'),
+  upside_potential: field('upside_potential', (s) => formatPercentage(s.upside_potential, 1)),
+  expected_value: field('expected_value', (s) => formatPercentage(s.expected_value, 1)),
+  probability_positive: field('probability_positive', (s) => (s.probability_positive === 0 ? 'N/A' : formatNumber(s.probability_positive, 2))),
+  downside_risk: field('downside_risk', (s) => formatPercentage(s.downside_risk, 1)),
+  kelly_fraction: field('kelly_fraction', (s) => formatPercentage(s.kelly_fraction, 1)),
+  half_kelly_suggested: field('half_kelly_suggested', (s) => formatPercentage(s.half_kelly_suggested, 1)),
+  shares_owned: field('shares_owned', (s) => (s.shares_owned ? String(s.shares_owned) : 'N/A')),
+  weight: field('weight', (s) => {
+    const pct = weightPct(s.weight);
+    return pct != null ? formatPercentage(pct, 1) : 'N/A';
+  }),
+  unrealized_pnl: field('unrealized_pnl', (s, ctx) => formatCurrency(s.unrealized_pnl, ctx.units?.stock_current_value || 'USD')),
+  comment: field('comment', (s) => s.comment || ''),
+  assessment: field('assessment', (s) => s.assessment || ''),
+};
+
+export function isExportableColumn(id: string): boolean {
+  return !NON_DATA_COLUMNS.has(id) && id in ACCESSORS;
+}
+
+/** Header row plus one row per stock, in the given stock and column order. */
+export function buildExportRows(
+  stocks: Stock[],
+  columns: ExportColumn[],
+  mode: ExportMode,
+  ctx: ExportContext = {}
+): SheetCell[][] {
+  const cols = columns.filter((c) => isExportableColumn(c.id));
+  const header = cols.map((c) => c.label);
+  const body = stocks.map((stock) =>
+    cols.map((c) => (mode === 'raw' ? ACCESSORS[c.id].raw(stock) : ACCESSORS[c.id].formatted(stock, ctx)))
+  );
+  return [header, ...body];
+}
+
+function csvCell(cell: SheetCell): string {
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: SheetCell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/** Save a blob as a file. The link is attached while clicked, since Firefox ignores clicks on detached links. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function exportTable(rows: SheetCell[][], format: 'csv' | 'xlsx', baseName: string): void {
+  if (format === 'csv') {
+    // BOM so Excel opens UTF-8 (currency symbols, company names) correctly.
+    downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+  } else {
+    const bytes = buildXlsx(baseName, rows);
+    downloadBlob(new Blob([bytes.buffer as ArrayBuffer], { type: XLSX_MIME }), `${baseName}.xlsx`);
+  }
+}
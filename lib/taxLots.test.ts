@@ -0,0 +1,105 @@
+import { buildTaxLots, realizedPnlByCurrency } from './taxLots';
+import type { Operation, OperationType } from '@/lib/api';
+
+function op(id: number, type: OperationType, date: string, quantity: number, price: number, ticker = 'AAPL'): Operation {
+  return {
+    ...({} as Operation),
+    id,
+    operation_type: type,
+    ticker,
+    currency: 'USD',
+    quantity,
+    price,
+    amount: 0,
+    trade_date: date,
+  };
+}
+
+const ledger: Operation[] = [
+  op(1, 'Buy', '01.01.2023', 10, 100),
+  op(2, 'Buy', '01.06.2024', 10, 200),
+  op(3, 'Sell', '01.07.2024', 5, 300),
+  op(4, 'Deposit', '01.01.2023', 1000, 0, ''),
+];
+
+describe('taxLots', () => {
+  const asOf = new Date(Date.UTC(2024, 11, 31));
+
+  it('matches sales against the oldest lot under FIFO', () => {
+    const [aapl] = buildTaxLots(ledger, 'FIFO', asOf);
+    expect(aapl.sales).toHaveLength(1);
+    expect(aapl.sales[0].cost).toBe(500);
+    expect(aapl.sales[0].realizedPnl).toBe(1000);
+    expect(aapl.sales[0].lots[0].buyOperationId).toBe(1);
+    expect(aapl.sales[0].lots[0].longTerm).toBe(true);
+    expect(aapl.sharesOpen).toBe(15);
+    expect(aapl.costOpen).toBe(2500);
+  });
+
+  it('matches sales against the newest lot under LIFO', () => {
+    const [aapl] = buildTaxLots(ledger, 'LIFO', asOf);
+    expect(aapl.sales[0].realizedPnl).toBe(500);
+    expect(aapl.sales[0].lots[0].buyOperationId).toBe(2);
+    expect(aapl.sales[0].lots[0].holdingDays).toBe(30);
+    expect(aapl.sales[0].lots[0].longTerm).toBe(false);
+  });
+
+  it('uses the pooled average cost under AVERAGE and keeps the remaining average', () => {
+    const [aapl] = buildTaxLots(ledger, 'AVERAGE', asOf);
+    expect(aapl.sales[0].cost).toBeCloseTo(750, 6);
+    expect(aapl.sales[0].realizedPnl).toBeCloseTo(750, 6);
+    expect(aapl.sharesOpen).toBeCloseTo(15, 6);
+    expect(aapl.avgCost).toBeCloseTo(150, 6);
+  });
+
+  it('replays in trade-date order regardless of input order', () => {
+    const [aapl] = buildTaxLots([...ledger].reverse(), 'FIFO', asOf);
+    expect(aapl.sales[0].lots[0].buyOperationId).toBe(1);
+  });
+
+  it('reports shares sold without matching buys as unmatched', () => {
+    const [aapl] = buildTaxLots([op(1, 'Buy', '01.01.2024', 2, 10), op(2, 'Sell', '02.01.2024', 5, 20)], 'FIFO', asOf);
+    expect(aapl.sales[0].unmatchedQuantity).toBe(3);
+    expect(aapl.sales[0].realizedPnl).toBe(20);
+    expect(aapl.openLots).toHaveLength(0);
+  });
+
+  it('rescales open lots on a split and a reverse split without changing cost', () => {
+    const [aapl] = buildTaxLots([...ledger, op(5, 'Split', '01.08.2024', 10, 0)], 'FIFO', asOf);
+    expect(aapl.sharesOpen).toBe(150);
+    expect(aapl.costOpen).toBeCloseTo(2500, 6);
+    expect(aapl.openLots.map((l) => l.price)).toEqual([10, 20]);
+    expect(aapl.sales[0].cost).toBe(500);
+
+    const [reverse] = buildTaxLots([op(1, 'Buy', '01.01.2024', 30, 2), op(2, 'Reverse Split', '01.02.2024', 10, 0)], 'FIFO', asOf);
+    expect(reverse.sharesOpen).toBeCloseTo(3, 9);
+    expect(reverse.avgCost).toBeCloseTo(20, 9);
+  });
+
+  it('moves part of the cost basis to the spun-off ticker, keeping open dates', () => {
+    const spinOff: Operation = { ...op(5, 'Spin-off', '01.08.2024', 3, 0), spinoff_ticker: 'NEWCO', cost_basis_pct: 20 };
+    const [aapl, newco] = buildTaxLots([...ledger, spinOff], 'FIFO', asOf);
+    expect(aapl.costOpen).toBeCloseTo(2000, 6);
+    expect(aapl.sharesOpen).toBe(15);
+    expect(newco.ticker).toBe('NEWCO');
+    expect(newco.sharesOpen).toBeCloseTo(3, 9);
+    expect(newco.costOpen).toBeCloseTo(500, 6);
+    expect(newco.openLots.map((l) => [l.buyOperationId, l.openDate, l.quantity])).toEqual([
+      [1, '01.01.2023', 1],
+      [2, '01.06.2024', 2],
+    ]);
+  });
+
+  it('converts cost and proceeds at the rates recorded on the buy and the sale', () => {
+    const withRates = ledger.map((o) => (o.id === 1 ? { ...o, fx_rate: 1.25 } : o.id === 3 ? { ...o, fx_rate: 1.5 } : o));
+    const [aapl] = buildTaxLots(withRates, 'FIFO', asOf);
+    expect(aapl.sales[0].lots[0]).toMatchObject({ costBase: 400, proceedsBase: 1000, realizedPnlBase: 600 });
+    // Buy 2 carries no rate, so its base cost is unknown.
+    expect(aapl.openLots.map((l) => l.costBase)).toEqual([400, null]);
+  });
+
+  it('totals realized P&L per currency', () => {
+    const lots = buildTaxLots([...ledger, op(5, 'Buy', '01.01.2024', 1, 10, 'MSFT'), op(6, 'Sell', '02.01.2024', 1, 15, 'MSFT')], 'FIFO', asOf);
+    expect(realizedPnlByCurrency(lots)).toEqual({ USD: 1005 });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Tax-lot accounting: replays Buy/Sell operations and corporate actions per ticker under a cost
+ * method and derives open lots, closed lots and realized P&L per sale (local currency). Base
+ * currency amounts use the FX rate recorded on each operation (cost at the buy, proceeds at the
+ * sale) and are null when that rate was not recorded.
+ */
+import type { Operation } from '@/lib/api';
+import { operationFxRate } from '@/lib/fx';
+import { splitFactor } from '@/lib/ledger';
+import { compareByTradeDate, daysBetween, parseTradeDate } from '@/lib/tradeDate';
+
+export type CostMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export const COST_METHODS: { value: CostMethod; label: string }[] = [
+  { value: 'FIFO', label: 'FIFO (first in, first out)' },
+  { value: 'LIFO', label: 'LIFO (last in, first out)' },
+  { value: 'AVERAGE', label: 'Average cost' },
+];
+
+/** Holding period above which a closed lot counts as long-term. */
+export const LONG_TERM_DAYS = 365;
+
+export type OpenLot = {
+  ticker: string;
+  buyOperationId: number;
+  openDate: string;
+  quantity: number;
+  price: number;
+  cost: number;
+  costBase: number | null;
+  currency: string;
+  holdingDays: number;
+};
+
+export type ClosedLot = {
+  ticker: string;
+  buyOperationId: number;
+  sellOperationId: number;
+  openDate: string;
+  closeDate: string;
+  quantity: number;
+  costPrice: number;
+  salePrice: number;
+  cost: number;
+  proceeds: number;
+  realizedPnl: number;
+  costBase: number | null;
+  proceedsBase: number | null;
+  realizedPnlBase: number | null;
+  holdingDays: number;
+  longTerm: boolean;
+  currency: string;
+};
+
+export type LotSale = {
+  sellOperationId: number;
+  ticker: string;
+  date: string;
+  quantity: number;
+  price: number;
+  proceeds: number;
+  cost: number;
+  realizedPnl: number;
+  /** Shares sold without a matching open lot (missing Buy history). */
+  unmatchedQuantity: number;
+  currency: string;
+  lots: ClosedLot[];
+};
+
+export type TickerLots = {
+  ticker: string;
+  currency: string;
+  openLots: OpenLot[];
+  closedLots: ClosedLot[];
+  sales: LotSale[];
+  sharesOpen: number;
+  costOpen: number;
+  avgCost: number;
+  realizedPnl: number;
+};
+
+/** Quantities below this are treated as zero (average cost leaves float dust). */
+const QTY_EPSILON = 1e-9;
+
+type WorkingLot = {
+  buyOperationId: number;
+  openDate: string;
+  quantity: number;
+  price: number;
+  /** Currency units per base unit at the buy; null when not recorded. */
+  fxRate: number | null;
+};
+
+const toBase = (amount: number, rate: number | null) => (rate ? amount / rate : null);
+
+function holdingDays(openDate: string, closeDate: string | Date): number {
+  const open = parseTradeDate(openDate);
+  const close = typeof closeDate === 'string' ? parseTradeDate(closeDate) : closeDate;
+  if (!open || !close) return 0;
+  return Math.max(0, daysBetween(open, close));
+}
+
+/** Split a sale across lots; returns [lot, quantity] pairs in consumption order. */
+function allocateSale(lots: WorkingLot[], quantity: number, method: CostMethod): [WorkingLot, number][] {
+  const available = lots.reduce((sum, l) => sum + l.quantity, 0);
+  if (available <= QTY_EPSILON) return [];
+  if (method === 'AVERAGE') {
+    // Reducing every lot pro rata keeps the average cost of what remains unchanged.
+    const ratio = Math.min(1, quantity / available);
+    return lots.map((l) => [l, l.quantity * ratio] as [WorkingLot, number]);
+  }
+  const ordered = method === 'FIFO' ? lots : [...lots].reverse();
+  const out: [WorkingLot, number][] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining <= QTY_EPSILON) break;
+    const take = Math.min(lot.quantity, remaining);
+    if (take > 0) out.push([lot, take]);
+    remaining -= take;
+  }
+  return out;
+}
+
+type TickerState = {
+  ticker: string;
+  currency: string;
+  lots: WorkingLot[];
+  closedLots: ClosedLot[];
+  sales: LotSale[];
+};
+
+function applySale(state: TickerState, op: Operation, method: CostMethod) {
+  const { ticker, currency } = state;
+  const saleRate = operationFxRate(op);
+  const saleLots: ClosedLot[] = allocateSale(state.lots, op.quantity, method).map(([lot, qty]) => {
+    lot.quantity -= qty;
+    const days = holdingDays(lot.openDate, op.trade_date);
+    const costBase = toBase(qty * lot.price, lot.fxRate);
+    const proceedsBase = toBase(qty * op.price, saleRate);
+    return {
+      ticker,
+      buyOperationId: lot.buyOperationId,
+      sellOperationId: op.id,
+      openDate: lot.openDate,
+      closeDate: op.trade_date,
+      quantity: qty,
+      costPrice: lot.price,
+      salePrice: op.price,
+      cost: qty * lot.price,
+      proceeds: qty * op.price,
+      realizedPnl: qty * (op.price - lot.price),
+      costBase,
+      proceedsBase,
+      realizedPnlBase: costBase !== null && proceedsBase !== null ? proceedsBase - costBase : null,
+      holdingDays: days,
+      longTerm: days > LONG_TERM_DAYS,
+      currency,
+    };
+  });
+  state.lots = state.lots.filter((l) => l.quantity > QTY_EPSILON);
+
+  const matched = saleLots.reduce((sum, l) => sum + l.quantity, 0);
+  const cost = saleLots.reduce((sum, l) => sum + l.cost, 0);
+  const proceeds = saleLots.reduce((sum, l) => sum + l.proceeds, 0);
+  state.closedLots.push(...saleLots);
+  state.sales.push({
+    sellOperationId: op.id,
+    ticker,
+    date: op.trade_date,
+    quantity: op.quantity,
+    price: op.price,
+    proceeds,
+    cost,
+    realizedPnl: proceeds - cost,
+    unmatchedQuantity: Math.max(0, op.quantity - matched),
+    currency,
+    lots: saleLots,
+  });
+}
+
+/**
+ * Move cost_basis_pct of every parent lot to the spun-off ticker. The new shares are spread over
+ * the parent lots pro rata and keep each lot's buy operation and open date, so holding periods
+ * and trade-date FX carry over.
+ */
+function applySpinOff(parent: TickerState, child: TickerState, op: Operation) {
+  const parentShares = parent.lots.reduce((sum, l) => sum + l.quantity, 0);
+  if (parentShares <= QTY_EPSILON || !(op.quantity > 0)) return;
+  const fraction = Math.min(1, Math.max(0, (op.cost_basis_pct ?? 0) / 100));
+  for (const lot of parent.lots) {
+    const quantity = (op.quantity * lot.quantity) / parentShares;
+    const cost = lot.quantity * lot.price * fraction;
+    lot.price *= 1 - fraction;
+    child.lots.push({ buyOperationId: lot.buyOperationId, openDate: lot.openDate, quantity, price: cost / quantity, fxRate: lot.fxRate });
+  }
+}
+
+function toTickerLots(state: TickerState, asOf: Date): TickerLots {
+  const { ticker, currency, closedLots, sales } = state;
+  const openLots: OpenLot[] = state.lots.map((l) => ({
+    ticker,
+    buyOperationId: l.buyOperationId,
+    openDate: l.openDate,
+    quantity: l.quantity,
+    price: l.price,
+    cost: l.quantity * l.price,
+    costBase: toBase(l.quantity * l.price, l.fxRate),
+    currency,
+    holdingDays: holdingDays(l.openDate, asOf),
+  }));
+  const sharesOpen = openLots.reduce((sum, l) => sum + l.quantity, 0);
+  const costOpen = openLots.reduce((sum, l) => sum + l.cost, 0);
+
+  return {
+    ticker,
+    currency,
+    openLots,
+    closedLots,
+    sales,
+    sharesOpen,
+    costOpen,
+    avgCost: sharesOpen > QTY_EPSILON ? costOpen / sharesOpen : 0,
+    realizedPnl: sales.reduce((sum, s) => sum + s.realizedPnl, 0),
+  };
+}
+
+/**
+ * Rebuild lots for every ticker from the operations ledger.
+ * Operations are replayed in trade-date order: Buy opens a lot, Sell closes lots under the cost
+ * method, Split and Reverse Split rescale open lots (same cost, more or fewer shares) and Spin-off
+ * moves part of the cost basis to the new ticker. Cash operations are ignored.
+ * Results are sorted by ticker.
+ */
+export function buildTaxLots(operations: Operation[], method: CostMethod = 'FIFO', asOf: Date = new Date()): TickerLots[] {
+  const states = new Map<string, TickerState>();
+  const stateFor = (ticker: string, currency: string) => {
+    const existing = states.get(ticker);
+    if (existing) return existing;
+    const created: TickerState = { ticker, currency, lots: [], closedLots: [], sales: [] };
+    states.set(ticker, created);
+    return created;
+  };
+
+  for (const op of [...operations].sort(compareByTradeDate)) {
+    const key = (op.ticker || '').trim().toUpperCase();
+    if (!key) continue;
+    switch (op.operation_type) {
+      case 'Buy':
+        if (op.quantity > 0) {
+          stateFor(key, op.currency).lots.push({
+            buyOperationId: op.id,
+            openDate: op.trade_date,
+            quantity: op.quantity,
+            price: op.price,
+            fxRate: operationFxRate(op),
+          });
+        }
+        break;
+      case 'Sell':
+        if (op.quantity > 0) applySale(stateFor(key, op.currency), op, method);
+        break;
+      case 'Split':
+      case 'Reverse Split': {
+        const factor = splitFactor(op);
+        for (const lot of states.get(key)?.lots ?? []) {
+          lot.quantity *= factor;
+          lot.price /= factor;
+        }
+        break;
+      }
+      case 'Spin-off': {
+        const target = (op.spinoff_ticker || '').trim().toUpperCase();
+        const parent = states.get(key);
+        if (parent && target && target !== key) applySpinOff(parent, stateFor(target, op.currency), op);
+        break;
+      }
+    }
+  }
+  return Array.from(states.values())
+    .map((state) => toTickerLots(state, asOf))
+    .sort((a, b) => a.ticker.localeCompare(b.ticker));
+}
+
+/** Realized P&L totals per currency across tickers. */
+export function realizedPnlByCurrency(lots: TickerLots[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const t of lots) {
+    out[t.currency] = (out[t.currency] ?? 0) + t.realizedPnl;
+  }
+  return out;
+}
@@ -0,0 +1,73 @@
+import { buildTaxReport, reportYears, taxReportRows } from './taxReport';
+import type { Operation, OperationType } from '@/lib/api';
+
+function op(id: number, type: OperationType, date: string, quantity: number, price: number, ticker = 'AAPL', currency = 'USD'): Operation {
+  return { ...({} as Operation), id, operation_type: type, ticker, currency, quantity, price, amount: 0, trade_date: date };
+}
+
+const ledger: Operation[] = [
+  op(1, 'Buy', '01.01.2023', 10, 100),
+  op(2, 'Buy', '01.06.2024', 10, 200),
+  op(3, 'Sell', '01.07.2024', 15, 150),
+  op(4, 'Dividend', '15.08.2024', 12, 0),
+  op(5, 'Sell', '01.02.2023', 2, 120, 'SAP', 'EUR'),
+  op(6, 'Dividend', '10.05.2024', 30, 0, 'SAP', 'EUR'),
+];
+
+const rates = { EUR: 1, USD: 1.25 };
+
+describe('taxReport', () => {
+  it('lists years with sales or dividends', () => {
+    expect(reportYears(ledger)).toEqual([2024, 2023]);
+  });
+
+  it('converts each leg at its trade-date rate and splits short and long term', () => {
+    const tradeDateRate = (o: Operation) => (o.id === 1 ? 1.0 : o.id === 2 ? 1.1 : o.id === 3 ? 1.2 : null);
+    const report = buildTaxReport(ledger, { year: 2024, rates, tradeDateRate });
+    expect(report.lots).toHaveLength(2);
+    const [longLot, shortLot] = report.lots;
+    expect(longLot).toMatchObject({ quantity: 10, costLocal: 1000, proceedsLocal: 1500, gainLocal: 500, longTerm: true, fxSource: 'trade-date' });
+    expect(longLot.costBase).toBeCloseTo(1000, 6);
+    expect(longLot.proceedsBase).toBeCloseTo(1250, 6);
+    expect(shortLot.gainLocal).toBe(-250);
+    expect(shortLot.gainBase).toBeCloseTo(750 / 1.2 - 1000 / 1.1, 6);
+    expect(report.totals.netBase).toBeCloseTo(250 + 750 / 1.2 - 1000 / 1.1, 6);
+    expect(report.totals.longTermBase).toBeCloseTo(250, 6);
+
+    // Dividend 4 has no trade-date rate → current table; SAP is already in base.
+    expect(report.dividends.map((d) => [d.ticker, d.amountBase, d.fxSource])).toEqual([
+      ['SAP', 30, 'trade-date'],
+      ['AAPL', 12 / 1.25, 'current'],
+    ]);
+    expect(report.approximateRows).toBe(1);
+    expect(report.byCurrency.map((c) => c.currency)).toEqual(['EUR', 'USD']);
+  });
+
+  it('uses the rate recorded on each operation by default', () => {
+    const recorded = ledger.map((o) => (o.id === 1 ? { ...o, fx_rate: 1.0 } : o.id === 3 ? { ...o, fx_rate: 1.2 } : o));
+    const [longLot, shortLot] = buildTaxReport(recorded, { year: 2024, rates }).lots;
+    expect(longLot.fxSource).toBe('trade-date');
+    expect(longLot.gainBase).toBeCloseTo(1500 / 1.2 - 1000, 6);
+    // Buy 2 has no recorded rate and falls back to the current table.
+    expect(shortLot.fxSource).toBe('current');
+  });
+
+  it('lists withholding tax next to the dividends', () => {
+    const report = buildTaxReport([...ledger, op(7, 'Withholding Tax', '15.08.2024', 3, 0)], { year: 2024, rates });
+    expect(report.withholding.map((w) => [w.ticker, w.amountLocal])).toEqual([['AAPL', 3]]);
+    expect(report.totals.withholdingBase).toBeCloseTo(3 / 1.25, 6);
+    expect(report.byCurrency.find((c) => c.currency === 'USD')).toMatchObject({ dividendsLocal: 12, withholdingLocal: 3 });
+  });
+
+  it('reports sales without buy history', () => {
+    const report = buildTaxReport(ledger, { year: 2023, rates });
+    expect(report.unmatched).toEqual([{ ticker: 'SAP', date: '01.02.2023', quantity: 2 }]);
+    expect(report.lots).toEqual([]);
+  });
+
+  it('flattens into spreadsheet rows', () => {
+    const rows = taxReportRows(buildTaxReport(ledger, { year: 2024, rates }));
+    expect(rows[0]).toEqual(['Capital gains report 2024', 'Method: FIFO', 'Base: EUR']);
+    expect(rows.find((r) => r[0] === 'Net')?.[1]).toBeCloseTo((1500 - 1000 + 750 - 1000) / 1.25, 2);
+  });
+});
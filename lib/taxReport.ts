@@ -0,0 +1,263 @@
+/**
+ * Annual capital gains report: closed tax lots and dividends for one calendar year, in local
+ * currency and in base currency. Each leg converts at its own trade-date rate (cost at the buy
+ * date, proceeds at the sale date), taken from the rate recorded on the operation unless a
+ * lookup is passed in; when no trade-date rate is known the current rate table is used and the
+ * row is flagged. Withholding tax is listed next to the dividends as a creditable
+ * amount; realized lots already reflect splits and spin-offs through the lot replay.
+ */
+import type { Operation } from '@/lib/api';
+import { BASE_CURRENCY, operationFxRate, type RateMap } from '@/lib/fx';
+import { operationAmount } from '@/lib/ledger';
+import { buildTaxLots, type CostMethod } from '@/lib/taxLots';
+import { compareByTradeDate, parseTradeDate } from '@/lib/tradeDate';
+import type { SheetCell } from '@/lib/xlsx';
+
+/** Units of currency per 1 base unit on the operation's trade date; null when unknown. */
+export type TradeDateRate = (op: Operation) => number | null;
+
+export type FxSource = 'trade-date' | 'current' | 'missing';
+
+export type TaxLotRow = {
+  ticker: string;
+  currency: string;
+  openDate: string;
+  closeDate: string;
+  quantity: number;
+  costLocal: number;
+  proceedsLocal: number;
+  gainLocal: number;
+  costBase: number | null;
+  proceedsBase: number | null;
+  gainBase: number | null;
+  holdingDays: number;
+  longTerm: boolean;
+  /** Worst source across the two legs. */
+  fxSource: FxSource;
+};
+
+export type DividendRow = {
+  date: string;
+  ticker: string;
+  currency: string;
+  amountLocal: number;
+  amountBase: number | null;
+  fxSource: FxSource;
+};
+
+export type CurrencyTotals = {
+  currency: string;
+  gainLocal: number;
+  gainBase: number;
+  dividendsLocal: number;
+  dividendsBase: number;
+  withholdingLocal: number;
+  withholdingBase: number;
+};
+
+export type TaxReport = {
+  year: number;
+  method: CostMethod;
+  baseCurrency: string;
+  lots: TaxLotRow[];
+  dividends: DividendRow[];
+  /** Withholding Tax operations; amounts are positive. */
+  withholding: DividendRow[];
+  byCurrency: CurrencyTotals[];
+  totals: {
+    gainsBase: number;
+    lossesBase: number;
+    netBase: number;
+    shortTermBase: number;
+    longTermBase: number;
+    dividendsBase: number;
+    withholdingBase: number;
+  };
+  /** Sales in the year with shares that had no matching Buy. */
+  unmatched: { ticker: string; date: string; quantity: number }[];
+  /** Rows converted at today's rate or not converted at all. */
+  approximateRows: number;
+};
+
+const SOURCE_RANK: Record<FxSource, number> = { 'trade-date': 0, current: 1, missing: 2 };
+
+function yearOf(date: string): number | null {
+  return parseTradeDate(date)?.getUTCFullYear() ?? null;
+}
+
+const REPORTED_TYPES = new Set(['Sell', 'Dividend', 'Withholding Tax']);
+
+/** Years with a sale, a dividend or withholding tax, newest first. */
+export function reportYears(operations: Operation[]): number[] {
+  const years = new Set<number>();
+  for (const op of operations) {
+    if (!REPORTED_TYPES.has(op.operation_type)) continue;
+    const year = yearOf(op.trade_date);
+    if (year !== null) years.add(year);
+  }
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+export function buildTaxReport(
+  operations: Operation[],
+  options: { year: number; method?: CostMethod; rates: RateMap; tradeDateRate?: TradeDateRate }
+): TaxReport {
+  const { year, rates } = options;
+  const method = options.method ?? 'FIFO';
+  const tradeDateRate = options.tradeDateRate ?? operationFxRate;
+  const byId = new Map(operations.map((op) => [op.id, op]));
+
+  const rateFor = (op: Operation | undefined, currency: string): { rate: number | null; source: FxSource } => {
+    const code = (currency || BASE_CURRENCY).toUpperCase();
+    if (code === BASE_CURRENCY) return { rate: 1, source: 'trade-date' };
+    const onDate = op ? tradeDateRate(op) : null;
+    if (onDate && onDate > 0) return { rate: onDate, source: 'trade-date' };
+    const current = rates[code];
+    return current && current > 0 ? { rate: current, source: 'current' } : { rate: null, source: 'missing' };
+  };
+  const worst = (a: FxSource, b: FxSource) => (SOURCE_RANK[a] >= SOURCE_RANK[b] ? a : b);
+
+  const lots: TaxLotRow[] = [];
+  const unmatched: TaxReport['unmatched'] = [];
+  for (const ticker of buildTaxLots(operations, method)) {
+    for (const sale of ticker.sales) {
+      if (yearOf(sale.date) !== year) continue;
+      if (sale.unmatchedQuantity > 0) unmatched.push({ ticker: sale.ticker, date: sale.date, quantity: sale.unmatchedQuantity });
+      const sell = rateFor(byId.get(sale.sellOperationId), sale.currency);
+      for (const lot of sale.lots) {
+        const buy = rateFor(byId.get(lot.buyOperationId), lot.currency);
+        const costBase = buy.rate ? lot.cost / buy.rate : null;
+        const proceedsBase = sell.rate ? lot.proceeds / sell.rate : null;
+        lots.push({
+          ticker: lot.ticker,
+          currency: lot.currency,
+          openDate: lot.openDate,
+          closeDate: lot.closeDate,
+          quantity: lot.quantity,
+          costLocal: lot.cost,
+          proceedsLocal: lot.proceeds,
+          gainLocal: lot.realizedPnl,
+          costBase,
+          proceedsBase,
+          gainBase: costBase !== null && proceedsBase !== null ? proceedsBase - costBase : null,
+          holdingDays: lot.holdingDays,
+          longTerm: lot.longTerm,
+          fxSource: worst(buy.source, sell.source),
+        });
+      }
+    }
+  }
+  lots.sort((a, b) => (parseTradeDate(a.closeDate)?.getTime() ?? 0) - (parseTradeDate(b.closeDate)?.getTime() ?? 0) || a.ticker.localeCompare(b.ticker));
+
+  const incomeRows = (type: Operation['operation_type']): DividendRow[] =>
+    [...operations]
+      .filter((op) => op.operation_type === type && yearOf(op.trade_date) === year)
+      .sort(compareByTradeDate)
+      .map((op) => {
+        const amountLocal = operationAmount(op);
+        const fx = rateFor(op, op.currency);
+        return {
+          date: op.trade_date,
+          ticker: (op.ticker || '').toUpperCase(),
+          currency: (op.currency || BASE_CURRENCY).toUpperCase(),
+          amountLocal,
+          amountBase: fx.rate ? amountLocal / fx.rate : null,
+          fxSource: fx.source,
+        };
+      });
+  const dividends = incomeRows('Dividend');
+  const withholding = incomeRows('Withholding Tax');
+
+  const currencies = new Map<string, CurrencyTotals>();
+  const bucket = (currency: string) => {
+    const key = currency.toUpperCase();
+    const existing = currencies.get(key) ?? {
+      currency: key,
+      gainLocal: 0,
+      gainBase: 0,
+      dividendsLocal: 0,
+      dividendsBase: 0,
+      withholdingLocal: 0,
+      withholdingBase: 0,
+    };
+    currencies.set(key, existing);
+    return existing;
+  };
+  for (const lot of lots) {
+    const b = bucket(lot.currency);
+    b.gainLocal += lot.gainLocal;
+    b.gainBase += lot.gainBase ?? 0;
+  }
+  for (const d of dividends) {
+    const b = bucket(d.currency);
+    b.dividendsLocal += d.amountLocal;
+    b.dividendsBase += d.amountBase ?? 0;
+  }
+  for (const w of withholding) {
+    const b = bucket(w.currency);
+    b.withholdingLocal += w.amountLocal;
+    b.withholdingBase += w.amountBase ?? 0;
+  }
+
+  const gains = lots.map((l) => l.gainBase ?? 0);
+  const dividendsBase = dividends.reduce((sum, d) => sum + (d.amountBase ?? 0), 0);
+  return {
+    year,
+    method,
+    baseCurrency: BASE_CURRENCY,
+    lots,
+    dividends,
+    withholding,
+    byCurrency: Array.from(currencies.values()).sort((a, b) => a.currency.localeCompare(b.currency)),
+    totals: {
+      gainsBase: gains.filter((g) => g > 0).reduce((a, b) => a + b, 0),
+      lossesBase: gains.filter((g) => g < 0).reduce((a, b) => a + b, 0),
+      netBase: gains.reduce((a, b) => a + b, 0),
+      shortTermBase: lots.filter((l) => !l.longTerm).reduce((sum, l) => sum + (l.gainBase ?? 0), 0),
+      longTermBase: lots.filter((l) => l.longTerm).reduce((sum, l) => sum + (l.gainBase ?? 0), 0),
+      dividendsBase,
+      withholdingBase: withholding.reduce((sum, w) => sum + (w.amountBase ?? 0), 0),
+    },
+    unmatched,
+    approximateRows: [...lots, ...dividends, ...withholding].filter((r) => r.fxSource !== 'trade-date').length,
+  };
+}
+
+const round = (n: number | null, digits = 2) => (n === null ? null : Number(n.toFixed(digits)));
+
+/** Report as spreadsheet rows: realized lots, dividends, withholding tax, then totals, separated by blank rows. */
+export function taxReportRows(report: TaxReport): SheetCell[][] {
+  const base = report.baseCurrency;
+  return [
+    [`Capital gains report ${report.year}`, `Method: ${report.method}`, `Base: ${base}`],
+    [],
+    ['Realized lots'],
+    ['Ticker', 'Currency', 'Bought', 'Sold', 'Quantity', 'Cost', 'Proceeds', 'Gain', `Cost (${base})`, `Proceeds (${base})`, `Gain (${base})`, 'Days held', 'Term', 'FX'],
+    ...report.lots.map((l) => [
+      l.ticker, l.currency, l.openDate, l.closeDate, round(l.quantity, 6), round(l.costLocal), round(l.proceedsLocal), round(l.gainLocal),
+      round(l.costBase), round(l.proceedsBase), round(l.gainBase), l.holdingDays, l.longTerm ? 'Long' : 'Short', l.fxSource,
+    ]),
+    [],
+    ['Dividends'],
+    ['Date', 'Ticker', 'Currency', 'Amount', `Amount (${base})`, 'FX'],
+    ...report.dividends.map((d) => [d.date, d.ticker, d.currency, round(d.amountLocal), round(d.amountBase), d.fxSource]),
+    [],
+    ['Withholding tax'],
+    ['Date', 'Ticker', 'Currency', 'Amount', `Amount (${base})`, 'FX'],
+    ...report.withholding.map((w) => [w.date, w.ticker, w.currency, round(w.amountLocal), round(w.amountBase), w.fxSource]),
+    [],
+    ['Totals by currency'],
+    ['Currency', 'Gain', `Gain (${base})`, 'Dividends', `Dividends (${base})`, 'Withheld', `Withheld (${base})`],
+    ...report.byCurrency.map((c) => [
+      c.currency, round(c.gainLocal), round(c.gainBase), round(c.dividendsLocal), round(c.dividendsBase), round(c.withholdingLocal), round(c.withholdingBase),
+    ]),
+    [],
+    ['Gains', round(report.totals.gainsBase)],
+    ['Losses', round(report.totals.lossesBase)],
+    ['Net', round(report.totals.netBase)],
+    ['Short-term', round(report.totals.shortTermBase)],
+    ['Long-term', round(report.totals.longTermBase)],
+    ['Dividends', round(report.totals.dividendsBase)],
+    ['Withholding tax', round(report.totals.withholdingBase)],
+  ];
+}
@@ -0,0 +1,44 @@
+/**
+ * Trade date helpers. Operations carry trade_date as DD.MM.YYYY (what AddOperationModal sends);
+ * ISO dates (YYYY-MM-DD…) are accepted too since the backend may normalize them.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse an operation trade date to a UTC midnight Date; null when unparseable. */
+export function parseTradeDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const dotted = /^(\d{2})\.(\d{2})\.(\d{4})$/.exec(trimmed);
+  if (dotted) {
+    const [, dd, mm, yyyy] = dotted;
+    const d = new Date(Date.UTC(Number(yyyy), Number(mm) - 1, Number(dd)));
+    return d.getUTCDate() === Number(dd) && d.getUTCMonth() === Number(mm) - 1 ? d : null;
+  }
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (iso) {
+    const [, yyyy, mm, dd] = iso;
+    return new Date(Date.UTC(Number(yyyy), Number(mm) - 1, Number(dd)));
+  }
+  return null;
+}
+
+/** Format a Date as DD.MM.YYYY (UTC). */
+export function formatTradeDate(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}.${month}.${date.getUTCFullYear()}`;
+}
+
+/** Whole days between two dates (b - a). */
+export function daysBetween(a: Date, b: Date): number {
+  return Math.round((b.getTime() - a.getTime()) / DAY_MS);
+}
+
+/** Sort key for operations: trade date, then id so same-day entries keep entry order. */
+export function compareByTradeDate<T extends { id: number; trade_date: string }>(a: T, b: T): number {
+  const ta = parseTradeDate(a.trade_date)?.getTime() ?? 0;
+  const tb = parseTradeDate(b.trade_date)?.getTime() ?? 0;
+  if (ta !== tb) return ta - tb;
+  return a.id - b.id;
+}
@@ -0,0 +1,65 @@
+import { simulateTrades } from './tradeSandbox';
+import type { Stock } from '@/lib/api';
+
+function stock(id: number, ticker: string, sector: string, weight: number, extra: Partial<Stock> = {}): Stock {
+  return { ...({} as Stock), id, ticker, sector, weight, shares_owned: 10, currency: 'EUR', ...extra };
+}
+
+const targets = { Technology: { min: 20, max: 40 }, Healthcare: { min: 20, max: 40 }, Energy: { min: 5, max: 10 } };
+const rates = { EUR: 1, USD: 2 };
+const input = {
+  stocks: [stock(1, 'MSFT', 'Technology', 0.6), stock(2, 'NOVO', 'Healthcare', 0.4)],
+  totalValue: 1000,
+  cashBase: 200,
+  rates,
+  targets,
+  cashTarget: { min: 8, max: 12 },
+};
+
+describe('tradeSandbox', () => {
+  it('stacks trades and moves cash', () => {
+    const result = simulateTrades(input, [
+      { side: 'Sell', ticker: 'MSFT', sector: 'Technology', currency: 'EUR', quantity: 2, price: 50 },
+      { side: 'Buy', ticker: 'NOVO', sector: 'Healthcare', currency: 'USD', quantity: 1, price: 100 },
+    ]);
+    expect(result.equityBefore).toBeCloseTo(1000, 6);
+    expect(result.equityAfter).toBeCloseTo(950, 6);
+    expect(result.cashAfter).toBeCloseTo(250, 6);
+    expect(result.cashPctAfter).toBeCloseTo((250 / 1200) * 100, 6);
+    const tech = result.sectors.find((s) => s.sector === 'Technology')!;
+    expect(tech.beforePct).toBeCloseTo(60, 6);
+    expect(tech.afterPct).toBeCloseTo((500 / 950) * 100, 6);
+    expect(tech.status).toBe('over');
+  });
+
+  it('adds a new position for an unknown ticker and updates concentration', () => {
+    const result = simulateTrades(input, [
+      { side: 'Buy', ticker: 'xom', sector: 'Energy', currency: 'EUR', quantity: 1, price: 100 },
+    ]);
+    expect(result.sectors.find((s) => s.sector === 'Energy')).toMatchObject({ beforePct: 0, status: 'at' });
+    expect(result.concentrationAfter.maxPositionPct).toBeCloseTo((600 / 1100) * 100, 6);
+    expect(result.cashAfter).toBeCloseTo(100, 6);
+  });
+
+  it('reports suggested actions resolved and introduced by the trades', () => {
+    const result = simulateTrades(input, [
+      { side: 'Sell', ticker: 'MSFT', sector: 'Technology', currency: 'EUR', quantity: 4, price: 100 },
+    ]);
+    expect(result.actionsRemoved.map((a) => a.type)).toEqual(['sector_over']);
+    expect(result.actionsAdded.map((a) => a.type)).toEqual(['sector_over']);
+    expect(result.actionsAdded[0]).toMatchObject({ sector: 'Healthcare' });
+  });
+
+  it('caps oversized sells and skips trades it cannot value, with the reason', () => {
+    const result = simulateTrades(input, [
+      { side: 'Sell', ticker: 'NOVO', sector: 'Healthcare', currency: 'EUR', quantity: 10, price: 100 },
+      { side: 'Buy', ticker: 'NOVO', sector: 'Healthcare', currency: 'DKK', quantity: 1, price: 100 },
+      { side: 'Buy', ticker: ' ', sector: 'Healthcare', currency: 'EUR', quantity: 1, price: 100 },
+      { side: 'Buy', ticker: 'NOVO', sector: 'Healthcare', currency: 'EUR', quantity: 0, price: 100 },
+    ]);
+    expect(result.oversold).toEqual(['NOVO']);
+    expect(result.cashAfter).toBeCloseTo(600, 6);
+    expect(result.skipped.map((s) => s.reason)).toEqual(['no_rate', 'no_ticker', 'no_quantity']);
+    expect(result.sectors.find((s) => s.sector === 'Healthcare')!.afterPct).toBe(0);
+  });
+});
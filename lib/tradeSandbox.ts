@@ -0,0 +1,188 @@
+/**
+ * What-if trade sandbox: applies hypothetical Buy/Sell trades to the current positions and cash
+ * and reports sector weights vs targets, concentration, cash vs the cash band and how the
+ * suggested actions change. Nothing is persisted; position values are weight × total_value (EUR).
+ */
+import type { Stock } from '@/lib/api';
+import { convertToBase, type RateMap } from '@/lib/fx';
+import {
+  getConcentration,
+  getSectorRebalanceSummary,
+  getSuggestedActions,
+  type ConcentrationSummary,
+  type SuggestedAction,
+} from '@/lib/portfolioInsights';
+import { CASH_TARGET_PCT, SECTOR_TARGET_PCT } from '@/lib/sectorTargets';
+
+type TargetMap = Record<string, { min: number; max: number }>;
+
+export type HypotheticalTrade = {
+  side: 'Buy' | 'Sell';
+  ticker: string;
+  sector: string;
+  currency: string;
+  quantity: number;
+  /** Price per share in the trade currency. */
+  price: number;
+};
+
+/** Why a trade was left out of the simulation. */
+export type SkipReason = 'no_ticker' | 'no_quantity' | 'no_rate';
+
+export type SkippedTrade = { trade: HypotheticalTrade; reason: SkipReason };
+
+export type SandboxInput = {
+  stocks: Stock[];
+  /** Equity value in base currency (PortfolioMetrics.total_value). */
+  totalValue: number;
+  cashBase: number;
+  rates: RateMap;
+  targets?: TargetMap;
+  cashTarget?: { min: number; max: number };
+};
+
+export type SandboxSector = {
+  sector: string;
+  beforePct: number;
+  afterPct: number;
+  targetMin: number | null;
+  targetMax: number | null;
+  status: 'under' | 'at' | 'over' | 'none';
+};
+
+export type SandboxResult = {
+  equityBefore: number;
+  equityAfter: number;
+  cashBefore: number;
+  cashAfter: number;
+  /** Cash as percent of equity + cash. */
+  cashPctBefore: number;
+  cashPctAfter: number;
+  cashTarget: { min: number; max: number };
+  sectors: SandboxSector[];
+  concentrationBefore: ConcentrationSummary;
+  concentrationAfter: ConcentrationSummary;
+  /** Suggested actions that appear after the trades. */
+  actionsAdded: SuggestedAction[];
+  /** Suggested actions that the trades resolve. */
+  actionsRemoved: SuggestedAction[];
+  /** Trades that cannot be simulated (no ticker, no shares, or no exchange rate); they are ignored. */
+  skipped: SkippedTrade[];
+  /** Sells larger than the position; capped at the position value. */
+  oversold: string[];
+};
+
+const tickerKey = (ticker: string) => (ticker || '').trim().toUpperCase();
+
+/** Stable identity for comparing suggested actions before and after. */
+export function suggestedActionKey(action: SuggestedAction): string {
+  return action.type === 'sector_over' ? `${action.type}:${action.sector.toLowerCase()}` : `${action.type}:${tickerKey(action.stock.ticker)}`;
+}
+
+function sectorWeights(stocks: Stock[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const s of stocks) {
+    if (s.shares_owned <= 0) continue;
+    const sector = (s.sector || '').trim() || 'Unknown';
+    out[sector] = (out[sector] ?? 0) + s.weight;
+  }
+  return out;
+}
+
+export function simulateTrades(input: SandboxInput, trades: HypotheticalTrade[]): SandboxResult {
+  const { stocks, totalValue, cashBase, rates, targets = SECTOR_TARGET_PCT, cashTarget = CASH_TARGET_PCT } = input;
+  const before = stocks.filter((s) => s.shares_owned > 0);
+  const values = new Map<string, number>();
+  const positions = new Map<string, Stock>();
+  for (const s of before) {
+    positions.set(tickerKey(s.ticker), { ...s });
+    values.set(tickerKey(s.ticker), s.weight * totalValue);
+  }
+
+  let cash = cashBase;
+  const skipped: SkippedTrade[] = [];
+  const oversold: string[] = [];
+  let syntheticId = -1;
+  for (const trade of trades) {
+    const key = tickerKey(trade.ticker);
+    const valueBase = convertToBase(trade.quantity * trade.price, trade.currency, rates);
+    if (!key || trade.quantity <= 0 || valueBase === null) {
+      skipped.push({ trade, reason: !key ? 'no_ticker' : trade.quantity <= 0 ? 'no_quantity' : 'no_rate' });
+      continue;
+    }
+    let position = positions.get(key);
+    if (!position) {
+      // A buy of something we do not hold (or hold only on the watchlist).
+      const known = stocks.find((s) => tickerKey(s.ticker) === key);
+      position = { ...({} as Stock), ...known, id: known?.id ?? syntheticId--, ticker: trade.ticker, sector: known?.sector || trade.sector, currency: trade.currency, shares_owned: 0, weight: 0 };
+      positions.set(key, position);
+      values.set(key, 0);
+    }
+    const held = values.get(key) ?? 0;
+    if (trade.side === 'Buy') {
+      values.set(key, held + valueBase);
+      position.shares_owned += trade.quantity;
+      cash -= valueBase;
+    } else {
+      const sold = Math.min(valueBase, held);
+      if (valueBase > held + 0.005) oversold.push(trade.ticker);
+      values.set(key, held - sold);
+      position.shares_owned = Math.max(0, position.shares_owned - trade.quantity);
+      cash += sold;
+    }
+  }
+
+  const equityAfter = Array.from(values.values()).reduce((sum, v) => sum + v, 0);
+  const after: Stock[] = Array.from(positions.entries())
+    .map(([key, s]) => ({ ...s, weight: equityAfter > 0 ? (values.get(key) ?? 0) / equityAfter : 0 }))
+    .filter((s) => s.shares_owned > 0);
+
+  const weightsBefore = sectorWeights(before);
+  const weightsAfter = sectorWeights(after);
+  const summary = getSectorRebalanceSummary(weightsAfter, targets);
+  const statusBySector = new Map<string, SandboxSector['status']>();
+  summary.over.forEach((d) => statusBySector.set(d.sector, 'over'));
+  summary.at.forEach((d) => statusBySector.set(d.sector, 'at'));
+  summary.under.forEach((d) => statusBySector.set(d.sector, 'under'));
+  const targetFor = (sector: string) => {
+    const key = Object.keys(targets).find((k) => k.toLowerCase() === sector.toLowerCase());
+    return key ? targets[key] : null;
+  };
+  const sectors: SandboxSector[] = Array.from(new Set([...Object.keys(weightsBefore), ...Object.keys(weightsAfter)]))
+    .map((sector) => {
+      const target = targetFor(sector);
+      return {
+        sector,
+        beforePct: (weightsBefore[sector] ?? 0) * 100,
+        afterPct: (weightsAfter[sector] ?? 0) * 100,
+        targetMin: target?.min ?? null,
+        targetMax: target?.max ?? null,
+        status: statusBySector.get(sector) ?? (target ? 'under' : 'none'),
+      };
+    })
+    .sort((a, b) => b.afterPct - a.afterPct);
+
+  const actionsBefore = getSuggestedActions(weightsBefore, before, targets);
+  const actionsAfter = getSuggestedActions(weightsAfter, after, targets);
+  const keysBefore = new Set(actionsBefore.map(suggestedActionKey));
+  const keysAfter = new Set(actionsAfter.map(suggestedActionKey));
+
+  const equityBefore = before.reduce((sum, s) => sum + s.weight * totalValue, 0);
+  const pct = (c: number, e: number) => (c + e > 0 ? (c / (c + e)) * 100 : 0);
+  return {
+    equityBefore,
+    equityAfter,
+    cashBefore: cashBase,
+    cashAfter: cash,
+    cashPctBefore: pct(cashBase, equityBefore),
+    cashPctAfter: pct(cash, equityAfter),
+    cashTarget,
+    sectors,
+    concentrationBefore: getConcentration(before),
+    concentrationAfter: getConcentration(after),
+    actionsAdded: actionsAfter.filter((a) => !keysBefore.has(suggestedActionKey(a))),
+    actionsRemoved: actionsBefore.filter((a) => !keysAfter.has(suggestedActionKey(a))),
+    skipped,
+    oversold,
+  };
+}
@@ -0,0 +1,34 @@
+import { checkISIN, checkTicker, isValidISIN, isValidTicker, isinCheckDigit, isinCountry } from './validation';
+
+describe('validation', () => {
+  it('accepts international tickers with known exchange suffixes', () => {
+    for (const ticker of ['AAPL', 'brk.b', 'BRK-B', 'NOVO-B.CO', '7203.T', 'RDSA.AS', '0700.HK', 'SHEL.L']) {
+      expect(isValidTicker(ticker)).toBe(true);
+    }
+    expect(checkTicker('novo-b.co').exchange).toMatchObject({ country: 'DK', currency: 'DKK' });
+    expect(checkTicker('BRK.B').exchange).toBeNull();
+  });
+
+  it('rejects unknown suffixes and symbols that do not fit the exchange', () => {
+    expect(checkTicker('ABC.XY').error).toMatch(/Unknown exchange suffix \.XY/);
+    expect(checkTicker('TOYOTA.T').error).toMatch(/Tokyo/);
+    expect(isValidTicker('7203')).toBe(false);
+    expect(isValidTicker('AB CD')).toBe(false);
+    expect(isValidTicker('')).toBe(false);
+  });
+
+  it('verifies the ISIN check digit', () => {
+    expect(isinCheckDigit('US037833100')).toBe(5);
+    for (const isin of ['US0378331005', 'US5949181045', 'DK0062498333', 'JP3633400001', 'NL0000235190']) {
+      expect(isValidISIN(isin)).toBe(true);
+    }
+    expect(checkISIN('US0378331006')).toMatchObject({ valid: false, error: 'ISIN check digit should be 5' });
+    expect(isValidISIN('US037833100')).toBe(false);
+  });
+
+  it('derives the country from the ISIN prefix', () => {
+    expect(checkISIN('dk0062498333').country).toEqual({ code: 'DK', name: 'Denmark' });
+    expect(isinCountry('US0378331006')).toBe('US');
+    expect(isinCountry('not an isin')).toBeNull();
+  });
+});
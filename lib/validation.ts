@@ -2,16 +2,58 @@
  * Input validation and sanitization utilities
  * Used throughout the application for consistent data validation
  */
+import { EXCHANGE_SUFFIXES, ISIN_COUNTRY_NAMES, type ExchangeInfo } from '@/lib/exchanges';
+
+export type TickerCheck = {
+  valid: boolean;
+  /** Upper-cased, trimmed ticker. */
+  ticker: string;
+  /** Listing exchange when the ticker carries a known suffix; null for US-style tickers. */
+  exchange: ExchangeInfo | null;
+  error?: string;
+};
+
+// Local symbol: letters/digits with an optional share-class part (BRK-B, NOVO-B, 7203).
+const TICKER_SYMBOL = /^[A-Z0-9]{1,6}(-[A-Z0-9]{1,3})?$/;
+// Share class written with a period (BRK.B) when the letter is not an exchange suffix.
+const SHARE_CLASS = /^[A-Z]$/;
 
 /**
- * Validates a stock ticker format
- * Valid tickers: 1-10 uppercase letters, optionally with a period (e.g., BRK.B)
+ * Parses a stock ticker, resolving a trailing `.XX` against the exchange suffix registry.
+ * Accepts AAPL, BRK.B, BRK-B, NOVO-B.CO, 7203.T, RDSA.AS.
+ */
+export function checkTicker(ticker: string): TickerCheck {
+  const trimmed = (ticker || '').trim().toUpperCase();
+  if (!trimmed) return { valid: false, ticker: trimmed, exchange: null, error: 'Ticker is required' };
+
+  const dot = trimmed.lastIndexOf('.');
+  const symbol = dot > 0 ? trimmed.slice(0, dot) : trimmed;
+  const suffix = dot > 0 ? trimmed.slice(dot + 1) : '';
+  const exchange = suffix ? EXCHANGE_SUFFIXES[suffix] ?? null : null;
+
+  if (suffix && !exchange) {
+    if (SHARE_CLASS.test(suffix) && /^[A-Z]{1,5}$/.test(symbol)) {
+      return { valid: true, ticker: trimmed, exchange: null };
+    }
+    return { valid: false, ticker: trimmed, exchange: null, error: `Unknown exchange suffix .${suffix}` };
+  }
+  if (!TICKER_SYMBOL.test(symbol)) {
+    return { valid: false, ticker: trimmed, exchange, error: 'Ticker may only contain letters, digits and one share-class dash' };
+  }
+  if (exchange?.symbolPattern && !exchange.symbolPattern.test(symbol)) {
+    return { valid: false, ticker: trimmed, exchange, error: `${symbol} is not a valid ${exchange.name} symbol` };
+  }
+  if (!exchange && !/[A-Z]/.test(symbol)) {
+    return { valid: false, ticker: trimmed, exchange, error: 'Numeric tickers need an exchange suffix, e.g. 7203.T' };
+  }
+  return { valid: true, ticker: trimmed, exchange };
+}
+
+/**
+ * Validates a stock ticker format, including exchange suffixes (see checkTicker)
  */
 export function isValidTicker(ticker: string): boolean {
-  if (!ticker) return false;
-  const trimmed = ticker.trim().toUpperCase();
-  // Allow 1-10 uppercase letters, optionally with a single period for class shares
-  return /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/.test(trimmed);
+  return checkTicker(ticker).valid;
 }
 
 /**
@@ -60,14 +102,58 @@ export function isValidCurrencyCode(code: string): boolean {
   return /^[A-Z]{3}$/.test(code.trim().toUpperCase());
 }
 
+export type ISINCheck = {
+  valid: boolean;
+  isin: string;
+  /** Country prefix with its name; set whenever the format is right, even if the check digit is not. */
+  country: { code: string; name: string } | null;
+  error?: string;
+};
+
+/** Luhn check digit for the first 11 characters of an ISIN (letters expand to 10-35). */
+export function isinCheckDigit(body: string): number {
+  const digits = body
+    .toUpperCase()
+    .split('')
+    .map((c) => (c >= 'A' && c <= 'Z' ? String(c.charCodeAt(0) - 55) : c))
+    .join('');
+  let sum = 0;
+  // Double every second digit from the right, counting the (missing) check digit as position 1.
+  for (let i = digits.length - 1, double = true; i >= 0; i--, double = !double) {
+    let d = Number(digits[i]) * (double ? 2 : 1);
+    if (d > 9) d -= 9;
+    sum += d;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Parses an ISIN: 2 letter country code + 9 alphanumeric characters + 1 Luhn check digit
+ */
+export function checkISIN(isin: string): ISINCheck {
+  const trimmed = (isin || '').trim().toUpperCase();
+  if (!/^[A-Z]{2}[A-Z0-9]{9}[0-9]$/.test(trimmed)) {
+    return { valid: false, isin: trimmed, country: null, error: 'ISIN must be 2 letters, 9 letters or digits and a check digit' };
+  }
+  const code = trimmed.slice(0, 2);
+  const country = { code, name: ISIN_COUNTRY_NAMES[code] ?? code };
+  const expected = isinCheckDigit(trimmed.slice(0, 11));
+  if (Number(trimmed[11]) !== expected) {
+    return { valid: false, isin: trimmed, country, error: `ISIN check digit should be ${expected}` };
+  }
+  return { valid: true, isin: trimmed, country };
+}
+
 /**
- * Validates an ISIN (International Securities Identification Number)
- * Format: 2 letter country code + 9 alphanumeric characters + 1 check digit
+ * Validates an ISIN (International Securities Identification Number), including the check digit
  */
 export function isValidISIN(isin: string): boolean {
-  if (!isin) return false;
-  const trimmed = isin.trim().toUpperCase();
-  return /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/.test(trimmed);
+  return checkISIN(isin).valid;
+}
+
+/** Country code from an ISIN prefix, or null when the ISIN is not well-formed. */
+export function isinCountry(isin: string): string | null {
+  return checkISIN(isin).country?.code ?? null;
 }
 
 /**
@@ -0,0 +1,37 @@
+/**
+ * @jest-environment node
+ */
+import { buildXlsx, columnName, crc32, zipStored } from './xlsx';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('xlsx', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('names columns like a spreadsheet', () => {
+    expect([0, 25, 26, 51, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA']);
+  });
+
+  it('writes a stored zip with a central directory', () => {
+    const bytes = zipStored({ 'a.txt': 'hello' });
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(14, true)).toBe(crc32(new TextEncoder().encode('hello')));
+    expect(decode(bytes.slice(35, 40))).toBe('hello');
+  });
+
+  it('writes inline strings and numeric cells with escaping', () => {
+    const text = decode(buildXlsx('Portfolio', [['Ticker', 'Price'], ['AT&T <T>', 17.5], ['EMPTY', null]]));
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('<sheet name="Portfolio"');
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">AT&amp;T &lt;T&gt;</t></is></c>');
+    expect(text).toContain('<c r="B2"><v>17.5</v></c>');
+    expect(text).toContain('<row r="3"><c r="A3"');
+    expect(text).not.toContain('r="B3"');
+  });
+});